@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import './App.css';
 import { Game } from './game/core/Game';
 import type { GameState } from './game/core/GameState';
@@ -8,9 +8,19 @@ import { LoadingScreen } from './ui/components/LoadingScreen';
 import { HUD } from './ui/hud/HUD';
 import { GameOverScreen } from './ui/components/GameOverScreen';
 import { SettingsOverlay } from './ui/components/SettingsOverlay';
+import { CraftingPanel } from './ui/components/CraftingPanel';
+import { ReplayBrowser } from './ui/components/ReplayBrowser';
+import { ReplayTransport, useReplayStatus } from './ui/components/ReplayTransport';
+import { ReplayLibrary } from './game/core/replay/ReplayLibrary';
+import { DevConsoleOverlay } from './ui/components/DevConsoleOverlay';
+import { PerfOverlay, downloadPerfCapture } from './ui/hud/PerfOverlay';
+import { resolveDevConsoleEnabled } from './game/core/debug/DevConsole';
 import type { RuntimeSettings } from './game/core/settings/RuntimeSettings';
 import { RuntimeSettingsStore, createDefaultRuntimeSettings } from './game/core/settings/RuntimeSettingsStore';
 import { LanguageToggle } from './ui/components/LanguageToggle';
+import { createDefaultLoadout, createInitialMagazines, createInitialReserveAmmo, createInitialToolDurability } from './game/weapon/Inventory';
+import { InitialState } from './game/core/GameConfig';
+import { createEmptyItems, createEmptyResources } from './game/crafting/Crafting';
 
 function App() {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -26,17 +36,44 @@ function App() {
   }
   const settingsStore = settingsStoreRef.current;
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [craftingOpen, setCraftingOpen] = useState(false);
+  const [replayBrowserOpen, setReplayBrowserOpen] = useState(false);
+  const [devConsoleEnabled] = useState(resolveDevConsoleEnabled);
+  const [devConsoleOpen, setDevConsoleOpen] = useState(false);
+  const [replayLibraryRevision, setReplayLibraryRevision] = useState(0);
+  const replayLibraryRef = useRef<ReplayLibrary | null>(null);
+  if (!replayLibraryRef.current) {
+    replayLibraryRef.current = new ReplayLibrary();
+  }
+  const replayLibrary = replayLibraryRef.current;
+  const getReplayStatus = useCallback(() => gameRef.current?.getReplayStatus() ?? null, []);
+  const getPerfMonitor = useCallback(() => gameRef.current?.getPerfMonitor() ?? null, []);
+  const exportPerfCapture = useCallback(() => {
+    const json = gameRef.current?.exportPerfCapture();
+    if (json) downloadPerfCapture(json);
+  }, []);
+  const replayStatus = useReplayStatus(getReplayStatus);
+  const replayPlaying = replayStatus?.mode === 'playback';
   const [runtimeSettings, setRuntimeSettings] = useState<RuntimeSettings>(() => settingsStore.get());
   const [gameState, setGameState] = useState<GameState>({
     health: 100,
-    ammo: 300000,
+    magazines: createInitialMagazines(),
+    reserveAmmo: createInitialReserveAmmo(),
+    loadout: createDefaultLoadout(),
+    toolDurability: createInitialToolDurability(),
+    resources: createEmptyResources(),
+    items: createEmptyItems(),
+    reloadProgress: 0,
     grenades: 1000,
     currentWeapon: 'rifle',
     chargeProgress: 0,
     stance: 'stand',
+    survival: { ...InitialState.survival },
     score: 0,
     isGameOver: false,
-    pickupHint: null
+    pickupHint: null,
+    buildMode: null,
+    wave: null
   });
   
   // 加载状态
@@ -57,6 +94,13 @@ function App() {
     return root === lockedEl || root.contains(lockedEl);
   };
 
+  const saveRecording = useCallback((bytes: Uint8Array) => {
+    replayLibrary
+      .save(bytes)
+      .then(() => setReplayLibraryRevision((r) => r + 1))
+      .catch((err) => console.warn('[App] saving replay failed:', err));
+  }, [replayLibrary]);
+
   const resetRuntimeSettings = () => {
     settingsStore.set(createDefaultRuntimeSettings());
   };
@@ -65,6 +109,11 @@ function App() {
     // Close settings immediately and best-effort lock pointer.
     // If lock fails (gesture requirement), user can click the game to lock.
     setSettingsOpen(false);
+    setCraftingOpen(false);
+    setReplayBrowserOpen(false);
+    setDevConsoleOpen(false);
+    // A playing replay drives the player; keep the mouse for the transport bar.
+    if (gameRef.current?.getReplayStatus()?.mode === 'playback') return;
     gameRef.current?.lockPointer();
   };
 
@@ -86,7 +135,7 @@ function App() {
                         setLoadingProgress(progress);
                         setLoadingDesc(desc);
                     },
-                    { runtimeSettings: settingsStore.get(), services }
+                    { runtimeSettings: settingsStore.get(), services, onReplayRecorded: saveRecording }
                 );
             }
         }, 50);
@@ -131,7 +180,7 @@ function App() {
         gameRef.current = null;
       }
     };
-  }, [settingsStore, services]);
+  }, [settingsStore, services, saveRecording]);
 
   // services is stable (ref-backed) but include it for exhaustive-deps.
 
@@ -147,12 +196,12 @@ function App() {
 
   useEffect(() => {
     // Prevent the game's click-to-lock handler from firing while UI overlays are active.
-    if (isLoading || settingsOpen) {
+    if (isLoading || settingsOpen || craftingOpen || replayBrowserOpen || replayPlaying || devConsoleOpen) {
       document.body.dataset.uiModalOpen = '1';
     } else {
       delete document.body.dataset.uiModalOpen;
     }
-  }, [isLoading, settingsOpen]);
+  }, [isLoading, settingsOpen, craftingOpen, replayBrowserOpen, replayPlaying, devConsoleOpen]);
 
   useEffect(() => {
     const onPointerLockChange = () => {
@@ -161,6 +210,9 @@ function App() {
 
       if (isPointerLocked()) {
         setSettingsOpen(false);
+        setCraftingOpen(false);
+        setReplayBrowserOpen(false);
+        setDevConsoleOpen(false);
       }
     };
 
@@ -182,10 +234,12 @@ function App() {
     const onKeyDown = (e: KeyboardEvent) => {
       if (e.key !== 'Escape') return;
       if (isLoading) return;
+      // The controls tab is capturing a new binding; Esc cancels that instead.
+      if (document.body.dataset.bindingCapture === '1') return;
       if (gameState.isGameOver) return;
 
-      // If settings is open, Esc resumes (attempts to lock pointer).
-      if (settingsOpen) {
+      // If settings/crafting/replays/console is open, Esc resumes (attempts to lock pointer).
+      if (settingsOpen || craftingOpen || replayBrowserOpen || devConsoleOpen) {
         e.preventDefault();
         requestResume();
         return;
@@ -207,7 +261,104 @@ function App() {
     // Use capture so inputs (range/number) inside Settings can't swallow Esc.
     window.addEventListener('keydown', onKeyDown, { capture: true });
     return () => window.removeEventListener('keydown', onKeyDown, { capture: true } as any);
-  }, [isLoading, gameState.isGameOver, settingsOpen]);
+  }, [isLoading, gameState.isGameOver, settingsOpen, craftingOpen, replayBrowserOpen, devConsoleOpen]);
+
+  useEffect(() => {
+    // Tab toggles the crafting panel: unlock the pointer so the panel is clickable, re-lock on close.
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Tab') return;
+      if (isLoading) return;
+      if (gameState.isGameOver) return;
+      // The console uses Tab for autocomplete.
+      if (settingsOpen || replayBrowserOpen || devConsoleOpen) return;
+      // Crafting isn't available while watching a replay.
+      if (replayPlaying) return;
+
+      e.preventDefault();
+      if (craftingOpen) {
+        requestResume();
+        return;
+      }
+      gameRef.current?.unlockPointer();
+      setCraftingOpen(true);
+    };
+
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [isLoading, gameState.isGameOver, settingsOpen, craftingOpen, replayBrowserOpen, replayPlaying, devConsoleOpen]);
+
+  useEffect(() => {
+    // F9 starts / stops recording (saved to the replay library); F8 opens the replay browser.
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F9' && e.code !== 'F8') return;
+      if (isLoading) return;
+      if (document.body.dataset.bindingCapture === '1') return;
+      const game = gameRef.current;
+      if (!game) return;
+      e.preventDefault();
+
+      if (e.code === 'F9') {
+        if (game.isRecording()) {
+          const bytes = game.stopRecording();
+          if (bytes) saveRecording(bytes);
+        } else {
+          game.startRecording();
+        }
+        return;
+      }
+
+      if (settingsOpen || craftingOpen) return;
+      if (replayBrowserOpen) {
+        requestResume();
+        return;
+      }
+      game.unlockPointer();
+      setReplayBrowserOpen(true);
+    };
+
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [isLoading, settingsOpen, craftingOpen, replayBrowserOpen, saveRecording]);
+
+  useEffect(() => {
+    // F3 toggles the perf HUD; Shift+F3 downloads a capture of the recent frames.
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F3') return;
+      if (isLoading) return;
+      if (document.body.dataset.bindingCapture === '1') return;
+      const monitor = gameRef.current?.getPerfMonitor();
+      if (!monitor) return;
+      e.preventDefault();
+
+      if (e.shiftKey) {
+        if (monitor.isEnabled()) exportPerfCapture();
+        return;
+      }
+      monitor.setEnabled(!monitor.isEnabled());
+    };
+
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [isLoading, exportPerfCapture]);
+
+  useEffect(() => {
+    // ` opens the developer console (closing is handled by the console input itself).
+    if (!devConsoleEnabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Backquote') return;
+      if (isLoading || devConsoleOpen) return;
+      if (document.body.dataset.bindingCapture === '1') return;
+      if (settingsOpen || craftingOpen || replayBrowserOpen) return;
+
+      // Don't type the ` into the console input that is about to get focus.
+      e.preventDefault();
+      gameRef.current?.unlockPointer();
+      setDevConsoleOpen(true);
+    };
+
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [devConsoleEnabled, isLoading, devConsoleOpen, settingsOpen, craftingOpen, replayBrowserOpen]);
 
   return (
     <div ref={containerRef} className="w-full h-full relative">
@@ -230,6 +381,39 @@ function App() {
         onClose={requestResume}
       />
 
+      <CraftingPanel
+        open={craftingOpen}
+        gameState={gameState}
+        onCraft={(id) => gameRef.current?.craft(id)}
+        onClose={requestResume}
+      />
+
+      <ReplayBrowser
+        open={replayBrowserOpen}
+        library={replayLibrary}
+        revision={replayLibraryRevision}
+        onPlay={(bytes) => {
+          gameRef.current?.playReplay(bytes);
+          setReplayBrowserOpen(false);
+        }}
+        onClose={requestResume}
+      />
+
+      <ReplayTransport
+        status={replayStatus}
+        onTogglePause={() => gameRef.current?.setReplayPaused(!replayStatus?.paused)}
+        onSeek={(step) => gameRef.current?.seekReplay(step)}
+        onToggleFreeCamera={() => gameRef.current?.setReplayFreeCamera(!replayStatus?.freeCamera)}
+        onExit={() => {
+          gameRef.current?.stopReplay();
+          requestResume();
+        }}
+      />
+
+      <DevConsoleOverlay open={devConsoleOpen} devConsole={services.devConsole} onClose={requestResume} />
+
+      <PerfOverlay getMonitor={getPerfMonitor} onExport={exportPerfCapture} />
+
       <HUD 
         isLoading={isLoading} 
         gameState={gameState} 
@@ -238,7 +422,7 @@ function App() {
       />
 
       <GameOverScreen 
-        isGameOver={gameState.isGameOver} 
+        isGameOver={gameState.isGameOver && !replayPlaying} 
         score={gameState.score} 
         onRestart={() => gameRef.current?.reset()}
       />
@@ -0,0 +1,41 @@
+import type { ResourceType } from '../crafting/CraftingTypes';
+
+/** Placeable structure pieces. */
+export type BuildPieceType = 'wall' | 'floor' | 'door' | 'barricade';
+
+export interface BuildPieceDefinition {
+    /** Box extents (meters) before rotation: x = width, y = height, z = depth. */
+    size: { x: number; y: number; z: number };
+    health: number;
+    cost: Partial<Record<ResourceType, number>>;
+    color: number;
+    /** Whether the piece marks Pathfinding cells as blocked (floors are walkable). */
+    blocksNavigation: boolean;
+}
+
+/** HUD-facing build mode state (null in GameState when not building). */
+export interface BuildModeState {
+    piece: BuildPieceType;
+    canPlace: boolean;
+}
+
+/** Serializable placed piece (save/load). */
+export interface BuildPieceSnapshot {
+    type: BuildPieceType;
+    x: number;
+    y: number;
+    z: number;
+    /** Quarter turns around Y (0..3). */
+    rotation: number;
+    health: number;
+    open: boolean;
+}
+
+/** Build-mode actions the player input drives (implemented by BuildingSystem). */
+export interface BuildModeController {
+    isActive(): boolean;
+    toggle(): void;
+    cyclePiece(dir: number): void;
+    rotate(): void;
+    place(): boolean;
+}
@@ -4,6 +4,7 @@
  */
 import * as THREE from "three";
 import { Level } from "../level/Level";
+import { WorldDeltaStore } from "../level/WorldDeltaStore";
 import { Pathfinding } from "./Pathfinding";
 import { PhysicsSystem } from "./PhysicsSystem";
 import { enableBVH } from './BVH';
@@ -11,9 +12,14 @@ import { UniformManager } from "../shaders/TSLMaterials";
 import {
     EnemyConfig,
     EffectConfig,
+    MapConfig,
+    SimulationConfig,
 } from "./GameConfig";
 import { SystemManager } from './engine/SystemManager';
+import type { FrameContext } from './engine/System';
 import { fillFrameContext } from './engine/FrameContextBuilder';
+import { FixedStepSimulation, resolveFixedStepSettings } from './engine/FixedStepSimulation';
+import { TransformInterpolator } from './engine/TransformInterpolator';
 import { runShaderWarmup } from './warmup/ShaderWarmupService';
 import { resolveWarmupOptions } from './warmup/WarmupConfig';
 import { runInitPipeline } from './init/InitPipeline';
@@ -22,6 +28,7 @@ import { createGameInitSteps } from './init/GameInitSteps';
 import { LoadedGate } from './init/LoadedGate';
 import { HitchProfiler, resolveHitchProfilerSettings } from './perf/HitchProfiler';
 import { FpsCounter } from './perf/FpsCounter';
+import { PerfMonitor, resolvePerfMonitorEnabled } from './perf/PerfMonitor';
 import { createWebGPURenderer } from './render/RendererFactory';
 import { createSceneAndCamera } from './render/SceneFactory';
 import { resizeCameraAndRenderer } from './render/Resize';
@@ -35,14 +42,27 @@ import { createWebGpuSimulationFacade } from './gpu/GpuSimulationFacade';
 import type { RuntimeSettings } from './settings/RuntimeSettings';
 import type { RuntimeSettingsSource } from './settings/RuntimeSettings';
 import { createDefaultRuntimeSettings } from './settings/RuntimeSettingsStore';
+import { resolveGraphicsOptions } from './settings/GraphicsSettings';
 
 import { getDefaultGameServices } from './services/GameServices';
+import { resolveRunSeed } from './util/RandomStreams';
 import type { GameServices } from './services/GameServices';
 
 import { GameEventBus } from './events/GameEventBus';
 import { attachDefaultGameEventHandlers } from './events/DefaultGameEventHandlers';
 import type { GameRuntime } from './runtime/GameRuntime';
+import { GAME_SNAPSHOT_VERSION, migrateGameSnapshot, parseGameSnapshot } from './persistence/GameSnapshot';
+import type { GameSnapshot } from './persistence/GameSnapshot';
+import { canCraft } from '../crafting/Crafting';
+import { getRecipe } from '../crafting/RecipeRegistry';
+import type { RecipeId } from '../crafting/CraftingTypes';
+import { EnemyDebugOverlaySystem, resolveEnemyDebugOverlayEnabled } from '../systems/EnemyDebugOverlaySystem';
 import type { GpuSimulationFacade, ParticleSimulation } from './gpu/GpuSimulationFacade';
+import { ReplayController } from './replay/ReplayController';
+import { registerBuiltinDevCommands } from './debug/BuiltinDevCommands';
+import type { DevCheatState } from './debug/BuiltinDevCommands';
+import type { DevConsole } from './debug/DevConsole';
+import type { ReplayStatus } from './replay/ReplayController';
 
 type GameRuntimeBuilder = Pick<
     GameRuntime,
@@ -55,9 +75,12 @@ type GameRuntimeBuilder = Pick<
     | "clock"
     | "fpsCounter"
     | "hitchProfiler"
+    | "perfMonitor"
     | "systemManager"
     | "frameContext"
     | "systemTimings"
+    | "fixedStep"
+    | "interpolator"
     | "loadedGate"
     | "disposeDefaultEventHandlers"
 > & {
@@ -72,6 +95,7 @@ type GameRuntimeBuilder = Pick<
         sunLight: GameRuntime["render"]["sunLight"];
         postProcessing?: GameRuntime["render"]["postProcessing"];
         scopeAimProgress?: GameRuntime["render"]["scopeAimProgress"];
+        postFx?: GameRuntime["render"]["postFx"];
         shadowSystem?: GameRuntime["render"]["shadowSystem"];
         renderSystem?: GameRuntime["render"]["renderSystem"];
     };
@@ -100,6 +124,8 @@ export class Game {
     private readonly fpsCounter = new FpsCounter();
 
     private hitchProfiler: HitchProfiler;
+    // Live perf HUD samples (per-system timings, renderer counters).
+    private readonly perfMonitor = new PerfMonitor(resolvePerfMonitorEnabled());
 
     // 加载回调
     private onProgressCallback?: (progress: number, desc: string) => void;
@@ -114,13 +140,28 @@ export class Game {
     private readonly services: GameServices;
 
     private readonly events = new GameEventBus();
+    // Player edits to streamed vegetation; owned here so it outlives chunk streaming and is saved with snapshots.
+    private readonly worldDeltas = new WorldDeltaStore();
     private disposeDefaultEventHandlers: (() => void) | null = null;
 
+    // Input recording / replay playback (created once the runtime is finalized).
+    private replay: ReplayController | null = null;
+    private readonly onReplayRecorded?: (bytes: Uint8Array) => void;
+
+    // Dev console switches (god mode, time scale); debug only, never saved.
+    private readonly cheats: DevCheatState = { god: false, timeScale: 1 };
+    private unregisterDevCommands: (() => void) | null = null;
+
     constructor(
         container: HTMLElement,
         onLoaded?: () => void,
         onProgress?: (progress: number, desc: string) => void,
-        opts?: { runtimeSettings?: RuntimeSettings; services?: GameServices }
+        opts?: {
+            runtimeSettings?: RuntimeSettings;
+            services?: GameServices;
+            /** A recording ended without stopRecording() (length limit, restart, snapshot load). */
+            onReplayRecorded?: (bytes: Uint8Array) => void;
+        }
     ) {
         this.container = container;
         this.onLoadedCallback = onLoaded;
@@ -128,10 +169,13 @@ export class Game {
         this.clock = new THREE.Clock();
 
         this.services = opts?.services ?? getDefaultGameServices();
+        console.info(`[Game] run seed ${this.services.random.getSeed()} (reproduce with ?seed=${this.services.random.getSeed()})`);
 
         if (opts?.runtimeSettings) {
             this.runtimeSettings = opts.runtimeSettings;
         }
+        this.services.sound.setMixerSettings(this.runtimeSettings.audio);
+        this.onReplayRecorded = opts?.onReplayRecorded;
 
         this.hitchProfiler = new HitchProfiler(resolveHitchProfilerSettings());
 
@@ -224,6 +268,7 @@ export class Game {
         const render: GameRuntime["render"] = {
             postProcessing: assertDefined(renderPartial.postProcessing, "render.postProcessing"),
             scopeAimProgress: assertDefined(renderPartial.scopeAimProgress, "render.scopeAimProgress"),
+            postFx: assertDefined(renderPartial.postFx, "render.postFx"),
             shadowSystem: assertDefined(renderPartial.shadowSystem, "render.shadowSystem"),
             renderSystem: assertDefined(renderPartial.renderSystem, "render.renderSystem"),
             ambientLight: renderPartial.ambientLight,
@@ -245,9 +290,12 @@ export class Game {
             clock: builder.clock,
             fpsCounter: builder.fpsCounter,
             hitchProfiler: builder.hitchProfiler,
+            perfMonitor: builder.perfMonitor,
             systemManager: builder.systemManager,
             frameContext: builder.frameContext,
             systemTimings: builder.systemTimings,
+            fixedStep: builder.fixedStep,
+            interpolator: builder.interpolator,
             loadedGate: builder.loadedGate,
             world,
             gpu,
@@ -269,13 +317,44 @@ export class Game {
         this.disposeDefaultEventHandlers?.();
         this.disposeDefaultEventHandlers = attachDefaultGameEventHandlers(this.events, {
             services: this.services,
+            worldDeltas: this.worldDeltas,
             setDamageFlashIntensity: (v) => {
                 uniforms.damageFlash.value = v;
             },
+            isInvulnerable: () => this.cheats.god,
         });
 
         const renderer = createWebGPURenderer(this.container);
 
+        const systemManager = new SystemManager();
+        const frameContext: FrameContext = {
+            delta: 0,
+            playerPos: { x: 0, y: 0, z: 0 },
+            health: 0,
+            aimProgress: 0,
+            alpha: 1,
+        };
+        const interpolator = new TransformInterpolator({
+            // Camera/enemies/grenades only exist once the runtime is finalized.
+            collect: (add) => this.collectInterpolationTargets(add),
+        });
+        const fixedStep = new FixedStepSimulation({
+            systems: systemManager,
+            frame: frameContext,
+            settings: resolveFixedStepSettings(),
+            beforeStep: (frame, stepDelta) => {
+                const runtime = this.runtime;
+                if (!runtime) return;
+                interpolator.beginStep();
+                fillFrameContext({
+                    frame,
+                    delta: stepDelta,
+                    cameraPosition: runtime.camera.position,
+                    health: this.services.state.getState().health,
+                });
+            },
+        });
+
         this.runtimeBuilder = {
             container: this.container,
             renderer,
@@ -286,14 +365,12 @@ export class Game {
             clock: this.clock,
             fpsCounter: this.fpsCounter,
             hitchProfiler: this.hitchProfiler,
-            systemManager: new SystemManager(),
-            frameContext: {
-                delta: 0,
-                playerPos: { x: 0, y: 0, z: 0 },
-                health: 0,
-                aimProgress: 0,
-            },
+            perfMonitor: this.perfMonitor,
+            systemManager,
+            frameContext,
             systemTimings: Object.create(null),
+            fixedStep,
+            interpolator,
             loadedGate: this.loadedGate,
             disposeDefaultEventHandlers: this.disposeDefaultEventHandlers,
         };
@@ -322,7 +399,7 @@ export class Game {
         if (!builder.scene) return;
 
         const physicsSystem = new PhysicsSystem();
-        const level = new Level(builder.scene, this.objects, physicsSystem);
+        const level = new Level(builder.scene, this.objects, physicsSystem, this.worldDeltas);
         builder.world = {
             physicsSystem,
             level,
@@ -386,6 +463,7 @@ export class Game {
         builder.gameplay = {
             explosionManager: gameplay.explosionManager,
             weatherSystem: gameplay.weatherSystem,
+            dayNightCycle: gameplay.dayNightCycle,
             soundManager: gameplay.soundManager,
             enemyTrailSystem: gameplay.enemyTrailSystem,
             enemySystem: gameplay.enemySystem,
@@ -393,6 +471,7 @@ export class Game {
             grenadeSystem: gameplay.grenadeSystem,
             spawnSystem: gameplay.spawnSystem,
             audioSystem: gameplay.audioSystem,
+            buildingSystem: gameplay.buildingSystem,
         };
     }
 
@@ -417,6 +496,7 @@ export class Game {
             pickups: builder.gameplay.pickupSystem,
             grenades: builder.gameplay.grenadeSystem,
             weather: builder.gameplay.weatherSystem,
+            building: builder.gameplay.buildingSystem,
             spawn: { x: 0, z: 0 },
         });
 
@@ -424,19 +504,68 @@ export class Game {
     }
 
     public setRuntimeSettings(settings: RuntimeSettings): void {
+        // Volumes are the listener's, not the simulation's: they apply right away, even during a replay.
+        this.services.sound.setMixerSettings(settings.audio);
+
+        // A replay plays with its recorded settings; the user's choice applies once it ends.
+        if (this.replay?.isPlaying()) {
+            this.replay.deferSettings(settings);
+            return;
+        }
+        this.replay?.noteSettings(settings);
+        this.applyRuntimeSettings(settings);
+    }
+
+    private applyRuntimeSettings(settings: RuntimeSettings): void {
+        const graphicsChanged = settings.graphics !== this.runtimeSettings.graphics;
         this.runtimeSettings = settings;
+        if (graphicsChanged) this.applyGraphicsSettings();
+    }
+
+    /**
+     * Push the resolved graphics options into the running systems.
+     * Every setter is a no-op when its value is unchanged, so this is safe to call repeatedly.
+     */
+    private applyGraphicsSettings(): void {
+        const runtime = this.runtime;
+        if (!runtime) return;
+
+        const options = resolveGraphicsOptions(this.runtimeSettings.graphics);
+        runtime.world.level.setVegetationQuality({
+            treeStreamRadiusChunks: options.vegetationStreamRadiusChunks,
+            grassStreamRadiusChunks: options.grassStreamRadiusChunks,
+            grassDensityScale: options.grassDensityScale,
+        });
+        runtime.gameplay.enemySystem.setShadowDistance(options.enemyShadowDistance);
+        runtime.render.shadowSystem.setShadowMapSize(options.shadowMapSize);
+        runtime.render.postFx.setPasses(options.postFx ? options.postFxPasses : []);
+        runtime.player.controller.setPipScope(options.pipScope);
     }
 
-    /** Reset the current session without reloading the page. */
-    public reset(): void {
+    /**
+     * Reset the current session without reloading the page.
+     * A new run gets a new seed unless one is pinned (`?seed=`) or passed in.
+     */
+    public reset(seed: number = resolveRunSeed()): void {
+        this.endRecording();
+        this.replay?.stopPlayback();
         try {
             this.services.state.reset();
+            this.services.random.reseed(seed);
+            console.info(`[Game] run seed ${this.services.random.getSeed()}`);
 
             const runtime = this.runtime;
             if (!runtime) return;
 
             // Best-effort: clear active enemies so a new run starts clean.
             runtime.gameplay.enemySystem.clearAll();
+            runtime.gameplay.buildingSystem.clearAll();
+            runtime.gameplay.grenadeSystem.clearAll();
+            runtime.gameplay.spawnSystem.reset();
+
+            // A new run starts with untouched vegetation.
+            this.worldDeltas.clear();
+            runtime.world.level?.resetVegetationStreaming();
 
             // Reset player physics + position.
             const spawnX = 0;
@@ -444,11 +573,103 @@ export class Game {
             const spawnHeight = runtime.world.level?.getTerrainHeight(spawnX, spawnZ) ?? 0;
             runtime.camera.position.set(spawnX, spawnHeight + 2.0, spawnZ);
             runtime.player.controller?.resetPhysics?.();
+
+            // Don't interpolate from the previous run's positions.
+            runtime.fixedStep.reset();
+            runtime.interpolator.reset();
         } catch {
             // ignore
         }
     }
 
+    /** Seed of the current run (see RandomStreams). */
+    public getRunSeed(): number {
+        return this.services.random.getSeed();
+    }
+
+    /**
+     * Craft one recipe from the player's resources. Returns false if unaffordable or not ready.
+     * The craft is applied at the next simulation step (as a player command, so replays include it).
+     */
+    public craft(recipeId: RecipeId): boolean {
+        const runtime = this.runtime;
+        if (!runtime || this.replay?.isPlaying()) return false;
+
+        const recipe = getRecipe(recipeId);
+        if (!recipe || !canCraft(recipe, this.services.state.getState())) return false;
+        runtime.player.controller.queueCraft(recipeId);
+        return true;
+    }
+
+    /** Capture the current session as a versioned, JSON-safe snapshot. Returns null before init completes. */
+    public saveSnapshot(): GameSnapshot | null {
+        const runtime = this.runtime;
+        if (!runtime) return null;
+
+        return {
+            version: GAME_SNAPSHOT_VERSION,
+            savedAt: Date.now(),
+            worldSeed: MapConfig.worldSeed,
+            state: this.services.state.getState(),
+            player: runtime.player.controller.getSnapshot(),
+            enemies: runtime.gameplay.enemySystem.getSnapshot(),
+            pickups: runtime.gameplay.pickupSystem.getSnapshot(),
+            weather: runtime.gameplay.weatherSystem.getStateSnapshot(),
+            dayNight: runtime.gameplay.dayNightCycle.getSnapshot(),
+            worldDeltas: this.worldDeltas.getSnapshot(),
+            buildings: runtime.gameplay.buildingSystem.getSnapshot(),
+            random: this.services.random.getSnapshot(),
+        };
+    }
+
+    /**
+     * Rebuild the session from a snapshot (object or JSON string).
+     * Older schema versions are migrated first. Returns false if the snapshot can't be applied.
+     */
+    public loadSnapshot(input: GameSnapshot | string): boolean {
+        this.endRecording();
+        return this.applySnapshot(input);
+    }
+
+    private applySnapshot(input: GameSnapshot | string): boolean {
+        const runtime = this.runtime;
+        if (!runtime) return false;
+
+        let snapshot: GameSnapshot;
+        try {
+            snapshot = typeof input === "string" ? parseGameSnapshot(input) : migrateGameSnapshot(input);
+        } catch (err) {
+            console.warn("[Game] loadSnapshot failed:", err);
+            return false;
+        }
+
+        // Terrain/vegetation are derived from the seed at build time; a mismatch means the world differs.
+        if (snapshot.worldSeed !== MapConfig.worldSeed) {
+            console.warn(
+                `[Game] snapshot worldSeed ${snapshot.worldSeed} differs from current ${MapConfig.worldSeed}; world layout will not match.`
+            );
+        }
+
+        this.services.state.restore(snapshot.state);
+        this.services.random.restoreSnapshot(snapshot.random);
+        runtime.gameplay.dayNightCycle.restoreSnapshot(snapshot.dayNight);
+        this.worldDeltas.restoreSnapshot(snapshot.worldDeltas);
+        runtime.world.level.resetVegetationStreaming();
+        runtime.gameplay.weatherSystem.restoreStateSnapshot(snapshot.weather);
+        runtime.gameplay.enemySystem.restoreSnapshot(snapshot.enemies);
+        runtime.gameplay.pickupSystem.restoreSnapshot(snapshot.pickups);
+        runtime.gameplay.buildingSystem.restoreSnapshot(snapshot.buildings);
+        runtime.gameplay.spawnSystem.reset();
+        runtime.gameplay.grenadeSystem.clearAll();
+        runtime.player.controller.restoreSnapshot(snapshot.player);
+
+        // Avoid a huge first delta after a (possibly slow) load.
+        runtime.clock.getDelta();
+        runtime.fixedStep.reset();
+        runtime.interpolator.reset();
+        return true;
+    }
+
     private initPostFxAndRenderSystems(): void {
         this.updateProgress(85, "i18n:loading.stage.postfx");
         const builder = this.requireBuilder("initPostFxAndRenderSystems");
@@ -462,17 +683,25 @@ export class Game {
         });
         builder.render.postProcessing = render.postProcessing;
         builder.render.scopeAimProgress = render.scopeAimProgress;
+        builder.render.postFx = render.postFx;
         builder.render.shadowSystem = render.shadowSystem;
         builder.render.renderSystem = render.renderSystem;
     }
 
     private initCoreUpdateSystems(): void {
         const builder = this.requireBuilder("initCoreUpdateSystems");
-        if (!builder.camera || !builder.world || !builder.gpu || !builder.render || !builder.gameplay || !builder.player) return;
-        if (!builder.render.scopeAimProgress || !builder.render.shadowSystem || !builder.render.renderSystem) return;
+        if (!builder.scene || !builder.camera || !builder.world || !builder.gpu || !builder.render || !builder.gameplay || !builder.player) return;
+        if (!builder.render.scopeAimProgress || !builder.render.postFx || !builder.render.shadowSystem || !builder.render.renderSystem) return;
+
+        const camera = builder.camera;
+        const gameplay = builder.gameplay;
 
         const core = createAndRegisterSystemGraph({
             systemManager: builder.systemManager,
+            renderer: builder.renderer,
+            scene: builder.scene,
+            events: builder.events,
+            services: builder.services,
             player: builder.player.controller,
             camera: builder.camera,
             scopeAimProgress: builder.render.scopeAimProgress,
@@ -481,25 +710,145 @@ export class Game {
             level: builder.world.level,
             enemyConfig: EnemyConfig,
             weatherSystem: builder.gameplay.weatherSystem,
+            dayNightCycle: builder.gameplay.dayNightCycle,
             enemySystem: builder.gameplay.enemySystem,
             enemyTrailSystem: builder.gameplay.enemyTrailSystem,
             grenadeSystem: builder.gameplay.grenadeSystem,
             pickupSystem: builder.gameplay.pickupSystem,
             spawnSystem: builder.gameplay.spawnSystem,
             audioSystem: builder.gameplay.audioSystem,
+            buildingSystem: builder.gameplay.buildingSystem,
+            postFx: builder.render.postFx,
             shadowSystem: builder.render.shadowSystem,
             renderSystem: builder.render.renderSystem,
+            extendPhases: (phases) => {
+                if (!resolveEnemyDebugOverlayEnabled()) return;
+                phases.render.push(
+                    new EnemyDebugOverlaySystem({ container: this.container, camera, enemies: gameplay.enemySystem.all })
+                );
+            },
         });
 
         void core;
 
         // All required runtime pieces are now available; freeze into a fully-typed runtime object.
         this.finalizeRuntime();
+        this.createReplayController();
+        this.registerDevCommands();
+        // Before the vegetation preload, so the first chunks already use the chosen quality.
+        this.applyGraphicsSettings();
 
         this.updateProgress(90, "i18n:loading.stage.spawn");
         window.addEventListener("resize", this.onResizeBound);
     }
 
+    private createReplayController(): void {
+        const runtime = this.runtime;
+        if (!runtime) return;
+
+        this.replay = new ReplayController({
+            player: runtime.player.controller,
+            camera: runtime.camera,
+            domElement: runtime.renderer.domElement,
+            fixedStep: runtime.fixedStep,
+            getSeed: () => this.services.random.getSeed(),
+            saveSnapshot: () => this.saveSnapshot(),
+            loadSnapshot: (snapshot) => this.applySnapshot(snapshot),
+            getSettings: () => this.runtimeSettings,
+            applySettings: (settings) => this.applyRuntimeSettings(settings),
+            onRecordingFull: (bytes) => this.onReplayRecorded?.(bytes),
+        });
+    }
+
+    private registerDevCommands(): void {
+        const runtime = this.runtime;
+        if (!runtime) return;
+
+        this.unregisterDevCommands?.();
+        this.unregisterDevCommands = registerBuiltinDevCommands(this.services.devConsole, {
+            events: this.events,
+            services: this.services,
+            cheats: this.cheats,
+            enemies: runtime.gameplay.enemySystem,
+            weather: runtime.gameplay.weatherSystem,
+            level: runtime.world.level,
+            player: runtime.player.controller,
+            hitchProfiler: runtime.hitchProfiler,
+            perfMonitor: runtime.perfMonitor,
+            restart: (seed) => this.reset(seed),
+            replayMode: () => this.replay?.getStatus().mode ?? 'idle',
+        });
+    }
+
+    /** Frame samples behind the perf HUD (toggled with F3 / `toggle perf`). */
+    public getPerfMonitor(): PerfMonitor {
+        return this.perfMonitor;
+    }
+
+    /** Recent perf frames as JSON, tagged with enough context to compare captures. */
+    public exportPerfCapture(): string {
+        return this.perfMonitor.exportCapture({
+            seed: this.services.random.getSeed(),
+            settings: this.runtimeSettings,
+            fixedStep: this.runtime?.fixedStep.getSettings(),
+            timeScale: this.cheats.timeScale,
+        });
+    }
+
+    /** Command registry behind the console overlay (modules can register their own commands). */
+    public getDevConsole(): DevConsole {
+        return this.services.devConsole;
+    }
+
+    /** Recording can't survive a session change; hand what was captured to the owner. */
+    private endRecording(): void {
+        const bytes = this.replay?.stopRecording();
+        if (bytes) this.onReplayRecorded?.(bytes);
+    }
+
+    /** Start recording input from the current moment. Returns false if it can't start (see ReplayController). */
+    public startRecording(): boolean {
+        return this.replay?.startRecording() ?? false;
+    }
+
+    /** Stop recording and return the encoded replay file (null if not recording). */
+    public stopRecording(): Uint8Array | null {
+        return this.replay?.stopRecording() ?? null;
+    }
+
+    public isRecording(): boolean {
+        return this.replay?.isRecording() ?? false;
+    }
+
+    /**
+     * Play a replay file in place of the current session (which is restored by stopReplay).
+     * Throws if the file can't be decoded or applied.
+     */
+    public playReplay(bytes: Uint8Array): void {
+        if (!this.replay) throw new Error("Game runtime not initialized yet");
+        this.replay.startPlayback(bytes);
+    }
+
+    public stopReplay(): void {
+        this.replay?.stopPlayback();
+    }
+
+    public setReplayPaused(paused: boolean): void {
+        this.replay?.setPaused(paused);
+    }
+
+    public seekReplay(step: number): void {
+        this.replay?.seek(step);
+    }
+
+    public setReplayFreeCamera(enabled: boolean): void {
+        this.replay?.setFreeCamera(enabled);
+    }
+
+    public getReplayStatus(): ReplayStatus | null {
+        return this.replay?.getStatus() ?? null;
+    }
+
     private async runWarmup(): Promise<void> {
         if (!this.runtime) return;
 
@@ -559,41 +908,72 @@ export class Game {
         const runtime = this.runtime;
         if (!runtime) return;
 
-        const frameStartMs = runtime.hitchProfiler.beginFrame();
+        runtime.hitchProfiler.beginFrame();
+        const frameStartMs = performance.now();
         const rawDelta = runtime.clock.getDelta();
-        const delta = Math.min(rawDelta, 0.1);
+        const delta = Math.min(rawDelta, SimulationConfig.maxFrameDelta);
 
         runtime.fpsCounter.update(delta);
+        // `timescale` (dev console) stretches simulated time; the free camera and FPS stay on real time.
+        const simDelta = delta * this.cheats.timeScale;
 
         const gameState = this.services.state.getState();
+        const replay = this.replay;
+        const playingReplay = replay?.isPlaying() ?? false;
 
         if (gameState.isGameOver) {
             runtime.player.controller.unlock();
-            return;
+            // A replay that ends in death stays on screen (paused) so it can be scrubbed.
+            if (!playingReplay) return;
+            replay!.setPaused(true);
         }
 
-        // Update core systems (uniforms/compute/particles/weather/level) via SystemManager.
-        // Keeps the main loop slimmer and makes it easier to add/remove systems.
-        fillFrameContext({
-            frame: runtime.frameContext,
-            delta,
-            cameraPosition: runtime.camera.position,
-            health: gameState.health,
-        });
-
-        if (runtime.hitchProfiler.isEnabled()) {
-            // Keep per-system timings for hitch logs.
-            let t0 = performance.now();
-            runtime.systemManager.update(runtime.frameContext, runtime.systemTimings, () => performance.now());
-            const _tCoreSystemsMs = performance.now() - t0;
-            void _tCoreSystemsMs;
+        // Simulation (player/uniforms/compute/weather/level/gameplay) runs on a fixed step;
+        // FixedStepSimulation.beforeStep refreshes the frame context for every step.
+        const profiling = runtime.hitchProfiler.isEnabled() || runtime.perfMonitor.isEnabled();
+        if (profiling) {
+            // Steps accumulate into the timings, so clear them per frame.
+            for (const key in runtime.systemTimings) runtime.systemTimings[key] = 0;
+        }
+        const now = () => performance.now();
+        if (playingReplay) {
+            replay!.advance(simDelta, profiling ? runtime.systemTimings : undefined, now);
         } else {
-            runtime.systemManager.update(runtime.frameContext);
+            runtime.fixedStep.advance(simDelta, profiling ? runtime.systemTimings : undefined, now);
+        }
+
+        // Render phase: once per presented frame, with transforms posed between the last two steps.
+        const frame = runtime.frameContext;
+        frame.delta = simDelta;
+        frame.alpha = runtime.fixedStep.getAlpha();
+        runtime.interpolator.apply(frame.alpha);
+        replay?.beginRender(delta);
+        try {
+            runtime.systemManager.render(frame, profiling ? runtime.systemTimings : undefined, now);
+        } finally {
+            replay?.endRender();
+            runtime.interpolator.restore();
         }
 
         // Defer "loaded" callback until a few frames have been presented.
         runtime.loadedGate.update();
 
+        if (!profiling) return;
+        const extra = {
+            vegetation: runtime.world.level.getHitchDebugCounters?.(),
+            shadows: runtime.render.shadowSystem.getHitchDebugCounters?.(),
+        };
+
+        // Perf HUD: every frame, cheap copies only.
+        runtime.perfMonitor.recordFrame({
+            frameStartMs,
+            rawDeltaSeconds: rawDelta,
+            renderer: runtime.renderer,
+            systemTimings: runtime.systemTimings,
+            extra,
+            music: runtime.gameplay.soundManager.getMusicDebugState(),
+        });
+
         // Hitch profiler logging (heavy work only runs on slow frames).
         if (runtime.hitchProfiler.isEnabled()) {
             runtime.hitchProfiler.recordFrame({
@@ -603,10 +983,7 @@ export class Game {
                 scene: runtime.scene,
                 renderer: runtime.renderer,
                 systemTimings: runtime.systemTimings,
-                extra: {
-                    vegetation: runtime.world.level.getHitchDebugCounters?.(),
-                    shadows: runtime.render.shadowSystem.getHitchDebugCounters?.(),
-                },
+                extra,
                 enemies: runtime.gameplay.enemySystem,
                 pickups: runtime.gameplay.pickupSystem,
                 grenades: runtime.gameplay.grenadeSystem,
@@ -615,6 +992,21 @@ export class Game {
 
     };
 
+    /** Objects moved by the fixed step that should be drawn interpolated. */
+    private collectInterpolationTargets(add: (object: THREE.Object3D, rotation: boolean) => void): void {
+        const runtime = this.runtime;
+        if (!runtime) return;
+
+        // Look is applied per step (queued input), so the camera rotation is simulated too.
+        add(runtime.camera, true);
+        for (const enemy of runtime.gameplay.enemySystem.all) {
+            if (enemy.mesh.visible) add(enemy.mesh, true);
+        }
+        for (const grenade of runtime.gameplay.grenadeSystem.all) {
+            add(grenade.mesh, true);
+        }
+    }
+
     /**
      * 获取当前 FPS
      */
@@ -664,6 +1056,10 @@ export class Game {
             // ignore
         }
 
+        this.replay?.dispose();
+        this.replay = null;
+        this.unregisterDevCommands?.();
+        this.unregisterDevCommands = null;
         runtime.player.controller.dispose();
         runtime.systemManager.dispose();
         runtime.gameplay.explosionManager.dispose();
@@ -680,7 +1076,7 @@ export class Game {
             // ignore
         }
 
-        runtime.render.postProcessing.dispose();
+        runtime.render.postFx.dispose();
 
         runtime.renderer.dispose();
 
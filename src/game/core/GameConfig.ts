@@ -2,6 +2,17 @@
  * GameConfig - 游戏配置中心
  * 集中管理所有游戏参数，便于调整和维护
  */
+import type {
+    AmmoCaliber,
+    LoadoutSlotId,
+    ScopeReticleDefinition,
+    ScopeReticleId,
+    WeaponCategory,
+    WeaponId,
+} from '../weapon/WeaponTypes';
+import type { ItemId, ResourceType } from '../crafting/CraftingTypes';
+import type { BuildPieceDefinition, BuildPieceType } from '../building/BuildingTypes';
+import type { GameSound } from './events/GameEvents';
 
 function deepFreeze<T>(obj: T): T {
     if (!obj || typeof obj !== 'object') return obj;
@@ -64,6 +75,145 @@ export const PlayerConfig = {
         aimSensitivityMultiplier: 0.35,  // 瞄准时灵敏度倍率
         fovLerpSpeed: 10.0,        // FOV 变化速度
     },
+
+    // 手柄配置 (Gamepad API, 标准按键布局)
+    gamepad: {
+        enabled: true,
+        lookSpeed: 3.0,            // 右摇杆推满时的转向速度 (弧度/秒)
+        deadZone: 0.15,            // 摇杆死区 (径向)
+        responseCurve: 1.8,        // 响应曲线指数 (1 = 线性，越大中心越细腻)
+        invertY: false,
+        triggerThreshold: 0.4,     // 扳机按下判定阈值
+        aimAssist: {
+            strength: 0.5,         // 默认强度 (0 = 关闭)
+            angle: 0.12,           // 生效的锥角 (弧度)
+            range: 80,             // 生效距离 (米)
+            maxSlowdown: 0.6,      // 强度为 1 时准星正对敌人的最大减速比例
+        },
+    },
+};
+
+// ==================== 背包 / 装备栏配置 ====================
+export const InventoryConfig = {
+    // 装备栏：每个槽位接受的武器类别 + 默认武器
+    loadout: {
+        primary: { accepts: ['ranged'], default: 'rifle' },
+        secondary: { accepts: ['ranged'], default: 'pistol' },
+        melee: { accepts: ['melee'], default: 'knife' },
+        tool: { accepts: ['melee'], default: 'axe' },
+        utility: { accepts: ['melee'], default: 'scythe' },
+        throwable: { accepts: ['throwable'], default: 'grenade' },
+    } satisfies Record<LoadoutSlotId, { accepts: readonly WeaponCategory[]; default: WeaponId | null }>,
+
+    // 换弹
+    reload: {
+        autoReloadWhenEmpty: true, // 弹匣打空后自动换弹
+    },
+};
+
+// ==================== 生存配置 ====================
+export const SurvivalConfig = {
+    // 饥饿 / 口渴：0..max，随时间下降
+    hunger: {
+        max: 100,
+        drainPerSecond: 0.05,          // 约 33 分钟从满到空
+        lowThreshold: 20,              // 低于此值开始减速
+        starvingDamagePerSecond: 2,    // 归零后每秒扣血
+    },
+    thirst: {
+        max: 100,
+        drainPerSecond: 0.08,          // 约 20 分钟从满到空
+        lowThreshold: 20,
+        dehydratedDamagePerSecond: 3,
+        drinkPerSecond: 5,             // 站在水中时缓慢补水
+    },
+
+    // 体力：奔跑消耗，休息恢复
+    stamina: {
+        max: 100,
+        sprintCostPerSecond: 18,       // 奔跑时每秒消耗
+        regenPerSecond: 10,            // 行走时恢复
+        restRegenMultiplier: 2.0,      // 静止 / 蹲 / 趴时恢复倍率
+        regenDelay: 1.0,               // 停止奔跑后多久开始恢复 (秒)
+        minToSprint: 15,               // 体力耗尽后需恢复到此值才能再次奔跑
+    },
+
+    // 体温 (°C)：向目标温度缓慢靠近
+    temperature: {
+        normal: 37,
+        min: 30,
+        max: 43,
+        approachPerSecond: 0.05,       // 每秒向目标温度靠近的幅度
+        weatherTarget: {
+            sunny: 37,
+            rainy: 35.5,
+            windy: 36.5,
+            sandstorm: 39.5,
+        } satisfies Record<WeatherType, number>,
+        waterOffset: -4,               // 站在水中时目标温度偏移
+        waterApproachMultiplier: 3,    // 水中降温更快
+        coldThreshold: 35,             // 低于此值：失温
+        hotThreshold: 39,              // 高于此值：中暑
+        damagePerSecond: 2,
+    },
+
+    // 低数值带来的移动惩罚 (多个惩罚取最小值)
+    penalties: {
+        hungerSpeedMultiplier: 0.85,
+        thirstSpeedMultiplier: 0.8,
+        coldSpeedMultiplier: 0.75,
+        heatSpeedMultiplier: 0.85,
+    },
+};
+
+// ==================== 采集 / 制作配置 ====================
+export const CraftingConfig = {
+    // 每次命中掉落的资源数量
+    harvest: {
+        tree: { resource: 'wood', amount: 3 },     // 斧头砍树
+        grass: { resource: 'fiber', amount: 1 },   // 镰刀割草
+        rock: { resource: 'stone', amount: 1 },    // 近战敲击岩石
+        ruin: { resource: 'scrap', amount: 1 },    // 近战敲击废墟
+    } satisfies Record<string, { resource: ResourceType; amount: number }>,
+    // 每块岩石 / 每段废墟最多掉落的次数 (采空后继续敲击不再掉落，记录在 WorldDeltaStore 并随存档保存)
+    sourceYield: {
+        rock: 12,
+        ruin: 8,
+    },
+
+    // 消耗品
+    items: {
+        bandage: { heal: 25 },
+    } satisfies Record<ItemId, { heal: number }>,
+};
+
+// ==================== 建造配置 ====================
+export const BuildingConfig = {
+    gridSize: 2,                   // 放置网格 (米)，与墙宽一致
+    placeDistance: 4,              // 预览距离玩家的水平距离
+    overlapTolerance: 0.05,        // 相邻构件允许的贴合误差
+    doorInteractDistance: 3,       // [F] 开关门的距离
+
+    pieces: {
+        wall: { size: { x: 2, y: 2.6, z: 0.2 }, health: 250, cost: { wood: 4 }, color: 0x8b6a45, blocksNavigation: true },
+        floor: { size: { x: 2, y: 0.2, z: 2 }, health: 200, cost: { wood: 3 }, color: 0x7a5c3c, blocksNavigation: false },
+        door: { size: { x: 2, y: 2.6, z: 0.15 }, health: 180, cost: { wood: 3, scrap: 1 }, color: 0x5e4630, blocksNavigation: true },
+        barricade: { size: { x: 2, y: 1.2, z: 0.6 }, health: 400, cost: { wood: 2, stone: 3 }, color: 0x6f6f68, blocksNavigation: true },
+    } satisfies Record<BuildPieceType, BuildPieceDefinition>,
+
+    ghost: {
+        validColor: 0x44ff66,
+        invalidColor: 0xff4444,
+        opacity: 0.4,
+    },
+
+    // 敌人被构件挡住去路时会破坏它
+    enemy: {
+        attackRange: 1.2,          // 与构件包围盒的距离
+        damagePerSecond: 25,
+    },
+
+    grenadeDamageMultiplier: 2.0,  // 手榴弹对构件的伤害倍率
 };
 
 // ==================== 武器配置 ====================
@@ -178,6 +328,78 @@ export const WeaponConfig = {
     },
 };
 
+// ==================== 瞄准镜配置 ====================
+export const ScopeConfig = {
+    // Lens radius as a fraction of the screen height (both scope modes).
+    lensRadius: 0.35,
+    // Picture-in-picture mode: the lens is a second camera rendered to a texture, the periphery keeps the normal FOV.
+    pip: {
+        resolution: 768,       // lens render target (square)
+        minAimProgress: 0.05,  // below this the lens isn't rendered
+        peripheryDim: 0.45,    // darken the world around the lens (0..1)
+    },
+    dropMarks: {
+        max: 6,                // marks drawn below the center
+        gravity: 9.81,         // m/s²
+        halfWidth: 0.06,       // lens radii; every 100 m mark is twice as wide
+    },
+    reticles: {
+        // The original scope: thin cross with a gap and a red center dot.
+        classic: {
+            lineColor: 0x000000,
+            lineWidth: 0.006,
+            lineLength: 0.43,
+            centerGap: 0.07,
+            postWidth: 0,
+            postStart: 0,
+            milDotSpacing: 0,
+            milDotRadius: 0,
+            dotColor: 0xff1a0d,
+            dotRadius: 0.023,
+            dropMarks: false,
+        },
+        duplex: {
+            lineColor: 0x000000,
+            lineWidth: 0.004,
+            lineLength: 1,
+            centerGap: 0,
+            postWidth: 0.025,
+            postStart: 0.45,
+            milDotSpacing: 0,
+            milDotRadius: 0,
+            dotColor: 0x000000,
+            dotRadius: 0,
+            dropMarks: false,
+        },
+        milDot: {
+            lineColor: 0x050505,
+            lineWidth: 0.004,
+            lineLength: 1,
+            centerGap: 0,
+            postWidth: 0.022,
+            postStart: 0.7,
+            milDotSpacing: 0.1,
+            milDotRadius: 0.012,
+            dotColor: 0xff1a0d,
+            dotRadius: 0.01,
+            dropMarks: true,
+        },
+        redDot: {
+            lineColor: 0x000000,
+            lineWidth: 0,
+            lineLength: 0,
+            centerGap: 0,
+            postWidth: 0,
+            postStart: 0,
+            milDotSpacing: 0,
+            milDotRadius: 0,
+            dotColor: 0xff1a0d,
+            dotRadius: 0.03,
+            dropMarks: false,
+        },
+    } satisfies Record<ScopeReticleId, ScopeReticleDefinition>,
+};
+
 // ==================== 敌人配置 ====================
 export type EnemyType = 'scout' | 'soldier' | 'heavy' | 'elite';
 
@@ -199,6 +421,8 @@ export const EnemyTypesConfig = {
         ai: {
             chaseSpeed: 5.5,
             aimSpeed: 10.0,
+            // 行为权重 (EnemyBrain 效用评分)
+            behavior: { aggression: 0.8, flank: 0.9, cover: 0.2, retreatHealth: 0.3 },
         }
     },
     soldier: {
@@ -218,6 +442,8 @@ export const EnemyTypesConfig = {
         ai: {
             chaseSpeed: 4.0,
             aimSpeed: 8.0,
+            // 行为权重 (EnemyBrain 效用评分)
+            behavior: { aggression: 0.6, flank: 0.5, cover: 0.7, retreatHealth: 0.25 },
         }
     },
     heavy: {
@@ -237,6 +463,8 @@ export const EnemyTypesConfig = {
         ai: {
             chaseSpeed: 2.5,
             aimSpeed: 5.0,
+            // 行为权重 (EnemyBrain 效用评分)
+            behavior: { aggression: 1.0, flank: 0.1, cover: 0.2, retreatHealth: 0 },
         }
     },
     elite: {
@@ -256,6 +484,8 @@ export const EnemyTypesConfig = {
         ai: {
             chaseSpeed: 4.5,
             aimSpeed: 12.0,
+            // 行为权重 (EnemyBrain 效用评分)
+            behavior: { aggression: 0.4, flank: 0.3, cover: 0.9, retreatHealth: 0.35 },
         }
     }
 };
@@ -287,6 +517,35 @@ export const EnemyConfig = {
         aimSpeed: 8.0,             // 抬枪速度
         aimHoldDuration: 0.8,      // 射击后保持瞄准时间
 
+        // 行为决策 (EnemyBrain)
+        decisionInterval: 0.2,     // 行为重新评估间隔 (秒)
+        minStateTime: 1.0,         // 状态最短持续时间 (防止来回切换)
+        arriveDistance: 1.5,       // 到达目标点的判定距离
+        patrolRadius: 15,          // 巡逻点距出生点的半径
+        patrolPointCount: 4,       // 巡逻点数量
+        patrolPause: 1.5,          // 每个巡逻点停留时间
+        investigateRadius: 8,      // 到达最后已知位置后的搜索半径
+        searchTime: 6.0,           // 搜索持续时间
+        coverSearchRadius: 12,     // 寻找掩体的半径
+        coverHoldTime: 4.0,        // 在掩体后停留时间
+        flankOffset: 14,           // 包抄点相对玩家的侧向偏移
+        retreatDistance: 25,       // 撤退距离
+        stateCooldown: 8.0,        // 包抄/掩体完成后的冷却时间
+
+        // 听觉 (world:noise)
+        hearing: {
+            explosionRadius: 120,  // 爆炸声传播半径
+            sprintRadius: 14,      // 冲刺脚步声传播半径
+            sprintInterval: 0.4,   // 冲刺时脚步噪音的发出间隔 (秒)
+            // 天气对听觉范围的缩放 (雨声/风沙会掩盖声音)
+            weatherMultiplier: {
+                sunny: 1.0,
+                rainy: 0.6,
+                windy: 1.0,
+                sandstorm: 0.5,
+            } satisfies Record<WeatherType, number>,
+        },
+
         // 性能/渲染 LOD
         farUpdateDistance: 55,     // 超过此距离后，AI/碰撞等降频更新
         farUpdateInterval: 0.33,   // 远距离敌人的更新间隔 (秒)
@@ -345,7 +604,14 @@ export const EnemyConfig = {
 export const PickupConfig = {
     // 弹药箱
     ammo: {
-        amount: 15,                // 弹药数量
+        // 按口径发放的弹药数量
+        amountByCaliber: {
+            '556': 30,
+            '762': 10,
+            '9mm': 24,
+            '12ga': 8,
+            arrow: 6,
+        } satisfies Record<AmmoCaliber, number>,
         respawnTime: 30,           // 重生时间 (秒)
     },
     
@@ -430,9 +696,22 @@ export const UIConfig = {
 // ==================== 游戏初始状态 ====================
 export const InitialState = {
     health: 1000000,
-    ammo: 3000000,
+    // 各口径备弹
+    reserveAmmo: {
+        '556': 300000,
+        '762': 300000,
+        '9mm': 300000,
+        '12ga': 300000,
+        arrow: 300000,
+    } satisfies Record<AmmoCaliber, number>,
     grenades: 50000,
     score: 0,
+    survival: {
+        hunger: 100,
+        thirst: 100,
+        stamina: 100,
+        bodyTemperature: 37,
+    },
 };
 
 // ==================== 关卡配置 ====================
@@ -447,6 +726,36 @@ export const LevelConfig = {
         spawnRadius: { min: 20, max: 40 },  // 生成距离范围
         initialDelay: 10000,          // 首次生成延迟 (ms)
         enabled: true,         // 是否启用敌人生成
+
+        // 遭遇导演 (EncounterDirector)：按强度安排波次与休整
+        director: {
+            restDuration: { min: 15, max: 45 },     // 波次间休整 (秒，强度越高越短)
+            waveSize: { min: 4, max: 12 },          // 每波敌人数 (按强度插值)
+            waveGrowth: 1,                          // 每过一波额外增加的敌人数
+            spawnInterval: { min: 0.8, max: 3.0 },  // 波内生成间隔 (秒，强度越高越短)
+            spawnRetryDelay: 0.5,                   // 找不到合适生成点时的重试间隔 (秒)
+            maxWaveDuration: 180,                   // 波次超时强制结束 (远处卡住的敌人不拖住节奏)
+
+            // 强度 = 各分量加权和 (0..1)
+            killRateWindow: 60,        // 击杀率统计窗口 (秒)
+            killRateForMax: 10,        // 窗口内击杀数达到该值时击杀分量为满
+            calmTimeForMax: 90,        // 距上次交战多久后平静分量为满 (秒)
+            weights: { health: 0.5, killRate: 0.3, calm: 0.2 },
+
+            // 生成点 (玩家视野外)
+            spawnDistance: { min: 35, max: 60 },
+            spawnAttempts: 12,
+            viewMargin: 0.2,           // 视野半角之外再留的余量 (弧度)
+            maxSlope: 1.2,             // 生成点周围 1m 内允许的最大高差
+
+            // 各波次的敌人类型权重 (取 fromWave <= 当前波次的最后一项)
+            mixes: [
+                { fromWave: 1, weights: { scout: 3, soldier: 2, heavy: 0, elite: 0 } },
+                { fromWave: 3, weights: { scout: 2, soldier: 3, heavy: 1, elite: 0 } },
+                { fromWave: 5, weights: { scout: 2, soldier: 3, heavy: 2, elite: 1 } },
+                { fromWave: 8, weights: { scout: 1, soldier: 2, heavy: 2, elite: 2 } },
+            ] satisfies { fromWave: number; weights: Record<EnemyType, number> }[],
+        },
     },
     
     // 拾取物生成
@@ -459,6 +768,7 @@ export const LevelConfig = {
 
 // ==================== 天气配置 ====================
 export type WeatherType = 'sunny' | 'rainy' | 'windy' | 'sandstorm';
+export const WEATHER_TYPES: readonly WeatherType[] = ['sunny', 'rainy', 'windy', 'sandstorm'];
 
 export const WeatherConfig = {
     // 天气切换
@@ -550,6 +860,39 @@ export const WeatherConfig = {
     },
 };
 
+// ==================== 昼夜配置 ====================
+export const DayNightConfig = {
+    enabled: true,
+    dayLengthSeconds: 1200,        // 游戏内一整天 (24h) 对应的现实秒数
+    startHour: 9,                  // 开局时间 (小时)
+    sunTilt: 0.35,                 // 太阳轨道倾斜 (避免正午正上方的平直阴影)
+    minLightElevation: 0.25,       // 光源方向最低仰角 (夜间月光也保持斜射)
+
+    // 夜晚时段 (小时)，用于 isNight()
+    nightStartHour: 19.5,
+    nightEndHour: 5.5,
+
+    // 关键帧 (按小时升序，首尾需覆盖 0 与 24)，相邻帧之间线性插值。
+    // 数值是对当前天气目标值的乘数/色调，因此昼夜与天气自然叠加。
+    keyframes: [
+        { hour: 0,    lightColor: 0x7088c8, lightScale: 0.12, ambientScale: 0.25, skyTint: 0x0c1630, fogTint: 0x1b2440, fogFarScale: 0.55 },
+        { hour: 5,    lightColor: 0x7088c8, lightScale: 0.12, ambientScale: 0.25, skyTint: 0x0c1630, fogTint: 0x1b2440, fogFarScale: 0.55 },
+        { hour: 6.5,  lightColor: 0xffa060, lightScale: 0.6,  ambientScale: 0.6,  skyTint: 0xffb088, fogTint: 0xe0a890, fogFarScale: 0.8 },
+        { hour: 9,    lightColor: 0xffffff, lightScale: 1.0,  ambientScale: 1.0,  skyTint: 0xffffff, fogTint: 0xffffff, fogFarScale: 1.0 },
+        { hour: 16.5, lightColor: 0xffffff, lightScale: 1.0,  ambientScale: 1.0,  skyTint: 0xffffff, fogTint: 0xffffff, fogFarScale: 1.0 },
+        { hour: 18.5, lightColor: 0xff8040, lightScale: 0.55, ambientScale: 0.55, skyTint: 0xff9a70, fogTint: 0xd08870, fogFarScale: 0.8 },
+        { hour: 20,   lightColor: 0x7088c8, lightScale: 0.12, ambientScale: 0.25, skyTint: 0x0c1630, fogTint: 0x1b2440, fogFarScale: 0.55 },
+        { hour: 24,   lightColor: 0x7088c8, lightScale: 0.12, ambientScale: 0.25, skyTint: 0x0c1630, fogTint: 0x1b2440, fogFarScale: 0.55 },
+    ],
+
+    // 夜间玩法修正 (按夜晚程度 0..1 插值)
+    night: {
+        enemySpawnIntervalMultiplier: 0.6, // 生成更频繁
+        maxEnemiesMultiplier: 1.5,         // 同时存在更多敌人
+        detectionRangeMultiplier: 0.6,     // 敌人发现玩家的距离缩短
+    },
+};
+
 // ==================== 环境植被配置 ====================
 export enum TreeType {
     Pine = 0,
@@ -781,18 +1124,313 @@ export const MapConfig = {
     shadowUpdateIntervalSeconds: 0.2,
 };
 
+// ==================== 生物群系配置 ====================
+export type BiomeId = 'forest' | 'desert' | 'swamp' | 'tundra' | 'ruins';
+export const BIOME_IDS: readonly BiomeId[] = ['forest', 'desert', 'swamp', 'tundra', 'ruins'];
+
+type Rgb = [number, number, number];
+
+export type BiomeDefinition = {
+    /** Score field: sin(x * fx + px) * cos(z * fz + pz) + bias on the warped world XZ. Highest score wins. */
+    field: { frequency: [number, number]; phase: [number, number]; bias: number };
+    splat: {
+        /** Linear RGB the ground is pulled towards (dirt / grass layers). */
+        dirt: Rgb;
+        grass: Rgb;
+        /** 0 keeps the default dirt/grass palette, 1 fully replaces it with the colors above. */
+        strength: number;
+        /** Multiplier on the grass layer mask. */
+        grassCover: number;
+    };
+    trees: {
+        /** Chance (0..1) that a tree candidate survives. */
+        density: number;
+        /** Multipliers on EnvironmentConfig.trees.types[].probability. */
+        types: Record<TreeType, number>;
+    };
+    /** Chance (0..1) that a grass candidate of each type survives. */
+    grass: Record<'tall' | 'shrub' | 'dry', number>;
+    /** Multipliers on the encounter director's wave mix weights. */
+    enemies: Record<EnemyType, number>;
+    /** Relative odds of each weather at auto-change time (0 = never while the player is here). */
+    weather: Record<WeatherType, number>;
+};
+
+export const BiomeConfig = {
+    map: {
+        // Domain warp (meters / radians per meter) so borders don't follow the sine grid.
+        warp: { amplitude: 420, frequency: 0.0012 },
+        // Score distance over which two neighbours blend; beyond it the weaker biome weighs exactly 0.
+        blend: 0.18,
+        // The spawn area always starts in the forest (the original look of the map).
+        spawn: { radius: 900, bias: 2.0 },
+    },
+    biomes: {
+        forest: {
+            field: { frequency: [0.0009, 0.0011], phase: [0.0, 1.3], bias: 0.25 },
+            splat: { dirt: [0.36, 0.28, 0.2], grass: [0.3, 0.42, 0.2], strength: 0, grassCover: 1 },
+            trees: { density: 1, types: { [TreeType.Pine]: 1, [TreeType.Oak]: 1, [TreeType.Birch]: 1 } },
+            grass: { tall: 1, shrub: 1, dry: 1 },
+            enemies: { scout: 1, soldier: 1, heavy: 1, elite: 1 },
+            weather: { sunny: 3, rainy: 2, windy: 1, sandstorm: 0 },
+        },
+        desert: {
+            field: { frequency: [0.0007, 0.0008], phase: [2.1, 0.4], bias: 0 },
+            splat: { dirt: [0.76, 0.62, 0.42], grass: [0.62, 0.55, 0.34], strength: 0.85, grassCover: 0.15 },
+            trees: { density: 0.06, types: { [TreeType.Pine]: 0.2, [TreeType.Oak]: 1, [TreeType.Birch]: 0 } },
+            grass: { tall: 0.05, shrub: 0.25, dry: 0.8 },
+            enemies: { scout: 1.5, soldier: 1, heavy: 0.6, elite: 1 },
+            weather: { sunny: 4, rainy: 0.2, windy: 2, sandstorm: 3 },
+        },
+        swamp: {
+            field: { frequency: [0.0012, 0.001], phase: [4.0, 2.6], bias: -0.1 },
+            splat: { dirt: [0.17, 0.15, 0.1], grass: [0.22, 0.28, 0.12], strength: 0.6, grassCover: 0.85 },
+            trees: { density: 0.6, types: { [TreeType.Pine]: 0.3, [TreeType.Oak]: 1.5, [TreeType.Birch]: 0.5 } },
+            grass: { tall: 1.4, shrub: 1, dry: 0.1 },
+            enemies: { scout: 0.6, soldier: 1, heavy: 1.4, elite: 0.8 },
+            weather: { sunny: 1, rainy: 4, windy: 0.5, sandstorm: 0 },
+        },
+        tundra: {
+            field: { frequency: [0.0008, 0.0013], phase: [1.0, 3.7], bias: 0 },
+            splat: { dirt: [0.78, 0.8, 0.84], grass: [0.46, 0.5, 0.44], strength: 0.8, grassCover: 0.35 },
+            trees: { density: 0.35, types: { [TreeType.Pine]: 2.5, [TreeType.Oak]: 0, [TreeType.Birch]: 0.8 } },
+            grass: { tall: 0.2, shrub: 0.5, dry: 0.6 },
+            enemies: { scout: 0.8, soldier: 1, heavy: 1.2, elite: 1.2 },
+            weather: { sunny: 2, rainy: 1, windy: 3, sandstorm: 0 },
+        },
+        ruins: {
+            field: { frequency: [0.0014, 0.0012], phase: [5.2, 5.0], bias: -0.2 },
+            splat: { dirt: [0.38, 0.37, 0.36], grass: [0.3, 0.34, 0.22], strength: 0.7, grassCover: 0.4 },
+            trees: { density: 0.2, types: { [TreeType.Pine]: 0.5, [TreeType.Oak]: 1, [TreeType.Birch]: 1.5 } },
+            grass: { tall: 0.6, shrub: 0.8, dry: 1 },
+            enemies: { scout: 0.8, soldier: 1.4, heavy: 1, elite: 1.6 },
+            weather: { sunny: 3, rainy: 2, windy: 1.5, sandstorm: 0 },
+        },
+    } satisfies Record<BiomeId, BiomeDefinition>,
+};
+
+// ==================== 后期处理配置 ====================
+export type PostFXPassId = 'ambientOcclusion' | 'bloom' | 'depthOfField' | 'motionBlur' | 'colorGrading' | 'vignette';
+
+export const PostFXConfig = {
+    // Cosmetic pass order: scene -> passes below (if enabled) -> damage flash -> scope overlay.
+    order: ['ambientOcclusion', 'bloom', 'depthOfField', 'motionBlur', 'colorGrading', 'vignette'] as PostFXPassId[],
+
+    // GTAO, reconstructed from depth (no normal MRT).
+    ambientOcclusion: {
+        resolutionScale: 0.5,
+        radius: 0.6,
+        thickness: 1.0,
+        intensity: 0.8,
+    },
+    // Only HDR highlights (muzzle flashes, explosions, tracers) should cross the threshold.
+    bloom: {
+        strength: 0.6,
+        radius: 0.35,
+        threshold: 0.9,
+    },
+    // Scoped DOF: auto-focus on whatever sits under the crosshair.
+    depthOfField: {
+        focalLength: 12,  // meters around the focus plane that stay sharp
+        bokehScale: 3,
+    },
+    // Radial blur while sprinting.
+    motionBlur: {
+        strength: 0.04,   // screen-space streak length at the screen edge
+        samples: 12,
+        fadeSpeed: 4,     // 1/s, ramp in/out when sprint starts/stops
+    },
+    // Per-weather grading baked into small HDR 3D LUTs, cross-faded with the weather transition.
+    colorGrading: {
+        lutSize: 16,
+        intensity: 1.0,
+        weathers: {
+            sunny: { contrast: 1.06, saturation: 1.1, gain: [1.04, 1.0, 0.94], lift: [0.0, 0.0, 0.0] },
+            rainy: { contrast: 1.02, saturation: 0.75, gain: [0.92, 0.97, 1.05], lift: [0.0, 0.005, 0.012] },
+            windy: { contrast: 1.04, saturation: 0.95, gain: [1.0, 1.0, 1.0], lift: [0.0, 0.0, 0.005] },
+            sandstorm: { contrast: 0.94, saturation: 0.8, gain: [1.08, 0.98, 0.82], lift: [0.02, 0.012, 0.0] },
+        } satisfies Record<WeatherType, {
+            contrast: number;
+            saturation: number;
+            gain: [number, number, number];
+            lift: [number, number, number];
+        }>,
+    },
+    vignette: {
+        strength: 0.4,
+        radius: 0.8,
+        softness: 0.5,
+    },
+};
+
+// ==================== 画质配置 ====================
+// Quality presets for the video settings tab. "high" mirrors the tuned defaults above;
+// per-option overrides and RuntimeToggles flags are layered on top (see GraphicsSettings).
+export const GraphicsConfig = {
+    defaultPreset: 'high' as const,
+    shadowMapSizes: [512, 1024, 2048, 4096] as const,
+    presets: {
+        low: {
+            grassDensityScale: 0.12,
+            grassStreamRadiusChunks: 1,
+            vegetationStreamRadiusChunks: 2,
+            enemyShadowDistance: 30,
+            shadowMapSize: 512,
+            postFx: false,
+            postFxPasses: ['vignette'] as PostFXPassId[],
+            pipScope: false,
+        },
+        medium: {
+            grassDensityScale: 0.2,
+            grassStreamRadiusChunks: 1,
+            vegetationStreamRadiusChunks: 3,
+            enemyShadowDistance: 45,
+            shadowMapSize: 1024,
+            postFx: true,
+            postFxPasses: ['bloom', 'colorGrading', 'vignette'] as PostFXPassId[],
+            pipScope: false,
+        },
+        high: {
+            grassDensityScale: MapConfig.grassDensityScale,
+            grassStreamRadiusChunks: MapConfig.grassStreamRadiusChunks,
+            vegetationStreamRadiusChunks: MapConfig.vegetationStreamRadiusChunks,
+            enemyShadowDistance: EnemyConfig.ai.shadowDisableDistance,
+            shadowMapSize: 1024,
+            postFx: true,
+            postFxPasses: ['bloom', 'depthOfField', 'motionBlur', 'colorGrading', 'vignette'] as PostFXPassId[],
+            pipScope: false,
+        },
+        ultra: {
+            grassDensityScale: 0.45,
+            grassStreamRadiusChunks: 3,
+            vegetationStreamRadiusChunks: 4,
+            enemyShadowDistance: 100,
+            shadowMapSize: 2048,
+            postFx: true,
+            postFxPasses: ['ambientOcclusion', 'bloom', 'depthOfField', 'motionBlur', 'colorGrading', 'vignette'] as PostFXPassId[],
+            pipScope: true,
+        },
+    },
+};
+
+// ==================== 模拟步长配置 ====================
+export const SimulationConfig = {
+    // preSim / sim / postSim run at this fixed rate; the render phase interpolates in between.
+    stepHz: 60,
+    // Spiral-of-death guard: at most this many steps per rendered frame, and long frames are clamped first.
+    maxStepsPerFrame: 5,
+    maxFrameDelta: 0.1,   // seconds
+    interpolation: {
+        // Moves larger than this within one step are teleports (respawn, pooling): snap instead of blending.
+        teleportDistance: 5,
+    },
+};
+
+// ==================== 录像回放配置 ====================
+export const ReplayConfig = {
+    // Recording stops by itself after this long (seconds).
+    maxRecordingSeconds: 1800,
+    // Scrubbing re-simulates from the start snapshot; cap the work per rendered frame (ms).
+    seekBudgetMs: 12,
+    // Saved replays kept in the local library (oldest dropped first).
+    libraryMaxEntries: 20,
+    freeCamera: {
+        speed: 12,            // m/s
+        fastMultiplier: 4,    // Shift
+        lookSensitivity: 0.003, // rad per pixel (drag)
+    },
+};
+
+// ==================== 开发者控制台配置 ====================
+export const DevConsoleConfig = {
+    historySize: 50,      // remembered commands (persisted)
+    outputLines: 200,     // scrollback
+    // `give` amounts when none is typed (health: heal to full).
+    give: {
+        ammo: 300,        // per caliber
+        grenades: 10,
+    },
+    maxSpawnCount: 50,
+    timeScale: { min: 0.05, max: 4 },
+    noclip: {
+        speed: 15,        // m/s
+        fastMultiplier: 4, // sprint key
+    },
+};
+
+// ==================== 性能 HUD 配置 ====================
+export const PerfHudConfig = {
+    captureFrames: 1800,  // ring buffer / JSON export (~30s at 60fps)
+    graphFrames: 240,     // frame-time graph width in frames
+    graphMaxMs: 50,       // graph ceiling; longer frames are clipped
+    targetMs: 1000 / 60,  // budget line in the graph
+    refreshMs: 250,       // overlay text refresh
+    averageFrames: 60,    // window for the per-system averages
+    topSystems: 14,
+};
+
 // ==================== 音效配置 ====================
+/** Mixer buses; each has a volume + mute in the audio settings. */
+export type AudioBusId = 'master' | 'music' | 'sfx' | 'ambience' | 'ui';
+
 export const SoundConfig = {
-    // 全局音量
-    masterVolume: 0.3,
-    bgmVolume: 1.0,
+    // 混音总线
+    mixer: {
+        /** Display order for the settings UI. */
+        buses: ['master', 'music', 'sfx', 'ambience', 'ui'] satisfies AudioBusId[],
+        // Fixed trim after the master bus, so a 100% slider still leaves headroom for the synth layers.
+        headroom: 0.3,
+        // Which bus each game sound plays on (anything not listed: sfx).
+        soundBus: {
+            weaponSwitch: 'ui',
+            pickup: 'ui',
+            hit: 'ui',
+        } satisfies Partial<Record<GameSound, AudioBusId>>,
+        // Ducking: a loud sound pulls other buses down, then lets them recover.
+        // depth = gain the ducked buses drop to (scaled by how loud the source arrives); times in seconds.
+        ducking: {
+            explosion: { buses: ['music', 'ambience'], depth: 0.3, attack: 0.04, hold: 0.4, release: 1.6 },
+            sniperShoot: { buses: ['music'], depth: 0.6, attack: 0.02, hold: 0.15, release: 0.8 },
+        } satisfies Partial<Record<GameSound, { buses: AudioBusId[]; depth: number; attack: number; hold: number; release: number }>>,
+        // Slider smoothing (setTargetAtTime time constant).
+        volumeSmoothing: 0.02,
+    },
 
-    // 背景音乐配置
+    // 背景音乐配置 (whole-track fallback while the music engine is loading or switched off)
     bgm: {
         fadeDuration: 0.5, // Crossfade duration in seconds
         sunnyVolume: 0.8,
         rainyVolume: 0.8,
         combatVolume: 0.8,
+        combatIntensity: 0.35, // music intensity at which the combat track takes over
+    },
+
+    // 动态音乐: the BGM tracks as stems (looped together from one start time); a layer plays while the
+    // intensity is in [threshold, ceiling). Layer changes land on the next bar of the bpm grid.
+    music: {
+        bpm: 100,
+        beatsPerBar: 4,
+        fadeBeats: 1,              // layer fade in/out length
+        layerHysteresis: 0.03,     // a playing layer stays until intensity leaves its band by this much
+        stems: [
+            { id: 'calm', track: 'sunny', threshold: 0, ceiling: 0.1, volume: 0.8 },
+            { id: 'tension', track: 'rainy', threshold: 0.1, ceiling: 0.35, volume: 0.8 },
+            { id: 'combat', track: 'combat', threshold: 0.35, volume: 0.8 },
+        ],
+        // Intensity 0..1 = engaged enemies + recent damage + wave + weather, smoothed.
+        intensity: {
+            enemyRadius: 45,       // enemies with line of sight within this distance count
+            perEnemy: 0.15,
+            maxEnemies: 0.6,
+            perDamage: 0.012,      // per HP lost
+            maxDamage: 0.4,
+            damageDecay: 0.2,      // per second
+            wave: 0.35,            // while a wave is running (keeps the combat track up in the fallback)
+            // rain alone lifts the music into the tension (rainy) layer
+            weather: { sunny: 0, rainy: 0.15, windy: 0.08, sandstorm: 0.15 } satisfies Record<WeatherType, number>,
+            rise: 1.5,             // per second, towards a higher target
+            fall: 0.12,            // per second, towards a lower target
+        },
     },
     
     // 武器音效
@@ -803,6 +1441,25 @@ export const SoundConfig = {
         },
     },
 
+    // 3D 定位音效 (带 position 的 sound:play)
+    spatial: {
+        panningModel: 'HRTF' as PanningModelType,
+        distanceModel: 'inverse' as DistanceModelType,
+        refDistance: 4,            // 此距离内不衰减 (m)
+        rolloffFactor: 1.2,
+        maxDistance: 180,          // 超出此距离的声音直接跳过
+        // Doppler (PannerNode no longer does it; applied as detune at trigger time)
+        speedOfSound: 343,
+        dopplerFactor: 1.0,
+        maxDopplerCents: 700,
+        // Listener -> source ray blocked by a static obstacle => muffled
+        occlusion: {
+            lowpassHz: 800,
+            gain: 0.6,
+            sourceLift: 1.0,       // ray target above the source position (feet -> chest)
+        },
+    },
+
     // 环境音效
     ambient: {
         rain: {
@@ -820,10 +1477,61 @@ export const SoundConfig = {
     }
 };
 
+// ==================== 音效采样库 ====================
+/** Samples for one GameSound; each play picks a random file and varies its volume and pitch. */
+export type SoundBankEntry = {
+    /** Files in resources/audio (bundled by the `resources/audio/*` glob), loaded with `load_audio_asset`. */
+    files: string[];
+    volume: number;
+    /** ± fraction of `volume`. */
+    volumeJitter: number;
+    /** ± cents. */
+    pitchJitter: number;
+    /** Concurrent sample voices; the oldest is cut when exceeded. */
+    maxVoices: number;
+};
+
+// Files live flat in src-tauri/resources/audio. Sounds with an empty list use their synthesized version.
+const SOUND_BANK_SOUNDS: Record<GameSound, SoundBankEntry> = {
+    weaponSwitch: { files: [], volume: 0.4, volumeJitter: 0.1, pitchJitter: 50, maxVoices: 2 },
+    shoot: {
+        files: ['sfx_rifle_shot_01.wav', 'sfx_rifle_shot_02.wav', 'sfx_rifle_shot_03.wav'],
+        volume: 0.5,
+        volumeJitter: 0.15,
+        pitchJitter: 80,
+        maxVoices: 10,
+    },
+    sniperShoot: { files: [], volume: 0.9, volumeJitter: 0.05, pitchJitter: 40, maxVoices: 3 },
+    hit: { files: [], volume: 0.4, volumeJitter: 0.1, pitchJitter: 60, maxVoices: 4 },
+    damage: { files: [], volume: 0.6, volumeJitter: 0.1, pitchJitter: 60, maxVoices: 2 },
+    pickup: { files: [], volume: 0.4, volumeJitter: 0.05, pitchJitter: 30, maxVoices: 2 },
+    grenadeThrow: { files: [], volume: 0.4, volumeJitter: 0.1, pitchJitter: 60, maxVoices: 2 },
+    hitImpact: {
+        files: ['sfx_hit_impact_01.wav', 'sfx_hit_impact_02.wav', 'sfx_hit_impact_03.wav'],
+        volume: 0.4,
+        volumeJitter: 0.2,
+        pitchJitter: 120,
+        maxVoices: 6,
+    },
+    explosion: { files: [], volume: 1.0, volumeJitter: 0.1, pitchJitter: 80, maxVoices: 4 },
+    enemyDeath: { files: [], volume: 0.7, volumeJitter: 0.1, pitchJitter: 100, maxVoices: 4 },
+};
+
+export const SoundBankConfig = {
+    // Files are fetched and decoded one per idle callback, so loading never competes with a frame.
+    idleTimeoutMs: 2500,
+    sounds: SOUND_BANK_SOUNDS,
+};
+
 // Prevent accidental runtime mutation of config.
 // Runtime-tunable values should live in RuntimeSettings; these remain constants.
 deepFreeze(PlayerConfig);
+deepFreeze(InventoryConfig);
+deepFreeze(SurvivalConfig);
+deepFreeze(CraftingConfig);
+deepFreeze(BuildingConfig);
 deepFreeze(WeaponConfig);
+deepFreeze(ScopeConfig);
 deepFreeze(EnemyTypesConfig);
 deepFreeze(EnemyConfig);
 deepFreeze(PickupConfig);
@@ -832,6 +1540,15 @@ deepFreeze(UIConfig);
 deepFreeze(InitialState);
 deepFreeze(LevelConfig);
 deepFreeze(WeatherConfig);
+deepFreeze(DayNightConfig);
 deepFreeze(EnvironmentConfig);
 deepFreeze(MapConfig);
+deepFreeze(BiomeConfig);
+deepFreeze(PostFXConfig);
+deepFreeze(GraphicsConfig);
+deepFreeze(SimulationConfig);
+deepFreeze(ReplayConfig);
+deepFreeze(DevConsoleConfig);
+deepFreeze(PerfHudConfig);
 deepFreeze(SoundConfig);
+deepFreeze(SoundBankConfig);
@@ -1,19 +1,40 @@
 import { InitialState } from './GameConfig';
-import type { WeaponId } from '../weapon/WeaponTypes';
+import type { AmmoCaliber, LoadoutSlotId, PlayerLoadout, WeaponId } from '../weapon/WeaponTypes';
+import { createDefaultLoadout, createInitialMagazines, createInitialReserveAmmo, createInitialToolDurability } from '../weapon/Inventory';
+import type { ItemId, ResourceType } from '../crafting/CraftingTypes';
+import { createEmptyItems, createEmptyResources } from '../crafting/Crafting';
+import type { BuildModeState } from '../building/BuildingTypes';
+import type { WaveState } from '../enemy/EncounterDirector';
 
 export type WeaponType = WeaponId;
 export type StanceType = 'stand' | 'crouch' | 'prone';
 
+export interface SurvivalStats {
+    hunger: number;          // 0..100
+    thirst: number;          // 0..100
+    stamina: number;         // 0..100
+    bodyTemperature: number; // °C
+}
+
 export interface GameState {
     health: number;
-    ammo: number;
+    magazines: Partial<Record<WeaponId, number>>; // 每把枪弹匣内剩余子弹
+    reserveAmmo: Record<AmmoCaliber, number>;     // 按口径的备弹
+    loadout: PlayerLoadout;                       // 装备栏
+    toolDurability: Partial<Record<WeaponId, number>>; // 近战工具剩余耐久 (命中次数)
+    resources: Record<ResourceType, number>;      // 采集到的材料
+    items: Record<ItemId, number>;                // 消耗品
+    reloadProgress: number; // 0..1 (0 = not reloading)
     grenades: number;
     currentWeapon: WeaponType;
     chargeProgress: number; // 0..1 (knife/scythe charge)
     stance: StanceType;  // 当前姿态
+    survival: SurvivalStats;
     score: number;
     isGameOver: boolean;
     pickupHint: string | null;  // 显示拾取提示
+    buildMode: BuildModeState | null; // 建造模式 (null = 未开启)
+    wave: WaveState | null; // 当前波次 (null = 首波尚未开始)
 }
 
 export type GameStateListener = (state: GameState) => void;
@@ -21,14 +42,25 @@ export type GameStateListener = (state: GameState) => void;
 export interface GameStateStore {
     getState(): GameState;
     updateHealth(amount: number): void;
-    updateAmmo(amount: number): void;
+    setMagazine(weapon: WeaponId, rounds: number): void;
+    updateReserveAmmo(caliber: AmmoCaliber, amount: number): void;
+    setLoadoutSlot(slot: LoadoutSlotId, weapon: WeaponId | null): void;
+    setToolDurability(weapon: WeaponId, hits: number): void;
+    updateResource(resource: ResourceType, amount: number): void;
+    updateItem(item: ItemId, amount: number): void;
+    setReloadProgress(progress: number): void;
     updateGrenades(amount: number): void;
     setCurrentWeapon(weapon: WeaponType): void;
     setChargeProgress(progress: number): void;
     setStance(stance: StanceType): void;
+    setSurvival(stats: Partial<SurvivalStats>): void;
     updateScore(amount: number): void;
     setPickupHint(hint: string | null): void;
+    setBuildMode(mode: BuildModeState | null): void;
+    setWave(wave: WaveState | null): void;
     reset(): void;
+    /** Replace the whole state (snapshot load). Transient UI fields are cleared. */
+    restore(state: GameState): void;
     subscribe(listener: GameStateListener): () => void;
 }
 
@@ -38,18 +70,28 @@ export class GameStateService implements GameStateStore {
     private listeners: GameStateListener[] = [];
 
     private lastChargeProgressNotified = 0;
+    private lastReloadProgressNotified = 0;
 
     private constructor() {
         this.state = {
             health: InitialState.health,
-            ammo: InitialState.ammo,
+            magazines: createInitialMagazines(),
+            reserveAmmo: createInitialReserveAmmo(),
+            loadout: createDefaultLoadout(),
+            toolDurability: createInitialToolDurability(),
+            resources: createEmptyResources(),
+            items: createEmptyItems(),
+            reloadProgress: 0,
             grenades: InitialState.grenades,
             currentWeapon: 'rifle',
             chargeProgress: 0,
             stance: 'stand',
+            survival: { ...InitialState.survival },
             score: InitialState.score,
             isGameOver: false,
-            pickupHint: null
+            pickupHint: null,
+            buildMode: null,
+            wave: null
         };
     }
 
@@ -72,8 +114,49 @@ export class GameStateService implements GameStateStore {
         this.notifyListeners();
     }
 
-    public updateAmmo(amount: number) {
-        this.state.ammo = Math.max(0, this.state.ammo + amount);
+    public setMagazine(weapon: WeaponId, rounds: number) {
+        // Replace nested objects so React consumers see a new reference.
+        this.state.magazines = { ...this.state.magazines, [weapon]: Math.max(0, rounds) };
+        this.notifyListeners();
+    }
+
+    public updateReserveAmmo(caliber: AmmoCaliber, amount: number) {
+        const next = Math.max(0, (this.state.reserveAmmo[caliber] ?? 0) + amount);
+        this.state.reserveAmmo = { ...this.state.reserveAmmo, [caliber]: next };
+        this.notifyListeners();
+    }
+
+    public setLoadoutSlot(slot: LoadoutSlotId, weapon: WeaponId | null) {
+        this.state.loadout = { ...this.state.loadout, [slot]: weapon };
+        this.notifyListeners();
+    }
+
+    public setToolDurability(weapon: WeaponId, hits: number) {
+        this.state.toolDurability = { ...this.state.toolDurability, [weapon]: Math.max(0, hits) };
+        this.notifyListeners();
+    }
+
+    public updateResource(resource: ResourceType, amount: number) {
+        const next = Math.max(0, (this.state.resources[resource] ?? 0) + amount);
+        this.state.resources = { ...this.state.resources, [resource]: next };
+        this.notifyListeners();
+    }
+
+    public updateItem(item: ItemId, amount: number) {
+        const next = Math.max(0, (this.state.items[item] ?? 0) + amount);
+        this.state.items = { ...this.state.items, [item]: next };
+        this.notifyListeners();
+    }
+
+    public setReloadProgress(progress: number) {
+        const p = Math.max(0, Math.min(1, progress));
+        // Same throttling as charge progress: always notify start/end, skip tiny steps in between.
+        if (p !== 0 && p !== 1 && this.lastReloadProgressNotified !== 0 && Math.abs(p - this.lastReloadProgressNotified) < 0.02) {
+            this.state.reloadProgress = p;
+            return;
+        }
+        this.state.reloadProgress = p;
+        this.lastReloadProgressNotified = p;
         this.notifyListeners();
     }
     
@@ -114,6 +197,11 @@ export class GameStateService implements GameStateStore {
         this.notifyListeners();
     }
 
+    public setSurvival(stats: Partial<SurvivalStats>) {
+        this.state.survival = { ...this.state.survival, ...stats };
+        this.notifyListeners();
+    }
+
     public updateScore(amount: number) {
         this.state.score += amount;
         this.notifyListeners();
@@ -124,19 +212,54 @@ export class GameStateService implements GameStateStore {
         this.notifyListeners();
     }
 
+    public setBuildMode(mode: BuildModeState | null) {
+        this.state.buildMode = mode;
+        this.notifyListeners();
+    }
+
+    public setWave(wave: WaveState | null) {
+        this.state.wave = wave;
+        this.notifyListeners();
+    }
+
     public reset() {
         this.state = {
             health: InitialState.health,
-            ammo: InitialState.ammo,
+            magazines: createInitialMagazines(),
+            reserveAmmo: createInitialReserveAmmo(),
+            loadout: createDefaultLoadout(),
+            toolDurability: createInitialToolDurability(),
+            resources: createEmptyResources(),
+            items: createEmptyItems(),
+            reloadProgress: 0,
             grenades: InitialState.grenades,
             currentWeapon: 'rifle',
             chargeProgress: 0,
             stance: 'stand',
+            survival: { ...InitialState.survival },
             score: InitialState.score,
             isGameOver: false,
-            pickupHint: null
+            pickupHint: null,
+            buildMode: null,
+            wave: null
+        };
+        this.lastChargeProgressNotified = 0;
+        this.lastReloadProgressNotified = 0;
+        this.notifyListeners();
+    }
+
+    public restore(state: GameState) {
+        this.state = {
+            ...state,
+            health: Math.max(0, Math.min(InitialState.health, state.health)),
+            chargeProgress: 0,
+            reloadProgress: 0,
+            pickupHint: null,
+            buildMode: null,
+            wave: null,
         };
         this.lastChargeProgressNotified = 0;
+        this.lastReloadProgressNotified = 0;
         this.notifyListeners();
     }
 
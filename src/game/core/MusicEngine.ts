@@ -0,0 +1,134 @@
+import { SoundConfig } from './GameConfig';
+
+/** playing = stem layers are up; loading = tracks not decoded yet; disabled = switched off in the audio settings. */
+export type MusicEngineStatus = 'playing' | 'loading' | 'disabled';
+
+/** What the perf overlay shows about the music. */
+export type MusicDebugState = {
+    intensity: number;
+    /** Stem layers playing (or fading in) as of the last scheduled bar. */
+    layers: number;
+    /** Anything but `playing` = the whole-track BGM plays instead. */
+    status: MusicEngineStatus;
+};
+
+type Stem = {
+    gain: GainNode;
+    source: AudioBufferSourceNode | null;
+    /** Layer state scheduled last (applies from the bar it was scheduled on). */
+    on: boolean;
+};
+
+/**
+ * MusicEngine - 动态音乐
+ * Plays the `SoundConfig.music` stems in lockstep (one shared start time, looped) and fades layers in
+ * and out on bar boundaries as the intensity enters or leaves their band. Stems are the BGM tracks
+ * SoundManager already decodes (`tracks`, keyed by track id), so nothing is loaded twice; the engine
+ * starts once every track it needs is there, until then SoundManager keeps the whole-track BGM.
+ * `setEnabled(false)` stops the layers and hands the music back to the whole-track BGM.
+ */
+export class MusicEngine {
+    private readonly audioContext: AudioContext;
+    private readonly tracks: ReadonlyMap<string, AudioBuffer>;
+    private readonly stems: Stem[];
+    private enabled = true;
+
+    private startTime = -1;
+    private intensity = 0;
+
+    constructor(audioContext: AudioContext, output: AudioNode, tracks: ReadonlyMap<string, AudioBuffer>) {
+        this.audioContext = audioContext;
+        this.tracks = tracks;
+        this.stems = SoundConfig.music.stems.map((): Stem => {
+            const gain = audioContext.createGain();
+            gain.gain.value = 0;
+            gain.connect(output);
+            return { gain, source: null, on: false };
+        });
+    }
+
+    public setEnabled(enabled: boolean): void {
+        if (this.enabled === enabled) return;
+        this.enabled = enabled;
+        if (!enabled) this.stop();
+    }
+
+    public isReady(): boolean {
+        return this.enabled && SoundConfig.music.stems.every((def) => this.tracks.has(def.track));
+    }
+
+    private get barSeconds(): number {
+        return (SoundConfig.music.beatsPerBar * 60) / SoundConfig.music.bpm;
+    }
+
+    /** Context time of the first bar line after now (plus a small scheduling margin). */
+    private nextBarTime(): number {
+        const now = this.audioContext.currentTime + 0.05;
+        const bar = this.barSeconds;
+        return this.startTime + Math.ceil((now - this.startTime) / bar) * bar;
+    }
+
+    /** Start every stem on the same time so they stay beat-aligned while looping. */
+    private start(): void {
+        const t = this.audioContext.currentTime + 0.1;
+        SoundConfig.music.stems.forEach((def, i) => {
+            const stem = this.stems[i];
+            const source = this.audioContext.createBufferSource();
+            source.buffer = this.tracks.get(def.track)!;
+            source.loop = true;
+            source.connect(stem.gain);
+            source.start(t);
+            stem.source = source;
+        });
+        this.startTime = t;
+    }
+
+    /** Fade every layer out and drop the sources; the next `setIntensity` after re-enabling starts over. */
+    private stop(): void {
+        if (this.startTime < 0) return;
+        const now = this.audioContext.currentTime;
+        const fade = SoundConfig.bgm.fadeDuration;
+        for (const stem of this.stems) {
+            const gain = stem.gain.gain;
+            gain.cancelScheduledValues(now);
+            gain.setValueAtTime(gain.value, now);
+            gain.linearRampToValueAtTime(0, now + fade);
+            stem.source?.stop(now + fade + 0.1);
+            stem.source = null;
+            stem.on = false;
+        }
+        this.startTime = -1;
+    }
+
+    public setIntensity(intensity: number): void {
+        this.intensity = intensity;
+        if (!this.isReady()) return;
+        if (this.startTime < 0) this.start();
+
+        const cfg = SoundConfig.music;
+        const fade = (cfg.fadeBeats * 60) / cfg.bpm;
+        let barTime = -1;
+        cfg.stems.forEach((def, i) => {
+            const stem = this.stems[i];
+            const ceiling = def.ceiling ?? Infinity;
+            const on = stem.on
+                ? intensity >= def.threshold - cfg.layerHysteresis && intensity < ceiling + cfg.layerHysteresis
+                : intensity >= def.threshold && intensity < ceiling;
+            if (on === stem.on) return;
+            stem.on = on;
+
+            // A change of mind before the bar replaces the pending fade; setTarget starts from wherever the gain is.
+            if (barTime < 0) barTime = this.nextBarTime();
+            const gain = stem.gain.gain;
+            gain.cancelScheduledValues(barTime);
+            gain.setTargetAtTime(on ? def.volume : 0, barTime, fade / 3);
+        });
+    }
+
+    public getDebugState(): MusicDebugState {
+        let layers = 0;
+        for (const stem of this.stems) if (stem.on) layers++;
+        const status: MusicEngineStatus = !this.enabled ? 'disabled' : this.isReady() ? 'playing' : 'loading';
+        return { intensity: this.intensity, layers, status };
+    }
+}
@@ -26,6 +26,11 @@ export class Pathfinding {
     private offset: number = 0;
     private waypoints: { bottom: THREE.Vector3, top: THREE.Vector3 }[] = [];
 
+    // Baked obstacle footprints (already expanded by the enemy radius) so cells can be re-baked locally.
+    private readonly staticObstacles: Array<{ box: THREE.Box3; isStair: boolean }> = [];
+    // Runtime obstacles (player-built pieces) keyed by caller id.
+    private readonly dynamicObstacles = new Map<number, THREE.Box3>();
+
     private searchId: number = 1;
 
     constructor(objects: THREE.Object3D[]) {
@@ -113,29 +118,74 @@ export class Pathfinding {
             // Expand box slightly for enemy radius (0.5)
             box.expandByScalar(0.5);
 
-            // Convert box min/max to grid coordinates
-            const minX = Math.floor(box.min.x / this.cellSize + this.offset);
-            const maxX = Math.ceil(box.max.x / this.cellSize + this.offset);
-            const minZ = Math.floor(box.min.z / this.cellSize + this.offset);
-            const maxZ = Math.ceil(box.max.z / this.cellSize + this.offset);
-
-            for (let x = minX; x < maxX; x++) {
-                for (let z = minZ; z < maxZ; z++) {
-                    if (this.isValid(x, z)) {
-                        if (isStair) {
-                            // Mark stairs as slightly higher cost to prefer flat ground
-                            // But not too high to prevent usage
-                            this.grid[x][z].weight = 2; 
-                        } else {
-                            // Mark other obstacles as unwalkable
-                            this.grid[x][z].walkable = false;
-                        }
+            this.staticObstacles.push({ box, isStair });
+            this.rasterizeObstacle(box, isStair);
+        }
+    }
+
+    private getCellRange(box: THREE.Box3): { minX: number; maxX: number; minZ: number; maxZ: number } {
+        // Convert box min/max to grid coordinates (max is exclusive)
+        return {
+            minX: Math.floor(box.min.x / this.cellSize + this.offset),
+            maxX: Math.ceil(box.max.x / this.cellSize + this.offset),
+            minZ: Math.floor(box.min.z / this.cellSize + this.offset),
+            maxZ: Math.ceil(box.max.z / this.cellSize + this.offset),
+        };
+    }
+
+    private rasterizeObstacle(box: THREE.Box3, isStair: boolean, clip?: { minX: number; maxX: number; minZ: number; maxZ: number }) {
+        const r = this.getCellRange(box);
+        const minX = clip ? Math.max(r.minX, clip.minX) : r.minX;
+        const maxX = clip ? Math.min(r.maxX, clip.maxX) : r.maxX;
+        const minZ = clip ? Math.max(r.minZ, clip.minZ) : r.minZ;
+        const maxZ = clip ? Math.min(r.maxZ, clip.maxZ) : r.maxZ;
+
+        for (let x = minX; x < maxX; x++) {
+            for (let z = minZ; z < maxZ; z++) {
+                if (this.isValid(x, z)) {
+                    if (isStair) {
+                        // Mark stairs as slightly higher cost to prefer flat ground
+                        // But not too high to prevent usage
+                        this.grid[x][z].weight = 2; 
+                    } else {
+                        // Mark other obstacles as unwalkable
+                        this.grid[x][z].walkable = false;
                     }
                 }
             }
         }
     }
 
+    /**
+     * Add/replace (box) or remove (null) a runtime obstacle and re-bake only the grid cells it touches.
+     * The box is world-space; it is expanded by the enemy radius like baked obstacles.
+     */
+    public setDynamicObstacle(id: number, box: THREE.Box3 | null) {
+        const previous = this.dynamicObstacles.get(id);
+        if (box) {
+            this.dynamicObstacles.set(id, box.clone().expandByScalar(0.5));
+        } else {
+            this.dynamicObstacles.delete(id);
+        }
+
+        if (previous) this.rebakeCells(this.getCellRange(previous));
+        const next = this.dynamicObstacles.get(id);
+        if (next) this.rebakeCells(this.getCellRange(next));
+    }
+
+    private rebakeCells(range: { minX: number; maxX: number; minZ: number; maxZ: number }) {
+        for (let x = range.minX; x < range.maxX; x++) {
+            for (let z = range.minZ; z < range.maxZ; z++) {
+                if (!this.isValid(x, z)) continue;
+                this.grid[x][z].walkable = true;
+                this.grid[x][z].weight = 1;
+            }
+        }
+
+        for (const o of this.staticObstacles) this.rasterizeObstacle(o.box, o.isStair, range);
+        for (const box of this.dynamicObstacles.values()) this.rasterizeObstacle(box, false, range);
+    }
+
     private isValid(x: number, z: number): boolean {
         return x >= 0 && x < this.gridSize && z >= 0 && z < this.gridSize;
     }
@@ -214,9 +214,10 @@ export class PhysicsSystem {
     /**
      * Register a precomputed world-space AABB collider into the spatial grid.
      * If colliderId is not provided, an internal unique id is generated.
+     * Returns the collider id (or -1 when the box is empty) so it can be removed later.
      */
-    public addStaticBoxCollider(box: THREE.Box3, object: THREE.Object3D, colliderId?: number) {
-        if (box.isEmpty()) return;
+    public addStaticBoxCollider(box: THREE.Box3, object: THREE.Object3D, colliderId?: number): number {
+        if (box.isEmpty()) return -1;
 
         const id = colliderId ?? this.nextColliderId++;
         const entry = { box, object, colliderId: id };
@@ -237,6 +238,35 @@ export class PhysicsSystem {
                 this.grid.get(key)!.push(entry);
             }
         }
+
+        return id;
+    }
+
+    /**
+     * Unregister a collider added via addStaticBoxCollider (e.g. destroyed/opened player-built pieces).
+     */
+    public removeStaticCollider(colliderId: number) {
+        const index = this.staticColliders.findIndex((c) => c.colliderId === colliderId);
+        if (index < 0) return;
+        const entry = this.staticColliders[index];
+        this.staticColliders.splice(index, 1);
+
+        const box = entry.box;
+        const minX = Math.floor(box.min.x / this.cellSize);
+        const maxX = Math.floor(box.max.x / this.cellSize);
+        const minZ = Math.floor(box.min.z / this.cellSize);
+        const maxZ = Math.floor(box.max.z / this.cellSize);
+
+        for (let x = minX; x <= maxX; x++) {
+            for (let z = minZ; z <= maxZ; z++) {
+                const key = this.packKey(x, z);
+                const cell = this.grid.get(key);
+                if (!cell) continue;
+                const i = cell.indexOf(entry);
+                if (i >= 0) cell.splice(i, 1);
+                if (cell.length === 0) this.grid.delete(key);
+            }
+        }
     }
     
     /**
@@ -0,0 +1,122 @@
+import { invoke } from '@tauri-apps/api/core';
+
+import { SoundBankConfig, type SoundBankEntry } from './GameConfig';
+import type { GameSound } from './events/GameEvents';
+
+/** One decoded sample with this play's variation already rolled. */
+export type SoundBankPick = {
+    sound: GameSound;
+    buffer: AudioBuffer;
+    gain: number;
+    /** Cents. */
+    detune: number;
+};
+
+type ActiveVoice = {
+    source: AudioBufferSourceNode;
+    gain: GainNode;
+};
+
+/**
+ * SoundBank - 音效采样库
+ * Sample files from `SoundBankConfig` loaded through the Rust `load_audio_asset` command. Loading is
+ * lazy and sequential (one fetch + decode per idle callback); until a sound has at least one decoded
+ * file, `pick` returns null and SoundManager plays its synthesized version instead. Missing files
+ * (not shipped yet, or no Tauri backend in the browser) are skipped the same way.
+ */
+export class SoundBank {
+    private readonly audioContext: AudioContext;
+    private readonly buffers = new Map<GameSound, AudioBuffer[]>();
+    private readonly voices = new Map<GameSound, ActiveVoice[]>();
+    private loadStarted = false;
+
+    constructor(audioContext: AudioContext) {
+        this.audioContext = audioContext;
+    }
+
+    /** Queue every file of the manifest. Safe to call more than once. */
+    public load(): void {
+        if (this.loadStarted) return;
+        this.loadStarted = true;
+
+        const queue: Array<{ sound: GameSound; file: string }> = [];
+        for (const [sound, entry] of Object.entries(SoundBankConfig.sounds) as Array<[GameSound, SoundBankEntry]>) {
+            for (const file of entry.files) queue.push({ sound, file });
+        }
+
+        const next = () => {
+            const item = queue.shift();
+            if (!item) return;
+            window.requestIdleCallback(
+                () => {
+                    void this.loadFile(item.sound, item.file).finally(next);
+                },
+                { timeout: SoundBankConfig.idleTimeoutMs }
+            );
+        };
+        next();
+    }
+
+    private async loadFile(sound: GameSound, file: string): Promise<void> {
+        try {
+            const data = await invoke<number[]>('load_audio_asset', { filename: file });
+            const buffer = await this.audioContext.decodeAudioData(Uint8Array.from(data).buffer);
+            const list = this.buffers.get(sound);
+            if (list) list.push(buffer);
+            else this.buffers.set(sound, [buffer]);
+        } catch (error) {
+            // Each file is fetched once, so this warns once per missing file.
+            console.warn(`Sound sample ${file} unavailable for '${sound}':`, error);
+        }
+    }
+
+    /** Random file and variation for `sound`, or null when nothing is decoded for it. */
+    public pick(sound: GameSound): SoundBankPick | null {
+        const list = this.buffers.get(sound);
+        if (!list || list.length === 0) return null;
+
+        const entry: SoundBankEntry = SoundBankConfig.sounds[sound];
+        const jitter = () => Math.random() * 2 - 1;
+        return {
+            sound,
+            buffer: list[Math.floor(Math.random() * list.length)],
+            gain: Math.max(0, entry.volume * (1 + jitter() * entry.volumeJitter)),
+            detune: jitter() * entry.pitchJitter,
+        };
+    }
+
+    /** Start a picked sample into `output`; `detune` (cents) is added on top (Doppler). */
+    public play(pick: SoundBankPick, output: AudioNode, detune: number = 0): void {
+        const ctx = this.audioContext;
+        const active = this.voices.get(pick.sound) ?? [];
+        this.voices.set(pick.sound, active);
+
+        // Voice limit: cut the oldest with a short fade instead of a click.
+        const maxVoices = SoundBankConfig.sounds[pick.sound].maxVoices;
+        while (active.length >= maxVoices) {
+            const oldest = active.shift()!;
+            const t = ctx.currentTime;
+            oldest.gain.gain.cancelScheduledValues(t);
+            oldest.gain.gain.setValueAtTime(oldest.gain.gain.value, t);
+            oldest.gain.gain.linearRampToValueAtTime(0, t + 0.02);
+            oldest.source.stop(t + 0.03);
+        }
+
+        const source = ctx.createBufferSource();
+        source.buffer = pick.buffer;
+        source.detune.value = pick.detune + detune;
+        const gain = ctx.createGain();
+        gain.gain.value = pick.gain;
+        source.connect(gain);
+        gain.connect(output);
+
+        const voice: ActiveVoice = { source, gain };
+        active.push(voice);
+        source.onended = () => {
+            const index = active.indexOf(voice);
+            if (index >= 0) active.splice(index, 1);
+            gain.disconnect();
+        };
+        source.start();
+    }
+}
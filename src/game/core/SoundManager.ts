@@ -1,5 +1,29 @@
-import { SoundConfig } from './GameConfig';
+import { SoundConfig, type AudioBusId, type WeatherType } from './GameConfig';
 import { invoke } from '@tauri-apps/api/core';
+import { SoundBank } from './SoundBank';
+import { MusicEngine, type MusicDebugState } from './MusicEngine';
+import type { GameSound } from './events/GameEvents';
+import { getAudioBusGain, type AudioSettings } from './settings/AudioSettings';
+
+export type SoundVec3 = { x: number; y: number; z: number };
+
+/** Where a sound comes from. Sounds without a source play non-positional (the player's own sounds). */
+export type SoundSource = {
+    position: SoundVec3;
+    /** m/s, for Doppler. */
+    velocity?: SoundVec3;
+};
+
+export type SoundListenerPose = {
+    position: SoundVec3;
+    forward: SoundVec3;
+    up: SoundVec3;
+    /** m/s, for Doppler. */
+    velocity: SoundVec3;
+};
+
+/** True when the straight path from the listener to `position` is blocked. */
+export type SoundOcclusionTest = (listener: SoundVec3, position: SoundVec3) => boolean;
 
 export interface SoundManagerApi {
     resume(): Promise<void>;
@@ -7,23 +31,50 @@ export interface SoundManagerApi {
     setBGMState(state: 'sunny' | 'rainy' | 'combat' | 'none'): void;
     playWeatherSound(weather: string | null): void;
 
-    playWeaponSwitch(): void;
-    playShoot(): void;
-    playSniperShoot(): void;
-    playHit(): void;
-    playDamage(): void;
-    playPickup(): void;
-    playGrenadeThrow(): void;
-    playHitImpact(): void;
-    playExplosion(): void;
-    playEnemyDeath(): void;
+    /** Adaptive music input (AudioSystem, every step): 0 = calm .. 1 = heavy combat. */
+    setMusicIntensity(intensity: number, weather: WeatherType): void;
+    getMusicDebugState(): MusicDebugState;
+
+    /** Bus volumes / mutes and the dynamic music switch from the audio settings. */
+    setMixerSettings(settings: AudioSettings): void;
+
+    /** Camera pose for positional sounds (AudioSystem, every step). */
+    setListener(pose: SoundListenerPose): void;
+    setOcclusionTest(test: SoundOcclusionTest | null): void;
+
+    playWeaponSwitch(at?: SoundSource): void;
+    playShoot(at?: SoundSource): void;
+    playSniperShoot(at?: SoundSource): void;
+    playHit(at?: SoundSource): void;
+    playDamage(at?: SoundSource): void;
+    playPickup(at?: SoundSource): void;
+    playGrenadeThrow(at?: SoundSource): void;
+    playHitImpact(at?: SoundSource): void;
+    playExplosion(at?: SoundSource): void;
+    playEnemyDeath(at?: SoundSource): void;
     playJump(): void;
 }
 
+/** Where a triggered sound's nodes connect, and the Doppler shift to apply to its sources. */
+type SoundVoice = {
+    output: AudioNode;
+    detune: number;
+};
+
+type DuckingRule = { buses: readonly AudioBusId[]; depth: number; attack: number; hold: number; release: number };
+
+const SOUND_BUS: Partial<Record<GameSound, AudioBusId>> = SoundConfig.mixer.soundBus;
+const DUCKING: Partial<Record<GameSound, DuckingRule>> = SoundConfig.mixer.ducking;
+
 export class SoundManager implements SoundManagerApi {
     private static instance: SoundManager;
     private audioContext: AudioContext;
-    private masterGain: GainNode;
+
+    // 混音总线: source -> bus (volume / mute) -> duck -> master bus -> headroom -> destination.
+    private readonly buses: Record<AudioBusId, GainNode>;
+    private readonly duckGains: Record<AudioBusId, GainNode>;
+    // Non-positional output of each bus.
+    private readonly busVoices: Record<AudioBusId, SoundVoice>;
     
     // 天气音效
     private weatherGain: GainNode | null = null;
@@ -32,7 +83,6 @@ export class SoundManager implements SoundManagerApi {
     private weatherCleanupId: number = 0;  // 用于标识清理操作
     
     // 背景音乐系统
-    private bgmGain: GainNode;
     private currentBGMState: 'none' | 'sunny' | 'rainy' | 'combat' = 'none';
     private bgmBuffers: Map<string, AudioBuffer> = new Map();
     private activeBgmSource: AudioBufferSourceNode | null = null;
@@ -42,18 +92,48 @@ export class SoundManager implements SoundManagerApi {
     private shootOsc: OscillatorNode | null = null;
     private shootGain: GainNode | null = null;
 
+    // 3D 定位: listener pose (mirrored into AudioContext.listener) and the occlusion probe.
+    private readonly listener: SoundListenerPose = {
+        position: { x: 0, y: 0, z: 0 },
+        forward: { x: 0, y: 0, z: -1 },
+        up: { x: 0, y: 1, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+    };
+    private occlusionTest: SoundOcclusionTest | null = null;
+
+    // Sampled sounds (synth below is the fallback).
+    private readonly bank: SoundBank;
+
+    // Layered music built from the BGM tracks (the whole-track BGM above is the fallback).
+    private readonly music: MusicEngine;
+
     private constructor() {
         this.audioContext = new window.AudioContext();
-        this.masterGain = this.audioContext.createGain();
-        this.masterGain.gain.value = SoundConfig.masterVolume;
-        this.masterGain.connect(this.audioContext.destination);
-        
-        // 独立的 BGM 音量控制
-        this.bgmGain = this.audioContext.createGain();
-        this.bgmGain.gain.value = SoundConfig.bgmVolume;
-        this.bgmGain.connect(this.masterGain);
+
+        const output = this.audioContext.createGain();
+        output.gain.value = SoundConfig.mixer.headroom;
+        output.connect(this.audioContext.destination);
+
+        this.buses = {} as Record<AudioBusId, GainNode>;
+        this.duckGains = {} as Record<AudioBusId, GainNode>;
+        this.busVoices = {} as Record<AudioBusId, SoundVoice>;
+        for (const id of SoundConfig.mixer.buses) {
+            const bus = this.audioContext.createGain();
+            const duck = this.audioContext.createGain();
+            bus.connect(duck);
+            this.buses[id] = bus;
+            this.duckGains[id] = duck;
+            this.busVoices[id] = { output: bus, detune: 0 };
+        }
+        for (const id of SoundConfig.mixer.buses) {
+            this.duckGains[id].connect(id === 'master' ? output : this.buses.master);
+        }
+
+        this.bank = new SoundBank(this.audioContext);
+        this.music = new MusicEngine(this.audioContext, this.buses.music, this.bgmBuffers);
 
         this.loadBgmAssets();
+        this.bank.load();
     }
 
     private async loadBgmAssets() {
@@ -134,6 +214,26 @@ export class SoundManager implements SoundManagerApi {
         }
     }
 
+    public setMusicIntensity(intensity: number, weather: WeatherType) {
+        this.music.setIntensity(intensity);
+        if (this.music.isReady()) {
+            this.setBGMState('none');
+            return;
+        }
+
+        if (intensity >= SoundConfig.bgm.combatIntensity) {
+            this.setBGMState('combat');
+        } else if (weather === 'rainy') {
+            this.setBGMState('rainy');
+        } else {
+            this.setBGMState('sunny');
+        }
+    }
+
+    public getMusicDebugState(): MusicDebugState {
+        return this.music.getDebugState();
+    }
+
     private startBGM(key: string) {
         if (this.audioContext.state === 'suspended') {
             this.resume();
@@ -159,7 +259,7 @@ export class SoundManager implements SoundManagerApi {
             if (key === 'combat') targetVolume = SoundConfig.bgm.combatVolume || 0.8;
             
             source.connect(gain);
-            gain.connect(this.bgmGain); 
+            gain.connect(this.buses.music);
 
             const now = this.audioContext.currentTime;
             gain.gain.setValueAtTime(0, now);
@@ -204,7 +304,7 @@ export class SoundManager implements SoundManagerApi {
             // Keep it silent until fired.
             gain.gain.setValueAtTime(0, this.audioContext.currentTime);
             osc.connect(gain);
-            gain.connect(this.masterGain);
+            gain.connect(this.buses.sfx);
             osc.start();
 
             this.shootOsc = osc;
@@ -216,18 +316,170 @@ export class SoundManager implements SoundManagerApi {
         }
     }
 
-    private playTone(freq: number, type: OscillatorType, duration: number, startTime: number = 0, vol: number = 1) {
+    public setListener(pose: SoundListenerPose) {
+        const l = this.listener;
+        Object.assign(l.position, pose.position);
+        Object.assign(l.forward, pose.forward);
+        Object.assign(l.up, pose.up);
+        Object.assign(l.velocity, pose.velocity);
+
+        const listener = this.audioContext.listener;
+        if (listener.positionX) {
+            const t = this.audioContext.currentTime;
+            listener.positionX.setValueAtTime(l.position.x, t);
+            listener.positionY.setValueAtTime(l.position.y, t);
+            listener.positionZ.setValueAtTime(l.position.z, t);
+            listener.forwardX.setValueAtTime(l.forward.x, t);
+            listener.forwardY.setValueAtTime(l.forward.y, t);
+            listener.forwardZ.setValueAtTime(l.forward.z, t);
+            listener.upX.setValueAtTime(l.up.x, t);
+            listener.upY.setValueAtTime(l.up.y, t);
+            listener.upZ.setValueAtTime(l.up.z, t);
+        } else {
+            // Firefox: AudioParam-less listener.
+            listener.setPosition(l.position.x, l.position.y, l.position.z);
+            listener.setOrientation(l.forward.x, l.forward.y, l.forward.z, l.up.x, l.up.y, l.up.z);
+        }
+    }
+
+    public setOcclusionTest(test: SoundOcclusionTest | null) {
+        this.occlusionTest = test;
+    }
+
+    public setMixerSettings(settings: AudioSettings) {
+        const t = this.audioContext.currentTime;
+        for (const id of SoundConfig.mixer.buses) {
+            this.buses[id].gain.setTargetAtTime(getAudioBusGain(settings, id), t, SoundConfig.mixer.volumeSmoothing);
+        }
+        this.music.setEnabled(settings.dynamicMusic);
+    }
+
+    /** Duck the buses `sound` pulls down; `level` (0..1) is how loud the sound arrives at the listener. */
+    private duck(sound: GameSound, level: number) {
+        const rule = DUCKING[sound];
+        if (!rule || level <= 0) return;
+
+        const depth = 1 - (1 - rule.depth) * Math.min(1, level);
+        const t = this.audioContext.currentTime;
+        for (const id of rule.buses) {
+            const gain = this.duckGains[id].gain;
+            // Overlapping ducks keep the deeper one and restart the hold.
+            const current = gain.value;
+            const target = Math.min(depth, current);
+            gain.cancelScheduledValues(t);
+            gain.setValueAtTime(current, t);
+            gain.linearRampToValueAtTime(target, t + rule.attack);
+            gain.setValueAtTime(target, t + rule.attack + rule.hold);
+            gain.linearRampToValueAtTime(1, t + rule.attack + rule.hold + rule.release);
+        }
+    }
+
+    /**
+     * Output for one triggered sound. Positional sounds get their own panner (distance attenuation),
+     * an occlusion low-pass when the listener can't see the source, and a Doppler detune fixed at
+     * trigger time (sounds are short). Null when the source is out of earshot.
+     * `duration` (s) is how long the chain must live before it is disconnected.
+     * Also routes the sound to its bus and triggers its ducking.
+     */
+    private createVoice(sound: GameSound, at: SoundSource | undefined, duration: number): SoundVoice | null {
+        const bus = SOUND_BUS[sound] ?? 'sfx';
+        if (!at) {
+            this.duck(sound, 1);
+            return this.busVoices[bus];
+        }
+
+        const cfg = SoundConfig.spatial;
+        const l = this.listener;
+        const dx = l.position.x - at.position.x;
+        const dy = l.position.y - at.position.y;
+        const dz = l.position.z - at.position.z;
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (distance > cfg.maxDistance) return null;
+
+        // f' = f * (c - vListener·n) / (c - vSource·n), n = unit vector source -> listener.
+        let detune = 0;
+        if (distance > 1e-3) {
+            const c = cfg.speedOfSound;
+            const k = cfg.dopplerFactor / distance;
+            const listenerSpeed = (l.velocity.x * dx + l.velocity.y * dy + l.velocity.z * dz) * k;
+            const v = at.velocity;
+            const sourceSpeed = v ? (v.x * dx + v.y * dy + v.z * dz) * k : 0;
+            const ratio = (c - Math.min(listenerSpeed, c * 0.5)) / (c - Math.min(sourceSpeed, c * 0.5));
+            detune = Math.max(-cfg.maxDopplerCents, Math.min(cfg.maxDopplerCents, 1200 * Math.log2(ratio)));
+        }
+
+        const ctx = this.audioContext;
+        const panner = ctx.createPanner();
+        panner.panningModel = cfg.panningModel;
+        panner.distanceModel = cfg.distanceModel;
+        panner.refDistance = cfg.refDistance;
+        panner.maxDistance = cfg.maxDistance;
+        panner.rolloffFactor = cfg.rolloffFactor;
+        if (panner.positionX) {
+            panner.positionX.value = at.position.x;
+            panner.positionY.value = at.position.y;
+            panner.positionZ.value = at.position.z;
+        } else {
+            panner.setPosition(at.position.x, at.position.y, at.position.z);
+        }
+        panner.connect(this.buses[bus]);
+
+        const nodes: AudioNode[] = [panner];
+        let output: AudioNode = panner;
+        const occluded = this.occlusionTest?.(l.position, at.position) ?? false;
+        if (occluded) {
+            const lowpass = ctx.createBiquadFilter();
+            lowpass.type = 'lowpass';
+            lowpass.frequency.value = cfg.occlusion.lowpassHz;
+            const gain = ctx.createGain();
+            gain.gain.value = cfg.occlusion.gain;
+            lowpass.connect(gain);
+            gain.connect(panner);
+            nodes.push(lowpass, gain);
+            output = lowpass;
+        }
+
+        window.setTimeout(() => {
+            for (const node of nodes) node.disconnect();
+        }, (duration + 0.2) * 1000);
+
+        // Same curve as the 'inverse' distance model.
+        const attenuation = cfg.refDistance / (cfg.refDistance + cfg.rolloffFactor * (Math.max(distance, cfg.refDistance) - cfg.refDistance));
+        this.duck(sound, attenuation * (occluded ? cfg.occlusion.gain : 1));
+
+        return { output, detune };
+    }
+
+    /** Plays the bank sample for `sound` once one is decoded; false = synthesize it instead. */
+    private playSample(sound: GameSound, at: SoundSource | undefined): boolean {
+        const pick = this.bank.pick(sound);
+        if (!pick) return false;
+        // Pitch jitter + Doppler stay within an octave down, so twice the length bounds playback.
+        const voice = this.createVoice(sound, at, pick.buffer.duration * 2);
+        if (voice) this.bank.play(pick, voice.output, voice.detune);
+        return true;
+    }
+
+    private playTone(
+        freq: number,
+        type: OscillatorType,
+        duration: number,
+        startTime: number = 0,
+        vol: number = 1,
+        voice: SoundVoice = this.busVoices.sfx,
+    ) {
         const osc = this.audioContext.createOscillator();
         const gain = this.audioContext.createGain();
 
         osc.type = type;
         osc.frequency.setValueAtTime(freq, this.audioContext.currentTime + startTime);
+        osc.detune.value = voice.detune;
 
         gain.gain.setValueAtTime(vol, this.audioContext.currentTime + startTime);
         gain.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + startTime + duration);
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(voice.output);
 
         osc.start(this.audioContext.currentTime + startTime);
         osc.stop(this.audioContext.currentTime + startTime + duration);
@@ -236,7 +488,29 @@ export class SoundManager implements SoundManagerApi {
     private lastShootTime: number = 0;
     private readonly SHOOT_THROTTLE: number = SoundConfig.weapon.shoot.throttle; // ms
 
-    public playShoot() {
+    public playShoot(at?: SoundSource) {
+        // Other shooters (enemies): a one-shot voice at the muzzle.
+        if (at) {
+            this.resume();
+            if (this.playSample('shoot', at)) return;
+            const voice = this.createVoice('shoot', at, 0.12);
+            if (!voice) return;
+            const t = this.audioContext.currentTime;
+            const osc = this.audioContext.createOscillator();
+            const gain = this.audioContext.createGain();
+            osc.type = 'square';
+            osc.detune.value = voice.detune;
+            osc.frequency.setValueAtTime(800, t);
+            osc.frequency.exponentialRampToValueAtTime(100, t + 0.1);
+            gain.gain.setValueAtTime(SoundConfig.weapon.shoot.volume, t);
+            gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
+            osc.connect(gain);
+            gain.connect(voice.output);
+            osc.start(t);
+            osc.stop(t + 0.12);
+            return;
+        }
+
         const now = Date.now();
         if (now - this.lastShootTime < this.SHOOT_THROTTLE) {
             return;
@@ -244,6 +518,7 @@ export class SoundManager implements SoundManagerApi {
         this.lastShootTime = now;
 
         void this.resume();
+        if (this.playSample('shoot', undefined)) return;
         this.ensureShootNodes();
 
         const osc = this.shootOsc;
@@ -274,19 +549,23 @@ export class SoundManager implements SoundManagerApi {
     /**
      * 播放狙击枪射击声 - 更有震慑力
      */
-    public playSniperShoot() {
+    public playSniperShoot(at?: SoundSource) {
         this.resume();
+        if (this.playSample('sniperShoot', at)) return;
+        const voice = this.createVoice('sniperShoot', at, 1.0);
+        if (!voice) return;
         
         // 主爆发音 - 极其低沉有力
         const osc1 = this.audioContext.createOscillator();
         const gain1 = this.audioContext.createGain();
         osc1.type = 'sawtooth';
+        osc1.detune.value = voice.detune;
         osc1.frequency.setValueAtTime(120, this.audioContext.currentTime);
         osc1.frequency.exponentialRampToValueAtTime(25, this.audioContext.currentTime + 0.5);
         gain1.gain.setValueAtTime(1.5, this.audioContext.currentTime);
         gain1.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.5);
         osc1.connect(gain1);
-        gain1.connect(this.masterGain);
+        gain1.connect(voice.output);
         osc1.start();
         osc1.stop(this.audioContext.currentTime + 0.5);
         
@@ -294,12 +573,13 @@ export class SoundManager implements SoundManagerApi {
         const osc2 = this.audioContext.createOscillator();
         const gain2 = this.audioContext.createGain();
         osc2.type = 'square';
+        osc2.detune.value = voice.detune;
         osc2.frequency.setValueAtTime(1500, this.audioContext.currentTime);
         osc2.frequency.exponentialRampToValueAtTime(150, this.audioContext.currentTime + 0.12);
         gain2.gain.setValueAtTime(1.2, this.audioContext.currentTime);
         gain2.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.12);
         osc2.connect(gain2);
-        gain2.connect(this.masterGain);
+        gain2.connect(voice.output);
         osc2.start();
         osc2.stop(this.audioContext.currentTime + 0.12);
         
@@ -307,12 +587,13 @@ export class SoundManager implements SoundManagerApi {
         const osc3 = this.audioContext.createOscillator();
         const gain3 = this.audioContext.createGain();
         osc3.type = 'sine';
+        osc3.detune.value = voice.detune;
         osc3.frequency.setValueAtTime(45, this.audioContext.currentTime);
         osc3.frequency.exponentialRampToValueAtTime(20, this.audioContext.currentTime + 0.7);
         gain3.gain.setValueAtTime(1.5, this.audioContext.currentTime);
         gain3.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.7);
         osc3.connect(gain3);
-        gain3.connect(this.masterGain);
+        gain3.connect(voice.output);
         osc3.start();
         osc3.stop(this.audioContext.currentTime + 0.7);
         
@@ -320,12 +601,13 @@ export class SoundManager implements SoundManagerApi {
         const osc4 = this.audioContext.createOscillator();
         const gain4 = this.audioContext.createGain();
         osc4.type = 'sawtooth';
+        osc4.detune.value = voice.detune;
         osc4.frequency.setValueAtTime(300, this.audioContext.currentTime);
         osc4.frequency.exponentialRampToValueAtTime(80, this.audioContext.currentTime + 0.25);
         gain4.gain.setValueAtTime(1.0, this.audioContext.currentTime);
         gain4.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.25);
         osc4.connect(gain4);
-        gain4.connect(this.masterGain);
+        gain4.connect(voice.output);
         osc4.start();
         osc4.stop(this.audioContext.currentTime + 0.25);
         
@@ -333,13 +615,14 @@ export class SoundManager implements SoundManagerApi {
         const osc5 = this.audioContext.createOscillator();
         const gain5 = this.audioContext.createGain();
         osc5.type = 'sine';
+        osc5.detune.value = voice.detune;
         osc5.frequency.setValueAtTime(80, this.audioContext.currentTime + 0.08);
         osc5.frequency.exponentialRampToValueAtTime(35, this.audioContext.currentTime + 1.0);
         gain5.gain.setValueAtTime(0, this.audioContext.currentTime);
         gain5.gain.linearRampToValueAtTime(0.6, this.audioContext.currentTime + 0.08);
         gain5.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 1.0);
         osc5.connect(gain5);
-        gain5.connect(this.masterGain);
+        gain5.connect(voice.output);
         osc5.start();
         osc5.stop(this.audioContext.currentTime + 1.0);
         
@@ -352,6 +635,7 @@ export class SoundManager implements SoundManagerApi {
         }
         const noise = this.audioContext.createBufferSource();
         noise.buffer = noiseBuffer;
+        noise.detune.value = voice.detune;
         const noiseGain = this.audioContext.createGain();
         noiseGain.gain.setValueAtTime(0.8, this.audioContext.currentTime);
         noiseGain.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.3);
@@ -360,14 +644,17 @@ export class SoundManager implements SoundManagerApi {
         noiseFilter.frequency.value = 2000;
         noise.connect(noiseFilter);
         noiseFilter.connect(noiseGain);
-        noiseGain.connect(this.masterGain);
+        noiseGain.connect(voice.output);
         noise.start();
     }
 
-    public playHit() {
+    public playHit(at?: SoundSource) {
         this.resume();
+        if (this.playSample('hit', at)) return;
+        const voice = this.createVoice('hit', at, 0.05);
+        if (!voice) return;
         // Short high pitch ping
-        this.playTone(1200, 'sine', 0.05, 0, 0.5);
+        this.playTone(1200, 'sine', 0.05, 0, 0.5, voice);
     }
 
     public playJump() {
@@ -384,52 +671,68 @@ export class SoundManager implements SoundManagerApi {
         gain.gain.linearRampToValueAtTime(0.01, this.audioContext.currentTime + 0.2);
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(this.buses.sfx);
 
         osc.start();
         osc.stop(this.audioContext.currentTime + 0.2);
     }
 
-    public playEnemyDeath() {
+    public playEnemyDeath(at?: SoundSource) {
         this.resume();
+        if (this.playSample('enemyDeath', at)) return;
+        const voice = this.createVoice('enemyDeath', at, 0.35);
+        if (!voice) return;
         // Explosion-ish noise (simulated with low freq saw/square)
-        this.playTone(100, 'sawtooth', 0.3, 0, 0.8);
-        this.playTone(80, 'square', 0.3, 0.05, 0.8);
+        this.playTone(100, 'sawtooth', 0.3, 0, 0.8, voice);
+        this.playTone(80, 'square', 0.3, 0.05, 0.8, voice);
     }
 
-    public playDamage() {
+    public playDamage(at?: SoundSource) {
         this.resume();
+        if (this.playSample('damage', at)) return;
+        const voice = this.createVoice('damage', at, 0.1);
+        if (!voice) return;
         // Low thud
-        this.playTone(150, 'sawtooth', 0.1, 0, 0.8);
+        this.playTone(150, 'sawtooth', 0.1, 0, 0.8, voice);
     }
 
-    public playPickup() {
+    public playPickup(at?: SoundSource) {
         this.resume();
+        if (this.playSample('pickup', at)) return;
+        const voice = this.createVoice('pickup', at, 0.25);
+        if (!voice) return;
         // High happy chime
-        this.playTone(1000, 'sine', 0.1, 0, 0.3);
-        this.playTone(1500, 'sine', 0.2, 0.05, 0.3);
+        this.playTone(1000, 'sine', 0.1, 0, 0.3, voice);
+        this.playTone(1500, 'sine', 0.2, 0.05, 0.3, voice);
     }
     
-    public playHitImpact() {
+    public playHitImpact(at?: SoundSource) {
         this.resume();
+        if (this.playSample('hitImpact', at)) return;
+        const voice = this.createVoice('hitImpact', at, 0.05);
+        if (!voice) return;
         // Short impact sound
-        this.playTone(200, 'square', 0.05, 0, 0.3);
+        this.playTone(200, 'square', 0.05, 0, 0.3, voice);
     }
     
-    public playExplosion() {
+    public playExplosion(at?: SoundSource) {
         this.resume();
+        if (this.playSample('explosion', at)) return;
+        const voice = this.createVoice('explosion', at, 0.5);
+        if (!voice) return;
         // Explosion sound - layered low frequency rumble
         
         // Main boom
         const osc1 = this.audioContext.createOscillator();
         const gain1 = this.audioContext.createGain();
         osc1.type = 'sawtooth';
+        osc1.detune.value = voice.detune;
         osc1.frequency.setValueAtTime(100, this.audioContext.currentTime);
         osc1.frequency.exponentialRampToValueAtTime(30, this.audioContext.currentTime + 0.5);
         gain1.gain.setValueAtTime(1.0, this.audioContext.currentTime);
         gain1.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.5);
         osc1.connect(gain1);
-        gain1.connect(this.masterGain);
+        gain1.connect(voice.output);
         osc1.start();
         osc1.stop(this.audioContext.currentTime + 0.5);
         
@@ -437,34 +740,43 @@ export class SoundManager implements SoundManagerApi {
         const osc2 = this.audioContext.createOscillator();
         const gain2 = this.audioContext.createGain();
         osc2.type = 'square';
+        osc2.detune.value = voice.detune;
         osc2.frequency.setValueAtTime(200, this.audioContext.currentTime);
         osc2.frequency.exponentialRampToValueAtTime(50, this.audioContext.currentTime + 0.3);
         gain2.gain.setValueAtTime(0.8, this.audioContext.currentTime);
         gain2.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.3);
         osc2.connect(gain2);
-        gain2.connect(this.masterGain);
+        gain2.connect(voice.output);
         osc2.start();
         osc2.stop(this.audioContext.currentTime + 0.3);
         
         // High frequency crack
-        this.playTone(800, 'sawtooth', 0.08, 0, 0.5);
-        this.playTone(400, 'square', 0.15, 0.02, 0.4);
+        this.playTone(800, 'sawtooth', 0.08, 0, 0.5, voice);
+        this.playTone(400, 'square', 0.15, 0.02, 0.4, voice);
     }
     
-    public playWeaponSwitch() {
+    public playWeaponSwitch(at?: SoundSource) {
         this.resume();
+        if (this.playSample('weaponSwitch', at)) return;
+        const voice = this.createVoice('weaponSwitch', at, 0.05);
+        if (!voice) return;
         // Click sound for weapon switch
-        this.playTone(600, 'sine', 0.03, 0, 0.2);
-        this.playTone(800, 'sine', 0.03, 0.02, 0.2);
+        this.playTone(600, 'sine', 0.03, 0, 0.2, voice);
+        this.playTone(800, 'sine', 0.03, 0.02, 0.2, voice);
     }
     
-    public playGrenadeThrow() {
+    public playGrenadeThrow(at?: SoundSource) {
         this.resume();
+        if (this.playSample('grenadeThrow', at)) return;
+        const voice = this.createVoice('grenadeThrow', at, 0.2);
+        if (!voice) return;
         // Whoosh sound
         const osc = this.audioContext.createOscillator();
         const gain = this.audioContext.createGain();
         
         osc.type = 'sine';
+        
+        osc.detune.value = voice.detune;
         osc.frequency.setValueAtTime(200, this.audioContext.currentTime);
         osc.frequency.linearRampToValueAtTime(100, this.audioContext.currentTime + 0.2);
         
@@ -472,7 +784,7 @@ export class SoundManager implements SoundManagerApi {
         gain.gain.linearRampToValueAtTime(0.01, this.audioContext.currentTime + 0.2);
         
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(voice.output);
         
         osc.start();
         osc.stop(this.audioContext.currentTime + 0.2);
@@ -499,7 +811,7 @@ export class SoundManager implements SoundManagerApi {
         this.weatherGain = this.audioContext.createGain();
         this.weatherGain.gain.setValueAtTime(0, this.audioContext.currentTime);
         this.weatherGain.gain.linearRampToValueAtTime(0.5, this.audioContext.currentTime + 1);
-        this.weatherGain.connect(this.masterGain);
+        this.weatherGain.connect(this.buses.ambience);
         
         if (weather === 'rainy') {
             this.createRainSound();
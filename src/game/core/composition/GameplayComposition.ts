@@ -12,6 +12,7 @@ import type { PhysicsSystem } from '../PhysicsSystem';
 import type { Pathfinding } from '../Pathfinding';
 import type { Level } from '../../level/Level';
 import { WeatherSystem } from '../../level/WeatherSystem';
+import { DayNightCycle } from '../../level/DayNightCycle';
 
 import { EnemyTrailSystem } from '../../systems/EnemyTrailSystem';
 import { EnemySystem } from '../../systems/EnemySystem';
@@ -19,10 +20,12 @@ import { PickupSystem } from '../../systems/PickupSystem';
 import { GrenadeSystem } from '../../systems/GrenadeSystem';
 import { SpawnSystem } from '../../systems/SpawnSystem';
 import { AudioSystem } from '../../systems/AudioSystem';
+import { BuildingSystem } from '../../systems/BuildingSystem';
 
 export type GameplayComposition = {
     explosionManager: ExplosionManager;
     weatherSystem: WeatherSystem;
+    dayNightCycle: DayNightCycle;
     soundManager: SoundManagerApi;
 
     enemyTrailSystem: EnemyTrailSystem;
@@ -31,6 +34,7 @@ export type GameplayComposition = {
     grenadeSystem: GrenadeSystem;
     spawnSystem: SpawnSystem;
     audioSystem: AudioSystem;
+    buildingSystem: BuildingSystem;
 };
 
 export function createGameplayComposition(opts: {
@@ -56,8 +60,11 @@ export function createGameplayComposition(opts: {
 
     const services = opts.services ?? getDefaultGameServices();
 
-    const weatherSystem = new WeatherSystem(opts.scene, opts.camera, opts.renderer);
+    const dayNightCycle = new DayNightCycle();
+
+    const weatherSystem = new WeatherSystem(opts.scene, opts.camera, opts.renderer, services.random.get('weather'));
     weatherSystem.setLights(opts.ambientLight, opts.sunLight);
+    weatherSystem.setDayNightCycle(dayNightCycle);
     weatherSystem.setWeather('sunny', true);
 
     const soundManager = services.sound;
@@ -74,10 +81,12 @@ export function createGameplayComposition(opts: {
         pathfinding: opts.pathfinding,
         simulation: opts.simulation,
         trails: enemyTrailSystem,
+        dayNight: dayNightCycle,
+        weather: weatherSystem,
         maxGpuEnemies: opts.maxGpuEnemies,
     });
 
-    const pickupSystem = new PickupSystem(opts.scene, opts.level, opts.events);
+    const pickupSystem = new PickupSystem(opts.scene, opts.level, opts.events, services.random.get('pickups'));
 
     const grenadeSystem = new GrenadeSystem({
         events: opts.events,
@@ -91,18 +100,39 @@ export function createGameplayComposition(opts: {
         level: opts.level,
     });
 
-    const spawnSystem = new SpawnSystem(enemySystem, pickupSystem);
+    const spawnSystem = new SpawnSystem({
+        enemies: enemySystem,
+        pickups: pickupSystem,
+        events: opts.events,
+        random: services.random.get('spawn'),
+        dayNight: dayNightCycle,
+    });
 
     const audioSystem = new AudioSystem({
+        events: opts.events,
         sound: soundManager,
+        camera: opts.camera,
+        physicsSystem: opts.physicsSystem,
         weather: weatherSystem,
         level: opts.level,
+        enemySystem,
+    });
+
+    const buildingSystem = new BuildingSystem({
+        events: opts.events,
+        services,
+        scene: opts.scene,
+        camera: opts.camera,
+        physicsSystem: opts.physicsSystem,
+        pathfinding: opts.pathfinding,
+        level: opts.level,
         enemies: enemySystem.all,
     });
 
     return {
         explosionManager,
         weatherSystem,
+        dayNightCycle,
         soundManager,
         enemyTrailSystem,
         enemySystem,
@@ -110,5 +140,6 @@ export function createGameplayComposition(opts: {
         grenadeSystem,
         spawnSystem,
         audioSystem,
+        buildingSystem,
     };
 }
@@ -1,4 +1,4 @@
-import type * as THREE from 'three';
+import * as THREE from 'three';
 
 import { PlayerController } from '../../player/PlayerController';
 import type { ParticleSimulation } from '../gpu/GpuSimulationFacade';
@@ -7,6 +7,7 @@ import type { Level } from '../../level/Level';
 import type { Enemy } from '../../enemy/Enemy';
 import type { GrenadeSystem } from '../../systems/GrenadeSystem';
 import type { PickupSystem } from '../../systems/PickupSystem';
+import type { BuildingSystem } from '../../systems/BuildingSystem';
 import type { WeatherSystem } from '../../level/WeatherSystem';
 import type { RuntimeSettingsSource } from '../settings/RuntimeSettings';
 import type { GameServices } from '../services/GameServices';
@@ -29,6 +30,7 @@ export function createPlayerController(opts: {
     pickups: PickupSystem;
     grenades: GrenadeSystem;
     weather: WeatherSystem;
+    building: BuildingSystem;
 
     spawn?: { x: number; z: number };
 }): PlayerController {
@@ -49,7 +51,13 @@ export function createPlayerController(opts: {
     player.setParticleSystem(opts.particleSystem);
     player.setEnemies(opts.enemies);
 
+    player.setBuildController(opts.building);
+
+    const lookDir = new THREE.Vector3();
     player.setPickupCallback(() => {
+        // [F] opens/closes a door in view first, otherwise collects a pickup.
+        opts.camera.getWorldDirection(lookDir);
+        if (opts.building.tryToggleDoor(opts.camera.position, lookDir)) return;
         opts.pickups.tryCollectOne();
     });
 
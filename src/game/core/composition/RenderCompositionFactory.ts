@@ -3,7 +3,7 @@ import type { WebGPURenderer, PostProcessing } from 'three/webgpu';
 
 import type { UniformManager } from '../../shaders/TSLMaterials';
 import { createPostFXPipeline } from '../render/PostFXPipeline';
-import type { NumberUniform } from '../render/PostFXPipeline';
+import type { NumberUniform, PostFXPipeline } from '../render/PostFXPipeline';
 
 import { ShadowSystem } from '../../systems/ShadowSystem';
 import { RenderSystem } from '../../systems/RenderSystem';
@@ -17,6 +17,7 @@ export function createRenderComposition(opts: {
 }): {
     postProcessing: PostProcessing;
     scopeAimProgress: NumberUniform;
+    postFx: PostFXPipeline;
     shadowSystem: ShadowSystem;
     renderSystem: RenderSystem;
 } {
@@ -33,6 +34,7 @@ export function createRenderComposition(opts: {
     return {
         postProcessing: fx.postProcessing,
         scopeAimProgress: fx.scopeAimProgress,
+        postFx: fx,
         shadowSystem,
         renderSystem,
     };
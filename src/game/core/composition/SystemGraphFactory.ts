@@ -1,4 +1,5 @@
 import type * as THREE from 'three';
+import type { WebGPURenderer } from 'three/webgpu';
 
 import type { System } from '../engine/System';
 import type { SystemManager } from '../engine/SystemManager';
@@ -8,11 +9,17 @@ import { UniformUpdateSystem } from '../../systems/UniformUpdateSystem';
 import { GPUComputeUpdateSystem } from '../../systems/GPUComputeUpdateSystem';
 import { ParticleUpdateSystem } from '../../systems/ParticleUpdateSystem';
 import { LevelUpdateSystem } from '../../systems/LevelUpdateSystem';
+import { SurvivalSystem } from '../../systems/SurvivalSystem';
+import { PostFXSystem } from '../../systems/PostFXSystem';
+import { ScopeSystem } from '../../systems/ScopeSystem';
 
 import type { PlayerController } from '../../player/PlayerController';
 import type { UniformManager } from '../../shaders/TSLMaterials';
+import type { GameEventBus } from '../events/GameEventBus';
+import type { GameServices } from '../services/GameServices';
 import type { GpuSimulationFacade } from '../gpu/GpuSimulationFacade';
 import type { WeatherSystem } from '../../level/WeatherSystem';
+import type { DayNightCycle } from '../../level/DayNightCycle';
 import type { Level } from '../../level/Level';
 
 import type { EnemyTrailSystem } from '../../systems/EnemyTrailSystem';
@@ -21,8 +28,10 @@ import type { PickupSystem } from '../../systems/PickupSystem';
 import type { GrenadeSystem } from '../../systems/GrenadeSystem';
 import type { SpawnSystem } from '../../systems/SpawnSystem';
 import type { AudioSystem } from '../../systems/AudioSystem';
+import type { BuildingSystem } from '../../systems/BuildingSystem';
 import type { ShadowSystem } from '../../systems/ShadowSystem';
 import type { RenderSystem } from '../../systems/RenderSystem';
+import type { PostFXPipeline } from '../render/PostFXPipeline';
 
 type NumberUniform = { value: number };
 type EnemyConfigType = typeof import('../GameConfig').EnemyConfig;
@@ -40,12 +49,19 @@ export type CoreUpdateSystems = {
     gpuComputeUpdateSystem: GPUComputeUpdateSystem;
     particleUpdateSystem: ParticleUpdateSystem;
     levelUpdateSystem: LevelUpdateSystem;
+    survivalSystem: SurvivalSystem;
+    postFxSystem: PostFXSystem;
+    scopeSystem: ScopeSystem;
 };
 
 export function createAndRegisterSystemGraph(opts: {
     systemManager: SystemManager;
 
     // Core update system deps
+    renderer: WebGPURenderer;
+    scene: THREE.Scene;
+    events: GameEventBus;
+    services: GameServices;
     player: PlayerController;
     camera: THREE.PerspectiveCamera;
     scopeAimProgress: NumberUniform;
@@ -59,14 +75,17 @@ export function createAndRegisterSystemGraph(opts: {
 
     // Domain systems already constructed elsewhere
     weatherSystem: WeatherSystem;
+    dayNightCycle: DayNightCycle;
     enemySystem: EnemySystem;
     enemyTrailSystem: EnemyTrailSystem;
     grenadeSystem: GrenadeSystem;
     pickupSystem: PickupSystem;
     spawnSystem: SpawnSystem;
     audioSystem: AudioSystem;
+    buildingSystem: BuildingSystem;
 
     // Render systems
+    postFx: PostFXPipeline;
     shadowSystem: ShadowSystem;
     renderSystem: RenderSystem;
 
@@ -100,31 +119,58 @@ export function createAndRegisterSystemGraph(opts: {
         cameraPosition: opts.camera.position,
     });
 
+    const survivalSystem = new SurvivalSystem({
+        events: opts.events,
+        services: opts.services,
+        weather: opts.weatherSystem,
+        level: opts.level,
+        player: opts.player,
+    });
+
+    const postFxSystem = new PostFXSystem({
+        postFx: opts.postFx,
+        player: opts.player,
+        weather: opts.weatherSystem,
+    });
+
+    const scopeSystem = new ScopeSystem({
+        renderer: opts.renderer,
+        scene: opts.scene,
+        camera: opts.camera,
+        player: opts.player,
+        lens: opts.postFx.scope,
+    });
+
     // Declarative phases (keeps the exact default order but makes extensions explicit).
     const phases: SystemGraphPhases = {
         // input/player state -> uniforms
         preSim: [playerUpdateSystem, uniformUpdateSystem],
         // compute + particle sim + world env updates
-        sim: [gpuComputeUpdateSystem, particleUpdateSystem, opts.weatherSystem, levelUpdateSystem],
+        sim: [gpuComputeUpdateSystem, particleUpdateSystem, opts.dayNightCycle, opts.weatherSystem, levelUpdateSystem],
         // gameplay/domain
         postSim: [
             opts.enemySystem,
             opts.enemyTrailSystem,
             opts.grenadeSystem,
             opts.pickupSystem,
+            opts.buildingSystem,
             opts.spawnSystem,
+            survivalSystem,
             opts.audioSystem,
         ],
         // rendering last
-        render: [opts.shadowSystem, opts.renderSystem],
+        render: [opts.shadowSystem, scopeSystem, postFxSystem, opts.renderSystem],
     };
 
     opts.extendPhases?.(phases);
 
-    // Register in order
-    const ordered: System[] = [...phases.preSim, ...phases.sim, ...phases.postSim, ...phases.render];
-    for (const system of ordered) {
-        opts.systemManager.add(system);
+    // Register in order: simulation phases run on the fixed step, render once per presented frame.
+    const simulated: System[] = [...phases.preSim, ...phases.sim, ...phases.postSim];
+    for (const system of simulated) {
+        opts.systemManager.add(system, 'fixed');
+    }
+    for (const system of phases.render) {
+        opts.systemManager.add(system, 'render');
     }
 
     return {
@@ -133,5 +179,8 @@ export function createAndRegisterSystemGraph(opts: {
         gpuComputeUpdateSystem,
         particleUpdateSystem,
         levelUpdateSystem,
+        survivalSystem,
+        postFxSystem,
+        scopeSystem,
     };
 }
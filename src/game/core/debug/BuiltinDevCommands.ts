@@ -0,0 +1,260 @@
+import { DevConsoleConfig, EnemyTypesConfig, InitialState, WEATHER_TYPES } from '../GameConfig';
+import type { EnemyType, WeatherType } from '../GameConfig';
+import type { GameEventBus } from '../events/GameEventBus';
+import type { GameServices } from '../services/GameServices';
+import type { HitchProfiler } from '../perf/HitchProfiler';
+import type { PerfMonitor } from '../perf/PerfMonitor';
+import type { EnemySystem } from '../../systems/EnemySystem';
+import type { WeatherSystem } from '../../level/WeatherSystem';
+import type { Level } from '../../level/Level';
+import type { PlayerController } from '../../player/PlayerController';
+import type { ReplayMode } from '../replay/ReplayController';
+import { AMMO_CALIBERS } from '../../weapon/Inventory';
+import type { DevConsole, DevConsoleOutput } from './DevConsole';
+
+/** Debug-only switches owned by Game (not saved in snapshots, not recorded in replays). */
+export type DevCheatState = {
+    /** Incoming damage is ignored. */
+    god: boolean;
+    /** Simulation speed multiplier. */
+    timeScale: number;
+};
+
+export type BuiltinDevCommandsDeps = {
+    events: GameEventBus;
+    services: GameServices;
+    cheats: DevCheatState;
+    enemies: EnemySystem;
+    weather: WeatherSystem;
+    level: Level;
+    player: PlayerController;
+    hitchProfiler: HitchProfiler;
+    perfMonitor: PerfMonitor;
+    /** Start a new run with the given seed (Game.reset). */
+    restart: (seed: number) => void;
+    /** Replay state; commands that change the simulation are refused unless idle. */
+    replayMode: () => ReplayMode;
+};
+
+const ENEMY_TYPES = Object.keys(EnemyTypesConfig) as EnemyType[];
+const GIVE_KINDS = ['ammo', 'grenades', 'health'] as const;
+const ON_OFF = ['on', 'off'];
+// Toggles that change what the simulation does (the rest only affect debug output).
+const SIMULATION_TOGGLES = ['god', 'noclip'];
+
+function parseNumber(value: string | undefined, name: string): number {
+    const n = Number(value);
+    if (value === undefined || !Number.isFinite(n)) throw new Error(`${name} must be a number`);
+    return n;
+}
+
+/** `on` / `off` / nothing (= flip). */
+function parseSwitch(value: string | undefined, current: boolean): boolean {
+    if (value === undefined) return !current;
+    const v = value.toLowerCase();
+    if (v === 'on' || v === '1' || v === 'true') return true;
+    if (v === 'off' || v === '0' || v === 'false') return false;
+    throw new Error(`expected on/off, got "${value}"`);
+}
+
+function onOff(value: boolean): string {
+    return value ? 'on' : 'off';
+}
+
+/**
+ * The default command set. Each command only touches the public API of the module it drives, so
+ * modules can also register their own commands through `services.devConsole`.
+ * Returns a function that unregisters everything it added.
+ */
+export function registerBuiltinDevCommands(devConsole: DevConsole, deps: BuiltinDevCommandsDeps): () => void {
+    const { events, services, cheats } = deps;
+
+    // Replays only capture player input: a command that changes the session would make playback diverge.
+    const requireNoReplay = () => {
+        const mode = deps.replayMode();
+        if (mode === 'recording') throw new Error('not available while recording (stop the recording first)');
+        if (mode === 'playback') throw new Error('not available during replay playback');
+    };
+
+    // `toggle <name>`: named debug switches.
+    const toggles: Record<string, { get: () => boolean; set: (value: boolean) => void }> = {
+        hitch: {
+            get: () => deps.hitchProfiler.isEnabled(),
+            set: (value) => deps.hitchProfiler.setEnabled(value),
+        },
+        perf: {
+            get: () => deps.perfMonitor.isEnabled(),
+            set: (value) => deps.perfMonitor.setEnabled(value),
+        },
+        god: {
+            get: () => cheats.god,
+            set: (value) => (cheats.god = value),
+        },
+        noclip: {
+            get: () => deps.player.isNoclip(),
+            set: (value) => deps.player.setNoclip(value),
+        },
+    };
+
+    const setToggle = (name: string, value: string | undefined, out: DevConsoleOutput) => {
+        const toggle = toggles[name];
+        if (SIMULATION_TOGGLES.includes(name)) requireNoReplay();
+        const next = parseSwitch(value, toggle.get());
+        toggle.set(next);
+        out.print(`${name} ${onOff(next)}`);
+    };
+
+    const unregister = [
+        devConsole.register({
+            name: 'spawn',
+            usage: '<enemyType> [count]',
+            description: `Spawn enemies out of view around the player (${ENEMY_TYPES.join(', ')}).`,
+            run: (args, out) => {
+                const type = args[0]?.toLowerCase() as EnemyType;
+                if (!ENEMY_TYPES.includes(type)) throw new Error(`unknown enemy type "${args[0] ?? ''}"`);
+                requireNoReplay();
+                const count = args[1] === undefined ? 1 : Math.floor(parseNumber(args[1], 'count'));
+                const wanted = Math.max(1, Math.min(DevConsoleConfig.maxSpawnCount, count));
+
+                let spawned = 0;
+                for (let i = 0; i < wanted; i++) {
+                    if (deps.enemies.spawnEnemy(type)) spawned++;
+                }
+                if (spawned < wanted) out.warn(`spawned ${spawned}/${wanted} ${type} (no free spawn point for the rest)`);
+                else out.print(`spawned ${spawned} ${type}`);
+            },
+            complete: (args) => (args.length === 0 ? ENEMY_TYPES : []),
+        }),
+
+        devConsole.register({
+            name: 'give',
+            usage: 'ammo|grenades|health [amount]',
+            description: 'Add reserve ammo (every caliber), grenades or health (default: heal to full).',
+            run: (args, out) => {
+                const kind = args[0]?.toLowerCase();
+                const amount = args[1] === undefined ? null : parseNumber(args[1], 'amount');
+                requireNoReplay();
+                switch (kind) {
+                    case 'ammo': {
+                        const delta = amount ?? DevConsoleConfig.give.ammo;
+                        for (const caliber of AMMO_CALIBERS) events.emit({ type: 'state:updateReserveAmmo', caliber, delta });
+                        out.print(`+${delta} reserve ammo per caliber`);
+                        return;
+                    }
+                    case 'grenades': {
+                        const delta = amount ?? DevConsoleConfig.give.grenades;
+                        events.emit({ type: 'state:updateGrenades', delta });
+                        out.print(`+${delta} grenades`);
+                        return;
+                    }
+                    case 'health': {
+                        const delta = amount ?? InitialState.health - services.state.getState().health;
+                        events.emit({ type: 'state:updateHealth', delta });
+                        out.print(`health ${services.state.getState().health}`);
+                        return;
+                    }
+                    default:
+                        throw new Error(`expected ${GIVE_KINDS.join('|')}`);
+                }
+            },
+            complete: (args) => (args.length === 0 ? GIVE_KINDS : []),
+        }),
+
+        devConsole.register({
+            name: 'weather',
+            usage: '[type]',
+            description: `Show or switch the weather immediately (${WEATHER_TYPES.join(', ')}).`,
+            run: (args, out) => {
+                if (!args[0]) {
+                    out.print(`weather ${deps.weather.getCurrentWeather()}`);
+                    return;
+                }
+                const type = args[0].toLowerCase() as WeatherType;
+                if (!WEATHER_TYPES.includes(type)) throw new Error(`unknown weather "${args[0]}"`);
+                requireNoReplay();
+                deps.weather.setWeather(type, true);
+                out.print(`weather ${type}`);
+            },
+            complete: (args) => (args.length === 0 ? WEATHER_TYPES : []),
+        }),
+
+        devConsole.register({
+            name: 'tp',
+            usage: '<x> <z>',
+            description: 'Teleport the player onto the terrain at world X/Z.',
+            run: (args, out) => {
+                const x = parseNumber(args[0], 'x');
+                const z = parseNumber(args[1], 'z');
+                requireNoReplay();
+                const y = deps.level.getTerrainHeight(x, z) + 2.0;
+                deps.player.teleport(x, y, z);
+                out.print(`teleported to ${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)}`);
+            },
+        }),
+
+        devConsole.register({
+            name: 'god',
+            usage: '[on|off]',
+            description: 'Ignore incoming damage.',
+            run: (args, out) => setToggle('god', args[0], out),
+            complete: (args) => (args.length === 0 ? ON_OFF : []),
+        }),
+
+        devConsole.register({
+            name: 'noclip',
+            usage: '[on|off]',
+            description: 'Fly through terrain and objects (look direction, sprint for speed).',
+            run: (args, out) => setToggle('noclip', args[0], out),
+            complete: (args) => (args.length === 0 ? ON_OFF : []),
+        }),
+
+        devConsole.register({
+            name: 'timescale',
+            usage: '[scale]',
+            description: `Show or set the simulation speed (${DevConsoleConfig.timeScale.min}..${DevConsoleConfig.timeScale.max}).`,
+            run: (args, out) => {
+                if (args[0] !== undefined) {
+                    const { min, max } = DevConsoleConfig.timeScale;
+                    cheats.timeScale = Math.max(min, Math.min(max, parseNumber(args[0], 'scale')));
+                }
+                out.print(`timescale ${cheats.timeScale}`);
+            },
+            complete: (args) => (args.length === 0 ? ['0.25', '0.5', '1', '2'] : []),
+        }),
+
+        devConsole.register({
+            name: 'toggle',
+            usage: '<name> [on|off]',
+            description: `Flip a debug switch (${Object.keys(toggles).join(', ')}).`,
+            run: (args, out) => {
+                const name = args[0]?.toLowerCase();
+                if (!name || !toggles[name]) throw new Error(`expected one of ${Object.keys(toggles).join(', ')}`);
+                setToggle(name, args[1], out);
+            },
+            complete: (args) => {
+                if (args.length === 0) return Object.keys(toggles);
+                if (args.length === 1) return ON_OFF;
+                return [];
+            },
+        }),
+
+        devConsole.register({
+            name: 'seed',
+            usage: '[seed]',
+            description: 'Show the run seed, or restart the run with a given seed.',
+            run: (args, out) => {
+                if (args[0] === undefined) {
+                    out.print(`seed ${services.random.getSeed()}`);
+                    return;
+                }
+                const seed = Math.trunc(parseNumber(args[0], 'seed')) >>> 0;
+                deps.restart(seed);
+                out.print(`restarted with seed ${seed}`);
+            },
+        }),
+    ];
+
+    return () => {
+        for (const off of unregister) off();
+    };
+}
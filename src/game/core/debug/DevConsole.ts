@@ -0,0 +1,242 @@
+import { DevConsoleConfig } from '../GameConfig';
+import { readBooleanFlag } from '../runtime/RuntimeToggles';
+
+export type DevConsoleLevel = 'input' | 'info' | 'warn' | 'error';
+
+export type DevConsoleLine = {
+    id: number;
+    level: DevConsoleLevel;
+    text: string;
+};
+
+/** Where a command writes its result. Everything is mirrored to the browser console too. */
+export interface DevConsoleOutput {
+    print(text: string): void;
+    warn(text: string): void;
+    error(text: string): void;
+}
+
+export type DevCommand = {
+    name: string;
+    /** Argument synopsis shown by `help`, e.g. `<enemyType> [count]`. */
+    usage?: string;
+    description: string;
+    run(args: string[], out: DevConsoleOutput): void;
+    /**
+     * Candidates for the argument being typed (`args` holds the finished ones before it).
+     * Filtering by prefix is done by the console.
+     */
+    complete?(args: readonly string[]): readonly string[];
+};
+
+export type DevConsoleCompletion = {
+    /** Input line after completing as far as the candidates agree. */
+    line: string;
+    /** All candidates for the current token (shown when ambiguous). */
+    candidates: string[];
+};
+
+const HISTORY_STORAGE_KEY = 'devConsoleHistory';
+
+/**
+ * Console overlay: `?devConsole=1` (query or localStorage) forces it on in production builds,
+ * `?devConsole=0` turns it off in development.
+ */
+export function resolveDevConsoleEnabled(): boolean {
+    const forced = readBooleanFlag('devConsole');
+    if (forced !== null) return forced;
+    return !import.meta.env?.PROD;
+}
+
+function tokenize(line: string): string[] {
+    return line.trim().split(/\s+/).filter(Boolean);
+}
+
+function commonPrefix(values: readonly string[]): string {
+    if (values.length === 0) return '';
+    let prefix = values[0];
+    for (const value of values) {
+        while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+    }
+    return prefix;
+}
+
+/**
+ * DevConsole - 开发者控制台的命令注册表 + 输出缓冲
+ * Game modules register commands (`register` returns an unregister function); the UI overlay only
+ * calls execute / complete and renders the scrollback.
+ */
+export class DevConsole implements DevConsoleOutput {
+    private readonly commands = new Map<string, DevCommand>();
+    private readonly lines: DevConsoleLine[] = [];
+    private readonly listeners = new Set<() => void>();
+    private readonly history: string[] = [];
+    private nextLineId = 1;
+
+    constructor() {
+        this.loadHistory();
+
+        this.register({
+            name: 'help',
+            usage: '[command]',
+            description: 'List commands, or show how to use one.',
+            run: (args, out) => {
+                if (args[0]) {
+                    const command = this.commands.get(args[0].toLowerCase());
+                    if (!command) {
+                        out.error(`Unknown command: ${args[0]}`);
+                        return;
+                    }
+                    out.print(`${command.name}${command.usage ? ` ${command.usage}` : ''} - ${command.description}`);
+                    return;
+                }
+                for (const command of this.getCommands()) {
+                    out.print(`${command.name}${command.usage ? ` ${command.usage}` : ''} - ${command.description}`);
+                }
+            },
+            complete: (args) => (args.length === 0 ? this.getCommands().map((c) => c.name) : []),
+        });
+        this.register({
+            name: 'clear',
+            description: 'Clear the console output.',
+            run: () => this.clear(),
+        });
+    }
+
+    /** Add a command (names are case-insensitive). Returns a function that removes it again. */
+    register(command: DevCommand): () => void {
+        const key = command.name.toLowerCase();
+        if (this.commands.has(key)) {
+            console.warn(`[DevConsole] command "${key}" registered twice; replacing the previous one.`);
+        }
+        this.commands.set(key, command);
+        return () => {
+            if (this.commands.get(key) === command) this.commands.delete(key);
+        };
+    }
+
+    getCommands(): DevCommand[] {
+        return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /** Run one input line. Errors thrown by a command are reported, not rethrown. */
+    execute(line: string): void {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        this.pushHistory(trimmed);
+        this.append('input', `> ${trimmed}`);
+
+        const [name, ...args] = tokenize(trimmed);
+        const command = this.commands.get(name.toLowerCase());
+        if (!command) {
+            this.error(`Unknown command: ${name} (try "help")`);
+            return;
+        }
+        try {
+            command.run(args, this);
+        } catch (err) {
+            this.error(`${command.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /** Tab completion for the last token of `line` (command name or argument). */
+    complete(line: string): DevConsoleCompletion {
+        const endsWithSpace = /\s$/.test(line);
+        const tokens = tokenize(line);
+        const current = endsWithSpace || tokens.length === 0 ? '' : tokens[tokens.length - 1];
+        const done = endsWithSpace ? tokens : tokens.slice(0, -1);
+
+        let pool: readonly string[];
+        if (done.length === 0) {
+            pool = this.getCommands().map((c) => c.name);
+        } else {
+            const command = this.commands.get(done[0].toLowerCase());
+            pool = command?.complete?.(done.slice(1)) ?? [];
+        }
+
+        const lower = current.toLowerCase();
+        const candidates = pool.filter((c) => c.toLowerCase().startsWith(lower));
+        if (candidates.length === 0) return { line, candidates };
+
+        const completed = candidates.length === 1 ? `${candidates[0]} ` : commonPrefix(candidates);
+        const prefix = done.length > 0 ? `${done.join(' ')} ` : '';
+        return {
+            line: completed.length >= current.length ? prefix + completed : line,
+            candidates,
+        };
+    }
+
+    /** Oldest first. */
+    getHistory(): readonly string[] {
+        return this.history;
+    }
+
+    getLines(): readonly DevConsoleLine[] {
+        return this.lines;
+    }
+
+    /** Notified whenever the output changes. */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    print(text: string): void {
+        this.append('info', text);
+    }
+
+    warn(text: string): void {
+        this.append('warn', text);
+    }
+
+    error(text: string): void {
+        this.append('error', text);
+    }
+
+    clear(): void {
+        this.lines.length = 0;
+        this.emit();
+    }
+
+    private append(level: DevConsoleLevel, text: string): void {
+        if (level === 'warn') console.warn(`[DevConsole] ${text}`);
+        else if (level === 'error') console.error(`[DevConsole] ${text}`);
+        else console.info(`[DevConsole] ${text}`);
+
+        this.lines.push({ id: this.nextLineId++, level, text });
+        if (this.lines.length > DevConsoleConfig.outputLines) {
+            this.lines.splice(0, this.lines.length - DevConsoleConfig.outputLines);
+        }
+        this.emit();
+    }
+
+    private emit(): void {
+        for (const listener of this.listeners) listener();
+    }
+
+    private pushHistory(line: string): void {
+        if (this.history[this.history.length - 1] !== line) this.history.push(line);
+        if (this.history.length > DevConsoleConfig.historySize) {
+            this.history.splice(0, this.history.length - DevConsoleConfig.historySize);
+        }
+        try {
+            localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history));
+        } catch {
+            // ignore
+        }
+    }
+
+    private loadHistory(): void {
+        try {
+            const raw = localStorage.getItem(HISTORY_STORAGE_KEY);
+            const parsed: unknown = raw ? JSON.parse(raw) : null;
+            if (!Array.isArray(parsed)) return;
+            for (const entry of parsed) {
+                if (typeof entry === 'string') this.history.push(entry);
+            }
+            this.history.splice(0, Math.max(0, this.history.length - DevConsoleConfig.historySize));
+        } catch {
+            // ignore
+        }
+    }
+}
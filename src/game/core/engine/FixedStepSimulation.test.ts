@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { SimulationConfig } from '../GameConfig';
+import { FixedStepSimulation } from './FixedStepSimulation';
+import type { FrameContext } from './System';
+import { FunctionSystem, SystemManager } from './SystemManager';
+
+function createHarness(stepHz: number, enabled = true) {
+    const frame: FrameContext = { delta: 0, playerPos: { x: 0, y: 0, z: 0 }, health: 100, aimProgress: 0, alpha: 0 };
+    const steps: Array<{ delta: number; alpha: number }> = [];
+    const systems = new SystemManager().add(
+        new FunctionSystem('probe', (f) => steps.push({ delta: f.delta, alpha: f.alpha }))
+    );
+    const sim = new FixedStepSimulation({ systems, frame, settings: { enabled, stepHz } });
+    return { sim, steps };
+}
+
+describe('FixedStepSimulation', () => {
+    it('runs whole steps and keeps the remainder as the interpolation alpha', () => {
+        const { sim, steps } = createHarness(100);
+
+        expect(sim.advance(0.025)).toBe(2);
+        expect(steps.map((s) => s.delta)).toEqual([0.01, 0.01]);
+        expect(sim.getAlpha()).toBeCloseTo(0.5);
+
+        // The buffered half step completes on the next frame.
+        expect(sim.advance(0.005)).toBe(1);
+        expect(sim.getAlpha()).toBeCloseTo(0, 5);
+    });
+
+    it('runs no step for a frame shorter than one step', () => {
+        const { sim, steps } = createHarness(60);
+
+        expect(sim.advance(1 / 240)).toBe(0);
+        expect(steps).toHaveLength(0);
+        expect(sim.getAlpha()).toBeCloseTo(0.25);
+    });
+
+    it('reports alpha 1 to the systems inside a step', () => {
+        const { sim, steps } = createHarness(100);
+
+        sim.advance(0.035);
+        expect(steps.every((s) => s.alpha === 1)).toBe(true);
+    });
+
+    it('caps the steps per frame and drops whole steps beyond the cap', () => {
+        const { sim, steps } = createHarness(100);
+        const cap = SimulationConfig.maxStepsPerFrame;
+        const frameDelta = (cap + 3.5) * 0.01;
+
+        expect(sim.advance(frameDelta)).toBe(cap);
+        expect(steps).toHaveLength(cap);
+        expect(sim.getDroppedSeconds()).toBeCloseTo(0.03);
+        // The fractional step survives, so interpolation stays continuous.
+        expect(sim.getAlpha()).toBeCloseTo(0.5);
+    });
+
+    it('clamps long frames before accumulating', () => {
+        const { sim } = createHarness(100);
+        const cap = SimulationConfig.maxStepsPerFrame;
+
+        expect(sim.advance(10)).toBe(cap);
+        expect(sim.getDroppedSeconds()).toBeCloseTo(SimulationConfig.maxFrameDelta - cap * 0.01);
+        expect(sim.getAlpha()).toBeLessThan(1);
+    });
+
+    it('lowers the cap when the caller passes maxSteps', () => {
+        const { sim } = createHarness(100);
+
+        expect(sim.advance(0.055, undefined, undefined, 2)).toBe(2);
+        expect(sim.getDroppedSeconds()).toBeCloseTo(0.03);
+        expect(sim.getAlpha()).toBeCloseTo(0.5);
+    });
+
+    it('runs one variable step per frame when disabled', () => {
+        const { sim, steps } = createHarness(100, false);
+
+        expect(sim.advance(0.025)).toBe(1);
+        expect(sim.advance(10)).toBe(1);
+        expect(steps.map((s) => s.delta)).toEqual([0.025, SimulationConfig.maxFrameDelta]);
+        expect(sim.getAlpha()).toBe(1);
+    });
+
+    it('forgets buffered time on reset and on settings changes', () => {
+        const { sim, steps } = createHarness(100);
+
+        sim.advance(0.025);
+        sim.reset();
+        expect(sim.getAlpha()).toBe(1);
+        expect(sim.advance(0.005)).toBe(0);
+
+        sim.setSettings({ enabled: true, stepHz: 50 });
+        expect(sim.getStepSeconds()).toBeCloseTo(0.02);
+        expect(sim.advance(0.015)).toBe(0);
+        expect(steps).toHaveLength(2);
+    });
+});
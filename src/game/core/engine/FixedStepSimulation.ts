@@ -0,0 +1,141 @@
+import { SimulationConfig } from '../GameConfig';
+import { readBooleanFlag, readNumber } from '../runtime/RuntimeToggles';
+import type { FrameContext } from './System';
+import type { SystemManager } from './SystemManager';
+
+export type FixedStepSettings = {
+    /** false -> legacy variable step: one simulation step per frame with the (clamped) frame delta. */
+    enabled: boolean;
+    stepHz: number;
+};
+
+export function resolveFixedStepSettings(): FixedStepSettings {
+    // `?fixedStep=0` for A/B comparisons, `?simHz=120` to change the step rate.
+    const enabled = readBooleanFlag('fixedStep') ?? true;
+    const hz = readNumber('simHz');
+    const stepHz = hz !== null && hz >= 10 && hz <= 480 ? hz : SimulationConfig.stepHz;
+    return { enabled, stepHz };
+}
+
+/**
+ * FixedStepSimulation - 固定步长模拟 (accumulator)
+ * preSim / sim / postSim 以恒定 dt 推进；渲染按剩余时间的比例 (alpha) 在最近两步之间插值。
+ * 单帧步数有上限 (spiral-of-death guard)，超出的时间直接丢弃，游戏会短暂变慢而不是越积越卡。
+ */
+export class FixedStepSimulation {
+    private readonly systems: SystemManager;
+    private readonly frame: FrameContext;
+    private readonly beforeStep: (frame: FrameContext, stepDelta: number) => void;
+
+    private enabled: boolean;
+    private stepHz: number;
+    private stepSeconds: number;
+    private accumulator = 0;
+    private alpha = 1;
+    private droppedSeconds = 0;
+
+    constructor(opts: {
+        systems: SystemManager;
+        frame: FrameContext;
+        settings: FixedStepSettings;
+        /** Refresh per-step frame inputs (delta, health, ...) before the systems run. */
+        beforeStep?: (frame: FrameContext, stepDelta: number) => void;
+    }) {
+        this.systems = opts.systems;
+        this.frame = opts.frame;
+        this.beforeStep = opts.beforeStep ?? ((frame, stepDelta) => (frame.delta = stepDelta));
+        this.enabled = opts.settings.enabled;
+        this.stepHz = opts.settings.stepHz;
+        this.stepSeconds = 1 / this.stepHz;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    getSettings(): FixedStepSettings {
+        return { enabled: this.enabled, stepHz: this.stepHz };
+    }
+
+    /** Switch mode / rate (replay playback runs at the recorded rate). Buffered time is dropped. */
+    setSettings(settings: FixedStepSettings): void {
+        this.enabled = settings.enabled;
+        this.stepHz = settings.stepHz;
+        this.stepSeconds = 1 / this.stepHz;
+        this.reset();
+    }
+
+    getStepSeconds(): number {
+        return this.stepSeconds;
+    }
+
+    /** Interpolation factor between the previous and the latest step (1 when disabled). */
+    getAlpha(): number {
+        return this.alpha;
+    }
+
+    /** Simulation time thrown away by the step cap since the last reset (diagnostics). */
+    getDroppedSeconds(): number {
+        return this.droppedSeconds;
+    }
+
+    /**
+     * Advance by one presented frame. Returns how many simulation steps ran.
+     * `maxSteps` lowers the per-frame cap (e.g. to stop exactly at the end of a replay).
+     */
+    advance(
+        frameDelta: number,
+        timings?: Record<string, number>,
+        now?: () => number,
+        maxSteps: number = SimulationConfig.maxStepsPerFrame
+    ): number {
+        const delta = Math.max(0, Math.min(frameDelta, SimulationConfig.maxFrameDelta));
+
+        if (!this.enabled) {
+            this.alpha = 1;
+            this.runStep(delta, timings, now);
+            return 1;
+        }
+
+        this.accumulator += delta;
+
+        let steps = 0;
+        const cap = Math.min(maxSteps, SimulationConfig.maxStepsPerFrame);
+        while (this.accumulator >= this.stepSeconds && steps < cap) {
+            this.runStep(this.stepSeconds, timings, now);
+            this.accumulator -= this.stepSeconds;
+            steps++;
+        }
+
+        // Still behind after the cap: drop whole steps, keep the fraction so alpha stays continuous.
+        if (this.accumulator >= this.stepSeconds) {
+            const excess = this.accumulator - (this.accumulator % this.stepSeconds);
+            this.droppedSeconds += excess;
+            this.accumulator -= excess;
+        }
+
+        this.alpha = this.accumulator / this.stepSeconds;
+        return steps;
+    }
+
+    /**
+     * Run exactly one fixed step, independent of wall-clock time.
+     * Does not touch the renderer, so a headless harness can drive the simulation directly.
+     */
+    step(timings?: Record<string, number>, now?: () => number): void {
+        this.runStep(this.stepSeconds, timings, now);
+    }
+
+    /** Forget buffered time (new run, snapshot load, resumed after a long pause). */
+    reset(): void {
+        this.accumulator = 0;
+        this.alpha = 1;
+        this.droppedSeconds = 0;
+    }
+
+    private runStep(stepDelta: number, timings?: Record<string, number>, now?: () => number): void {
+        this.beforeStep(this.frame, stepDelta);
+        this.frame.alpha = 1;
+        this.systems.step(this.frame, timings, now);
+    }
+}
@@ -4,6 +4,11 @@ export interface FrameContext {
     playerPos: { x: number; y: number; z: number };
     health: number;
     aimProgress: number;
+    /**
+     * Render phase only: how far (0..1) the presented frame sits between the last two fixed steps.
+     * Always 1 inside fixed steps.
+     */
+    alpha: number;
 }
 
 export interface System {
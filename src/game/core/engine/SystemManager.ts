@@ -24,22 +24,61 @@ export class FunctionSystem implements System {
     }
 }
 
+/**
+ * fixed: preSim / sim / postSim, stepped at a constant rate by FixedStepSimulation.
+ * render: once per presented frame, after interpolation.
+ */
+export type SystemStage = 'fixed' | 'render';
+
 export class SystemManager {
     private systems: System[] = [];
+    private fixedSystems: System[] = [];
+    private renderSystems: System[] = [];
 
-    add(system: System): this {
+    add(system: System, stage: SystemStage = 'fixed'): this {
         this.systems.push(system);
+        (stage === 'fixed' ? this.fixedSystems : this.renderSystems).push(system);
         return this;
     }
 
+    /**
+     * One fixed simulation step. Touches no renderer / DOM state itself, so it can run headless.
+     * Timings accumulate (a frame may run several steps); reset them once per frame.
+     */
+    step(
+        frame: FrameContext,
+        timings?: Record<string, number>,
+        now: () => number = () => performance.now()
+    ): void {
+        this.run(this.fixedSystems, frame, timings, now);
+    }
+
+    render(
+        frame: FrameContext,
+        timings?: Record<string, number>,
+        now: () => number = () => performance.now()
+    ): void {
+        this.run(this.renderSystems, frame, timings, now);
+    }
+
+    /** Variable-step update: every system once, in registration order. */
     update(
         frame: FrameContext,
         timings?: Record<string, number>,
         now: () => number = () => performance.now()
+    ): void {
+        this.run(this.systems, frame, timings, now);
+    }
+
+    private run(
+        systems: readonly System[],
+        frame: FrameContext,
+        timings: Record<string, number> | undefined,
+        now: () => number
     ): void {
         const measure = Boolean(timings);
-        for (let i = 0; i < this.systems.length; i++) {
-            const system = this.systems[i];
+        for (let i = 0; i < systems.length; i++) {
+            const system = systems[i];
             if (!measure) {
                 system.update(frame);
                 continue;
@@ -47,7 +86,7 @@ export class SystemManager {
 
             const t0 = now();
             system.update(frame);
-            timings![system.name] = now() - t0;
+            timings![system.name] = (timings![system.name] ?? 0) + (now() - t0);
         }
     }
 
@@ -60,5 +99,7 @@ export class SystemManager {
             }
         }
         this.systems = [];
+        this.fixedSystems = [];
+        this.renderSystems = [];
     }
 }
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { SimulationConfig } from '../GameConfig';
+
+type Entry = {
+    object: THREE.Object3D;
+    rotation: boolean;
+    prevPosition: THREE.Vector3;
+    prevQuaternion: THREE.Quaternion;
+    currPosition: THREE.Vector3;
+    currQuaternion: THREE.Quaternion;
+    /** Step generation that last saw this object; stale entries are dropped. */
+    seen: number;
+};
+
+export type InterpolationTargets = {
+    /**
+     * Push every object whose transform the fixed step moves.
+     * `rotation: false` keeps the live rotation, for objects whose orientation isn't simulated. The camera
+     * is turned inside the fixed step (queued look input) and must pass `true`, or look judders above 60 Hz.
+     */
+    collect(add: (object: THREE.Object3D, rotation: boolean) => void): void;
+};
+
+/**
+ * TransformInterpolator - 渲染插值
+ * 每个固定步之前记录上一步的变换；渲染前把对象摆到 prev/curr 之间 (alpha)，渲染后还原成 curr，
+ * 保证模拟 / 射线检测 / 输入事件始终看到真实的模拟状态。
+ */
+export class TransformInterpolator {
+    private readonly targets: InterpolationTargets;
+    private readonly entries = new Map<THREE.Object3D, Entry>();
+    private readonly pool: Entry[] = [];
+    private generation = 0;
+    private applied = false;
+
+    private readonly addBound = (object: THREE.Object3D, rotation: boolean) => this.capture(object, rotation);
+
+    constructor(targets: InterpolationTargets) {
+        this.targets = targets;
+    }
+
+    /** Call before every fixed step: the current transforms become the "previous" state. */
+    beginStep(): void {
+        this.restore();
+        this.generation++;
+        this.targets.collect(this.addBound);
+
+        for (const [object, entry] of this.entries) {
+            if (entry.seen === this.generation) continue;
+            this.entries.delete(object);
+            this.pool.push(entry);
+        }
+    }
+
+    /** Pose tracked objects between the last two steps. Pair with restore() after rendering. */
+    apply(alpha: number): void {
+        if (this.applied) return;
+        this.applied = true;
+
+        const maxMoveSq = SimulationConfig.interpolation.teleportDistance ** 2;
+        const t = Math.max(0, Math.min(1, alpha));
+
+        for (const entry of this.entries.values()) {
+            const object = entry.object;
+            entry.currPosition.copy(object.position);
+            entry.currQuaternion.copy(object.quaternion);
+
+            // Respawns / teleports / pool reuse: snap instead of sweeping across the map.
+            if (entry.prevPosition.distanceToSquared(entry.currPosition) > maxMoveSq) continue;
+
+            object.position.lerpVectors(entry.prevPosition, entry.currPosition, t);
+            if (entry.rotation) object.quaternion.slerpQuaternions(entry.prevQuaternion, entry.currQuaternion, t);
+        }
+    }
+
+    /** Put the simulated transforms back. */
+    restore(): void {
+        if (!this.applied) return;
+        this.applied = false;
+
+        for (const entry of this.entries.values()) {
+            entry.object.position.copy(entry.currPosition);
+            if (entry.rotation) entry.object.quaternion.copy(entry.currQuaternion);
+        }
+    }
+
+    /** Drop all history (after teleporting the whole session, e.g. reset / snapshot load). */
+    reset(): void {
+        this.restore();
+        for (const entry of this.entries.values()) this.pool.push(entry);
+        this.entries.clear();
+    }
+
+    private capture(object: THREE.Object3D, rotation: boolean): void {
+        let entry = this.entries.get(object);
+        if (!entry) {
+            entry = this.pool.pop() ?? {
+                object,
+                rotation,
+                prevPosition: new THREE.Vector3(),
+                prevQuaternion: new THREE.Quaternion(),
+                currPosition: new THREE.Vector3(),
+                currQuaternion: new THREE.Quaternion(),
+                seen: 0,
+            };
+            entry.object = object;
+            this.entries.set(object, entry);
+        }
+        entry.rotation = rotation;
+        entry.seen = this.generation;
+        entry.prevPosition.copy(object.position);
+        entry.prevQuaternion.copy(object.quaternion);
+    }
+}
@@ -1,56 +1,79 @@
 import type { GameServices } from '../services/GameServices';
 import type { GameEventBus } from './GameEventBus';
+import type { WorldDeltaStore } from '../../level/WorldDeltaStore';
 
 export function attachDefaultGameEventHandlers(
     bus: GameEventBus,
     opts: {
         services: GameServices;
+        worldDeltas?: WorldDeltaStore;
         setDamageFlashIntensity?: (v: number) => void;
+        /** Debug god mode: negative health changes are dropped. */
+        isInvulnerable?: () => boolean;
     }
 ): () => void {
     const unsubs: Array<() => void> = [];
 
     unsubs.push(
-        bus.on('state:updateHealth', (e) => opts.services.state.updateHealth(e.delta)),
-        bus.on('state:updateAmmo', (e) => opts.services.state.updateAmmo(e.delta)),
+        bus.on('state:updateHealth', (e) => {
+            if (e.delta < 0 && opts.isInvulnerable?.()) return;
+            opts.services.state.updateHealth(e.delta);
+        }),
+        bus.on('state:setMagazine', (e) => opts.services.state.setMagazine(e.weapon, e.rounds)),
+        bus.on('state:updateReserveAmmo', (e) => opts.services.state.updateReserveAmmo(e.caliber, e.delta)),
+        bus.on('state:setLoadoutSlot', (e) => opts.services.state.setLoadoutSlot(e.slot, e.weapon)),
+        bus.on('state:setToolDurability', (e) => opts.services.state.setToolDurability(e.weapon, e.hits)),
+        bus.on('state:setReloadProgress', (e) => opts.services.state.setReloadProgress(e.progress)),
+        bus.on('state:updateResource', (e) => opts.services.state.updateResource(e.resource, e.delta)),
+        bus.on('state:updateItem', (e) => opts.services.state.updateItem(e.item, e.delta)),
         bus.on('state:updateScore', (e) => opts.services.state.updateScore(e.delta)),
         bus.on('state:updateGrenades', (e) => opts.services.state.updateGrenades(e.delta)),
         bus.on('state:setCurrentWeapon', (e) => opts.services.state.setCurrentWeapon(e.weapon)),
         bus.on('state:setChargeProgress', (e) => opts.services.state.setChargeProgress(e.progress)),
         bus.on('state:setStance', (e) => opts.services.state.setStance(e.stance)),
         bus.on('state:setPickupHint', (e) => opts.services.state.setPickupHint(e.hint)),
+        bus.on('state:setSurvival', (e) => opts.services.state.setSurvival(e.stats)),
+        bus.on('state:setBuildMode', (e) => opts.services.state.setBuildMode(e.mode)),
+        bus.on('wave:started', (e) => opts.services.state.setWave({ number: e.wave, active: true })),
+        bus.on('wave:ended', (e) => opts.services.state.setWave({ number: e.wave, active: false })),
+        bus.on('world:vegetationRemoved', (e) => opts.worldDeltas?.markRemoved(e.layer, e.chunkKey, e.seed)),
+        bus.on('world:harvestSource', (e) => {
+            if (opts.worldDeltas && !opts.worldDeltas.takeHarvest(e.seed, e.maxYield)) return;
+            opts.services.state.updateResource(e.resource, e.amount);
+        }),
         bus.on('fx:damageFlash', (e) => opts.setDamageFlashIntensity?.(e.intensity)),
         bus.on('sound:play', (e) => {
+            const at = e.position ? { position: e.position, velocity: e.velocity } : undefined;
             switch (e.sound) {
                 case 'weaponSwitch':
-                    opts.services.sound.playWeaponSwitch();
+                    opts.services.sound.playWeaponSwitch(at);
                     break;
                 case 'shoot':
-                    opts.services.sound.playShoot();
+                    opts.services.sound.playShoot(at);
                     break;
                 case 'sniperShoot':
-                    opts.services.sound.playSniperShoot();
+                    opts.services.sound.playSniperShoot(at);
                     break;
                 case 'hit':
-                    opts.services.sound.playHit();
+                    opts.services.sound.playHit(at);
                     break;
                 case 'damage':
-                    opts.services.sound.playDamage();
+                    opts.services.sound.playDamage(at);
                     break;
                 case 'pickup':
-                    opts.services.sound.playPickup();
+                    opts.services.sound.playPickup(at);
                     break;
                 case 'grenadeThrow':
-                    opts.services.sound.playGrenadeThrow();
+                    opts.services.sound.playGrenadeThrow(at);
                     break;
                 case 'hitImpact':
-                    opts.services.sound.playHitImpact();
+                    opts.services.sound.playHitImpact(at);
                     break;
                 case 'explosion':
-                    opts.services.sound.playExplosion();
+                    opts.services.sound.playExplosion(at);
                     break;
                 case 'enemyDeath':
-                    opts.services.sound.playEnemyDeath();
+                    opts.services.sound.playEnemyDeath(at);
                     break;
             }
         })
@@ -1,4 +1,9 @@
-import type { StanceType, WeaponType } from '../GameState';
+import type { StanceType, SurvivalStats, WeaponType } from '../GameState';
+import type { AmmoCaliber, LoadoutSlotId } from '../../weapon/WeaponTypes';
+import type { ItemId, ResourceType } from '../../crafting/CraftingTypes';
+import type { VegetationLayer } from '../../level/WorldDeltaStore';
+import type { BuildModeState } from '../../building/BuildingTypes';
+import type { EnemyType } from '../GameConfig';
 
 export type GameSound =
     | 'weaponSwitch'
@@ -12,16 +17,45 @@ export type GameSound =
     | 'explosion'
     | 'enemyDeath';
 
+/** What made a `world:noise` (enemies hear it within `radius`, scaled by weather). */
+export type NoiseSource = 'gunshot' | 'explosion' | 'footstep' | 'melee';
+
 export type GameEvent =
     | { type: 'state:updateHealth'; delta: number }
-    | { type: 'state:updateAmmo'; delta: number }
+    | { type: 'state:setMagazine'; weapon: WeaponType; rounds: number }
+    | { type: 'state:updateReserveAmmo'; caliber: AmmoCaliber; delta: number }
+    | { type: 'state:setLoadoutSlot'; slot: LoadoutSlotId; weapon: WeaponType | null }
+    | { type: 'state:setToolDurability'; weapon: WeaponType; hits: number }
+    | { type: 'state:setReloadProgress'; progress: number }
+    | { type: 'state:updateResource'; resource: ResourceType; delta: number }
+    | { type: 'state:updateItem'; item: ItemId; delta: number }
     | { type: 'state:updateScore'; delta: number }
     | { type: 'state:updateGrenades'; delta: number }
     | { type: 'state:setCurrentWeapon'; weapon: WeaponType }
     | { type: 'state:setChargeProgress'; progress: number }
     | { type: 'state:setStance'; stance: StanceType }
     | { type: 'state:setPickupHint'; hint: string | null }
+    | { type: 'state:setSurvival'; stats: Partial<SurvivalStats> }
+    | { type: 'state:setBuildMode'; mode: BuildModeState | null }
+    | { type: 'player:setSpeedMultiplier'; source: string; multiplier: number }
+    /** A melee tool wore out; it leaves the loadout until it is crafted again. */
+    | { type: 'player:toolBroken'; weapon: WeaponType }
+    | { type: 'world:vegetationRemoved'; layer: VegetationLayer; chunkKey: number; seed: number }
+    /** Melee hit on a rock / ruin; pays out only while the source has yield left (WorldDeltaStore). */
+    | { type: 'world:harvestSource'; seed: number; maxYield: number; resource: ResourceType; amount: number }
+    | { type: 'world:explosion'; position: { x: number; y: number; z: number }; radius: number; damage: number }
+    | { type: 'world:noise'; source: NoiseSource; position: { x: number; y: number; z: number }; radius: number }
+    | { type: 'world:enemyKilled'; enemyType: EnemyType }
+    | { type: 'wave:started'; wave: number; enemies: number }
+    | { type: 'wave:ended'; wave: number; rest: number }
     | { type: 'fx:damageFlash'; intensity: number }
-    | { type: 'sound:play'; sound: GameSound };
+    | {
+          type: 'sound:play';
+          sound: GameSound;
+          /** World position of the source; omitted for the player's own sounds (non-positional). */
+          position?: { x: number; y: number; z: number };
+          /** Source velocity (m/s) for Doppler. */
+          velocity?: { x: number; y: number; z: number };
+      };
 
 export type GameEventType = GameEvent['type'];
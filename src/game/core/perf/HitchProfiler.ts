@@ -18,6 +18,13 @@ export type HitchExtraCounters = {
 
 export type RendererWithInfo = {
     info?: {
+        render?: {
+            drawCalls?: number;
+            triangles?: number;
+        };
+        compute?: {
+            frameCalls?: number;
+        };
         memory?: {
             geometries?: number;
             textures?: number;
@@ -53,6 +60,7 @@ export class HitchProfiler {
     private enabled: boolean;
     private thresholdMs: number;
     private logBudget: number;
+    private readonly initialLogBudget: number;
     private bannerLogged: boolean = false;
 
     private lastLogAtMs = Number.NEGATIVE_INFINITY;
@@ -62,12 +70,19 @@ export class HitchProfiler {
         this.enabled = settings.enabled;
         this.thresholdMs = settings.thresholdMs;
         this.logBudget = settings.logBudget;
+        this.initialLogBudget = settings.logBudget;
     }
 
     public isEnabled(): boolean {
         return this.enabled;
     }
 
+    /** Switch at runtime (dev console). Re-enabling refills the log budget. */
+    public setEnabled(enabled: boolean): void {
+        if (enabled && !this.enabled) this.logBudget = Math.max(this.logBudget, this.initialLogBudget);
+        this.enabled = enabled;
+    }
+
     public getThresholdMs(): number {
         return this.thresholdMs;
     }
@@ -0,0 +1,141 @@
+import { PerfHudConfig } from "../GameConfig";
+import { readBooleanFlag } from "../runtime/RuntimeToggles";
+import type { MusicDebugState } from "../MusicEngine";
+import type { HitchExtraCounters, RendererWithInfo } from "./HitchProfiler";
+
+/** One presented frame, as shown by the perf HUD and written to captures. */
+export type PerfFrameSample = {
+    /** performance.now() at the start of the frame. */
+    t: number;
+    /** Time since the previous frame (what the player feels). */
+    frameMs: number;
+    /** CPU time spent inside the frame callback (GPU work is submitted, not awaited). */
+    cpuMs: number;
+    /** Per-system ms (SystemManager timings, fixed steps summed); zero entries are dropped. */
+    systems: Record<string, number>;
+    drawCalls: number;
+    triangles: number;
+    computeCalls: number;
+    geometries: number;
+    textures: number;
+    vegetation?: HitchExtraCounters["vegetation"];
+    /** Adaptive music state (intensity, active stem layers). */
+    music?: MusicDebugState;
+};
+
+export type PerfCapture = {
+    version: 1;
+    createdAt: string;
+    userAgent: string;
+    meta: Record<string, unknown>;
+    frames: PerfFrameSample[];
+};
+
+/** `?perf=1` (query or localStorage) shows the HUD from the start. */
+export function resolvePerfMonitorEnabled(): boolean {
+    return readBooleanFlag("perf") ?? false;
+}
+
+function copyCounters(counters: Record<string, number> | undefined): Record<string, number> | undefined {
+    return counters ? { ...counters } : undefined;
+}
+
+/**
+ * PerfMonitor - 性能 HUD 的数据源
+ * Keeps the last `PerfHudConfig.captureFrames` frames in a ring buffer. Unlike HitchProfiler it
+ * records every frame while enabled (cheap copies only), and nothing while disabled.
+ */
+export class PerfMonitor {
+    private enabled: boolean;
+    private readonly samples: PerfFrameSample[] = [];
+    // Index of the oldest sample once the buffer is full.
+    private head = 0;
+
+    constructor(enabled: boolean) {
+        this.enabled = enabled;
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    public setEnabled(enabled: boolean): void {
+        if (enabled === this.enabled) return;
+        this.enabled = enabled;
+        // A stale history would show a gap as one long frame.
+        this.clear();
+    }
+
+    public clear(): void {
+        this.samples.length = 0;
+        this.head = 0;
+    }
+
+    public recordFrame(params: {
+        frameStartMs: number;
+        rawDeltaSeconds: number;
+        renderer: RendererWithInfo | null | undefined;
+        systemTimings: Record<string, number>;
+        extra?: HitchExtraCounters;
+        music?: MusicDebugState;
+    }): void {
+        if (!this.enabled) return;
+
+        const systems: Record<string, number> = {};
+        for (const name in params.systemTimings) {
+            const ms = params.systemTimings[name];
+            if (ms > 0) systems[name] = ms;
+        }
+
+        // WebGPU Info resets at the start of each animation frame, so these are this frame's totals.
+        const info = params.renderer?.info;
+        const vegetation = params.extra?.vegetation;
+        this.push({
+            t: params.frameStartMs,
+            frameMs: params.rawDeltaSeconds * 1000,
+            cpuMs: performance.now() - params.frameStartMs,
+            systems,
+            drawCalls: info?.render?.drawCalls ?? 0,
+            triangles: info?.render?.triangles ?? 0,
+            computeCalls: info?.compute?.frameCalls ?? 0,
+            geometries: info?.memory?.geometries ?? 0,
+            textures: info?.memory?.textures ?? 0,
+            vegetation: vegetation
+                ? { trees: copyCounters(vegetation.trees), grass: copyCounters(vegetation.grass) }
+                : undefined,
+            music: params.music ? { ...params.music } : undefined,
+        });
+    }
+
+    /** Oldest first. */
+    public getSamples(): PerfFrameSample[] {
+        return [...this.samples.slice(this.head), ...this.samples.slice(0, this.head)];
+    }
+
+    public getLatest(): PerfFrameSample | null {
+        if (this.samples.length === 0) return null;
+        const index = (this.head + this.samples.length - 1) % this.samples.length;
+        return this.samples[index];
+    }
+
+    /** Recent frames as a JSON document (`meta` is caller context such as the seed and settings). */
+    public exportCapture(meta: Record<string, unknown> = {}): string {
+        const capture: PerfCapture = {
+            version: 1,
+            createdAt: new Date().toISOString(),
+            userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+            meta,
+            frames: this.getSamples(),
+        };
+        return JSON.stringify(capture);
+    }
+
+    private push(sample: PerfFrameSample): void {
+        if (this.samples.length < PerfHudConfig.captureFrames) {
+            this.samples.push(sample);
+            return;
+        }
+        this.samples[this.head] = sample;
+        this.head = (this.head + 1) % this.samples.length;
+    }
+}
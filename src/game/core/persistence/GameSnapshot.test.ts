@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { DayNightConfig, InitialState } from '../GameConfig';
+import { createEmptyItems, createEmptyResources } from '../../crafting/Crafting';
+import { createDefaultLoadout, createInitialMagazines, createInitialReserveAmmo, createInitialToolDurability } from '../../weapon/Inventory';
+import { GAME_SNAPSHOT_VERSION, migrateGameSnapshot, parseGameSnapshot } from './GameSnapshot';
+
+/** Shape of the first save format: one shared ammo pool, no survival / world edits / RNG. */
+function createV1Snapshot() {
+    return {
+        version: 1,
+        savedAt: 1_700_000_000_000,
+        worldSeed: 1234,
+        state: { health: 80, ammo: 42, grenades: 2, score: 10, currentWeapon: 'rifle', stance: 'stand', isGameOver: false },
+        player: { position: { x: 1, y: 2, z: 3 }, yaw: 0.5, pitch: 0 },
+        enemies: [] as unknown[],
+        pickups: [{ type: 'ammo', position: { x: 4, y: 0, z: 5 } }],
+        weather: { current: 'sunny' },
+    };
+}
+
+describe('migrateGameSnapshot', () => {
+    it('upgrades a v1 save through every migration to the current version', () => {
+        const snapshot = migrateGameSnapshot(createV1Snapshot());
+
+        expect(snapshot.version).toBe(GAME_SNAPSHOT_VERSION);
+        expect(snapshot.worldSeed).toBe(1234);
+
+        // v1 -> v2
+        expect(snapshot.state).not.toHaveProperty('ammo');
+        expect(snapshot.state.magazines).toEqual(createInitialMagazines());
+        expect(snapshot.state.reserveAmmo).toEqual(createInitialReserveAmmo());
+        expect(snapshot.state.loadout).toEqual(createDefaultLoadout());
+        expect(snapshot.pickups[0]).toMatchObject({ caliber: '556', type: 'ammo' });
+        // v2 -> v3
+        expect(snapshot.state.survival).toEqual(InitialState.survival);
+        // v3 -> v4
+        expect(snapshot.dayNight).toEqual({ timeOfDay: DayNightConfig.startHour });
+        // v4 -> v5
+        expect(snapshot.state.resources).toEqual(createEmptyResources());
+        expect(snapshot.state.items).toEqual(createEmptyItems());
+        // v5 -> v6, v10 -> v11
+        expect(snapshot.worldDeltas).toEqual({ trees: [], grass: [], harvested: [] });
+        // v6 -> v7
+        expect(snapshot.buildings).toEqual([]);
+        // v7 -> v8: fresh streams from the world seed
+        expect(snapshot.random).toEqual({ seed: 1234, streams: {} });
+        // v8 -> v9
+        expect(snapshot.player.scopeZoom).toEqual({});
+        // v9 -> v10
+        expect(snapshot.state.toolDurability).toEqual(createInitialToolDurability());
+
+        // Untouched fields survive the whole chain.
+        expect(snapshot.state.health).toBe(80);
+        expect(snapshot.player.position).toEqual({ x: 1, y: 2, z: 3 });
+    });
+
+    it('starts from any intermediate version', () => {
+        const v7 = { ...migrateGameSnapshot(createV1Snapshot()), version: 7 } as Record<string, unknown>;
+        delete v7.random;
+
+        const snapshot = migrateGameSnapshot(v7);
+        expect(snapshot.version).toBe(GAME_SNAPSHOT_VERSION);
+        expect(snapshot.random).toEqual({ seed: 1234, streams: {} });
+    });
+
+    it('leaves a current snapshot as it is', () => {
+        const current = migrateGameSnapshot(createV1Snapshot());
+        const json = JSON.stringify(current);
+
+        expect(parseGameSnapshot(json)).toEqual(current);
+    });
+
+    it('rejects payloads it cannot understand', () => {
+        expect(() => migrateGameSnapshot(null)).toThrow('not an object');
+        expect(() => migrateGameSnapshot({ state: {} })).toThrow('missing schema version');
+        expect(() => migrateGameSnapshot({ version: 1.5 })).toThrow('missing schema version');
+        expect(() => migrateGameSnapshot({ version: GAME_SNAPSHOT_VERSION + 1 })).toThrow('newer than supported');
+        expect(() => migrateGameSnapshot({ version: 0 })).toThrow('no migration from version 0');
+    });
+});
@@ -0,0 +1,167 @@
+import type { GameState } from '../GameState';
+import type { PlayerSnapshot } from '../../player/PlayerController';
+import type { EnemySnapshot } from '../../systems/EnemySystem';
+import type { PickupSnapshot } from '../../systems/PickupSystem';
+import type { WeatherStateSnapshot } from '../../level/WeatherStateMachine';
+import type { DayNightSnapshot } from '../../level/DayNightCycle';
+import type { WorldDeltaSnapshot } from '../../level/WorldDeltaStore';
+import type { BuildPieceSnapshot } from '../../building/BuildingTypes';
+import type { RandomStreamsSnapshot } from '../util/RandomStreams';
+import { DayNightConfig, InitialState } from '../GameConfig';
+import { createEmptyItems, createEmptyResources } from '../../crafting/Crafting';
+import {
+    createDefaultLoadout,
+    createInitialMagazines,
+    createInitialReserveAmmo,
+    createInitialToolDurability,
+} from '../../weapon/Inventory';
+
+/**
+ * Current snapshot schema version.
+ * Bump this whenever a field is added/renamed/removed and register a migration below.
+ */
+export const GAME_SNAPSHOT_VERSION = 11;
+
+/** Full save-game payload (plain JSON, no class instances). */
+export interface GameSnapshot {
+    version: number;
+    savedAt: number;
+    worldSeed: number;
+    state: GameState;
+    player: PlayerSnapshot;
+    enemies: EnemySnapshot[];
+    pickups: PickupSnapshot[];
+    weather: WeatherStateSnapshot;
+    dayNight: DayNightSnapshot;
+    worldDeltas: WorldDeltaSnapshot;
+    buildings: BuildPieceSnapshot[];
+    /** Run seed + gameplay RNG stream positions, so a loaded session keeps rolling the same dice. */
+    random: RandomStreamsSnapshot;
+}
+
+type SnapshotRecord = Record<string, unknown> & { version: number };
+type SnapshotMigration = (snapshot: SnapshotRecord) => SnapshotRecord;
+
+/**
+ * Migrations keyed by the version they upgrade *from*.
+ * Each step must return a record whose `version` is exactly one higher.
+ */
+const MIGRATIONS: Record<number, SnapshotMigration> = {
+    // v1 -> v2: shared `ammo` pool replaced by per-weapon magazines + per-caliber reserve + loadout slots.
+    1: (snapshot) => {
+        const { ammo: _ammo, ...state } = (snapshot.state ?? {}) as Record<string, unknown>;
+        const pickups = Array.isArray(snapshot.pickups) ? (snapshot.pickups as Record<string, unknown>[]) : [];
+        return {
+            ...snapshot,
+            version: 2,
+            state: {
+                ...state,
+                magazines: createInitialMagazines(),
+                reserveAmmo: createInitialReserveAmmo(),
+                loadout: createDefaultLoadout(),
+                reloadProgress: 0,
+            },
+            pickups: pickups.map((p) => ({ caliber: '556', ...p })),
+        };
+    },
+    // v2 -> v3: survival stats (hunger / thirst / stamina / body temperature).
+    2: (snapshot) => ({
+        ...snapshot,
+        version: 3,
+        state: {
+            ...((snapshot.state ?? {}) as Record<string, unknown>),
+            survival: { ...InitialState.survival },
+        },
+    }),
+    // v3 -> v4: world clock (time of day).
+    3: (snapshot) => ({
+        ...snapshot,
+        version: 4,
+        dayNight: { timeOfDay: DayNightConfig.startHour },
+    }),
+    // v4 -> v5: crafting resources + consumable items.
+    4: (snapshot) => ({
+        ...snapshot,
+        version: 5,
+        state: {
+            ...((snapshot.state ?? {}) as Record<string, unknown>),
+            resources: createEmptyResources(),
+            items: createEmptyItems(),
+        },
+    }),
+    // v5 -> v6: persistent world edits (chopped trees / cut grass).
+    5: (snapshot) => ({
+        ...snapshot,
+        version: 6,
+        worldDeltas: { trees: [], grass: [] },
+    }),
+    // v6 -> v7: player-built structures.
+    6: (snapshot) => ({
+        ...snapshot,
+        version: 7,
+        buildings: [],
+    }),
+    // v7 -> v8: seeded gameplay RNG. Older saves were rolled with Math.random; start fresh streams from the world seed.
+    7: (snapshot) => ({
+        ...snapshot,
+        version: 8,
+        random: { seed: typeof snapshot.worldSeed === 'number' ? snapshot.worldSeed : 0, streams: {} },
+    }),
+    // v8 -> v9: per-weapon scope zoom (older saves start at each scope's default zoom).
+    8: (snapshot) => ({
+        ...snapshot,
+        version: 9,
+        player: { ...((snapshot.player ?? {}) as Record<string, unknown>), scopeZoom: {} },
+    }),
+    // v9 -> v10: melee tool durability (older saves get unworn tools).
+    9: (snapshot) => ({
+        ...snapshot,
+        version: 10,
+        state: {
+            ...((snapshot.state ?? {}) as Record<string, unknown>),
+            toolDurability: createInitialToolDurability(),
+        },
+    }),
+    // v10 -> v11: per-rock / per-ruin harvest counts (older saves start with untouched sources).
+    10: (snapshot) => ({
+        ...snapshot,
+        version: 11,
+        worldDeltas: { ...((snapshot.worldDeltas ?? {}) as Record<string, unknown>), harvested: [] },
+    }),
+};
+
+/**
+ * Upgrade any supported snapshot to the current schema.
+ * Throws on unknown/newer versions so callers never apply half-understood data.
+ */
+export function migrateGameSnapshot(raw: unknown): GameSnapshot {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('GameSnapshot: payload is not an object');
+    }
+
+    let snapshot = raw as SnapshotRecord;
+    if (typeof snapshot.version !== 'number' || !Number.isInteger(snapshot.version)) {
+        throw new Error('GameSnapshot: missing schema version');
+    }
+    if (snapshot.version > GAME_SNAPSHOT_VERSION) {
+        throw new Error(`GameSnapshot: version ${snapshot.version} is newer than supported ${GAME_SNAPSHOT_VERSION}`);
+    }
+
+    while (snapshot.version < GAME_SNAPSHOT_VERSION) {
+        const from = snapshot.version;
+        const migrate = MIGRATIONS[from];
+        if (!migrate) {
+            throw new Error(`GameSnapshot: no migration from version ${from}`);
+        }
+        snapshot = migrate(snapshot);
+        if (snapshot.version !== from + 1) {
+            throw new Error(`GameSnapshot: migration from version ${from} produced version ${snapshot.version}`);
+        }
+    }
+
+    return snapshot as unknown as GameSnapshot;
+}
+
+export function parseGameSnapshot(json: string): GameSnapshot {
+    return migrateGameSnapshot(JSON.parse(json));
+}
@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+import { PostFXConfig, type WeatherType } from '../GameConfig';
+
+export type ColorGrade = (typeof PostFXConfig.colorGrading.weathers)[WeatherType];
+
+/**
+ * The LUT is indexed in a Reinhard-shaped domain (c / (1 + c)) so HDR values (> 1) survive grading.
+ * Keep in sync with the lookup in PostFXPasses.
+ */
+export function shapeLutDomain(c: number): number {
+    return c / (1 + c);
+}
+
+function unshapeLutDomain(s: number): number {
+    return s / Math.max(1e-4, 1 - s);
+}
+
+function gradeChannel(c: number, grade: ColorGrade, channel: 0 | 1 | 2): number {
+    // lift/gain, then contrast around mid grey (in the shaped domain so highlights roll off instead of exploding).
+    const lifted = c * grade.gain[channel] + grade.lift[channel];
+    const shaped = shapeLutDomain(Math.max(0, lifted));
+    const contrasted = (shaped - 0.5) * grade.contrast + 0.5;
+    return unshapeLutDomain(THREE.MathUtils.clamp(contrasted, 0, 0.999));
+}
+
+/**
+ * Bake a grade into an HDR 3D LUT (RGBA half float, linear output).
+ */
+export function createColorGradingLUT(grade: ColorGrade, size: number = PostFXConfig.colorGrading.lutSize): THREE.Data3DTexture {
+    const data = new Uint16Array(size * size * size * 4);
+    const one = THREE.DataUtils.toHalfFloat(1);
+    // The last cell maps to s = 1 (infinity); clamp the domain edge to something large but finite.
+    const maxShaped = 0.995;
+
+    let i = 0;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const inR = unshapeLutDomain(Math.min(maxShaped, r / (size - 1)));
+                const inG = unshapeLutDomain(Math.min(maxShaped, g / (size - 1)));
+                const inB = unshapeLutDomain(Math.min(maxShaped, b / (size - 1)));
+
+                let outR = gradeChannel(inR, grade, 0);
+                let outG = gradeChannel(inG, grade, 1);
+                let outB = gradeChannel(inB, grade, 2);
+
+                // Saturation around Rec.709 luma.
+                const luma = outR * 0.2126 + outG * 0.7152 + outB * 0.0722;
+                outR = Math.max(0, luma + (outR - luma) * grade.saturation);
+                outG = Math.max(0, luma + (outG - luma) * grade.saturation);
+                outB = Math.max(0, luma + (outB - luma) * grade.saturation);
+
+                data[i++] = THREE.DataUtils.toHalfFloat(outR);
+                data[i++] = THREE.DataUtils.toHalfFloat(outG);
+                data[i++] = THREE.DataUtils.toHalfFloat(outB);
+                data[i++] = one;
+            }
+        }
+    }
+
+    const texture = new THREE.Data3DTexture(data, size, size, size);
+    texture.format = THREE.RGBAFormat;
+    texture.type = THREE.HalfFloatType;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.wrapS = THREE.ClampToEdgeWrapping;
+    texture.wrapT = THREE.ClampToEdgeWrapping;
+    texture.wrapR = THREE.ClampToEdgeWrapping;
+    texture.generateMipmaps = false;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/** One LUT per weather, baked once. */
+export function createWeatherLUTs(): Record<WeatherType, THREE.Data3DTexture> {
+    const weathers = PostFXConfig.colorGrading.weathers;
+    return {
+        sunny: createColorGradingLUT(weathers.sunny),
+        rainy: createColorGradingLUT(weathers.rainy),
+        windy: createColorGradingLUT(weathers.windy),
+        sandstorm: createColorGradingLUT(weathers.sandstorm),
+    };
+}
@@ -0,0 +1,161 @@
+/**
+ * PostFXPasses - 可插拔的后期处理 pass 注册表
+ * 每个 pass 是一个 TSL 节点函数：(输入颜色节点, 上下文) -> 输出颜色节点。
+ * 链的顺序与启用集合由 PostFXPipeline.setPasses 决定；这里只负责构建节点图。
+ * 运行时可调参数全部是 uniform (PostFXTuning)，修改它们不会触发重新编译。
+ */
+import type * as THREE from 'three';
+import type { Node, PassNode, Texture3DNode, UniformNode } from 'three/webgpu';
+import {
+    uniform,
+    vec2,
+    vec3,
+    vec4,
+    mix,
+    float,
+    int,
+    smoothstep,
+    screenUV,
+    convertToTexture,
+    perspectiveDepthToViewZ,
+    reference,
+} from 'three/tsl';
+import { bloom } from 'three/examples/jsm/tsl/display/BloomNode.js';
+import { ao } from 'three/examples/jsm/tsl/display/GTAONode.js';
+import { dof } from 'three/examples/jsm/tsl/display/DepthOfFieldNode.js';
+import { motionBlur } from 'three/examples/jsm/tsl/display/MotionBlur.js';
+
+import { PostFXConfig, type PostFXPassId } from '../GameConfig';
+
+type NumberUniform = UniformNode<number>;
+
+/** Per-frame inputs, written by PostFXSystem. */
+export type PostFXInputs = {
+    /** 0..1, smoothed sprint amount. */
+    sprint: NumberUniform;
+    /** 0..1, shared with the scope overlay. */
+    scopeAim: NumberUniform;
+    /** Weather grading: from -> to LUT cross-fade (0..1). */
+    weatherBlend: NumberUniform;
+    lutFrom: Texture3DNode;
+    lutTo: Texture3DNode;
+};
+
+/** Live-tunable knobs (defaults from PostFXConfig). */
+export type PostFXTuning = {
+    aoIntensity: NumberUniform;
+    bloomStrength: NumberUniform;
+    bloomRadius: NumberUniform;
+    bloomThreshold: NumberUniform;
+    dofFocalLength: NumberUniform;
+    dofBokehScale: NumberUniform;
+    motionBlurStrength: NumberUniform;
+    gradingIntensity: NumberUniform;
+    vignetteStrength: NumberUniform;
+};
+
+export type PostFXPassContext = {
+    scenePass: PassNode;
+    camera: THREE.PerspectiveCamera;
+    inputs: PostFXInputs;
+    tuning: PostFXTuning;
+    /** Passes register TempNodes that own render targets so a rebuild can release them. */
+    track: (node: { dispose(): void }) => void;
+};
+
+export type PostFXPass = (input: Node, ctx: PostFXPassContext) => Node;
+
+export function createPostFXTuning(): PostFXTuning {
+    const cfg = PostFXConfig;
+    return {
+        aoIntensity: uniform(cfg.ambientOcclusion.intensity),
+        bloomStrength: uniform(cfg.bloom.strength),
+        bloomRadius: uniform(cfg.bloom.radius),
+        bloomThreshold: uniform(cfg.bloom.threshold),
+        dofFocalLength: uniform(cfg.depthOfField.focalLength),
+        dofBokehScale: uniform(cfg.depthOfField.bokehScale),
+        motionBlurStrength: uniform(cfg.motionBlur.strength),
+        gradingIntensity: uniform(cfg.colorGrading.intensity),
+        vignetteStrength: uniform(cfg.vignette.strength),
+    };
+}
+
+function createAmbientOcclusionPass(input: Node, ctx: PostFXPassContext): Node {
+    const cfg = PostFXConfig.ambientOcclusion;
+    // No normal MRT: GTAO reconstructs normals from depth.
+    const aoNode = ao(ctx.scenePass.getTextureNode('depth'), null, ctx.camera);
+    aoNode.resolutionScale = cfg.resolutionScale;
+    aoNode.radius.value = cfg.radius;
+    aoNode.thickness.value = cfg.thickness;
+    ctx.track(aoNode);
+
+    const occlusion = mix(float(1), aoNode.getTextureNode().r, ctx.tuning.aoIntensity);
+    return vec4(input.rgb.mul(occlusion), input.a);
+}
+
+function createBloomPass(input: Node, ctx: PostFXPassContext): Node {
+    const bloomNode = bloom(input);
+    // Share the tuning uniforms so strength / radius / threshold stay live.
+    bloomNode.strength = ctx.tuning.bloomStrength;
+    bloomNode.radius = ctx.tuning.bloomRadius;
+    bloomNode.threshold = ctx.tuning.bloomThreshold;
+    ctx.track(bloomNode);
+    return input.add(bloomNode);
+}
+
+function createDepthOfFieldPass(input: Node, ctx: PostFXPassContext): Node {
+    // Auto-focus on whatever sits under the crosshair (scene depth at the screen center).
+    // Post passes render with a fullscreen-quad camera, so read near/far from the scene camera.
+    const near = reference('near', 'float', ctx.camera);
+    const far = reference('far', 'float', ctx.camera);
+    const depth = ctx.scenePass.getTextureNode('depth');
+    const focusDistance = perspectiveDepthToViewZ(depth.sample(vec2(0.5, 0.5)).r, near, far).negate();
+
+    // Blur only while scoped in.
+    const bokehScale = ctx.tuning.dofBokehScale.mul(ctx.inputs.scopeAim);
+    const dofNode = dof(input, ctx.scenePass.getViewZNode(), focusDistance, ctx.tuning.dofFocalLength, bokehScale);
+    ctx.track(dofNode);
+    return dofNode;
+}
+
+function createMotionBlurPass(input: Node, ctx: PostFXPassContext): Node {
+    const texture = convertToTexture(input);
+    ctx.track(texture);
+    // Radial streaks (forward motion): zero at the center, strongest at the edges.
+    const velocity = screenUV.sub(0.5).mul(ctx.tuning.motionBlurStrength.mul(ctx.inputs.sprint));
+    return motionBlur(texture, velocity, int(PostFXConfig.motionBlur.samples));
+}
+
+function createColorGradingPass(input: Node, ctx: PostFXPassContext): Node {
+    // Same shaped domain as ColorGradingLUT.shapeLutDomain: c / (1 + c).
+    const size = PostFXConfig.colorGrading.lutSize;
+    const shaped = input.rgb.max(0).div(input.rgb.max(0).add(1));
+    const uvw = shaped.mul((size - 1) / size).add(0.5 / size);
+
+    const from = ctx.inputs.lutFrom.sample(uvw).rgb;
+    const to = ctx.inputs.lutTo.sample(uvw).rgb;
+    const graded = mix(from, to, ctx.inputs.weatherBlend);
+    return vec4(mix(input.rgb, graded, ctx.tuning.gradingIntensity), input.a);
+}
+
+function createVignettePass(input: Node, ctx: PostFXPassContext): Node {
+    const cfg = PostFXConfig.vignette;
+    const center = vec3(0.5, 0.5, 0);
+    const dist = screenUV.sub(center.xy).length();
+
+    const vignetteRadius = float(cfg.radius);
+    const vignetteSoftness = float(cfg.softness);
+    const vignette = smoothstep(vignetteRadius, vignetteRadius.sub(vignetteSoftness), dist);
+
+    const darkening = mix(float(1), vignette, ctx.tuning.vignetteStrength);
+    return input.mul(darkening);
+}
+
+export const POST_FX_PASSES: Record<PostFXPassId, PostFXPass> = {
+    ambientOcclusion: createAmbientOcclusionPass,
+    bloom: createBloomPass,
+    depthOfField: createDepthOfFieldPass,
+    motionBlur: createMotionBlurPass,
+    colorGrading: createColorGradingPass,
+    vignette: createVignettePass,
+};
@@ -13,15 +13,41 @@ import {
     float,
     smoothstep,
     screenUV,
+    texture3D,
 } from 'three/tsl';
 
 import type { UniformManager } from '../../shaders/TSLMaterials';
+import { PostFXConfig, type PostFXPassId, type WeatherType } from '../GameConfig';
+import { createWeatherLUTs } from './ColorGradingLUT';
+import { createScopeLens, createScopeOverlay, type ScopeLens } from './ScopeOverlay';
+import {
+    POST_FX_PASSES,
+    createPostFXTuning,
+    type PostFXInputs,
+    type PostFXPassContext,
+    type PostFXTuning,
+} from './PostFXPasses';
 
 export type NumberUniform = UniformNode<number>;
 
 export type PostFXPipeline = {
     postProcessing: PostProcessing;
     scopeAimProgress: NumberUniform;
+    /** Scope overlay uniforms + PIP lens target; driven by ScopeSystem. */
+    scope: ScopeLens;
+    /** Per-frame pass inputs (sprint, weather LUTs); driven by PostFXSystem. */
+    inputs: PostFXInputs;
+    /** Live-tunable pass parameters (uniforms, no recompile). */
+    tuning: PostFXTuning;
+    /** Color-grading LUT per weather (baked once; swapped into `inputs.lutFrom/lutTo`). */
+    weatherLUTs: Record<WeatherType, THREE.Data3DTexture>;
+    /**
+     * Rebuild the cosmetic chain with the given passes, in the given order.
+     * Gameplay overlays (damage, scope) always stay on. Changing the set recompiles the post pipeline.
+     */
+    setPasses: (ids: readonly PostFXPassId[]) => void;
+    getPasses: () => readonly PostFXPassId[];
+    dispose: () => void;
 };
 
 export function createPostFXPipeline(opts: {
@@ -33,18 +59,71 @@ export function createPostFXPipeline(opts: {
     const pp = new PostProcessing(opts.renderer);
 
     const scopeAimProgressNode = uniform(0);
+    const scope = createScopeLens(scopeAimProgressNode);
 
     // Scene render pass
     const scenePass = pass(opts.scene, opts.camera);
     const sceneColor = scenePass.getTextureNode('output');
 
-    const damageOverlay = createDamageOverlay(sceneColor, opts.uniforms);
-    const scopeOverlay = createScopeEffect(damageOverlay, scopeAimProgressNode);
-    const vignette = createVignetteEffect(scopeOverlay);
-
-    pp.outputNode = vignette;
-
-    return { postProcessing: pp, scopeAimProgress: scopeAimProgressNode };
+    const luts = createWeatherLUTs();
+    const inputs: PostFXInputs = {
+        sprint: uniform(0),
+        scopeAim: scopeAimProgressNode,
+        weatherBlend: uniform(0),
+        lutFrom: texture3D(luts.sunny),
+        lutTo: texture3D(luts.sunny),
+    };
+    const tuning = createPostFXTuning();
+
+    let passes: PostFXPassId[] = [];
+    let tracked: Array<{ dispose(): void }> = [];
+
+    const build = (ids: readonly PostFXPassId[]) => {
+        const nextTracked: Array<{ dispose(): void }> = [];
+        const ctx: PostFXPassContext = {
+            scenePass,
+            camera: opts.camera,
+            inputs,
+            tuning,
+            track: (node) => nextTracked.push(node),
+        };
+
+        let color: Node = sceneColor;
+        for (const id of ids) color = POST_FX_PASSES[id](color, ctx);
+
+        const damageOverlay = createDamageOverlay(color, opts.uniforms);
+        pp.outputNode = createScopeOverlay(damageOverlay, scope);
+        pp.needsUpdate = true;
+
+        for (const node of tracked) node.dispose();
+        tracked = nextTracked;
+        passes = [...ids];
+    };
+
+    // Full configured chain until the graphics settings pick a set.
+    build(PostFXConfig.order);
+
+    return {
+        postProcessing: pp,
+        scopeAimProgress: scopeAimProgressNode,
+        scope,
+        inputs,
+        tuning,
+        weatherLUTs: luts,
+        setPasses: (ids) => {
+            const next = ids.filter((id, i) => POST_FX_PASSES[id] && ids.indexOf(id) === i);
+            if (next.length === passes.length && next.every((id, i) => id === passes[i])) return;
+            build(next);
+        },
+        getPasses: () => passes,
+        dispose: () => {
+            for (const node of tracked) node.dispose();
+            tracked = [];
+            for (const lut of Object.values(luts)) lut.dispose();
+            scope.dispose();
+            pp.dispose();
+        },
+    };
 }
 
 function createDamageOverlay(inputColor: Node, uniforms: UniformManager): Node {
@@ -67,93 +146,3 @@ function createDamageOverlay(inputColor: Node, uniforms: UniformManager): Node {
 
     return finalColor;
 }
-
-function createVignetteEffect(inputColor: Node): Node {
-    const color = inputColor;
-    const coord = screenUV;
-
-    const center = vec3(0.5, 0.5, 0);
-    const dist = coord.sub(center.xy).length();
-
-    const vignetteStrength = float(0.4);
-    const vignetteRadius = float(0.8);
-    const vignetteSoftness = float(0.5);
-
-    const vignette = smoothstep(vignetteRadius, vignetteRadius.sub(vignetteSoftness), dist);
-
-    const darkening = mix(float(1), vignette, vignetteStrength);
-    const finalColor = color.mul(darkening);
-
-    return finalColor;
-}
-
-function createScopeEffect(inputColor: Node, scopeAimProgress: NumberUniform): Node {
-    const color = inputColor;
-    const aimProgress = scopeAimProgress;
-    const coord = screenUV;
-
-    const aspect = float(16.0 / 9.0);
-
-    const correctedCoord = vec3(coord.x.sub(0.5).mul(aspect), coord.y.sub(0.5), float(0));
-    const dist = correctedCoord.length();
-
-    const innerRadius = float(0.35);
-    const outerRadius = float(0.38);
-    const borderRadius = float(0.42);
-
-    const borderMask = smoothstep(innerRadius, outerRadius, dist);
-    const outerMask = smoothstep(outerRadius, borderRadius, dist);
-
-    const borderColor = vec3(0.08, 0.08, 0.1);
-
-    const crosshairThickness = float(0.002);
-    const crosshairLength = float(0.15);
-    const horizontalLine = smoothstep(crosshairThickness, float(0), correctedCoord.y.abs())
-        .mul(
-            smoothstep(
-                crosshairLength,
-                crosshairLength.sub(0.02),
-                correctedCoord.x.abs()
-            )
-        )
-        .mul(smoothstep(float(0.02), float(0.03), correctedCoord.x.abs()));
-
-    const verticalLine = smoothstep(crosshairThickness, float(0), correctedCoord.x.abs())
-        .mul(
-            smoothstep(
-                crosshairLength,
-                crosshairLength.sub(0.02),
-                correctedCoord.y.abs()
-            )
-        )
-        .mul(smoothstep(float(0.02), float(0.03), correctedCoord.y.abs()));
-
-    const crosshair = horizontalLine.add(verticalLine).clamp(0, 1);
-    const crosshairColor = vec3(0, 0, 0);
-
-    const dotRadius = float(0.008);
-    const redDot = smoothstep(dotRadius, dotRadius.mul(0.5), dist);
-    const redDotColor = vec3(1.0, 0.1, 0.05);
-
-    let result = color;
-
-    result = mix(color, vec4(borderColor, 1), borderMask.mul(aimProgress));
-    result = mix(result, vec4(0, 0, 0, 1), outerMask.mul(aimProgress));
-
-    const crosshairVisible = crosshair.mul(float(1).sub(borderMask)).mul(aimProgress);
-    result = mix(result, vec4(crosshairColor, 1), crosshairVisible.mul(0.8));
-
-    result = mix(result, vec4(redDotColor, 1), redDot.mul(aimProgress));
-
-    const edgeHighlight = smoothstep(innerRadius.sub(0.02), innerRadius, dist).mul(
-        smoothstep(outerRadius, innerRadius, dist)
-    );
-    const highlightColor = vec3(0.3, 0.4, 0.5);
-    result = mix(
-        result,
-        result.add(vec4(highlightColor.mul(0.1), 0)),
-        edgeHighlight.mul(aimProgress)
-    );
-
-    return result;
-}
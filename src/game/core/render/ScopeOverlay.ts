@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+import type { Node, UniformNode } from 'three/webgpu';
+import { uniform, vec2, vec3, vec4, float, mix, smoothstep, step, screenUV, texture, abs, max } from 'three/tsl';
+
+import { ScopeConfig } from '../GameConfig';
+import type { ScopeReticleDefinition } from '../../weapon/WeaponTypes';
+
+type NumberUniform = UniformNode<number>;
+type ColorUniform = UniformNode<THREE.Color>;
+
+/**
+ * Scope overlay state. Everything is a uniform, so switching weapons / reticles / zoom never recompiles
+ * the post pipeline. Written by ScopeSystem (aim progress by PlayerUpdateSystem).
+ */
+export type ScopeLens = {
+    aimProgress: NumberUniform;
+    /** 1 = picture-in-picture lens (samples `target`), 0 = the camera FOV itself is narrowed. */
+    pip: NumberUniform;
+    /** Magnified view for the PIP lens (square, covers the lens diameter). */
+    target: THREE.RenderTarget;
+    aspect: NumberUniform;
+    reticle: {
+        lineColor: ColorUniform;
+        lineWidth: NumberUniform;
+        lineLength: NumberUniform;
+        centerGap: NumberUniform;
+        postWidth: NumberUniform;
+        postStart: NumberUniform;
+        milDotSpacing: NumberUniform;
+        milDotRadius: NumberUniform;
+        dotColor: ColorUniform;
+        dotRadius: NumberUniform;
+    };
+    /** Drop marks: lens-space offset below the center, and half width (0 = unused slot). */
+    dropMarks: Array<{ offset: NumberUniform; halfWidth: NumberUniform }>;
+    dispose: () => void;
+};
+
+export function createScopeLens(aimProgress: NumberUniform): ScopeLens {
+    const size = ScopeConfig.pip.resolution;
+    const target = new THREE.RenderTarget(size, size, { type: THREE.HalfFloatType });
+
+    const lens: ScopeLens = {
+        aimProgress,
+        pip: uniform(0),
+        target,
+        aspect: uniform(16 / 9),
+        reticle: {
+            lineColor: uniform(new THREE.Color()),
+            lineWidth: uniform(0),
+            lineLength: uniform(0),
+            centerGap: uniform(0),
+            postWidth: uniform(0),
+            postStart: uniform(0),
+            milDotSpacing: uniform(0),
+            milDotRadius: uniform(0),
+            dotColor: uniform(new THREE.Color()),
+            dotRadius: uniform(0),
+        },
+        dropMarks: Array.from({ length: ScopeConfig.dropMarks.max }, () => ({ offset: uniform(0), halfWidth: uniform(0) })),
+        dispose: () => target.dispose(),
+    };
+    setScopeReticle(lens, ScopeConfig.reticles.classic);
+    return lens;
+}
+
+export function setScopeReticle(lens: ScopeLens, def: ScopeReticleDefinition): void {
+    const r = lens.reticle;
+    r.lineColor.value.setHex(def.lineColor);
+    r.lineWidth.value = def.lineWidth;
+    r.lineLength.value = def.lineLength;
+    r.centerGap.value = def.centerGap;
+    r.postWidth.value = def.postWidth;
+    r.postStart.value = def.postStart;
+    r.milDotSpacing.value = def.milDotSpacing;
+    r.milDotRadius.value = def.milDotRadius;
+    r.dotColor.value.setHex(def.dotColor);
+    r.dotRadius.value = def.dotRadius;
+}
+
+/** Anti-aliased band |x| < width (0 when width is 0). */
+function band(x: Node, width: Node): Node {
+    return smoothstep(width, width.mul(0.5), abs(x)).mul(step(1e-4, width));
+}
+
+/** Dots every `spacing` along an axis (`along` = position on the axis, `across` = distance from it). */
+function milDots(along: Node, across: Node, spacing: Node, radius: Node, extent: Node): Node {
+    const safeSpacing = max(spacing, 1e-4);
+    const a = abs(along);
+    const index = a.div(safeSpacing).round();
+    const d = vec2(a.sub(index.mul(safeSpacing)), across).length();
+    return smoothstep(radius, radius.mul(0.6), d)
+        .mul(step(0.5, index)) // no dot on the center
+        .mul(step(a, extent))
+        .mul(step(1e-4, spacing));
+}
+
+/**
+ * Scope overlay on top of the final image: housing ring, periphery, lens content and reticle.
+ * Fullscreen mode keeps the original look (black beyond the ring); PIP mode shows the magnified render
+ * inside the lens and a dimmed normal-FOV world around it.
+ */
+export function createScopeOverlay(inputColor: Node, lens: ScopeLens): Node {
+    const aim = lens.aimProgress;
+    const pip = lens.pip;
+    const r = lens.reticle;
+
+    // Screen-height units around the center; y grows downwards (screenUV follows WebGPU).
+    const coord = vec2(screenUV.x.sub(0.5).mul(lens.aspect), screenUV.y.sub(0.5));
+    const dist = coord.length();
+
+    const lensRadius = float(ScopeConfig.lensRadius);
+    const outerRadius = lensRadius.add(0.03);
+    const borderRadius = lensRadius.add(0.07);
+
+    const borderMask = smoothstep(lensRadius, outerRadius, dist);
+    const outerMask = smoothstep(outerRadius, borderRadius, dist);
+    const inside = float(1).sub(borderMask);
+
+    // PIP lens content (the render target is only refreshed above minAimProgress).
+    const lensUV = coord.div(lensRadius.mul(2)).add(0.5);
+    const lensColor = texture(lens.target.texture, lensUV);
+    const lensWeight = inside.mul(pip).mul(aim).mul(step(ScopeConfig.pip.minAimProgress, aim));
+    let result: Node = mix(inputColor, lensColor, lensWeight);
+
+    // Housing ring; beyond it black (fullscreen) or the dimmed world (PIP).
+    const borderColor = vec3(0.08, 0.08, 0.1);
+    const ring = borderMask.mul(float(1).sub(outerMask.mul(pip)));
+    result = mix(result, vec4(borderColor, 1), ring.mul(aim));
+    const periphery = mix(float(1), float(ScopeConfig.pip.peripheryDim), pip);
+    result = mix(result, vec4(0, 0, 0, 1), outerMask.mul(aim).mul(periphery));
+
+    // Reticle, in lens radii.
+    const p = coord.div(lensRadius);
+    const ax = abs(p.x);
+    const ay = abs(p.y);
+
+    const lineExtentX = step(r.centerGap, ax).mul(step(ax, r.lineLength));
+    const lineExtentY = step(r.centerGap, ay).mul(step(ay, r.lineLength));
+    const lines = max(band(p.y, r.lineWidth).mul(lineExtentX), band(p.x, r.lineWidth).mul(lineExtentY));
+    const posts = max(
+        band(p.y, r.postWidth).mul(step(r.postStart, ax)),
+        band(p.x, r.postWidth).mul(step(r.postStart, ay))
+    ).mul(step(1e-4, r.postStart));
+    const dots = max(
+        milDots(p.x, p.y, r.milDotSpacing, r.milDotRadius, r.lineLength),
+        milDots(p.y, p.x, r.milDotSpacing, r.milDotRadius, r.lineLength)
+    );
+
+    let marks: Node = float(0);
+    const markWidth = max(r.lineWidth, float(0.004));
+    for (const mark of lens.dropMarks) {
+        const tick = band(p.y.sub(mark.offset), markWidth).mul(step(ax, mark.halfWidth)).mul(step(1e-4, mark.halfWidth));
+        marks = max(marks, tick);
+    }
+
+    const reticleMask = max(max(lines, posts), max(dots, marks)).clamp(0, 1).mul(inside).mul(aim);
+    result = mix(result, vec4(r.lineColor, 1), reticleMask.mul(0.9));
+
+    const centerDot = band(p.length(), r.dotRadius).mul(aim);
+    result = mix(result, vec4(r.dotColor, 1), centerDot);
+
+    const edgeHighlight = smoothstep(lensRadius.sub(0.02), lensRadius, dist).mul(smoothstep(outerRadius, lensRadius, dist));
+    const highlightColor = vec3(0.3, 0.4, 0.5);
+    result = mix(result, result.add(vec4(highlightColor.mul(0.1), 0)), edgeHighlight.mul(aim));
+
+    return result;
+}
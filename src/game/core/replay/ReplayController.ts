@@ -0,0 +1,309 @@
+import type * as THREE from 'three';
+import { ReplayConfig } from '../GameConfig';
+import type { FixedStepSettings, FixedStepSimulation } from '../engine/FixedStepSimulation';
+import type { GameSnapshot } from '../persistence/GameSnapshot';
+import type { RuntimeSettings } from '../settings/RuntimeSettings';
+import type { PlayerController } from '../../player/PlayerController';
+import { decodeReplay } from './ReplayFormat';
+import { ReplayFreeCamera } from './ReplayFreeCamera';
+import { ReplayPlayback } from './ReplayPlayback';
+import { ReplayRecorder } from './ReplayRecorder';
+
+export type ReplayMode = 'idle' | 'recording' | 'playback';
+
+export type ReplayStatus = {
+    mode: ReplayMode;
+    /** Recording: steps captured so far. Playback: current step. */
+    step: number;
+    /** Playback only (0 otherwise). */
+    stepCount: number;
+    stepHz: number;
+    paused: boolean;
+    /** Fast-forwarding towards a scrub target. */
+    seeking: boolean;
+    freeCamera: boolean;
+};
+
+/** What the controller needs from Game. */
+export type ReplayHost = {
+    player: PlayerController;
+    camera: THREE.Camera;
+    domElement: HTMLElement;
+    fixedStep: FixedStepSimulation;
+    getSeed: () => number;
+    saveSnapshot: () => GameSnapshot | null;
+    loadSnapshot: (snapshot: GameSnapshot) => boolean;
+    getSettings: () => RuntimeSettings;
+    /** Apply settings to the running game without going through the replay guard. */
+    applySettings: (settings: RuntimeSettings) => void;
+    /** Recording hit ReplayConfig.maxRecordingSeconds and stopped by itself. */
+    onRecordingFull?: (bytes: Uint8Array) => void;
+};
+
+type PlaybackSession = {
+    playback: ReplayPlayback;
+    /** Session / settings to put back when playback ends. */
+    resumeSnapshot: GameSnapshot | null;
+    resumeSettings: RuntimeSettings;
+    resumeFixedStep: FixedStepSettings;
+    paused: boolean;
+    /** Step to fast-forward to (null = not seeking). */
+    seekTarget: number | null;
+};
+
+/**
+ * ReplayController - 录制 / 回放
+ *
+ * A recording is the start snapshot (which includes the RNG streams) plus every input frame the
+ * player controller consumed, one per fixed step. Playback restores the snapshot, runs the fixed
+ * step at the recorded rate and feeds the frames back in place of live input, so the rest of the
+ * simulation can't tell the difference.
+ *
+ * Recording starts by saving a snapshot and immediately loading it back, so live play and playback
+ * begin from the exact same restored state (transient, unsaved state can't diverge them).
+ *
+ * Crafting goes through the player command stream too. Dev console commands that change the session
+ * are refused while recording or playing back, since they bypass the player input path.
+ */
+export class ReplayController {
+    private readonly host: ReplayHost;
+    private readonly freeCamera: ReplayFreeCamera;
+
+    private recorder: ReplayRecorder | null = null;
+    private session: PlaybackSession | null = null;
+
+    constructor(host: ReplayHost) {
+        this.host = host;
+        this.freeCamera = new ReplayFreeCamera(host.domElement);
+    }
+
+    getMode(): ReplayMode {
+        if (this.recorder) return 'recording';
+        if (this.session) return 'playback';
+        return 'idle';
+    }
+
+    isRecording(): boolean {
+        return this.recorder !== null;
+    }
+
+    isPlaying(): boolean {
+        return this.session !== null;
+    }
+
+    getStatus(): ReplayStatus {
+        const session = this.session;
+        if (session) {
+            const header = session.playback.data.header;
+            return {
+                mode: 'playback',
+                step: session.playback.getIndex(),
+                stepCount: header.stepCount,
+                stepHz: header.stepHz,
+                paused: session.paused,
+                seeking: session.seekTarget !== null,
+                freeCamera: this.freeCamera.isEnabled(),
+            };
+        }
+        return {
+            mode: this.getMode(),
+            step: this.recorder?.getStepCount() ?? 0,
+            stepCount: 0,
+            stepHz: this.host.fixedStep.getSettings().stepHz,
+            paused: false,
+            seeking: false,
+            freeCamera: false,
+        };
+    }
+
+    // --- Recording ---
+
+    /** Returns false if recording can't start (playback active, variable step mode, runtime not ready). */
+    startRecording(): boolean {
+        if (this.recorder || this.session) return false;
+        const { fixedStep, player } = this.host;
+        if (!fixedStep.isEnabled()) {
+            console.warn('[Replay] recording needs the fixed step (remove ?fixedStep=0)');
+            return false;
+        }
+
+        const snapshot = this.host.saveSnapshot();
+        if (!snapshot || !this.host.loadSnapshot(snapshot)) return false;
+
+        player.releaseHeldInput();
+        const recorder = new ReplayRecorder({
+            seed: this.host.getSeed(),
+            stepHz: fixedStep.getSettings().stepHz,
+            settings: this.host.getSettings(),
+            snapshot,
+            maxSeconds: ReplayConfig.maxRecordingSeconds,
+        });
+        this.recorder = recorder;
+        player.setInputObserver((frame) => {
+            recorder.recordStep(frame);
+            if (recorder.isFull()) this.queueAutoStop();
+        });
+        return true;
+    }
+
+    /** Finish the recording. Returns the encoded file, or null if nothing was recording. */
+    stopRecording(): Uint8Array | null {
+        const recorder = this.recorder;
+        if (!recorder) return null;
+        this.recorder = null;
+        this.host.player.setInputObserver(null);
+        return recorder.finish();
+    }
+
+    /** Settings changed while recording: playback applies them at the same step. */
+    noteSettings(settings: RuntimeSettings): void {
+        this.recorder?.noteSettings(settings);
+    }
+
+    // --- Playback ---
+
+    /** Throws if the file can't be decoded. */
+    startPlayback(bytes: Uint8Array): void {
+        if (this.recorder) throw new Error('Replay: stop recording before playing a replay');
+        const data = decodeReplay(bytes);
+        if (this.session) this.stopPlayback();
+
+        const { fixedStep, player } = this.host;
+        const session: PlaybackSession = {
+            playback: new ReplayPlayback(data, (settings) => this.host.applySettings(settings)),
+            resumeSnapshot: this.host.saveSnapshot(),
+            resumeSettings: this.host.getSettings(),
+            resumeFixedStep: fixedStep.getSettings(),
+            paused: false,
+            seekTarget: null,
+        };
+
+        fixedStep.setSettings({ enabled: true, stepHz: data.header.stepHz });
+        if (!this.restartFromHeader(session)) {
+            fixedStep.setSettings(session.resumeFixedStep);
+            this.host.applySettings(session.resumeSettings);
+            throw new Error('Replay: start snapshot could not be loaded');
+        }
+
+        this.session = session;
+        player.unlock();
+        player.setInputOverride(session.playback);
+    }
+
+    /** Leave playback and put the interrupted session back the way it was. */
+    stopPlayback(): void {
+        const session = this.session;
+        if (!session) return;
+        this.session = null;
+
+        this.freeCamera.disable();
+        this.host.player.setInputOverride(null);
+        this.host.fixedStep.setSettings(session.resumeFixedStep);
+        this.host.applySettings(session.resumeSettings);
+        if (session.resumeSnapshot) this.host.loadSnapshot(session.resumeSnapshot);
+    }
+
+    /** The user changed settings during playback: keep them for when playback ends. */
+    deferSettings(settings: RuntimeSettings): void {
+        if (this.session) this.session.resumeSettings = settings;
+    }
+
+    setPaused(paused: boolean): void {
+        if (!this.session) return;
+        this.session.paused = paused;
+        // Resume without catching up on the paused time.
+        if (!paused) this.host.fixedStep.reset();
+    }
+
+    /**
+     * Jump to a step. Forward seeks fast-forward from here; backward seeks restart from the
+     * header snapshot. Either way the steps are simulated (ReplayConfig.seekBudgetMs per frame).
+     */
+    seek(step: number): void {
+        const session = this.session;
+        if (!session) return;
+        const target = Math.max(0, Math.min(session.playback.getStepCount(), Math.floor(step)));
+        if (target < session.playback.getIndex()) {
+            this.restartFromHeader(session);
+        }
+        session.seekTarget = target === session.playback.getIndex() ? null : target;
+    }
+
+    setFreeCamera(enabled: boolean): void {
+        if (!this.session) return;
+        if (enabled) this.freeCamera.enable(this.host.camera);
+        else this.freeCamera.disable();
+    }
+
+    /**
+     * Advance the simulation for one presented frame while a replay is playing.
+     * Replaces FixedStepSimulation.advance in the main loop.
+     */
+    advance(frameDelta: number, timings?: Record<string, number>, now?: () => number): void {
+        const session = this.session;
+        if (!session) return;
+        const { fixedStep } = this.host;
+        const playback = session.playback;
+
+        if (session.seekTarget !== null) {
+            const clock = now ?? (() => performance.now());
+            const start = clock();
+            while (playback.getIndex() < session.seekTarget && clock() - start < ReplayConfig.seekBudgetMs) {
+                fixedStep.step(timings, now);
+            }
+            if (playback.getIndex() >= session.seekTarget) {
+                session.seekTarget = null;
+                fixedStep.reset();
+            }
+            return;
+        }
+
+        if (session.paused) return;
+        if (playback.isAtEnd()) {
+            session.paused = true;
+            return;
+        }
+        fixedStep.advance(frameDelta, timings, now, playback.getStepCount() - playback.getIndex());
+    }
+
+    /**
+     * Pose the camera for rendering (free camera); pair with endRender.
+     * `realDelta` is unscaled frame time, so the free camera flies at the same speed while paused or slowed.
+     */
+    beginRender(realDelta: number): void {
+        if (!this.session) return;
+        this.freeCamera.update(realDelta);
+        this.freeCamera.apply(this.host.camera);
+    }
+
+    endRender(): void {
+        this.freeCamera.restore(this.host.camera);
+    }
+
+    /** Tear down without restoring the interrupted session (the game is going away). */
+    dispose(): void {
+        this.recorder = null;
+        this.session = null;
+        this.host.player.setInputObserver(null);
+        this.host.player.setInputOverride(null);
+        this.freeCamera.dispose();
+    }
+
+    private restartFromHeader(session: PlaybackSession): boolean {
+        const header = session.playback.data.header;
+        this.host.applySettings(header.settings);
+        if (!this.host.loadSnapshot(header.snapshot)) return false;
+        this.host.player.releaseHeldInput();
+        session.playback.rewind();
+        return true;
+    }
+
+    private queueAutoStop(): void {
+        // Called from inside a step: finish after it completes.
+        queueMicrotask(() => {
+            if (!this.recorder?.isFull()) return;
+            const bytes = this.stopRecording();
+            if (bytes) this.host.onRecordingFull?.(bytes);
+        });
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import { migrateGameSnapshot } from '../persistence/GameSnapshot';
+import { createDefaultRuntimeSettings } from '../settings/RuntimeSettingsStore';
+import { createPlayerInputFrame, type PlayerInputFrame } from '../../player/PlayerInputFrame';
+import {
+    REPLAY_FORMAT_VERSION,
+    ReplayByteReader,
+    ReplayByteWriter,
+    decodeReplay,
+    encodeReplay,
+    readReplayStep,
+    writeReplayStep,
+    type ReplayHeader,
+} from './ReplayFormat';
+
+function createHeader(stepCount: number): ReplayHeader {
+    return {
+        seed: 0xdeadbeef,
+        stepHz: 60,
+        recordedAt: 1_700_000_000_000,
+        stepCount,
+        settings: createDefaultRuntimeSettings(),
+        snapshot: migrateGameSnapshot({ version: 1, savedAt: 0, worldSeed: 99, state: { health: 100 }, player: {}, pickups: [] }),
+    };
+}
+
+function frame(patch: Partial<PlayerInputFrame>): PlayerInputFrame {
+    return { ...createPlayerInputFrame(), ...patch };
+}
+
+// Values are exact in float32 so the round trip compares equal.
+const FRAMES: PlayerInputFrame[] = [
+    frame({}),
+    frame({ hasControl: true, moveForward: true, moveZ: 1, running: true }),
+    frame({ hasControl: true, moveLeft: true, moveX: -1, lookYaw: 0.25, lookPitch: -0.125 }),
+    frame({ hasControl: true, moveX: 0.5, moveZ: -0.75, aiming: true }),
+    frame({
+        hasControl: true,
+        commands: [
+            { type: 'triggerDown', aiming: true },
+            { type: 'switchWeapon', weapon: 'sniper' },
+            { type: 'craft', recipe: 'bandage' },
+            { type: 'reload' },
+        ],
+    }),
+];
+
+function encodeSteps(settingsAt: number | null, settingsJson: string | null): Uint8Array {
+    const w = new ReplayByteWriter();
+    FRAMES.forEach((f, i) => writeReplayStep(w, f, i === settingsAt ? settingsJson : null));
+    return w.toBytes();
+}
+
+describe('ReplayFormat', () => {
+    it('round-trips the header and every step', () => {
+        const header = createHeader(FRAMES.length);
+        const changed = { ...header.settings, cameraSensitivity: header.settings.cameraSensitivity * 2 };
+        const bytes = encodeReplay(header, encodeSteps(2, JSON.stringify(changed)));
+
+        const data = decodeReplay(bytes);
+        expect(data.header).toEqual(header);
+
+        const r = new ReplayByteReader(data.steps);
+        const out = createPlayerInputFrame();
+        FRAMES.forEach((expected, i) => {
+            const settings = readReplayStep(r, out);
+            expect(out).toEqual(expected);
+            expect(settings).toEqual(i === 2 ? changed : null);
+        });
+        expect(r.remaining).toBe(0);
+    });
+
+    it('stores an idle step in a single byte', () => {
+        const w = new ReplayByteWriter();
+        writeReplayStep(w, frame({ hasControl: true, moveForward: true, moveZ: 1 }), null);
+        expect(w.byteLength).toBe(1);
+    });
+
+    it('throws on a header cut short at any byte', () => {
+        const bytes = encodeReplay(createHeader(0), new Uint8Array(0));
+        for (let length = 0; length < bytes.length; length++) {
+            expect(() => decodeReplay(bytes.slice(0, length))).toThrow('Replay: unexpected end of data');
+        }
+    });
+
+    it('throws when the step stream is cut inside a step', () => {
+        const data = decodeReplay(encodeReplay(createHeader(FRAMES.length), encodeSteps(null, null)));
+        const r = new ReplayByteReader(data.steps.slice(0, data.steps.length - 1));
+        const out = createPlayerInputFrame();
+
+        expect(() => {
+            for (let i = 0; i < FRAMES.length; i++) readReplayStep(r, out);
+        }).toThrow('Replay: unexpected end of data');
+    });
+
+    it('rejects foreign and newer files', () => {
+        const bytes = encodeReplay(createHeader(0), new Uint8Array(0));
+
+        const foreign = bytes.slice();
+        foreign[0] ^= 0xff;
+        expect(() => decodeReplay(foreign)).toThrow('not a replay file');
+
+        const newer = bytes.slice();
+        new DataView(newer.buffer).setUint16(4, REPLAY_FORMAT_VERSION + 1, true);
+        expect(() => decodeReplay(newer)).toThrow('newer than supported');
+    });
+});
@@ -0,0 +1,390 @@
+/**
+ * ReplayFormat - 录像文件的二进制编码
+ *
+ * Layout (little endian):
+ *   u32  magic 'SRPL'
+ *   u16  format version
+ *   u16  reserved
+ *   u32  run seed
+ *   f64  step rate (Hz)
+ *   f64  recordedAt (ms since epoch)
+ *   u32  step count
+ *   u32  header JSON length, then UTF-8 JSON { settings, snapshot }
+ *   ...  one record per simulation step (see writeReplayStep)
+ *
+ * A step is usually a single byte: held-input flags. Look deltas, analog sticks, commands and
+ * settings changes are only written on the steps where they occur.
+ */
+import type { GameSnapshot } from '../persistence/GameSnapshot';
+import { migrateGameSnapshot } from '../persistence/GameSnapshot';
+import type { RuntimeSettings } from '../settings/RuntimeSettings';
+import { sanitizeRuntimeSettings } from '../settings/RuntimeSettingsStore';
+import type { PlayerCommand, PlayerInputFrame } from '../../player/PlayerInputFrame';
+import type { WeaponId } from '../../weapon/WeaponTypes';
+import type { RecipeId } from '../../crafting/CraftingTypes';
+
+export const REPLAY_FILE_EXTENSION = '.srpl';
+export const REPLAY_FORMAT_VERSION = 1;
+
+const MAGIC = 0x4c505253; // 'SRPL'
+
+export type ReplayHeader = {
+    seed: number;
+    stepHz: number;
+    recordedAt: number;
+    stepCount: number;
+    /** Settings in effect when recording started (later changes are stored in the step stream). */
+    settings: RuntimeSettings;
+    /** Session state the first step starts from. */
+    snapshot: GameSnapshot;
+};
+
+export type ReplayData = {
+    header: ReplayHeader;
+    /** Encoded step records (stepCount of them). */
+    steps: Uint8Array;
+};
+
+// Step flag bits
+const FLAG_CONTROL = 1 << 0;
+const FLAG_FORWARD = 1 << 1;
+const FLAG_BACKWARD = 1 << 2;
+const FLAG_LEFT = 1 << 3;
+const FLAG_RIGHT = 1 << 4;
+const FLAG_RUNNING = 1 << 5;
+const FLAG_AIMING = 1 << 6;
+const FLAG_EXTRA = 1 << 7;
+
+// Extra bits (second byte, only when FLAG_EXTRA is set)
+const EXTRA_LOOK = 1 << 0;
+const EXTRA_AXES = 1 << 1;
+const EXTRA_COMMANDS = 1 << 2;
+const EXTRA_SETTINGS = 1 << 3;
+
+// Opcodes are part of the file format: append only.
+const COMMAND_OPCODES: readonly PlayerCommand['type'][] = [
+    'triggerDown',
+    'triggerUp',
+    'startAiming',
+    'stopAiming',
+    'nextWeapon',
+    'prevWeapon',
+    'switchWeapon',
+    'quickGrenade',
+    'reload',
+    'useBandage',
+    'pickup',
+    'weatherCycle',
+    'toggleBuild',
+    'jump',
+    'toggleCrouch',
+    'toggleProne',
+    'craft',
+];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export class ReplayByteWriter {
+    private buffer = new Uint8Array(1024);
+    private view = new DataView(this.buffer.buffer);
+    private length = 0;
+
+    get byteLength(): number {
+        return this.length;
+    }
+
+    u8(value: number): void {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    u16(value: number): void {
+        this.reserve(2);
+        this.view.setUint16(this.length, value, true);
+        this.length += 2;
+    }
+
+    u32(value: number): void {
+        this.reserve(4);
+        this.view.setUint32(this.length, value >>> 0, true);
+        this.length += 4;
+    }
+
+    f32(value: number): void {
+        this.reserve(4);
+        this.view.setFloat32(this.length, value, true);
+        this.length += 4;
+    }
+
+    f64(value: number): void {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value, true);
+        this.length += 8;
+    }
+
+    bytes(data: Uint8Array): void {
+        this.reserve(data.length);
+        this.buffer.set(data, this.length);
+        this.length += data.length;
+    }
+
+    /** u32 length + UTF-8. */
+    string(value: string): void {
+        const data = textEncoder.encode(value);
+        this.u32(data.length);
+        this.bytes(data);
+    }
+
+    toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private reserve(extra: number): void {
+        if (this.length + extra <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+}
+
+export class ReplayByteReader {
+    private readonly data: Uint8Array;
+    private readonly view: DataView;
+    private offset = 0;
+
+    constructor(data: Uint8Array) {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    get position(): number {
+        return this.offset;
+    }
+
+    set position(offset: number) {
+        this.offset = offset;
+    }
+
+    get remaining(): number {
+        return this.data.length - this.offset;
+    }
+
+    u8(): number {
+        this.ensure(1);
+        const v = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return v;
+    }
+
+    u16(): number {
+        this.ensure(2);
+        const v = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return v;
+    }
+
+    u32(): number {
+        this.ensure(4);
+        const v = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return v;
+    }
+
+    f32(): number {
+        this.ensure(4);
+        const v = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return v;
+    }
+
+    f64(): number {
+        this.ensure(8);
+        const v = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return v;
+    }
+
+    bytes(length: number): Uint8Array {
+        this.ensure(length);
+        const v = this.data.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return v;
+    }
+
+    string(): string {
+        const length = this.u32();
+        return textDecoder.decode(this.bytes(length));
+    }
+
+    private ensure(length: number): void {
+        if (this.offset + length > this.data.length) {
+            throw new Error('Replay: unexpected end of data');
+        }
+    }
+}
+
+/**
+ * Append one step. `settings` is the JSON of a settings change that took effect before this step (or null).
+ */
+export function writeReplayStep(w: ReplayByteWriter, frame: PlayerInputFrame, settings: string | null): void {
+    let flags = 0;
+    if (frame.hasControl) flags |= FLAG_CONTROL;
+    if (frame.moveForward) flags |= FLAG_FORWARD;
+    if (frame.moveBackward) flags |= FLAG_BACKWARD;
+    if (frame.moveLeft) flags |= FLAG_LEFT;
+    if (frame.moveRight) flags |= FLAG_RIGHT;
+    if (frame.running) flags |= FLAG_RUNNING;
+    if (frame.aiming) flags |= FLAG_AIMING;
+
+    let extra = 0;
+    if (frame.lookYaw !== 0 || frame.lookPitch !== 0) extra |= EXTRA_LOOK;
+    // Keyboard axes follow from the flags; only analog deflection needs storing.
+    if (frame.moveX !== keyAxis(frame.moveRight, frame.moveLeft) || frame.moveZ !== keyAxis(frame.moveForward, frame.moveBackward)) {
+        extra |= EXTRA_AXES;
+    }
+    if (frame.commands.length > 0) extra |= EXTRA_COMMANDS;
+    if (settings !== null) extra |= EXTRA_SETTINGS;
+    if (extra !== 0) flags |= FLAG_EXTRA;
+
+    w.u8(flags);
+    if (extra === 0) return;
+    w.u8(extra);
+
+    if (extra & EXTRA_LOOK) {
+        w.f32(frame.lookYaw);
+        w.f32(frame.lookPitch);
+    }
+    if (extra & EXTRA_AXES) {
+        w.f32(frame.moveX);
+        w.f32(frame.moveZ);
+    }
+    if (extra & EXTRA_COMMANDS) {
+        const count = Math.min(255, frame.commands.length);
+        w.u8(count);
+        for (let i = 0; i < count; i++) writeCommand(w, frame.commands[i]);
+    }
+    if (extra & EXTRA_SETTINGS) {
+        w.string(settings!);
+    }
+}
+
+/**
+ * Read one step into `out`. Returns the settings change carried by this step, if any.
+ */
+export function readReplayStep(r: ReplayByteReader, out: PlayerInputFrame): RuntimeSettings | null {
+    const flags = r.u8();
+    out.hasControl = (flags & FLAG_CONTROL) !== 0;
+    out.moveForward = (flags & FLAG_FORWARD) !== 0;
+    out.moveBackward = (flags & FLAG_BACKWARD) !== 0;
+    out.moveLeft = (flags & FLAG_LEFT) !== 0;
+    out.moveRight = (flags & FLAG_RIGHT) !== 0;
+    out.running = (flags & FLAG_RUNNING) !== 0;
+    out.aiming = (flags & FLAG_AIMING) !== 0;
+    out.moveX = keyAxis(out.moveRight, out.moveLeft);
+    out.moveZ = keyAxis(out.moveForward, out.moveBackward);
+    out.lookYaw = 0;
+    out.lookPitch = 0;
+    out.commands.length = 0;
+
+    if ((flags & FLAG_EXTRA) === 0) return null;
+    const extra = r.u8();
+
+    if (extra & EXTRA_LOOK) {
+        out.lookYaw = r.f32();
+        out.lookPitch = r.f32();
+    }
+    if (extra & EXTRA_AXES) {
+        out.moveX = r.f32();
+        out.moveZ = r.f32();
+    }
+    if (extra & EXTRA_COMMANDS) {
+        const count = r.u8();
+        for (let i = 0; i < count; i++) out.commands.push(readCommand(r));
+    }
+    if (extra & EXTRA_SETTINGS) {
+        return sanitizeRuntimeSettings(JSON.parse(r.string()));
+    }
+    return null;
+}
+
+function keyAxis(positive: boolean, negative: boolean): number {
+    return Number(positive) - Number(negative);
+}
+
+function writeCommand(w: ReplayByteWriter, command: PlayerCommand): void {
+    w.u8(COMMAND_OPCODES.indexOf(command.type));
+    if (command.type === 'triggerDown') {
+        w.u8(command.aiming ? 1 : 0);
+    } else if (command.type === 'switchWeapon') {
+        writeShortString(w, command.weapon);
+    } else if (command.type === 'craft') {
+        writeShortString(w, command.recipe);
+    }
+}
+
+function writeShortString(w: ReplayByteWriter, value: string): void {
+    const data = textEncoder.encode(value);
+    w.u8(data.length);
+    w.bytes(data);
+}
+
+function readShortString(r: ReplayByteReader): string {
+    return textDecoder.decode(r.bytes(r.u8()));
+}
+
+function readCommand(r: ReplayByteReader): PlayerCommand {
+    const type = COMMAND_OPCODES[r.u8()];
+    if (type === undefined) throw new Error('Replay: unknown command opcode');
+    if (type === 'triggerDown') return { type, aiming: r.u8() === 1 };
+    if (type === 'switchWeapon') return { type, weapon: readShortString(r) as WeaponId };
+    if (type === 'craft') return { type, recipe: readShortString(r) as RecipeId };
+    return { type } as PlayerCommand;
+}
+
+export function encodeReplay(header: ReplayHeader, steps: Uint8Array): Uint8Array {
+    const w = new ReplayByteWriter();
+    w.u32(MAGIC);
+    w.u16(REPLAY_FORMAT_VERSION);
+    w.u16(0);
+    w.u32(header.seed);
+    w.f64(header.stepHz);
+    w.f64(header.recordedAt);
+    w.u32(header.stepCount);
+    w.string(JSON.stringify({ settings: header.settings, snapshot: header.snapshot }));
+    w.bytes(steps);
+    return w.toBytes();
+}
+
+/** Throws on foreign / newer / truncated files. */
+export function decodeReplay(bytes: Uint8Array): ReplayData {
+    const r = new ReplayByteReader(bytes);
+    if (r.u32() !== MAGIC) throw new Error('Replay: not a replay file');
+    const version = r.u16();
+    if (version > REPLAY_FORMAT_VERSION) {
+        throw new Error(`Replay: format version ${version} is newer than supported ${REPLAY_FORMAT_VERSION}`);
+    }
+    r.u16();
+
+    const seed = r.u32();
+    const stepHz = r.f64();
+    const recordedAt = r.f64();
+    const stepCount = r.u32();
+    const json = JSON.parse(r.string()) as { settings?: unknown; snapshot?: unknown };
+
+    return {
+        header: {
+            seed,
+            stepHz,
+            recordedAt,
+            stepCount,
+            settings: sanitizeRuntimeSettings(json.settings),
+            snapshot: migrateGameSnapshot(json.snapshot),
+        },
+        steps: r.bytes(r.remaining),
+    };
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { ReplayConfig } from '../GameConfig';
+
+/**
+ * ReplayFreeCamera - 回放时的自由相机
+ * The game camera *is* the player, so the free camera never moves it for real: it poses the camera
+ * for rendering (apply) and puts the simulated transform back afterwards (restore).
+ * Controls: WASD / Q / E to fly, Shift for speed, drag with any mouse button to look.
+ */
+export class ReplayFreeCamera {
+    private readonly domElement: HTMLElement;
+
+    private enabled = false;
+    private readonly position = new THREE.Vector3();
+    private yaw = 0;
+    private pitch = 0;
+
+    private readonly keys = new Set<string>();
+    private dragging = false;
+
+    private applied = false;
+    private readonly savedPosition = new THREE.Vector3();
+    private readonly savedQuaternion = new THREE.Quaternion();
+
+    private readonly tmpEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+    private readonly tmpMove = new THREE.Vector3();
+
+    constructor(domElement: HTMLElement) {
+        this.domElement = domElement;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /** Start flying from the camera's current view. */
+    enable(from: THREE.Camera): void {
+        if (this.enabled) return;
+        this.enabled = true;
+        this.position.copy(from.position);
+        this.tmpEuler.setFromQuaternion(from.quaternion, 'YXZ');
+        this.yaw = this.tmpEuler.y;
+        this.pitch = this.tmpEuler.x;
+
+        const doc = this.domElement.ownerDocument ?? document;
+        doc.addEventListener('keydown', this.onKeyDown);
+        doc.addEventListener('keyup', this.onKeyUp);
+        this.domElement.addEventListener('mousedown', this.onMouseDown);
+        doc.addEventListener('mouseup', this.onMouseUp);
+        doc.addEventListener('mousemove', this.onMouseMove);
+    }
+
+    disable(): void {
+        if (!this.enabled) return;
+        this.enabled = false;
+        this.keys.clear();
+        this.dragging = false;
+
+        const doc = this.domElement.ownerDocument ?? document;
+        doc.removeEventListener('keydown', this.onKeyDown);
+        doc.removeEventListener('keyup', this.onKeyUp);
+        this.domElement.removeEventListener('mousedown', this.onMouseDown);
+        doc.removeEventListener('mouseup', this.onMouseUp);
+        doc.removeEventListener('mousemove', this.onMouseMove);
+    }
+
+    /** Fly with real (unscaled) frame time, so it works while the replay is paused. */
+    update(delta: number): void {
+        if (!this.enabled) return;
+        const cfg = ReplayConfig.freeCamera;
+        const speed = cfg.speed * (this.keys.has('ShiftLeft') || this.keys.has('ShiftRight') ? cfg.fastMultiplier : 1);
+
+        const move = this.tmpMove.set(
+            Number(this.keys.has('KeyD')) - Number(this.keys.has('KeyA')),
+            Number(this.keys.has('KeyE')) - Number(this.keys.has('KeyQ')),
+            Number(this.keys.has('KeyS')) - Number(this.keys.has('KeyW'))
+        );
+        if (move.lengthSq() === 0) return;
+        move.normalize().multiplyScalar(speed * delta);
+        // Fly along the view direction (pitch included).
+        move.applyEuler(this.tmpEuler.set(this.pitch, this.yaw, 0, 'YXZ'));
+        this.position.add(move);
+    }
+
+    apply(camera: THREE.Camera): void {
+        if (!this.enabled || this.applied) return;
+        this.applied = true;
+        this.savedPosition.copy(camera.position);
+        this.savedQuaternion.copy(camera.quaternion);
+        camera.position.copy(this.position);
+        camera.quaternion.setFromEuler(this.tmpEuler.set(this.pitch, this.yaw, 0, 'YXZ'));
+        camera.updateMatrixWorld();
+    }
+
+    restore(camera: THREE.Camera): void {
+        if (!this.applied) return;
+        this.applied = false;
+        camera.position.copy(this.savedPosition);
+        camera.quaternion.copy(this.savedQuaternion);
+        camera.updateMatrixWorld();
+    }
+
+    dispose(): void {
+        this.disable();
+    }
+
+    private readonly onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+        this.keys.add(event.code);
+    };
+
+    private readonly onKeyUp = (event: KeyboardEvent) => {
+        this.keys.delete(event.code);
+    };
+
+    private readonly onMouseDown = () => {
+        this.dragging = true;
+    };
+
+    private readonly onMouseUp = () => {
+        this.dragging = false;
+    };
+
+    private readonly onMouseMove = (event: MouseEvent) => {
+        if (!this.dragging) return;
+        const sensitivity = ReplayConfig.freeCamera.lookSensitivity;
+        this.yaw -= (event.movementX || 0) * sensitivity;
+        this.pitch -= (event.movementY || 0) * sensitivity;
+        this.pitch = Math.max(-Math.PI / 2 + 0.05, Math.min(Math.PI / 2 - 0.05, this.pitch));
+    };
+}
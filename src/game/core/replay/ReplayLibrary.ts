@@ -0,0 +1,112 @@
+import { ReplayConfig } from '../GameConfig';
+import { decodeReplay } from './ReplayFormat';
+
+export type ReplayLibraryEntry = {
+    id: string;
+    name: string;
+    recordedAt: number;
+    stepCount: number;
+    stepHz: number;
+    byteLength: number;
+};
+
+type StoredReplay = ReplayLibraryEntry & { bytes: Uint8Array };
+
+const DB_NAME = 'replays';
+const DB_VERSION = 1;
+const STORE = 'replays';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * ReplayLibrary - 本地录像库 (IndexedDB)
+ * Replays carry a full snapshot and can run to megabytes, so they don't go into localStorage.
+ * Only the newest ReplayConfig.libraryMaxEntries are kept.
+ */
+export class ReplayLibrary {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    async list(): Promise<ReplayLibraryEntry[]> {
+        const db = await this.open();
+        const all = await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<StoredReplay[]>);
+        return all
+            .map(({ bytes: _bytes, ...entry }) => entry)
+            .sort((a, b) => b.recordedAt - a.recordedAt);
+    }
+
+    /** Store a recording; the header is decoded to validate it and fill the listing. */
+    async save(bytes: Uint8Array, name?: string): Promise<ReplayLibraryEntry> {
+        const { header } = decodeReplay(bytes);
+        const entry: ReplayLibraryEntry = {
+            id: `${header.recordedAt.toString(36)}-${header.seed.toString(36)}`,
+            name: name ?? new Date(header.recordedAt).toLocaleString(),
+            recordedAt: header.recordedAt,
+            stepCount: header.stepCount,
+            stepHz: header.stepHz,
+            byteLength: bytes.byteLength,
+        };
+
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).put({ ...entry, bytes } satisfies StoredReplay);
+        await this.complete(tx);
+        await this.prune();
+        return entry;
+    }
+
+    async load(id: string): Promise<Uint8Array | null> {
+        const db = await this.open();
+        const stored = await requestToPromise(
+            db.transaction(STORE, 'readonly').objectStore(STORE).get(id) as IDBRequest<StoredReplay | undefined>
+        );
+        return stored?.bytes ?? null;
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).delete(id);
+        await this.complete(tx);
+    }
+
+    private async prune(): Promise<void> {
+        const entries = await this.list();
+        const excess = entries.slice(ReplayConfig.libraryMaxEntries);
+        for (const entry of excess) await this.remove(entry.id);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('ReplayLibrary: IndexedDB unavailable'));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE, { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Let a later call retry after a failed open.
+            this.dbPromise.catch(() => {
+                this.dbPromise = null;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private complete(tx: IDBTransaction): Promise<void> {
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
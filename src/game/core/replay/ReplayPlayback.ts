@@ -0,0 +1,46 @@
+import type { PlayerInputFrame, PlayerInputOverride } from '../../player/PlayerInputFrame';
+import type { RuntimeSettings } from '../settings/RuntimeSettings';
+import { ReplayByteReader, readReplayStep, type ReplayData } from './ReplayFormat';
+
+/**
+ * ReplayPlayback - 把录像中的输入逐步喂给 PlayerController (替代实时输入)
+ */
+export class ReplayPlayback implements PlayerInputOverride {
+    readonly data: ReplayData;
+    private readonly reader: ReplayByteReader;
+    private readonly onSettings: (settings: RuntimeSettings) => void;
+    private index = 0;
+
+    constructor(data: ReplayData, onSettings: (settings: RuntimeSettings) => void) {
+        this.data = data;
+        this.reader = new ReplayByteReader(data.steps);
+        this.onSettings = onSettings;
+    }
+
+    /** Steps consumed so far (= current replay position). */
+    getIndex(): number {
+        return this.index;
+    }
+
+    getStepCount(): number {
+        return this.data.header.stepCount;
+    }
+
+    isAtEnd(): boolean {
+        return this.index >= this.data.header.stepCount;
+    }
+
+    /** Back to step 0 (the caller restores the start snapshot). */
+    rewind(): void {
+        this.reader.position = 0;
+        this.index = 0;
+    }
+
+    next(out: PlayerInputFrame): boolean {
+        if (this.isAtEnd()) return false;
+        const settings = readReplayStep(this.reader, out);
+        this.index++;
+        if (settings) this.onSettings(settings);
+        return true;
+    }
+}
@@ -0,0 +1,63 @@
+import type { PlayerInputFrame } from '../../player/PlayerInputFrame';
+import type { GameSnapshot } from '../persistence/GameSnapshot';
+import type { RuntimeSettings } from '../settings/RuntimeSettings';
+import { ReplayByteWriter, encodeReplay, writeReplayStep } from './ReplayFormat';
+
+/**
+ * ReplayRecorder - 逐步记录玩家输入
+ * Fed by PlayerController's input observer, i.e. exactly the frames the simulation consumed.
+ */
+export class ReplayRecorder {
+    private readonly seed: number;
+    private readonly stepHz: number;
+    private readonly settings: RuntimeSettings;
+    private readonly snapshot: GameSnapshot;
+    private readonly recordedAt = Date.now();
+    private readonly maxSteps: number;
+
+    private readonly steps = new ReplayByteWriter();
+    private stepCount = 0;
+    private pendingSettings: string | null = null;
+
+    constructor(opts: { seed: number; stepHz: number; settings: RuntimeSettings; snapshot: GameSnapshot; maxSeconds: number }) {
+        this.seed = opts.seed;
+        this.stepHz = opts.stepHz;
+        this.settings = opts.settings;
+        this.snapshot = opts.snapshot;
+        this.maxSteps = Math.max(1, Math.floor(opts.maxSeconds * opts.stepHz));
+    }
+
+    getStepCount(): number {
+        return this.stepCount;
+    }
+
+    isFull(): boolean {
+        return this.stepCount >= this.maxSteps;
+    }
+
+    /** Settings changed mid-recording; stored with the next step so playback applies them at the same point. */
+    noteSettings(settings: RuntimeSettings): void {
+        this.pendingSettings = JSON.stringify(settings);
+    }
+
+    recordStep(frame: PlayerInputFrame): void {
+        if (this.isFull()) return;
+        writeReplayStep(this.steps, frame, this.pendingSettings);
+        this.pendingSettings = null;
+        this.stepCount++;
+    }
+
+    finish(): Uint8Array {
+        return encodeReplay(
+            {
+                seed: this.seed,
+                stepHz: this.stepHz,
+                recordedAt: this.recordedAt,
+                stepCount: this.stepCount,
+                settings: this.settings,
+                snapshot: this.snapshot,
+            },
+            this.steps.toBytes()
+        );
+    }
+}
@@ -12,12 +12,16 @@ import type { GPUComputeSystem } from "../../shaders/GPUCompute";
 import type { GPUParticleSystem } from "../../shaders/GPUParticles";
 import type { GpuSimulationFacade } from "../gpu/GpuSimulationFacade";
 import type { WeatherSystem } from "../../level/WeatherSystem";
+import type { DayNightCycle } from "../../level/DayNightCycle";
 import type { FrameContext } from "../engine/System";
 import type { SystemManager } from "../engine/SystemManager";
+import type { FixedStepSimulation } from "../engine/FixedStepSimulation";
+import type { TransformInterpolator } from "../engine/TransformInterpolator";
 import type { HitchProfiler } from "../perf/HitchProfiler";
+import type { PerfMonitor } from "../perf/PerfMonitor";
 import type { FpsCounter } from "../perf/FpsCounter";
 import type { LoadedGate } from "../init/LoadedGate";
-import type { NumberUniform } from "../render/PostFXPipeline";
+import type { NumberUniform, PostFXPipeline } from "../render/PostFXPipeline";
 
 import type { GameServices } from "../services/GameServices";
 import type { GameEventBus } from "../events/GameEventBus";
@@ -28,6 +32,7 @@ import type { PickupSystem } from "../../systems/PickupSystem";
 import type { GrenadeSystem } from "../../systems/GrenadeSystem";
 import type { SpawnSystem } from "../../systems/SpawnSystem";
 import type { AudioSystem } from "../../systems/AudioSystem";
+import type { BuildingSystem } from "../../systems/BuildingSystem";
 import type { ShadowSystem } from "../../systems/ShadowSystem";
 import type { RenderSystem } from "../../systems/RenderSystem";
 
@@ -47,10 +52,13 @@ export interface GameRuntime {
     clock: THREE.Clock;
     fpsCounter: FpsCounter;
     hitchProfiler: HitchProfiler;
+    perfMonitor: PerfMonitor;
 
     systemManager: SystemManager;
     frameContext: FrameContext;
     systemTimings: Record<string, number>;
+    fixedStep: FixedStepSimulation;
+    interpolator: TransformInterpolator;
 
     loadedGate: LoadedGate;
 
@@ -69,6 +77,7 @@ export interface GameRuntime {
     render: {
         postProcessing: PostProcessing;
         scopeAimProgress: NumberUniform;
+        postFx: PostFXPipeline;
         shadowSystem: ShadowSystem;
         renderSystem: RenderSystem;
         ambientLight: THREE.AmbientLight;
@@ -78,6 +87,7 @@ export interface GameRuntime {
     gameplay: {
         explosionManager: ExplosionManager;
         weatherSystem: WeatherSystem;
+        dayNightCycle: DayNightCycle;
         soundManager: SoundManagerApi | null;
 
         enemyTrailSystem: EnemyTrailSystem;
@@ -86,6 +96,7 @@ export interface GameRuntime {
         grenadeSystem: GrenadeSystem;
         spawnSystem: SpawnSystem;
         audioSystem: AudioSystem;
+        buildingSystem: BuildingSystem;
     };
 
     player: {
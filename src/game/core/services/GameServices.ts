@@ -2,15 +2,23 @@ import type { GameStateStore } from '../GameState';
 import { GameStateService as GameStateServiceSingleton } from '../GameState';
 import type { SoundManagerApi } from '../SoundManager';
 import { SoundManager as SoundManagerSingleton } from '../SoundManager';
+import { RandomStreams, resolveRunSeed } from '../util/RandomStreams';
+import { DevConsole } from '../debug/DevConsole';
 
 export type GameServices = {
     state: GameStateStore;
     sound: SoundManagerApi;
+    /** Seeded gameplay randomness (one instance per service set, reseeded per run). */
+    random: RandomStreams;
+    /** Developer console command registry; any module can register commands here. */
+    devConsole: DevConsole;
 };
 
 export function getDefaultGameServices(): GameServices {
     return {
         state: GameStateServiceSingleton.getInstance(),
         sound: SoundManagerSingleton.getInstance(),
+        random: new RandomStreams(resolveRunSeed()),
+        devConsole: new DevConsole(),
     };
 }
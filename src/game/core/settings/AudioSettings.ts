@@ -0,0 +1,50 @@
+/**
+ * AudioSettings - 混音总线音量
+ * Per-bus volume + mute and the dynamic music switch, persisted with RuntimeSettings. Not part of the simulation: replays never
+ * override them.
+ */
+import { SoundConfig, type AudioBusId } from '../GameConfig';
+
+export type AudioBusSettings = {
+    /** 0..1 */
+    volume: number;
+    muted: boolean;
+};
+
+export type AudioSettings = {
+    buses: Record<AudioBusId, AudioBusSettings>;
+    /** Layered music driven by combat intensity (MusicEngine); off = one whole BGM track at a time. */
+    dynamicMusic: boolean;
+};
+
+export function createDefaultAudioSettings(): AudioSettings {
+    const buses = {} as Record<AudioBusId, AudioBusSettings>;
+    for (const id of SoundConfig.mixer.buses) buses[id] = { volume: 1, muted: false };
+    return { buses, dynamicMusic: true };
+}
+
+/** Persisted (possibly older / hand-edited) settings -> valid settings. Invalid entries fall back to defaults. */
+export function sanitizeAudioSettings(raw: unknown): AudioSettings {
+    const out = createDefaultAudioSettings();
+    if (!raw || typeof raw !== 'object') return out;
+
+    const { dynamicMusic } = raw as { dynamicMusic?: unknown };
+    if (typeof dynamicMusic === 'boolean') out.dynamicMusic = dynamicMusic;
+
+    const buses = (raw as { buses?: unknown }).buses;
+    if (!buses || typeof buses !== 'object') return out;
+    for (const id of SoundConfig.mixer.buses) {
+        const bus = (buses as Record<string, unknown>)[id];
+        if (!bus || typeof bus !== 'object') continue;
+        const { volume, muted } = bus as Partial<Record<keyof AudioBusSettings, unknown>>;
+        if (typeof volume === 'number' && Number.isFinite(volume)) out.buses[id].volume = Math.max(0, Math.min(1, volume));
+        if (typeof muted === 'boolean') out.buses[id].muted = muted;
+    }
+    return out;
+}
+
+/** Effective gain of a bus (0 when muted). */
+export function getAudioBusGain(settings: AudioSettings, bus: AudioBusId): number {
+    const entry = settings.buses[bus];
+    return entry.muted ? 0 : entry.volume;
+}
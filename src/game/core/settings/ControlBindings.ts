@@ -0,0 +1,187 @@
+/**
+ * ControlBindings - 可重新绑定的操作映射 (action -> 按键 / 鼠标键 / 滚轮)
+ * 绑定码：键盘用 KeyboardEvent.code ('KeyW', 'Space', 'Digit1')，
+ * 鼠标用 'Mouse0' / 'Mouse1' / 'Mouse2' ...，滚轮用 'WheelUp' / 'WheelDown'。
+ */
+
+export type InputAction =
+    | 'moveForward'
+    | 'moveBackward'
+    | 'moveLeft'
+    | 'moveRight'
+    | 'sprint'
+    | 'jump'
+    | 'crouch'
+    | 'prone'
+    | 'fire'
+    | 'aim'
+    | 'reload'
+    | 'nextWeapon'
+    | 'prevWeapon'
+    | 'weaponRifle'
+    | 'weaponGrenade'
+    | 'quickGrenade'
+    | 'useBandage'
+    | 'pickup'
+    | 'toggleBuild'
+    | 'weatherCycle';
+
+/** Display order for the settings UI. */
+export const INPUT_ACTIONS: readonly InputAction[] = [
+    'moveForward',
+    'moveBackward',
+    'moveLeft',
+    'moveRight',
+    'sprint',
+    'jump',
+    'crouch',
+    'prone',
+    'fire',
+    'aim',
+    'reload',
+    'nextWeapon',
+    'prevWeapon',
+    'weaponRifle',
+    'weaponGrenade',
+    'quickGrenade',
+    'useBandage',
+    'pickup',
+    'toggleBuild',
+    'weatherCycle',
+];
+
+/** Actions that stay active while the input is held (others fire once per press). */
+export const HELD_INPUT_ACTIONS: ReadonlySet<InputAction> = new Set<InputAction>([
+    'moveForward',
+    'moveBackward',
+    'moveLeft',
+    'moveRight',
+    'sprint',
+    'fire',
+    'aim',
+]);
+
+/** Primary + secondary binding per action (null = unbound). */
+export const BINDING_SLOTS = 2;
+export type ActionBindings = Array<string | null>;
+export type ControlBindingMap = Record<InputAction, ActionBindings>;
+
+// Escape / Tab are reserved for the settings and crafting overlays.
+export const RESERVED_BINDINGS: ReadonlySet<string> = new Set(['Escape', 'Tab']);
+
+const DEFAULT_BINDINGS: Record<InputAction, ActionBindings> = {
+    moveForward: ['KeyW', 'ArrowUp'],
+    moveBackward: ['KeyS', 'ArrowDown'],
+    moveLeft: ['KeyA', 'ArrowLeft'],
+    moveRight: ['KeyD', 'ArrowRight'],
+    sprint: ['ShiftLeft', 'ShiftRight'],
+    jump: ['Space', null],
+    crouch: ['KeyC', null],
+    prone: ['KeyZ', null],
+    fire: ['Mouse0', null],
+    aim: ['Mouse2', null],
+    reload: ['KeyR', null],
+    nextWeapon: ['WheelDown', null],
+    prevWeapon: ['WheelUp', null],
+    weaponRifle: ['Digit1', null],
+    weaponGrenade: ['Digit2', null],
+    quickGrenade: ['KeyG', null],
+    useBandage: ['KeyH', null],
+    pickup: ['KeyF', null],
+    toggleBuild: ['KeyB', null],
+    weatherCycle: ['KeyT', null],
+};
+
+export function createDefaultControlBindings(): ControlBindingMap {
+    const out = {} as ControlBindingMap;
+    for (const action of INPUT_ACTIONS) out[action] = [...DEFAULT_BINDINGS[action]];
+    return out;
+}
+
+/**
+ * Merge persisted (possibly partial / older) bindings over the defaults.
+ * Unknown actions and malformed entries are dropped.
+ */
+export function sanitizeControlBindings(raw: unknown): ControlBindingMap {
+    const out = createDefaultControlBindings();
+    if (!raw || typeof raw !== 'object') return out;
+
+    const record = raw as Record<string, unknown>;
+    for (const action of INPUT_ACTIONS) {
+        const entry = record[action];
+        if (!Array.isArray(entry)) continue;
+        const slots: ActionBindings = [];
+        for (let i = 0; i < BINDING_SLOTS; i++) {
+            const code = entry[i];
+            slots.push(typeof code === 'string' && code.length > 0 && !RESERVED_BINDINGS.has(code) ? code : null);
+        }
+        out[action] = slots;
+    }
+    return out;
+}
+
+/** Binding code for a mouse button (MouseEvent.button). */
+export function mouseButtonBinding(button: number): string {
+    return `Mouse${button}`;
+}
+
+/** Binding code for a wheel event, or null when there is no vertical scroll. */
+export function wheelBinding(deltaY: number): string | null {
+    if (deltaY > 0) return 'WheelDown';
+    if (deltaY < 0) return 'WheelUp';
+    return null;
+}
+
+/** Reverse lookup: binding code -> actions (rebuilt whenever the map changes). */
+export function buildBindingLookup(map: ControlBindingMap): Map<string, InputAction[]> {
+    const lookup = new Map<string, InputAction[]>();
+    for (const action of INPUT_ACTIONS) {
+        for (const code of map[action] ?? []) {
+            if (!code) continue;
+            let list = lookup.get(code);
+            if (!list) {
+                list = [];
+                lookup.set(code, list);
+            }
+            list.push(action);
+        }
+    }
+    return lookup;
+}
+
+export interface BindResult {
+    bindings: ControlBindingMap;
+    /** Actions that lost `code` because it is now bound to the target action. */
+    unbound: InputAction[];
+}
+
+/**
+ * Bind `code` to `action` in the given slot (null clears the slot).
+ * A code can only drive one action: any other action using it is unbound.
+ */
+export function assignControlBinding(
+    map: ControlBindingMap,
+    action: InputAction,
+    slot: number,
+    code: string | null
+): BindResult {
+    const bindings = {} as ControlBindingMap;
+    for (const a of INPUT_ACTIONS) bindings[a] = [...(map[a] ?? [])];
+
+    const unbound: InputAction[] = [];
+    if (code) {
+        for (const a of INPUT_ACTIONS) {
+            const slots = bindings[a];
+            for (let i = 0; i < slots.length; i++) {
+                if (slots[i] !== code || (a === action && i === slot)) continue;
+                slots[i] = null;
+                if (a !== action && !unbound.includes(a)) unbound.push(a);
+            }
+        }
+    }
+
+    const slots = bindings[action];
+    while (slots.length < BINDING_SLOTS) slots.push(null);
+    slots[slot] = code;
+    return { bindings, unbound };
+}
@@ -0,0 +1,136 @@
+/**
+ * GraphicsSettings - 画质预设 + 单项覆盖
+ * 生效顺序：预设 (GraphicsConfig.presets) -> 设置面板里的单项覆盖 -> RuntimeToggles (query / localStorage)。
+ */
+import { GraphicsConfig, PostFXConfig, type PostFXPassId } from '../GameConfig';
+import { readBooleanFlag, readEnum, readNumber, readString } from '../runtime/RuntimeToggles';
+
+export type GraphicsPreset = 'low' | 'medium' | 'high' | 'ultra';
+
+/** Display order for the settings UI. */
+export const GRAPHICS_PRESETS: readonly GraphicsPreset[] = ['low', 'medium', 'high', 'ultra'];
+
+export type GraphicsOptions = {
+    grassDensityScale: number;
+    grassStreamRadiusChunks: number;
+    vegetationStreamRadiusChunks: number;
+    /** Enemies beyond this distance (m) stop casting shadows. */
+    enemyShadowDistance: number;
+    shadowMapSize: number;
+    /** Master switch for cosmetic post-processing (damage flash and scope overlay always stay on). */
+    postFx: boolean;
+    /** Enabled cosmetic passes, in chain order (see PostFXConfig.order). */
+    postFxPasses: readonly PostFXPassId[];
+    /** Scopes render a magnified lens (second camera) instead of narrowing the whole view. */
+    pipScope: boolean;
+};
+
+export type GraphicsSettings = {
+    preset: GraphicsPreset;
+    /** Options the player changed by hand; everything else follows the preset. */
+    overrides: Partial<GraphicsOptions>;
+};
+
+const OPTION_LIMITS = {
+    grassDensityScale: { min: 0, max: 1 },
+    grassStreamRadiusChunks: { min: 0, max: 4 },
+    vegetationStreamRadiusChunks: { min: 0, max: 6 },
+    enemyShadowDistance: { min: 0, max: 200 },
+} as const satisfies Partial<Record<keyof GraphicsOptions, { min: number; max: number }>>;
+
+type NumericOption = keyof typeof OPTION_LIMITS;
+const NUMERIC_OPTIONS = Object.keys(OPTION_LIMITS) as NumericOption[];
+
+// RuntimeToggles keys (e.g. `?graphicsPreset=low&postFx=0`).
+const TOGGLE_KEYS: Record<keyof GraphicsOptions, string> = {
+    grassDensityScale: 'grassDensity',
+    grassStreamRadiusChunks: 'grassRadius',
+    vegetationStreamRadiusChunks: 'treeRadius',
+    enemyShadowDistance: 'enemyShadowDistance',
+    shadowMapSize: 'shadowMapSize',
+    postFx: 'postFx',
+    // Comma-separated, applied in the listed order: `?postFxPasses=bloom,colorGrading`.
+    postFxPasses: 'postFxPasses',
+    pipScope: 'pipScope',
+};
+
+export function createDefaultGraphicsSettings(): GraphicsSettings {
+    return { preset: GraphicsConfig.defaultPreset, overrides: {} };
+}
+
+function clampOption(key: NumericOption, value: number): number {
+    const limits = OPTION_LIMITS[key];
+    const clamped = Math.max(limits.min, Math.min(limits.max, value));
+    // Stream radii are whole chunk rings.
+    return key === 'grassStreamRadiusChunks' || key === 'vegetationStreamRadiusChunks' ? Math.round(clamped) : clamped;
+}
+
+function isPostFXPassId(value: unknown): value is PostFXPassId {
+    return (PostFXConfig.order as readonly unknown[]).includes(value);
+}
+
+function isShadowMapSize(value: unknown): value is number {
+    return (GraphicsConfig.shadowMapSizes as readonly unknown[]).includes(value);
+}
+
+/** Persisted (possibly older / hand-edited) settings -> valid settings. Invalid overrides are dropped. */
+export function sanitizeGraphicsSettings(raw: unknown): GraphicsSettings {
+    const out = createDefaultGraphicsSettings();
+    if (!raw || typeof raw !== 'object') return out;
+
+    const record = raw as { preset?: unknown; overrides?: unknown };
+    if ((GRAPHICS_PRESETS as readonly unknown[]).includes(record.preset)) out.preset = record.preset as GraphicsPreset;
+
+    const overrides = record.overrides;
+    if (!overrides || typeof overrides !== 'object') return out;
+    const o = overrides as Record<string, unknown>;
+    for (const key of NUMERIC_OPTIONS) {
+        const value = o[key];
+        if (typeof value === 'number' && Number.isFinite(value)) out.overrides[key] = clampOption(key, value);
+    }
+    if (isShadowMapSize(o.shadowMapSize)) out.overrides.shadowMapSize = o.shadowMapSize;
+    if (typeof o.postFx === 'boolean') out.overrides.postFx = o.postFx;
+    if (typeof o.pipScope === 'boolean') out.overrides.pipScope = o.pipScope;
+    if (Array.isArray(o.postFxPasses)) {
+        // Settings always use the configured chain order; only launch flags can reorder.
+        out.overrides.postFxPasses = PostFXConfig.order.filter((id) => (o.postFxPasses as unknown[]).includes(id));
+    }
+    return out;
+}
+
+/** Preset + player overrides (what the settings tab shows). */
+export function getGraphicsOptions(settings: GraphicsSettings): GraphicsOptions {
+    return { ...GraphicsConfig.presets[settings.preset], ...settings.overrides };
+}
+
+/** Options forced through RuntimeToggles (query string first, then localStorage). */
+export function readGraphicsToggleOverrides(): { preset: GraphicsPreset | null; options: Partial<GraphicsOptions> } {
+    const options: Partial<GraphicsOptions> = {};
+    for (const key of NUMERIC_OPTIONS) {
+        const value = readNumber(TOGGLE_KEYS[key]);
+        if (value !== null) options[key] = clampOption(key, value);
+    }
+    const shadowMapSize = readNumber(TOGGLE_KEYS.shadowMapSize);
+    if (isShadowMapSize(shadowMapSize)) options.shadowMapSize = shadowMapSize;
+    const postFx = readBooleanFlag(TOGGLE_KEYS.postFx);
+    if (postFx !== null) options.postFx = postFx;
+    const pipScope = readBooleanFlag(TOGGLE_KEYS.pipScope);
+    if (pipScope !== null) options.pipScope = pipScope;
+    const passes = readString(TOGGLE_KEYS.postFxPasses);
+    if (passes !== null) {
+        const ids = passes.split(',').map((id) => id.trim()).filter(isPostFXPassId);
+        options.postFxPasses = ids.filter((id, i) => ids.indexOf(id) === i);
+    }
+
+    return { preset: readEnum('graphicsPreset', GRAPHICS_PRESETS), options };
+}
+
+/**
+ * Final options applied by the game.
+ * A toggled preset replaces the saved preset *and* its overrides; toggled options win over everything.
+ */
+export function resolveGraphicsOptions(settings: GraphicsSettings): GraphicsOptions {
+    const toggles = readGraphicsToggleOverrides();
+    const base = toggles.preset ? getGraphicsOptions({ preset: toggles.preset, overrides: {} }) : getGraphicsOptions(settings);
+    return { ...base, ...toggles.options };
+}
@@ -1,3 +1,7 @@
+import type { AudioSettings } from './AudioSettings';
+import type { ControlBindingMap } from './ControlBindings';
+import type { GraphicsSettings } from './GraphicsSettings';
+
 export type RuntimeSettings = {
     cameraSensitivity: number;
     cameraSmoothFactor: number;
@@ -13,6 +17,22 @@ export type RuntimeSettings = {
     friction: number;
 
     weaponSwitchCooldownMs: number;
+
+    gamepadEnabled: boolean;
+    gamepadLookSensitivity: number; // rad/s at full stick deflection
+    gamepadDeadZone: number;        // 0..1 radial
+    gamepadResponseCurve: number;   // exponent (1 = linear)
+    gamepadInvertY: boolean;
+    gamepadAimAssist: number;       // 0 = off .. 1 = strongest
+
+    // Key / mouse / wheel bindings (see ControlBindings).
+    controls: ControlBindingMap;
+
+    // Quality preset + per-option overrides (see GraphicsSettings).
+    graphics: GraphicsSettings;
+
+    // Mixer bus volumes (see AudioSettings).
+    audio: AudioSettings;
 };
 
 export type RuntimeSettingsSource = {
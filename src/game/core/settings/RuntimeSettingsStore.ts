@@ -1,5 +1,8 @@
 import { PlayerConfig, WeaponConfig } from '../GameConfig';
 import type { RuntimeSettings } from './RuntimeSettings';
+import { createDefaultAudioSettings, sanitizeAudioSettings } from './AudioSettings';
+import { createDefaultControlBindings, sanitizeControlBindings } from './ControlBindings';
+import { createDefaultGraphicsSettings, sanitizeGraphicsSettings } from './GraphicsSettings';
 
 export function createDefaultRuntimeSettings(): RuntimeSettings {
     return {
@@ -17,6 +20,34 @@ export function createDefaultRuntimeSettings(): RuntimeSettings {
         friction: PlayerConfig.movement.friction,
 
         weaponSwitchCooldownMs: WeaponConfig.switching.cooldown,
+
+        gamepadEnabled: PlayerConfig.gamepad.enabled,
+        gamepadLookSensitivity: PlayerConfig.gamepad.lookSpeed,
+        gamepadDeadZone: PlayerConfig.gamepad.deadZone,
+        gamepadResponseCurve: PlayerConfig.gamepad.responseCurve,
+        gamepadInvertY: PlayerConfig.gamepad.invertY,
+        gamepadAimAssist: PlayerConfig.gamepad.aimAssist.strength,
+
+        controls: createDefaultControlBindings(),
+        graphics: createDefaultGraphicsSettings(),
+        audio: createDefaultAudioSettings(),
+    };
+}
+
+/**
+ * Persisted / imported settings -> complete settings.
+ * Bindings are merged per action so newly added actions keep their defaults.
+ */
+export function sanitizeRuntimeSettings(raw: unknown): RuntimeSettings {
+    const defaults = createDefaultRuntimeSettings();
+    if (!raw || typeof raw !== 'object') return defaults;
+    const parsed = raw as Partial<RuntimeSettings>;
+    return {
+        ...defaults,
+        ...parsed,
+        controls: sanitizeControlBindings(parsed.controls),
+        graphics: sanitizeGraphicsSettings(parsed.graphics),
+        audio: sanitizeAudioSettings(parsed.audio),
     };
 }
 
@@ -35,14 +66,12 @@ export class RuntimeSettingsStore {
     }
 
     static loadFromLocalStorage(key: string = 'runtimeSettings'): RuntimeSettingsStore {
-        const defaults = createDefaultRuntimeSettings();
         try {
             const raw = localStorage.getItem(key);
-            if (!raw) return new RuntimeSettingsStore(defaults);
-            const parsed = JSON.parse(raw) as Partial<RuntimeSettings>;
-            return new RuntimeSettingsStore({ ...defaults, ...parsed });
+            if (!raw) return new RuntimeSettingsStore(createDefaultRuntimeSettings());
+            return new RuntimeSettingsStore(sanitizeRuntimeSettings(JSON.parse(raw)));
         } catch {
-            return new RuntimeSettingsStore(defaults);
+            return new RuntimeSettingsStore(createDefaultRuntimeSettings());
         }
     }
 
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { RANDOM_STREAM_IDS, RandomStream, RandomStreams } from './RandomStreams';
+
+function draw(stream: RandomStream, count: number): number[] {
+    return Array.from({ length: count }, () => stream.next());
+}
+
+describe('RandomStream', () => {
+    it('stays in range', () => {
+        const stream = new RandomStream(1234);
+        for (let i = 0; i < 1000; i++) {
+            const v = stream.next();
+            expect(v).toBeGreaterThanOrEqual(0);
+            expect(v).toBeLessThan(1);
+            const n = stream.int(7);
+            expect(Number.isInteger(n) && n >= 0 && n < 7).toBe(true);
+        }
+    });
+
+    it('replays the same sequence from a saved state', () => {
+        const stream = new RandomStream(42);
+        draw(stream, 10);
+        const state = stream.getState();
+        const expected = draw(stream, 5);
+
+        stream.setState(state);
+        expect(draw(stream, 5)).toEqual(expected);
+    });
+});
+
+describe('RandomStreams', () => {
+    it('is reproducible for the same run seed', () => {
+        const a = new RandomStreams(7);
+        const b = new RandomStreams(7);
+        for (const id of RANDOM_STREAM_IDS) {
+            expect(draw(a.get(id), 8)).toEqual(draw(b.get(id), 8));
+        }
+    });
+
+    it('gives every stream its own sequence', () => {
+        const streams = new RandomStreams(7);
+        const firsts = RANDOM_STREAM_IDS.map((id) => streams.get(id).next());
+        expect(new Set(firsts).size).toBe(RANDOM_STREAM_IDS.length);
+    });
+
+    it('keeps streams independent: extra rolls in one do not shift another', () => {
+        const baseline = new RandomStreams(99);
+        const expected = draw(baseline.get('weather'), 10);
+
+        const busy = new RandomStreams(99);
+        draw(busy.get('spawn'), 50);
+        busy.get('loot').pick(['a', 'b', 'c']);
+        expect(draw(busy.get('weather'), 10)).toEqual(expected);
+    });
+
+    it('round-trips through a snapshot', () => {
+        const streams = new RandomStreams(2024);
+        draw(streams.get('spawn'), 3);
+        draw(streams.get('enemyAI'), 11);
+        // Plain JSON, like a save file.
+        const snapshot = JSON.parse(JSON.stringify(streams.getSnapshot()));
+
+        const expected = RANDOM_STREAM_IDS.map((id) => draw(streams.get(id), 4));
+
+        const restored = new RandomStreams(1);
+        restored.restoreSnapshot(snapshot);
+        expect(restored.getSeed()).toBe(2024);
+        expect(RANDOM_STREAM_IDS.map((id) => draw(restored.get(id), 4))).toEqual(expected);
+    });
+
+    it('restarts streams missing from a snapshot from the seed', () => {
+        const fresh = new RandomStreams(5);
+        const expected = draw(fresh.get('pickups'), 4);
+
+        const restored = new RandomStreams(77);
+        draw(restored.get('pickups'), 9);
+        restored.restoreSnapshot({ seed: 5, streams: {} });
+        expect(draw(restored.get('pickups'), 4)).toEqual(expected);
+    });
+
+    it('rewinds streams in place on reseed, so held references stay valid', () => {
+        const streams = new RandomStreams(3);
+        const held = streams.get('enemyCombat');
+        const expected = draw(held, 4);
+
+        streams.reseed(3);
+        expect(streams.get('enemyCombat')).toBe(held);
+        expect(draw(held, 4)).toEqual(expected);
+    });
+});
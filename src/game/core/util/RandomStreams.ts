@@ -0,0 +1,163 @@
+import { hash2iToU32 } from './SeededRandom';
+import { readNumber } from '../runtime/RuntimeToggles';
+
+/**
+ * Named gameplay RNG streams.
+ *
+ * Every consumer draws from its own stream, so adding a roll in one system doesn't shift
+ * the sequence seen by another. Stream seeds derive from (run seed, stream name) only,
+ * so new streams can be added without changing existing ones.
+ *
+ * Cosmetic randomness (particles, muzzle flash rotation, synth noise) stays on Math.random:
+ * it never feeds back into the simulation.
+ */
+export type RandomStreamId =
+    | 'spawn' // encounter director: enemy types, spawn positions
+    | 'loot' // enemy weapon rolls
+    | 'pickups' // world pickup type / placement
+    | 'enemyAI' // brain personality, patrol / investigate points, timers
+    | 'enemyCombat' // accuracy rolls, knockback, melee hit feedback
+    | 'enemyMotion' // stuck-check and LOS de-phasing jitter
+    | 'weather'; // weather picks and change intervals
+
+export const RANDOM_STREAM_IDS: readonly RandomStreamId[] = [
+    'spawn',
+    'loot',
+    'pickups',
+    'enemyAI',
+    'enemyCombat',
+    'enemyMotion',
+    'weather',
+];
+
+export type RandomStreamsSnapshot = {
+    seed: number;
+    /** Per-stream generator state; missing streams restart from the seed. */
+    streams: Partial<Record<RandomStreamId, number>>;
+};
+
+function hashStreamName(name: string): number {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < name.length; i++) {
+        h ^= name.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * One mulberry32 generator (same sequence as SeededRandom.mulberry32) with observable state.
+ */
+export class RandomStream {
+    private state = 0;
+
+    constructor(seedU32: number) {
+        this.state = seedU32 >>> 0;
+    }
+
+    /** Uniform in [0, 1). */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        const t = this.state;
+        let r = Math.imul(t ^ (t >>> 15), 1 | t);
+        r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+        return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Uniform in [min, max). */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /** Uniform in [-1, 1). */
+    signed(): number {
+        return this.next() * 2 - 1;
+    }
+
+    /** Integer in [0, count). */
+    int(count: number): number {
+        return Math.floor(this.next() * count);
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+/**
+ * RandomStreams - 运行时持有的一组可复现的随机数流
+ * 同一个 run seed + 同样的输入 => 同样的一局 (bug 复现 / 回放 / 自动化测试)。
+ * Stream instances are stable: reseeding rewinds them in place, so consumers can keep references.
+ */
+export class RandomStreams {
+    private seed: number;
+    private readonly streams = new Map<RandomStreamId, RandomStream>();
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        for (const id of RANDOM_STREAM_IDS) {
+            this.streams.set(id, new RandomStream(this.deriveSeed(id)));
+        }
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    get(id: RandomStreamId): RandomStream {
+        return this.streams.get(id)!;
+    }
+
+    /** Restart every stream from a (new) run seed. */
+    reseed(seed: number): void {
+        this.seed = seed >>> 0;
+        for (const [id, stream] of this.streams) {
+            stream.setState(this.deriveSeed(id));
+        }
+    }
+
+    getSnapshot(): RandomStreamsSnapshot {
+        const streams: Partial<Record<RandomStreamId, number>> = {};
+        for (const [id, stream] of this.streams) streams[id] = stream.getState();
+        return { seed: this.seed, streams };
+    }
+
+    restoreSnapshot(snapshot: RandomStreamsSnapshot): void {
+        this.reseed(snapshot.seed);
+        for (const [id, stream] of this.streams) {
+            const state = snapshot.streams[id];
+            if (typeof state === 'number' && Number.isFinite(state)) stream.setState(state);
+        }
+    }
+
+    private deriveSeed(id: RandomStreamId): number {
+        return hash2iToU32(hashStreamName(id), 0, this.seed);
+    }
+}
+
+/**
+ * Seed for a new run: `?seed=<uint32>` (query or localStorage) pins it, otherwise a fresh one.
+ * The chosen seed is logged so any run can be reproduced from a bug report.
+ */
+export function resolveRunSeed(): number {
+    const forced = readNumber('seed');
+    if (forced !== null && Number.isFinite(forced)) return Math.trunc(forced) >>> 0;
+
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        return crypto.getRandomValues(new Uint32Array(1))[0];
+    }
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
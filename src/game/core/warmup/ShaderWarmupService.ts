@@ -75,6 +75,7 @@ export async function runShaderWarmup(params: {
     const dummyAnchor = new THREE.Vector3(camera.position.x, camera.position.y, camera.position.z);
 
     let weaponWarmupVisible = false;
+    let postFxRendered = false;
 
     // 1. Dummy enemies (warm up: type x weapon combinations)
     const warmupEnemies: Enemy[] = [];
@@ -262,6 +263,7 @@ export async function runShaderWarmup(params: {
                     gpuCompute.updateEnemies(resolved.warmupDelta, camera.position);
                     particleSystem.update(resolved.warmupDelta);
                     await postProcessing.render();
+                    postFxRendered = true;
                     await new Promise((resolve) => setTimeout(resolve, 0));
                 } finally {
                     for (let i = 0; i < noCullObjects.length; i++) {
@@ -282,6 +284,7 @@ export async function runShaderWarmup(params: {
                         particleSystem.update(resolved.warmupDelta);
 
                         await postProcessing.render();
+                        postFxRendered = true;
                         await new Promise((resolve) => setTimeout(resolve, 0));
                     }
                 }
@@ -295,6 +298,14 @@ export async function runShaderWarmup(params: {
             camera.quaternion.copy(originalQuaternion);
             camera.updateMatrixWorld();
         }
+
+        // Post-FX: the enabled pass set (PostFXPipeline.setPasses, applied before warmup) owns extra
+        // fullscreen pipelines (bloom mips, GTAO, DOF). Render the chain once if no phase above did.
+        if (!postFxRendered) {
+            updateProgress(97, "i18n:loading.stage.postfx");
+            await postProcessing.render();
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
     } catch (e) {
         console.warn("Shader pre-compilation failed:", e);
     } finally {
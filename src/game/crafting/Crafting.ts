@@ -0,0 +1,93 @@
+import type { GameState, GameStateStore } from '../core/GameState';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import type { LoadoutSlotId, WeaponId } from '../weapon/WeaponTypes';
+import { getWeaponDefinition } from '../weapon/WeaponDefinitions';
+import type { ItemId, RecipeDefinition, RecipeId, ResourceType } from './CraftingTypes';
+import { getRecipe } from './RecipeRegistry';
+
+export const RESOURCE_TYPES: readonly ResourceType[] = ['wood', 'fiber', 'stone', 'scrap'];
+export const ITEM_IDS: readonly ItemId[] = ['bandage'];
+
+export function createEmptyResources(): Record<ResourceType, number> {
+    return { wood: 0, fiber: 0, stone: 0, scrap: 0 };
+}
+
+export function createEmptyItems(): Record<ItemId, number> {
+    return { bandage: 0 };
+}
+
+export type CraftingContext = {
+    state: GameStateStore;
+    events: GameEventBus;
+    equipToSlot: (slot: LoadoutSlotId, weapon: WeaponId) => boolean;
+};
+
+/** Resources still needed for one craft (empty object = affordable). */
+export function getMissingResources(
+    recipe: RecipeDefinition,
+    resources: Record<ResourceType, number>
+): Partial<Record<ResourceType, number>> {
+    const missing: Partial<Record<ResourceType, number>> = {};
+    for (const type of RESOURCE_TYPES) {
+        const need = recipe.cost[type] ?? 0;
+        const have = resources[type] ?? 0;
+        if (need > have) missing[type] = need - have;
+    }
+    return missing;
+}
+
+/** Full durability of a tool (0 for non-melee weapons). */
+export function getToolMaxDurability(weapon: WeaponId): number {
+    const def = getWeaponDefinition(weapon);
+    return def.category === 'melee' ? def.durability : 0;
+}
+
+export function canCraft(recipe: RecipeDefinition, state: GameState): boolean {
+    if (Object.keys(getMissingResources(recipe, state.resources)).length > 0) return false;
+    // Tools are unique: crafting replaces a worn (or broken, i.e. unequipped) one, never an unworn one.
+    const output = recipe.output;
+    if (output.kind === 'tool' && state.loadout[output.slot] === output.weapon) {
+        const left = state.toolDurability[output.weapon] ?? 0;
+        if (left >= getToolMaxDurability(output.weapon)) return false;
+    }
+    return true;
+}
+
+/**
+ * Spend resources and grant the recipe output through the event bus.
+ * Returns false (and changes nothing) if the recipe can't be crafted right now.
+ */
+export function craftRecipe(id: RecipeId, ctx: CraftingContext): boolean {
+    const recipe = getRecipe(id);
+    if (!recipe) return false;
+
+    const state = ctx.state.getState();
+    if (!canCraft(recipe, state)) return false;
+
+    const output = recipe.output;
+    // Equip first: it's the only output that can be rejected after validation.
+    if (output.kind === 'tool' && !ctx.equipToSlot(output.slot, output.weapon)) return false;
+
+    for (const type of RESOURCE_TYPES) {
+        const cost = recipe.cost[type] ?? 0;
+        if (cost > 0) ctx.events.emit({ type: 'state:updateResource', resource: type, delta: -cost });
+    }
+
+    switch (output.kind) {
+        case 'ammo':
+            ctx.events.emit({ type: 'state:updateReserveAmmo', caliber: output.caliber, delta: output.amount });
+            break;
+        case 'grenade':
+            ctx.events.emit({ type: 'state:updateGrenades', delta: output.amount });
+            break;
+        case 'item':
+            ctx.events.emit({ type: 'state:updateItem', item: output.item, delta: output.amount });
+            break;
+        case 'tool':
+            ctx.events.emit({ type: 'state:setToolDurability', weapon: output.weapon, hits: getToolMaxDurability(output.weapon) });
+            break;
+    }
+
+    ctx.events.emit({ type: 'sound:play', sound: 'pickup' });
+    return true;
+}
@@ -0,0 +1,32 @@
+import type { AmmoCaliber, LoadoutSlotId, WeaponId } from '../weapon/WeaponTypes';
+
+/** Raw materials dropped by harvesting the environment. */
+export type ResourceType = 'wood' | 'fiber' | 'stone' | 'scrap';
+
+/** Consumables kept in the inventory (used on demand). */
+export type ItemId = 'bandage';
+
+export type RecipeId =
+    | 'ammo556'
+    | 'ammo762'
+    | 'ammo9mm'
+    | 'ammo12ga'
+    | 'arrows'
+    | 'bandage'
+    | 'grenade'
+    | 'knife'
+    | 'axe'
+    | 'scythe';
+
+export type RecipeOutput =
+    | { kind: 'ammo'; caliber: AmmoCaliber; amount: number }
+    | { kind: 'grenade'; amount: number }
+    | { kind: 'item'; item: ItemId; amount: number }
+    | { kind: 'tool'; weapon: WeaponId; slot: LoadoutSlotId };
+
+export interface RecipeDefinition {
+    id: RecipeId;
+    displayName: string;
+    cost: Partial<Record<ResourceType, number>>;
+    output: RecipeOutput;
+}
@@ -0,0 +1,72 @@
+import type { RecipeDefinition, RecipeId } from './CraftingTypes';
+
+const RECIPES: Record<RecipeId, RecipeDefinition> = {
+    ammo556: {
+        id: 'ammo556',
+        displayName: '5.56mm Rounds',
+        cost: { scrap: 2, fiber: 1 },
+        output: { kind: 'ammo', caliber: '556', amount: 30 },
+    },
+    ammo762: {
+        id: 'ammo762',
+        displayName: '7.62mm Rounds',
+        cost: { scrap: 3 },
+        output: { kind: 'ammo', caliber: '762', amount: 10 },
+    },
+    ammo9mm: {
+        id: 'ammo9mm',
+        displayName: '9mm Rounds',
+        cost: { scrap: 1 },
+        output: { kind: 'ammo', caliber: '9mm', amount: 24 },
+    },
+    ammo12ga: {
+        id: 'ammo12ga',
+        displayName: '12ga Shells',
+        cost: { scrap: 2, fiber: 1 },
+        output: { kind: 'ammo', caliber: '12ga', amount: 8 },
+    },
+    arrows: {
+        id: 'arrows',
+        displayName: 'Arrows',
+        cost: { wood: 1, fiber: 1, stone: 1 },
+        output: { kind: 'ammo', caliber: 'arrow', amount: 5 },
+    },
+    bandage: {
+        id: 'bandage',
+        displayName: 'Bandage',
+        cost: { fiber: 3 },
+        output: { kind: 'item', item: 'bandage', amount: 1 },
+    },
+    grenade: {
+        id: 'grenade',
+        displayName: 'Grenade',
+        cost: { scrap: 3, stone: 1 },
+        output: { kind: 'grenade', amount: 1 },
+    },
+    knife: {
+        id: 'knife',
+        displayName: 'Knife',
+        cost: { stone: 2, wood: 1 },
+        output: { kind: 'tool', weapon: 'knife', slot: 'melee' },
+    },
+    axe: {
+        id: 'axe',
+        displayName: 'Axe',
+        cost: { wood: 3, stone: 2, fiber: 1 },
+        output: { kind: 'tool', weapon: 'axe', slot: 'tool' },
+    },
+    scythe: {
+        id: 'scythe',
+        displayName: 'Scythe',
+        cost: { wood: 2, scrap: 2, fiber: 1 },
+        output: { kind: 'tool', weapon: 'scythe', slot: 'utility' },
+    },
+};
+
+export function getRecipe(id: RecipeId): RecipeDefinition {
+    return RECIPES[id];
+}
+
+export function getAllRecipes(): RecipeDefinition[] {
+    return Object.values(RECIPES);
+}
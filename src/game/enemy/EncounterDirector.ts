@@ -0,0 +1,214 @@
+/**
+ * EncounterDirector - 遭遇导演
+ * 根据玩家血量、击杀率与距上次交战的时间计算强度 (0..1)，
+ * 以 "波次 -> 休整" 的节奏安排敌人生成，并为每波挑选 EnemyType 组合。
+ * 只负责决策；生成点选择与实际生成由 SpawnSystem / EnemySystem 完成。
+ */
+import * as THREE from 'three';
+import { LevelConfig, DayNightConfig, type EnemyType } from '../core/GameConfig';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import type { RandomStream } from '../core/util/RandomStreams';
+import type { Enemy } from './Enemy';
+
+/** HUD-facing wave status (GameState.wave). */
+export interface WaveState {
+    number: number;
+    active: boolean;
+}
+
+export type EncounterPhase = 'rest' | 'active';
+
+export interface EncounterDirectorInput {
+    delta: number;
+    /** Player health 0..1. */
+    healthFraction: number;
+    nightFactor: number;
+    /** Local biome multipliers on the wave mix (BiomeConfig enemies at the player). */
+    biomeEnemyWeights?: Record<EnemyType, number>;
+}
+
+export class EncounterDirector {
+    private readonly events: GameEventBus;
+    private readonly random: RandomStream;
+    private readonly unsubscribeEvents: () => void;
+
+    private phase: EncounterPhase = 'rest';
+    private wave = 0;
+    private intensity = 0;
+
+    private restTimer = 0;
+    private waveTime = 0;
+    private spawnTimer = 0;
+    private remainingToSpawn = 0;
+    private readonly waveEnemies: Enemy[] = [];
+
+    // Intensity inputs
+    private clock = 0;
+    private readonly killTimes: number[] = [];
+    private timeSinceFight = 0;
+    private lastHealthFraction = 1;
+
+    constructor(events: GameEventBus, random: RandomStream) {
+        this.events = events;
+        this.random = random;
+        this.unsubscribeEvents = this.events.on('world:enemyKilled', () => {
+            this.killTimes.push(this.clock);
+            this.timeSinceFight = 0;
+        });
+        this.reset();
+    }
+
+    /** Back to the pre-first-wave rest (new run / snapshot load). */
+    public reset(): void {
+        this.phase = 'rest';
+        this.wave = 0;
+        this.intensity = 0;
+        this.restTimer = LevelConfig.enemySpawn.initialDelay / 1000;
+        this.waveTime = 0;
+        this.spawnTimer = 0;
+        this.remainingToSpawn = 0;
+        this.waveEnemies.length = 0;
+
+        this.clock = 0;
+        this.killTimes.length = 0;
+        this.timeSinceFight = 0;
+        this.lastHealthFraction = 1;
+    }
+
+    public getPhase(): EncounterPhase {
+        return this.phase;
+    }
+
+    public getWave(): number {
+        return this.wave;
+    }
+
+    /** 0 = back off (player is hurt / just fought), 1 = push hard. */
+    public getIntensity(): number {
+        return this.intensity;
+    }
+
+    /**
+     * Advance the director. Returns the enemy type to spawn this frame, or null.
+     * The caller must report the outcome via `notifySpawned` / `notifySpawnFailed`.
+     */
+    public update(input: EncounterDirectorInput): EnemyType | null {
+        const cfg = LevelConfig.enemySpawn.director;
+        const delta = input.delta;
+        this.clock += delta;
+
+        // Taking damage counts as a fight (kills are tracked via world:enemyKilled).
+        if (input.healthFraction < this.lastHealthFraction - 1e-4) this.timeSinceFight = 0;
+        else this.timeSinceFight += delta;
+        this.lastHealthFraction = input.healthFraction;
+
+        while (this.killTimes.length > 0 && this.clock - this.killTimes[0] > cfg.killRateWindow) {
+            this.killTimes.shift();
+        }
+        this.intensity = this.computeIntensity(input.healthFraction);
+
+        if (this.phase === 'rest') {
+            this.restTimer -= delta;
+            if (this.restTimer <= 0) this.startWave(input.nightFactor);
+            return null;
+        }
+
+        this.waveTime += delta;
+        for (let i = this.waveEnemies.length - 1; i >= 0; i--) {
+            if (this.waveEnemies[i].isDead) this.waveEnemies.splice(i, 1);
+        }
+
+        const cleared = this.remainingToSpawn <= 0 && this.waveEnemies.length === 0;
+        if (cleared || this.waveTime > cfg.maxWaveDuration) {
+            this.endWave();
+            return null;
+        }
+
+        if (this.remainingToSpawn <= 0) return null;
+        this.spawnTimer -= delta;
+        if (this.spawnTimer > 0) return null;
+
+        // Next interval is set by notifySpawned (normal cadence) or notifySpawnFailed (quick retry).
+        this.spawnTimer = this.getSpawnInterval(input.nightFactor);
+        return this.pickEnemyType(input.biomeEnemyWeights);
+    }
+
+    public notifySpawned(enemy: Enemy): void {
+        this.remainingToSpawn--;
+        this.waveEnemies.push(enemy);
+    }
+
+    /** No valid spawn point / enemy cap reached: try again shortly. */
+    public notifySpawnFailed(): void {
+        this.spawnTimer = LevelConfig.enemySpawn.director.spawnRetryDelay;
+    }
+
+    public dispose(): void {
+        this.unsubscribeEvents();
+        this.waveEnemies.length = 0;
+    }
+
+    private computeIntensity(healthFraction: number): number {
+        const cfg = LevelConfig.enemySpawn.director;
+        const health = THREE.MathUtils.clamp(healthFraction, 0, 1);
+        const killRate = Math.min(1, this.killTimes.length / cfg.killRateForMax);
+        const calm = Math.min(1, this.timeSinceFight / cfg.calmTimeForMax);
+        const w = cfg.weights;
+        return THREE.MathUtils.clamp(w.health * health + w.killRate * killRate + w.calm * calm, 0, 1);
+    }
+
+    private startWave(nightFactor: number): void {
+        const cfg = LevelConfig.enemySpawn.director;
+        this.phase = 'active';
+        this.wave++;
+        this.waveTime = 0;
+        this.spawnTimer = 0;
+        this.waveEnemies.length = 0;
+
+        // Nights field bigger waves.
+        const nightScale = THREE.MathUtils.lerp(1, DayNightConfig.night.maxEnemiesMultiplier, nightFactor);
+        const base = THREE.MathUtils.lerp(cfg.waveSize.min, cfg.waveSize.max, this.intensity);
+        this.remainingToSpawn = Math.max(1, Math.round((base + (this.wave - 1) * cfg.waveGrowth) * nightScale));
+
+        this.events.emit({ type: 'wave:started', wave: this.wave, enemies: this.remainingToSpawn });
+    }
+
+    private endWave(): void {
+        const cfg = LevelConfig.enemySpawn.director;
+        this.phase = 'rest';
+        this.remainingToSpawn = 0;
+        this.waveEnemies.length = 0;
+        // A player who is struggling gets a longer breather.
+        this.restTimer = THREE.MathUtils.lerp(cfg.restDuration.max, cfg.restDuration.min, this.intensity);
+
+        this.events.emit({ type: 'wave:ended', wave: this.wave, rest: this.restTimer });
+    }
+
+    private getSpawnInterval(nightFactor: number): number {
+        const cfg = LevelConfig.enemySpawn.director;
+        const interval = THREE.MathUtils.lerp(cfg.spawnInterval.max, cfg.spawnInterval.min, this.intensity);
+        return interval * THREE.MathUtils.lerp(1, DayNightConfig.night.enemySpawnIntervalMultiplier, nightFactor);
+    }
+
+    private pickEnemyType(biomeWeights?: Record<EnemyType, number>): EnemyType {
+        const mixes = LevelConfig.enemySpawn.director.mixes;
+        let mix = mixes[0];
+        for (const m of mixes) {
+            if (m.fromWave <= this.wave) mix = m;
+        }
+
+        const types = Object.keys(mix.weights) as EnemyType[];
+        const weightOf = (type: EnemyType) => mix.weights[type] * (biomeWeights?.[type] ?? 1);
+        let total = 0;
+        for (const type of types) total += weightOf(type);
+        // A biome that rules out the whole wave mix falls back to the plain mix.
+        if (total <= 0) return this.random.pick(types.filter((type) => mix.weights[type] > 0));
+
+        let r = this.random.next() * total;
+        for (const type of types) {
+            r -= weightOf(type);
+            if (r < 0) return type;
+        }
+        return types[0];
+    }
+}
@@ -14,6 +14,8 @@ import { EnemyFactory } from './EnemyFactory';
 import { getUserData } from '../types/GameUserData';
 import type { WeaponId } from '../weapon/WeaponTypes';
 import { GameEventBus } from '../core/events/GameEventBus';
+import { EnemyBrain, type EnemyBrainInput } from './ai/EnemyBrain';
+import type { EnemyAIState } from './ai/EnemyBehaviors';
 
 export class Enemy {
     public mesh: THREE.Group;
@@ -22,6 +24,7 @@ export class Enemy {
 
     private speed: number;
     private health: number;
+    private readonly maxHealth: number;
     public isDead: boolean = false;
     public isActive: boolean = true;
 
@@ -32,6 +35,15 @@ export class Enemy {
     private hitStrength: UniformNode<number>;
     private dissolveAmount: UniformNode<number>;
     
+    // Behavior (utility AI): picks patrol/investigate/chase/flank/cover/retreat + a movement goal.
+    private readonly brain: EnemyBrain;
+    private readonly brainInput: EnemyBrainInput;
+    private pendingDamageAlert: boolean = false;
+    private coverEntries: Array<{ box: THREE.Box3; object: THREE.Object3D }> = [];
+    private tmpCoverCenter = new THREE.Vector3();
+    private tmpCoverDir = new THREE.Vector3();
+    private readonly lastGoal = new THREE.Vector3();
+
     // Pathfinding
     private currentPath: THREE.Vector3[] = [];
     private pathUpdateTimer: number = 0;
@@ -163,7 +175,8 @@ export class Enemy {
 
         // 初始化属性
         this.speed = this.config.speed;
-        this.health = this.config.health;
+        this.maxHealth = this.config.health;
+        this.health = this.maxHealth;
         
         // 基础参数来自敌人类型配置，再叠加武器差异
         const baseAttack = this.config.attack;
@@ -184,12 +197,25 @@ export class Enemy {
         this.engageRange = Math.min(baseAttack.engageRange, this.fireRange);
         this.aimSpeed = this.config.ai.aimSpeed;
 
+        this.brain = new EnemyBrain(type, { random: services.random.get('enemyAI') });
+        this.brain.reset(position);
+        this.brainInput = {
+            position: new THREE.Vector3(),
+            playerPosition: new THREE.Vector3(),
+            canSeePlayer: false,
+            distanceToPlayer: Infinity,
+            healthFraction: 1,
+            engageRange: this.engageRange,
+            detectionRange: EnemyConfig.ai.detectionRange,
+            findCover: (from, threat, out) => this.findCoverPoint(from, threat, out),
+        };
+
         // When three-mesh-bvh is enabled, this stops traversal after the first hit.
         this.losRaycaster.firstHitOnly = true;
         this.losRaycaster.near = 0;
 
         // De-phase LOS checks across enemies to avoid spikes right after spawn.
-        this.visibilityCheckTimer = Math.random() * this.VISIBILITY_CHECK_INTERVAL_NEAR;
+        this.visibilityCheckTimer = services.random.get('enemyMotion').next() * this.VISIBILITY_CHECK_INTERVAL_NEAR;
 
         // TSL Uniforms
         this.hitStrength = uniform(0);
@@ -245,9 +271,46 @@ export class Enemy {
     }
 
     public getMaxHealth(): number {
+        return this.maxHealth;
+    }
+
+    public getHealth(): number {
         return this.health;
     }
 
+    /** Current behavior state (debug overlay / telemetry). */
+    public getAIState(): EnemyAIState {
+        return this.brain.getState();
+    }
+
+    /** Line of sight to the player as of the last AI update. */
+    public hasPlayerInSight(): boolean {
+        return this.isPlayerVisible;
+    }
+
+    /**
+     * Make the enemy investigate a position without seeing the player (noise, squad call-outs, spawn intel).
+     */
+    public alertTo(position: THREE.Vector3) {
+        if (this.isDead) return;
+        this.brain.alert(position);
+    }
+
+    /** Heard a noise: turn toward it and go investigate (no effect while the player is in sight). */
+    public hearNoise(position: THREE.Vector3) {
+        if (this.isDead || this.isPlayerVisible) return;
+        this.brain.alert(position);
+
+        const dx = position.x - this.mesh.position.x;
+        const dz = position.z - this.mesh.position.z;
+        if (dx * dx + dz * dz > 0.001) this.targetRotation = Math.atan2(dx, dz);
+    }
+
+    /** Restore health from a snapshot (clamped to the type's base health). */
+    public restoreHealth(health: number) {
+        this.health = Math.max(1, Math.min(this.maxHealth, health));
+    }
+
     
     
 
@@ -256,7 +319,7 @@ export class Enemy {
         delta: number, 
         obstacles: THREE.Object3D[], 
         pathfinding: Pathfinding,
-        opts?: { movement?: 'cpu' | 'gpu' }
+        opts?: { movement?: 'cpu' | 'gpu'; detectionRangeScale?: number; shadowDistance?: number }
     ): { fired: boolean; hit: boolean; damage: number } {
         const result = { fired: false, hit: false, damage: 0 };
 
@@ -283,7 +346,7 @@ export class Enemy {
         if (distanceToPlayer > 0.00001) this.tmpToPlayer.multiplyScalar(1 / distanceToPlayer);
 
         // LOD / culling: reduce drawcalls and skip expensive AI for distant enemies
-        this.applyLOD(distanceToPlayer);
+        this.applyLOD(distanceToPlayer, opts?.shadowDistance ?? EnemyConfig.ai.shadowDisableDistance);
         if (this.renderCulled) {
             // Still advance muzzle flash timer so it doesn't get stuck on.
             if (this.muzzleFlashTimer > 0) {
@@ -319,7 +382,7 @@ export class Enemy {
         // When we aren't making progress, we force a pathfinding update to route around obstacles.
         this.stuckCheckTimer -= delta;
         if (this.stuckCheckTimer <= 0) {
-            this.stuckCheckTimer = 0.25 + Math.random() * 0.05;
+            this.stuckCheckTimer = this.services.random.get('enemyMotion').range(0.25, 0.3);
             const dx = this.mesh.position.x - this.lastStuckCheckPos.x;
             const dz = this.mesh.position.z - this.lastStuckCheckPos.z;
             const moved = Math.sqrt(dx * dx + dz * dz);
@@ -346,22 +409,47 @@ export class Enemy {
             }
         }
         
+        const detectionRangeScale = opts?.detectionRangeScale ?? 1;
+        const detectionRange = Math.max(this.engageRange, EnemyConfig.ai.detectionRange) * detectionRangeScale;
+        const engageRange = this.engageRange * detectionRangeScale;
+
         // 优化视线检测频率
         this.visibilityCheckTimer -= delta;
         if (this.visibilityCheckTimer <= 0) {
-             // Only run LOS checks when the player is in engage range.
-             // Outside engage range we still tick a slow timer so enemies don't all resync.
-             if (distanceToPlayer <= this.engageRange) {
-                 this.visibilityCheckTimer = this.VISIBILITY_CHECK_INTERVAL_NEAR + Math.random() * 0.1;
+             // Only run LOS checks when the player is within detection range.
+             // Outside it we still tick a slow timer so enemies don't all resync.
+             if (distanceToPlayer <= detectionRange) {
+                 this.visibilityCheckTimer = this.VISIBILITY_CHECK_INTERVAL_NEAR + this.services.random.get('enemyMotion').next() * 0.1;
                  this.isPlayerVisible = this.canSeePlayer(playerPosition);
              } else {
-                 this.visibilityCheckTimer = this.VISIBILITY_CHECK_INTERVAL_FAR + Math.random() * 0.25;
+                 this.visibilityCheckTimer = this.VISIBILITY_CHECK_INTERVAL_FAR + this.services.random.get('enemyMotion').next() * 0.25;
                  this.isPlayerVisible = false;
              }
         }
         
-        // 检查是否应该瞄准/射击
-        if (this.isPlayerVisible) {
+        // Getting shot reveals roughly where the player is.
+        if (this.pendingDamageAlert) {
+            this.pendingDamageAlert = false;
+            if (!this.isPlayerVisible) this.brain.alert(playerPosition);
+        }
+
+        // 行为决策
+        const brainInput = this.brainInput;
+        brainInput.position.copy(this.mesh.position);
+        brainInput.playerPosition.copy(playerPosition);
+        brainInput.canSeePlayer = this.isPlayerVisible;
+        brainInput.distanceToPlayer = distanceToPlayer;
+        brainInput.healthFraction = this.health / this.maxHealth;
+        brainInput.engageRange = engageRange;
+        brainInput.detectionRange = detectionRange;
+        this.brain.update(delta, brainInput);
+
+        const aiState = this.brain.getState();
+        const goal = this.brain.getGoal();
+        const moveSpeed = this.brain.isHolding() ? 0 : this.brain.getMoveSpeed(this.speed, this.config.ai.chaseSpeed);
+
+        // 检查是否应该瞄准/射击 (spotted beyond engage range: track but hold fire)
+        if (this.isPlayerVisible && distanceToPlayer <= engageRange) {
             // 计算瞄准方向
             this.targetAimDirection.subVectors(playerPosition, this.mesh.position);
             this.targetAimDirection.y = playerPosition.y + 0.8 - (this.mesh.position.y + 1.3); // 瞄准玩家躯干
@@ -383,7 +471,7 @@ export class Enemy {
         }
 
         // 行走动画
-        this.walkCycle += delta * this.speed * 2;
+        this.walkCycle += delta * moveSpeed * 2;
         this.updateWalkAnimation();
         
         // 更新路径
@@ -411,7 +499,13 @@ export class Enemy {
                 const isStuck = this.stuckTimer > 0.75;
                 const isCloseEnoughForRouting = distanceToPlayer < 80;
 
-                if (needsVerticalNav || isStuck || isCloseEnoughForRouting) {
+                if (goal) {
+                    // Behavior goal (patrol point / last known position / flank / cover / retreat).
+                    // The coarse grid path ends at the goal's cell center; finish on the exact goal.
+                    this.currentPath = pathfinding.findPath(this.mesh.position, goal);
+                    this.currentPath.push(goal.clone());
+                    this.lastGoal.copy(goal);
+                } else if (needsVerticalNav || isStuck || isCloseEnoughForRouting) {
                     const navTarget = this.getNavTargetPosition(playerPosition);
                     this.currentPath = pathfinding.findPath(this.mesh.position, navTarget);
                 }
@@ -421,7 +515,14 @@ export class Enemy {
         // Jump cooldown
         this.jumpCooldownTimer = Math.max(0, this.jumpCooldownTimer - delta);
 
-        let targetPos = playerPosition;
+        // Goal moved a lot since the last path (new state / new patrol point): don't walk the stale path.
+        if (goal && this.lastGoal.distanceToSquared(goal) > 4.0) {
+            this.currentPath.length = 0;
+            this.lastGoal.copy(goal);
+            this.pathUpdateTimer = this.pathUpdateInterval;
+        }
+
+        let targetPos = goal ?? playerPosition;
 
         // Prefer direct chasing when player is visible and roughly on the same vertical level.
         // This makes enemies feel more "player-like" (jump/step over small props) instead of always hugging A* nodes.
@@ -431,12 +532,12 @@ export class Enemy {
         const terrainY = this.onGetGroundHeight ? this.onGetGroundHeight(playerPosition.x, playerPosition.z) : 0;
         const approxPlayerNavY = Math.abs(playerFeetY - terrainY) < 1.0 ? terrainY : playerFeetY;
         const heightDelta = Math.abs(approxPlayerNavY - this.mesh.position.y);
-        const preferDirectChase = this.isPlayerVisible && heightDelta < 1.6;
+        const preferDirectChase = aiState === 'chase' && this.isPlayerVisible && heightDelta < 1.6;
 
         // Stair forcing:
         // When the player is on a stair platform (target Y close to a stair top), guide enemies to the entrance.
         // We keep a short-lived cached staircase selection to prevent oscillation and to steer into the stair front.
-        const shouldForceStairs = heightDelta > 2.0 && (this.currentPath.length === 0 || this.stuckTimer > 0.75);
+        const shouldForceStairs = aiState === 'chase' && heightDelta > 2.0 && (this.currentPath.length === 0 || this.stuckTimer > 0.75);
         if (shouldForceStairs) {
             const waypoints = pathfinding.getWaypoints();
             if (waypoints.length > 0) {
@@ -567,7 +668,7 @@ export class Enemy {
         direction.y = 0;
         direction.normalize();
 
-        const moveDistance = this.speed * delta;
+        const moveDistance = moveSpeed * delta;
 
         // X 轴移动
         const nextPosX = this.tmpNextPosX.copy(this.mesh.position);
@@ -638,7 +739,7 @@ export class Enemy {
             if (toPlayerDir.lengthSq() > 0.001) {
                 this.targetRotation = Math.atan2(toPlayerDir.x, toPlayerDir.z);
             }
-        } else if (direction.lengthSq() > 0.001) {
+        } else if (moveSpeed > 0 && direction.lengthSq() > 0.001) {
             // 非瞄准时朝向移动方向
             this.targetRotation = Math.atan2(direction.x, direction.z);
         }
@@ -667,10 +768,9 @@ export class Enemy {
         return this.renderCulled;
     }
 
-    private applyLOD(distanceToPlayer: number) {
+    private applyLOD(distanceToPlayer: number, shadowDisableDistance: number) {
         const renderCullDistance = EnemyConfig.ai.renderCullDistance;
         const limbLodDistance = EnemyConfig.ai.limbLodDistance;
-        const shadowDisableDistance = EnemyConfig.ai.shadowDisableDistance;
 
         let lod = 0;
         if (distanceToPlayer > renderCullDistance) lod = 3;
@@ -862,6 +962,43 @@ export class Enemy {
      * 检查是否能看到玩家 (视线检测)
      * 优化：使用 PhysicsSystem 网格遍历，避免检测全场景
      */
+    /**
+     * 寻找附近掩体 (isCover) 背对威胁一侧的位置
+     */
+    private findCoverPoint(from: THREE.Vector3, threat: THREE.Vector3, out: THREE.Vector3): boolean {
+        if (!this.physicsSystem) return false;
+
+        const radius = EnemyConfig.ai.coverSearchRadius;
+        const entries = this.physicsSystem.getNearbyObjectsInto(from, radius, this.coverEntries);
+        const threatDist = Math.hypot(threat.x - from.x, threat.z - from.z);
+
+        let bestDistSq = Infinity;
+        for (const entry of entries) {
+            if (!getUserData(entry.object).isCover) continue;
+
+            const center = entry.box.getCenter(this.tmpCoverCenter);
+            const dir = this.tmpCoverDir.set(center.x - threat.x, 0, center.z - threat.z);
+            const len = dir.length();
+            if (len < 0.001) continue;
+            // Don't run past the player to reach cover on their side.
+            if (len > threatDist + radius * 0.5) continue;
+            dir.multiplyScalar(1 / len);
+
+            const halfExtent = Math.max(entry.box.max.x - entry.box.min.x, entry.box.max.z - entry.box.min.z) * 0.5;
+            const px = center.x + dir.x * (halfExtent + EnemyConfig.collision.radius + 0.3);
+            const pz = center.z + dir.z * (halfExtent + EnemyConfig.collision.radius + 0.3);
+            const dx = px - from.x;
+            const dz = pz - from.z;
+            const distSq = dx * dx + dz * dz;
+            if (distSq > radius * radius || distSq >= bestDistSq) continue;
+
+            bestDistSq = distSq;
+            out.set(px, from.y, pz);
+        }
+
+        return bestDistSq < Infinity;
+    }
+
     private canSeePlayer(playerPosition: THREE.Vector3): boolean {
         this.losEye.copy(this.mesh.position);
         this.losEye.y += 1.7; // 眼睛高度
@@ -916,7 +1053,7 @@ export class Enemy {
         this.muzzleFlashTimer = this.muzzleFlashDuration;
         
         // 播放射击音效
-        this.events.emit({ type: 'sound:play', sound: 'shoot' });
+        this.events.emit({ type: 'sound:play', sound: 'shoot', position: this.mesh.position });
         
         // 计算射击方向 (带散布)
         // 优化: 不强制更新整个矩阵树，接受一帧的延迟或使用上一帧的矩阵
@@ -935,7 +1072,7 @@ export class Enemy {
         this.lastShotDirection.copy(direction);
         
         // 命中判定 (基于准确度)
-        const hitRoll = Math.random();
+        const hitRoll = this.services.random.get('enemyCombat').next();
         const distanceToPlayer = this.mesh.position.distanceTo(playerPosition);
         
         // 距离影响命中率
@@ -1159,15 +1296,18 @@ export class Enemy {
         if (this.isDead) return;
 
         this.health -= amount;
+        this.brain.notifyDamaged();
+        this.pendingDamageAlert = true;
         
         // 受击闪烁 - 使用 TSL uniform
         this.hitStrength.value = 1;
         
         // 击退效果
+        const combatRandom = this.services.random.get('enemyCombat');
         const knockback = new THREE.Vector3(
-            (Math.random() - 0.5) * 0.3,
+            (combatRandom.next() - 0.5) * 0.3,
             0.1,
-            (Math.random() - 0.5) * 0.3
+            (combatRandom.next() - 0.5) * 0.3
         );
         this.mesh.position.add(knockback);
 
@@ -1197,8 +1337,9 @@ export class Enemy {
         this.isDead = true;
         this.isActive = false;
         this.hitStrength.value = 0.5; // 死亡时保持一定亮度
-        this.events.emit({ type: 'sound:play', sound: 'enemyDeath' });
+        this.events.emit({ type: 'sound:play', sound: 'enemyDeath', position: this.mesh.position });
         this.events.emit({ type: 'state:updateScore', delta: EnemyConfig.rewards.score });
+        this.events.emit({ type: 'world:enemyKilled', enemyType: this.type });
 
         // NOTE:
         // Do NOT run requestAnimationFrame loops here.
@@ -1215,13 +1356,15 @@ export class Enemy {
         this.isDead = false;
         this.isActive = true;
 
-        this.health = this.config.health;
+        this.health = this.maxHealth;
 
         // reset uniforms
         this.hitStrength.value = 0;
         this.dissolveAmount.value = 0;
 
         // reset movement/ai
+        this.brain.reset(position);
+        this.pendingDamageAlert = false;
         this.currentPath.length = 0;
         this.pathUpdateTimer = 0;
         this.stuckTimer = 0;
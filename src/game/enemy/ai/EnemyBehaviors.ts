@@ -0,0 +1,89 @@
+/**
+ * EnemyBehaviors - 敌人效用 AI 的行为定义
+ * 每个行为对当前感知打分 (0..1)，EnemyBrain 选择得分最高的状态。
+ * 行为列表与每种 EnemyType 的权重 (EnemyTypesConfig[type].ai.behavior) 可单独替换。
+ */
+import { EnemyConfig, EnemyTypesConfig, type EnemyType } from '../../core/GameConfig';
+
+export type EnemyAIState = 'patrol' | 'investigate' | 'chase' | 'flank' | 'cover' | 'retreat';
+
+export const ENEMY_AI_STATES: readonly EnemyAIState[] = ['patrol', 'investigate', 'chase', 'flank', 'cover', 'retreat'];
+
+/** Per-type weights; see EnemyTypesConfig[type].ai.behavior. */
+export interface EnemyBehaviorProfile {
+    aggression: number;
+    flank: number;
+    cover: number;
+    /** Health fraction below which the enemy retreats (0 = never). */
+    retreatHealth: number;
+}
+
+/** Perception snapshot the brain scores against (rebuilt every decision tick). */
+export interface EnemyBrainContext {
+    canSeePlayer: boolean;
+    distanceToPlayer: number;
+    timeSinceSeen: number;
+    timeSinceDamaged: number;
+    hasLastKnownPosition: boolean;
+    healthFraction: number;
+    engageRange: number;
+    detectionRange: number;
+    hasCover: boolean;
+}
+
+export interface UtilityBehavior {
+    readonly state: EnemyAIState;
+    score(ctx: EnemyBrainContext, profile: EnemyBehaviorProfile): number;
+}
+
+const RECENT_DAMAGE_TIME = 3.0;
+// Maneuvers keep going through brief line-of-sight breaks (the player ducking behind a prop).
+const MANEUVER_MEMORY_TIME = 1.5;
+
+export const DEFAULT_ENEMY_BEHAVIORS: readonly UtilityBehavior[] = [
+    {
+        // Fallback when the player is unknown.
+        state: 'patrol',
+        score: () => 0.1,
+    },
+    {
+        state: 'investigate',
+        score: (ctx) => {
+            if (ctx.canSeePlayer || !ctx.hasLastKnownPosition) return 0;
+            return ctx.timeSinceSeen < EnemyConfig.ai.loseTargetTime + EnemyConfig.ai.searchTime ? 0.5 : 0;
+        },
+    },
+    {
+        state: 'chase',
+        score: (ctx, profile) => (ctx.canSeePlayer ? 0.3 + 0.4 * profile.aggression : 0),
+    },
+    {
+        // Swing wide around the player when there is room to do so.
+        state: 'flank',
+        score: (ctx, profile) => {
+            if (ctx.timeSinceSeen > MANEUVER_MEMORY_TIME) return 0;
+            if (ctx.distanceToPlayer < ctx.engageRange * 0.5 || ctx.distanceToPlayer > ctx.detectionRange) return 0;
+            return 0.9 * profile.flank;
+        },
+    },
+    {
+        state: 'cover',
+        score: (ctx, profile) => {
+            // Staying hidden is the point: cover holds while the player is remembered, not only while visible.
+            if (!ctx.hasCover || ctx.timeSinceSeen > EnemyConfig.ai.loseTargetTime) return 0;
+            const underFire = ctx.timeSinceDamaged < RECENT_DAMAGE_TIME;
+            return profile.cover * (underFire ? 0.9 : 0.45);
+        },
+    },
+    {
+        state: 'retreat',
+        score: (ctx, profile) => {
+            if (ctx.timeSinceSeen > EnemyConfig.ai.loseTargetTime) return 0;
+            return ctx.healthFraction < profile.retreatHealth ? 0.95 : 0;
+        },
+    },
+];
+
+export function getEnemyBehaviorProfile(type: EnemyType): EnemyBehaviorProfile {
+    return EnemyTypesConfig[type].ai.behavior;
+}
@@ -0,0 +1,395 @@
+/**
+ * EnemyBrain - 单个敌人的效用 AI
+ * 维护感知记忆 (最后已知位置 / 受击时间)，按 decisionInterval 对行为打分切换状态，
+ * 并为当前状态给出移动目标点。追击 (chase) 不给目标点，由 Enemy 的原有追击/楼梯逻辑处理。
+ */
+import * as THREE from 'three';
+import { EnemyConfig, type EnemyType } from '../../core/GameConfig';
+import { RandomStream } from '../../core/util/RandomStreams';
+import {
+    DEFAULT_ENEMY_BEHAVIORS,
+    ENEMY_AI_STATES,
+    getEnemyBehaviorProfile,
+    type EnemyAIState,
+    type EnemyBehaviorProfile,
+    type EnemyBrainContext,
+    type UtilityBehavior,
+} from './EnemyBehaviors';
+
+/** Per-frame inputs provided by Enemy.update(). */
+export interface EnemyBrainInput {
+    position: THREE.Vector3;
+    playerPosition: THREE.Vector3;
+    canSeePlayer: boolean;
+    distanceToPlayer: number;
+    healthFraction: number;
+    engageRange: number;
+    detectionRange: number;
+    /** Writes a spot behind a nearby `isCover` object (relative to the threat) into `out`. */
+    findCover: (from: THREE.Vector3, threat: THREE.Vector3, out: THREE.Vector3) => boolean;
+}
+
+// Current state gets a small bonus so near-equal scores don't flip every tick.
+const STATE_HYSTERESIS = 0.1;
+// Per-enemy random bias so a squad of the same type doesn't act in lockstep.
+const PERSONALITY_JITTER = 0.1;
+
+export class EnemyBrain {
+    private readonly behaviors: readonly UtilityBehavior[];
+    private readonly profile: EnemyBehaviorProfile;
+    private readonly bias = {} as Record<EnemyAIState, number>;
+    private readonly cooldowns = {} as Record<EnemyAIState, number>;
+    private readonly random: RandomStream;
+
+    private state: EnemyAIState = 'patrol';
+    private stateTime = 0;
+    private decisionTimer = 0;
+
+    // Memory
+    private readonly lastKnownPosition = new THREE.Vector3();
+    private hasLastKnownPosition = false;
+    private timeSinceSeen = Infinity;
+    private timeSinceDamaged = Infinity;
+
+    // Patrol
+    private readonly home = new THREE.Vector3();
+    private readonly patrolPoints: THREE.Vector3[] = [];
+    private patrolIndex = 0;
+    private patrolPauseTimer = 0;
+
+    // Investigate
+    private arrivedAtLastKnown = false;
+    private searchTimer = 0;
+
+    // Flank / cover
+    private flankSide = 1;
+    private readonly coverPoint = new THREE.Vector3();
+    private hasCover = false;
+    private coverTimer = 0;
+
+    // Output
+    private readonly goal = new THREE.Vector3();
+    private hasGoal = false;
+    private holding = false;
+
+    private readonly ctx: EnemyBrainContext = {
+        canSeePlayer: false,
+        distanceToPlayer: Infinity,
+        timeSinceSeen: Infinity,
+        timeSinceDamaged: Infinity,
+        hasLastKnownPosition: false,
+        healthFraction: 1,
+        engageRange: 0,
+        detectionRange: 0,
+        hasCover: false,
+    };
+
+    private readonly tmpDir = new THREE.Vector3();
+
+    constructor(
+        type: EnemyType,
+        opts?: { behaviors?: readonly UtilityBehavior[]; profile?: EnemyBehaviorProfile; random?: RandomStream }
+    ) {
+        this.behaviors = opts?.behaviors ?? DEFAULT_ENEMY_BEHAVIORS;
+        this.profile = opts?.profile ?? getEnemyBehaviorProfile(type);
+        // Standalone brains (tests / tools) get their own fixed-seed stream.
+        this.random = opts?.random ?? new RandomStream(0);
+        for (const s of ENEMY_AI_STATES) this.cooldowns[s] = 0;
+    }
+
+    /**
+     * Forget everything and start patrolling around `home` (spawn / pool reuse).
+     */
+    public reset(home: THREE.Vector3): void {
+        this.home.copy(home);
+        this.patrolPoints.length = 0;
+        this.patrolIndex = 0;
+        this.patrolPauseTimer = 0;
+
+        this.hasLastKnownPosition = false;
+        this.timeSinceSeen = Infinity;
+        this.timeSinceDamaged = Infinity;
+        this.hasCover = false;
+        this.hasGoal = false;
+        this.holding = false;
+
+        for (const s of ENEMY_AI_STATES) {
+            this.cooldowns[s] = 0;
+            this.bias[s] = this.random.signed() * PERSONALITY_JITTER;
+        }
+
+        this.enterState('patrol');
+        // De-phase decisions across enemies spawned on the same frame.
+        this.decisionTimer = this.random.next() * EnemyConfig.ai.decisionInterval;
+    }
+
+    /**
+     * 听到/察觉到某个位置 (不需要视线)，前去调查
+     */
+    public alert(position: THREE.Vector3): void {
+        this.lastKnownPosition.copy(position);
+        this.hasLastKnownPosition = true;
+        // Treat as "just lost sight" so investigate wins over patrol.
+        this.timeSinceSeen = Math.min(this.timeSinceSeen, EnemyConfig.ai.decisionInterval);
+        if (this.state === 'investigate') this.arrivedAtLastKnown = false;
+        this.decisionTimer = 0;
+    }
+
+    public notifyDamaged(): void {
+        this.timeSinceDamaged = 0;
+        this.decisionTimer = 0;
+    }
+
+    public getState(): EnemyAIState {
+        return this.state;
+    }
+
+    /** Movement goal for non-chase states (null = chase the player directly). */
+    public getGoal(): THREE.Vector3 | null {
+        return this.hasGoal ? this.goal : null;
+    }
+
+    /** True while the enemy should stand still (waiting at a patrol point / in cover). */
+    public isHolding(): boolean {
+        return this.holding;
+    }
+
+    public getMoveSpeed(baseSpeed: number, chaseSpeed: number): number {
+        switch (this.state) {
+            case 'patrol':
+                return EnemyConfig.ai.patrolSpeed;
+            case 'investigate':
+                return baseSpeed;
+            default:
+                return chaseSpeed;
+        }
+    }
+
+    public update(delta: number, input: EnemyBrainInput): void {
+        this.stateTime += delta;
+        this.timeSinceSeen += delta;
+        this.timeSinceDamaged += delta;
+        for (const s of ENEMY_AI_STATES) {
+            if (this.cooldowns[s] > 0) this.cooldowns[s] = Math.max(0, this.cooldowns[s] - delta);
+        }
+
+        if (input.canSeePlayer) {
+            this.lastKnownPosition.copy(input.playerPosition);
+            this.hasLastKnownPosition = true;
+            this.timeSinceSeen = 0;
+        }
+
+        this.decisionTimer -= delta;
+        if (this.decisionTimer <= 0) {
+            this.decisionTimer = EnemyConfig.ai.decisionInterval;
+            this.decide(input);
+        }
+
+        this.updateGoal(delta, input);
+    }
+
+    private decide(input: EnemyBrainInput): void {
+        // Cover lookup is a physics query: only when it could matter.
+        if (input.canSeePlayer && this.state !== 'cover' && this.profile.cover > 0 && this.cooldowns.cover <= 0) {
+            this.hasCover = input.findCover(input.position, input.playerPosition, this.coverPoint);
+        } else if (!input.canSeePlayer && this.state !== 'cover') {
+            this.hasCover = false;
+        }
+
+        const ctx = this.ctx;
+        ctx.canSeePlayer = input.canSeePlayer;
+        ctx.distanceToPlayer = input.distanceToPlayer;
+        ctx.timeSinceSeen = this.timeSinceSeen;
+        ctx.timeSinceDamaged = this.timeSinceDamaged;
+        ctx.hasLastKnownPosition = this.hasLastKnownPosition;
+        ctx.healthFraction = input.healthFraction;
+        ctx.engageRange = input.engageRange;
+        ctx.detectionRange = input.detectionRange;
+        ctx.hasCover = this.hasCover;
+
+        let best: EnemyAIState = this.state;
+        let bestScore = -Infinity;
+        for (const behavior of this.behaviors) {
+            if (this.cooldowns[behavior.state] > 0) continue;
+            const raw = behavior.score(ctx, this.profile);
+            if (raw <= 0) continue;
+            let score = raw + this.bias[behavior.state];
+            if (behavior.state === this.state) score += STATE_HYSTERESIS;
+            if (score > bestScore) {
+                bestScore = score;
+                best = behavior.state;
+            }
+        }
+
+        if (best === this.state) return;
+        // Retreat overrides the minimum state time (it's a survival reaction).
+        if (this.stateTime < EnemyConfig.ai.minStateTime && best !== 'retreat' && this.cooldowns[this.state] <= 0) return;
+
+        this.enterState(best, input);
+    }
+
+    private enterState(state: EnemyAIState, input?: EnemyBrainInput): void {
+        // Flank/cover are one-shot maneuvers: cool them down once left.
+        if ((this.state === 'flank' || this.state === 'cover') && state !== this.state) {
+            this.cooldowns[this.state] = Math.max(this.cooldowns[this.state], EnemyConfig.ai.stateCooldown);
+        }
+
+        this.state = state;
+        this.stateTime = 0;
+        this.holding = false;
+
+        switch (state) {
+            case 'patrol':
+                this.patrolPauseTimer = 0;
+                break;
+            case 'investigate':
+                this.arrivedAtLastKnown = false;
+                this.searchTimer = EnemyConfig.ai.searchTime;
+                break;
+            case 'flank':
+                this.flankSide = this.random.chance(0.5) ? -1 : 1;
+                break;
+            case 'cover':
+                this.coverTimer = EnemyConfig.ai.coverHoldTime;
+                break;
+            case 'retreat':
+                if (input) this.pickRetreatGoal(input);
+                break;
+            case 'chase':
+                break;
+        }
+    }
+
+    /** End the current maneuver and let the next decision tick pick something else. */
+    private completeState(): void {
+        this.cooldowns[this.state] = Math.max(this.cooldowns[this.state], EnemyConfig.ai.stateCooldown);
+        this.decisionTimer = 0;
+    }
+
+    private updateGoal(delta: number, input: EnemyBrainInput): void {
+        const arrive = EnemyConfig.ai.arriveDistance;
+
+        switch (this.state) {
+            case 'chase':
+                this.hasGoal = false;
+                this.holding = false;
+                return;
+
+            case 'patrol': {
+                if (this.patrolPoints.length === 0) this.buildPatrolRoute();
+                this.setGoal(this.patrolPoints[this.patrolIndex], input);
+                if (this.distanceXZ(input.position, this.goal) < arrive) {
+                    this.holding = true;
+                    this.patrolPauseTimer += delta;
+                    if (this.patrolPauseTimer >= EnemyConfig.ai.patrolPause) {
+                        this.patrolPauseTimer = 0;
+                        this.patrolIndex = (this.patrolIndex + 1) % this.patrolPoints.length;
+                        this.holding = false;
+                    }
+                }
+                return;
+            }
+
+            case 'investigate': {
+                if (!this.arrivedAtLastKnown) {
+                    this.setGoal(this.lastKnownPosition, input);
+                    if (this.distanceXZ(input.position, this.goal) < arrive * 2) {
+                        this.arrivedAtLastKnown = true;
+                        this.pickSearchPoint(input);
+                    }
+                    return;
+                }
+
+                // Sweep random points around the last known position until the search times out.
+                this.searchTimer -= delta;
+                if (this.searchTimer <= 0) {
+                    this.hasLastKnownPosition = false;
+                    this.decisionTimer = 0;
+                    return;
+                }
+                if (this.distanceXZ(input.position, this.goal) < arrive) this.pickSearchPoint(input);
+                return;
+            }
+
+            case 'flank': {
+                // Point beside the player, perpendicular to the enemy -> player line.
+                const dir = this.tmpDir.subVectors(input.playerPosition, input.position);
+                dir.y = 0;
+                if (dir.lengthSq() < 1e-6) dir.set(0, 0, 1);
+                dir.normalize();
+                const offset = EnemyConfig.ai.flankOffset * this.flankSide;
+                this.goal.set(
+                    input.playerPosition.x - dir.z * offset,
+                    input.position.y,
+                    input.playerPosition.z + dir.x * offset
+                );
+                this.hasGoal = true;
+                if (this.distanceXZ(input.position, this.goal) < arrive * 2) this.completeState();
+                return;
+            }
+
+            case 'cover': {
+                this.setGoal(this.coverPoint, input);
+                if (this.distanceXZ(input.position, this.goal) < arrive) {
+                    this.holding = true;
+                    this.coverTimer -= delta;
+                    if (this.coverTimer <= 0) this.completeState();
+                }
+                return;
+            }
+
+            case 'retreat': {
+                this.hasGoal = true;
+                if (this.distanceXZ(input.position, this.goal) < arrive) this.pickRetreatGoal(input);
+                return;
+            }
+        }
+    }
+
+    private setGoal(target: THREE.Vector3, input: EnemyBrainInput): void {
+        // Keep the enemy's own Y so Pathfinding's stair heuristic doesn't kick in for flat goals.
+        this.goal.set(target.x, input.position.y, target.z);
+        this.hasGoal = true;
+    }
+
+    private pickSearchPoint(input: EnemyBrainInput): void {
+        const angle = this.random.next() * Math.PI * 2;
+        const radius = EnemyConfig.ai.investigateRadius * this.random.range(0.3, 1);
+        this.goal.set(
+            this.lastKnownPosition.x + Math.cos(angle) * radius,
+            input.position.y,
+            this.lastKnownPosition.z + Math.sin(angle) * radius
+        );
+        this.hasGoal = true;
+    }
+
+    private pickRetreatGoal(input: EnemyBrainInput): void {
+        const away = this.tmpDir.subVectors(input.position, input.playerPosition);
+        away.y = 0;
+        if (away.lengthSq() < 1e-6) away.set(this.random.next() - 0.5, 0, this.random.next() - 0.5);
+        away.normalize();
+        this.goal.copy(input.position).addScaledVector(away, EnemyConfig.ai.retreatDistance);
+        this.goal.y = input.position.y;
+        this.hasGoal = true;
+    }
+
+    private buildPatrolRoute(): void {
+        const count = EnemyConfig.ai.patrolPointCount;
+        const radius = EnemyConfig.ai.patrolRadius;
+        const start = this.random.next() * Math.PI * 2;
+        for (let i = 0; i < count; i++) {
+            const angle = start + (i / count) * Math.PI * 2;
+            const r = radius * this.random.range(0.5, 1);
+            this.patrolPoints.push(
+                new THREE.Vector3(this.home.x + Math.cos(angle) * r, this.home.y, this.home.z + Math.sin(angle) * r)
+            );
+        }
+        this.patrolIndex = 0;
+    }
+
+    private distanceXZ(a: THREE.Vector3, b: THREE.Vector3): number {
+        const dx = a.x - b.x;
+        const dz = a.z - b.z;
+        return Math.sqrt(dx * dx + dz * dz);
+    }
+}
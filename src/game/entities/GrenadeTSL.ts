@@ -11,7 +11,7 @@ import {
 import type { ParticleSimulation } from '../core/gpu/GpuSimulationFacade';
 import { ExplosionManager } from './ExplosionEffect';
 import { GameEventBus } from '../core/events/GameEventBus';
-import { WeaponConfig } from '../core/GameConfig';
+import { EnemyConfig, WeaponConfig } from '../core/GameConfig';
 import { getUserData } from '../types/GameUserData';
 import { PhysicsSystem } from '../core/PhysicsSystem';
 import type { Enemy } from '../enemy/Enemy';
@@ -317,7 +317,7 @@ export class Grenade {
             
             // 播放弹跳音效
             if (Math.abs(this.velocity.y) > 1) {
-                this.events.emit({ type: 'sound:play', sound: 'hitImpact' });
+                this.events.emit({ type: 'sound:play', sound: 'hitImpact', position: this.mesh.position, velocity: this.velocity });
             }
         }
         
@@ -374,7 +374,7 @@ export class Grenade {
 
             // 播放碰撞音效
             if (speed > 2) {
-                this.events.emit({ type: 'sound:play', sound: 'hitImpact' });
+                this.events.emit({ type: 'sound:play', sound: 'hitImpact', position: this.mesh.position, velocity: this.velocity });
             }
             break;
         }
@@ -392,7 +392,21 @@ export class Grenade {
         const explosionPosition = this.tmpExplosionPosition;
         
         // 播放爆炸音效
-        this.events.emit({ type: 'sound:play', sound: 'explosion' });
+        this.events.emit({ type: 'sound:play', sound: 'explosion', position: explosionPosition });
+
+        // 通知世界 (可破坏的建造构件等)
+        this.events.emit({
+            type: 'world:explosion',
+            position: { x: explosionPosition.x, y: explosionPosition.y, z: explosionPosition.z },
+            radius: this.explosionRadius,
+            damage: this.explosionDamage,
+        });
+        this.events.emit({
+            type: 'world:noise',
+            source: 'explosion',
+            position: { x: explosionPosition.x, y: explosionPosition.y, z: explosionPosition.z },
+            radius: EnemyConfig.ai.hearing.explosionRadius,
+        });
         
         // 使用高效的爆炸特效管理器
         if (this.explosionManager) {
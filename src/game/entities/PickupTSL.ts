@@ -12,12 +12,14 @@ import {
 import { GameEventBus } from '../core/events/GameEventBus';
 import { PickupConfig } from '../core/GameConfig';
 import { getUserData } from '../types/GameUserData';
+import type { AmmoCaliber } from '../weapon/WeaponTypes';
 
 export type PickupType = 'health' | 'ammo';
 
 export class Pickup {
     public mesh: THREE.Group;
     public type: PickupType;
+    public caliber: AmmoCaliber;        // 弹药箱口径 (仅 ammo 有意义)
     public isCollected: boolean = false;
     public isInRange: boolean = false;  // 玩家是否在拾取范围内
     
@@ -38,8 +40,14 @@ export class Pickup {
     private static healthPrototype: THREE.Group | null = null;
     private static ammoPrototype: THREE.Group | null = null;
 
-    constructor(type: PickupType, position: THREE.Vector3, events: GameEventBus = new GameEventBus()) {
+    constructor(
+        type: PickupType,
+        position: THREE.Vector3,
+        events: GameEventBus = new GameEventBus(),
+        caliber: AmmoCaliber = '556',
+    ) {
         this.type = type;
+        this.caliber = caliber;
         this.events = events;
         this.baseHeight = position.y;
         this.floatOffset = Math.random() * 100;
@@ -418,7 +426,7 @@ export class Pickup {
             if (!this.isInRange) {
                 this.isInRange = true;
                 // 显示拾取提示
-                const hintText = this.type === 'health' ? '拾取医疗包' : '拾取弹药';
+                const hintText = this.type === 'health' ? '拾取医疗包' : `拾取弹药 (${this.caliber})`;
                 this.events.emit({ type: 'state:setPickupHint', hint: hintText });
             }
         } else {
@@ -456,7 +464,11 @@ export class Pickup {
         if (this.type === 'health') {
             this.events.emit({ type: 'state:updateHealth', delta: PickupConfig.health.amount });
         } else {
-            this.events.emit({ type: 'state:updateAmmo', delta: PickupConfig.ammo.amount });
+            this.events.emit({
+                type: 'state:updateReserveAmmo',
+                caliber: this.caliber,
+                delta: PickupConfig.ammo.amountByCaliber[this.caliber],
+            });
         }
 
         // 收集动画
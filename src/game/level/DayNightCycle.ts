@@ -0,0 +1,150 @@
+/**
+ * DayNightCycle - 世界时钟 / 昼夜循环
+ * 推进游戏内时间，计算太阳方向与昼夜色调 (作为天气目标值的乘数)，并同步到 TSL uniforms。
+ */
+import * as THREE from 'three';
+import { DayNightConfig } from '../core/GameConfig';
+import type { FrameContext, System } from '../core/engine/System';
+import { DayNightUniforms } from '../shaders/DayNightUniforms';
+
+/** Per-frame lighting modifiers consumed by WeatherSceneApplier. */
+export interface DayNightSample {
+    lightColor: THREE.Color;
+    lightScale: number;
+    ambientScale: number;
+    skyTint: THREE.Color;
+    fogTint: THREE.Color;
+    fogFarScale: number;
+}
+
+/** Serializable clock state (save/load). */
+export interface DayNightSnapshot {
+    timeOfDay: number;
+}
+
+type Keyframe = (typeof DayNightConfig.keyframes)[number];
+
+export class DayNightCycle implements System {
+    public readonly name = 'dayNight';
+
+    private hour: number = DayNightConfig.startHour;
+    private daylight = 1.0;
+
+    private readonly sample: DayNightSample = {
+        lightColor: new THREE.Color(),
+        lightScale: 1,
+        ambientScale: 1,
+        skyTint: new THREE.Color(),
+        fogTint: new THREE.Color(),
+        fogFarScale: 1,
+    };
+
+    private readonly sunDirection = new THREE.Vector3();
+    private readonly tmpColorA = new THREE.Color();
+    private readonly tmpColorB = new THREE.Color();
+
+    constructor() {
+        this.refresh();
+    }
+
+    public update(frame: FrameContext): void {
+        if (!DayNightConfig.enabled) return;
+        this.hour = wrapHour(this.hour + (frame.delta * 24) / DayNightConfig.dayLengthSeconds);
+        this.refresh();
+    }
+
+    /**
+     * 当前游戏内时间 (小时, 0..24)
+     */
+    public getTimeOfDay(): number {
+        return this.hour;
+    }
+
+    public setTimeOfDay(hour: number): void {
+        this.hour = wrapHour(hour);
+        this.refresh();
+    }
+
+    public isNight(): boolean {
+        const h = this.hour;
+        return h >= DayNightConfig.nightStartHour || h < DayNightConfig.nightEndHour;
+    }
+
+    /**
+     * 夜晚程度 (0 = 白天, 1 = 深夜)，平滑过渡，适合做玩法插值
+     */
+    public getNightFactor(): number {
+        return 1 - this.daylight;
+    }
+
+    /**
+     * 光源方向 (指向太阳/月亮)
+     */
+    public getSunDirection(): THREE.Vector3 {
+        return this.sunDirection;
+    }
+
+    public getSample(): Readonly<DayNightSample> {
+        return this.sample;
+    }
+
+    public getSnapshot(): DayNightSnapshot {
+        return { timeOfDay: this.hour };
+    }
+
+    public restoreSnapshot(snapshot: DayNightSnapshot): void {
+        this.setTimeOfDay(snapshot.timeOfDay);
+    }
+
+    private refresh(): void {
+        // Sun orbit: rises at 6h, peaks at 12h, sets at 18h.
+        const angle = ((this.hour - 6) / 24) * Math.PI * 2;
+        const sunX = Math.cos(angle);
+        const sunY = Math.sin(angle);
+        this.daylight = THREE.MathUtils.smoothstep(sunY, -0.1, 0.25);
+
+        // Below the horizon the moon (opposite side) becomes the light source.
+        const dir = this.sunDirection;
+        if (sunY >= 0) {
+            dir.set(sunX, sunY, DayNightConfig.sunTilt);
+        } else {
+            dir.set(-sunX, -sunY, -DayNightConfig.sunTilt);
+        }
+        dir.y = Math.max(dir.y, DayNightConfig.minLightElevation);
+        dir.normalize();
+
+        this.sampleKeyframes();
+
+        DayNightUniforms.sunDirection.value.copy(dir);
+        DayNightUniforms.daylight.value = this.daylight;
+    }
+
+    private sampleKeyframes(): void {
+        const frames = DayNightConfig.keyframes;
+        let a: Keyframe = frames[0];
+        let b: Keyframe = frames[frames.length - 1];
+        for (let i = 0; i < frames.length - 1; i++) {
+            if (this.hour >= frames[i].hour && this.hour <= frames[i + 1].hour) {
+                a = frames[i];
+                b = frames[i + 1];
+                break;
+            }
+        }
+
+        const span = b.hour - a.hour;
+        const t = span > 0 ? (this.hour - a.hour) / span : 0;
+        const s = this.sample;
+
+        s.lightColor.copy(this.tmpColorA.set(a.lightColor)).lerp(this.tmpColorB.set(b.lightColor), t);
+        s.skyTint.copy(this.tmpColorA.set(a.skyTint)).lerp(this.tmpColorB.set(b.skyTint), t);
+        s.fogTint.copy(this.tmpColorA.set(a.fogTint)).lerp(this.tmpColorB.set(b.fogTint), t);
+        s.lightScale = THREE.MathUtils.lerp(a.lightScale, b.lightScale, t);
+        s.ambientScale = THREE.MathUtils.lerp(a.ambientScale, b.ambientScale, t);
+        s.fogFarScale = THREE.MathUtils.lerp(a.fogFarScale, b.fogFarScale, t);
+    }
+}
+
+function wrapHour(hour: number): number {
+    const h = hour % 24;
+    return h < 0 ? h + 24 : h;
+}
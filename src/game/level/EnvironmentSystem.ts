@@ -2,10 +2,12 @@ import * as THREE from 'three';
 import { PointsNodeMaterial } from 'three/webgpu';
 import { float, uniform } from 'three/tsl';
 import { MeshBasicNodeMaterial } from 'three/webgpu';
-import { MapConfig, EnvironmentConfig, LevelConfig } from '../core/GameConfig';
+import { MapConfig, EnvironmentConfig, LevelConfig, CraftingConfig } from '../core/GameConfig';
 import { LevelMaterials } from './LevelMaterials';
+import { harvestSourceSeed } from './WorldDeltaStore';
 import { getUserData } from '../types/GameUserData';
 import { PhysicsSystem } from '../core/PhysicsSystem';
+import type { ResourceType } from '../crafting/CraftingTypes';
 
 export class EnvironmentSystem {
     private scene: THREE.Scene;
@@ -279,6 +281,7 @@ export class EnvironmentSystem {
                 mesh.castShadow = true;
                 mesh.receiveShadow = true;
                 getUserData(mesh).isRock = true;
+                getUserData(mesh).harvestSeed = harvestSourceSeed(x, z);
                 
                 this.scene.add(mesh);
                 this.objects.push(mesh);
@@ -286,6 +289,25 @@ export class EnvironmentSystem {
         });
     }
     
+    /**
+     * 近战命中静态环境物体时的资源掉落 (岩石 -> 石头, 废墟 -> 废料)
+     * 命中的可能是子网格，因此沿父级向上查找标记。`seed` / `maxYield` 用于 WorldDeltaStore 的采空判定。
+     */
+    public static getHarvestDrop(
+        obj: THREE.Object3D | null
+    ): { resource: ResourceType; amount: number; seed: number; maxYield: number } | null {
+        let cur: THREE.Object3D | null = obj;
+        while (cur) {
+            const ud = getUserData(cur);
+            if (ud.harvestSeed != null) {
+                if (ud.isRock) return { ...CraftingConfig.harvest.rock, seed: ud.harvestSeed, maxYield: CraftingConfig.sourceYield.rock };
+                if (ud.isRuin) return { ...CraftingConfig.harvest.ruin, seed: ud.harvestSeed, maxYield: CraftingConfig.sourceYield.ruin };
+            }
+            cur = cur.parent;
+        }
+        return null;
+    }
+
     /**
      * 创建废墟断墙
      */
@@ -318,6 +340,7 @@ export class EnvironmentSystem {
             wallMesh.castShadow = true;
             wallMesh.receiveShadow = true;
             getUserData(wallMesh).isRuin = true;
+            getUserData(wallMesh).harvestSeed = harvestSourceSeed(ruin.x, ruin.z);
             
             this.scene.add(wallMesh);
             this.objects.push(wallMesh);
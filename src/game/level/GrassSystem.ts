@@ -4,6 +4,8 @@ import { EnvironmentConfig, MapConfig } from '../core/GameConfig';
 import { getUserData } from '../types/GameUserData';
 import { hash2iToU32, mulberry32, packChunkKey, type RandomFn } from '../core/util/SeededRandom';
 import { loadGrassModelGeometry } from '../core/assets/ModelGeometryCache';
+import { vegetationInstanceSeed, type WorldDeltaStore } from './WorldDeltaStore';
+import { biomeWeightsCpu, blendBiomeValue, createBiomeWeights } from '../shaders/BiomeMap';
 
 type WorkerGrassChunkResult = {
     id: 'tall' | 'shrub' | 'dry';
@@ -29,6 +31,8 @@ type WorkerGrassChunkResponse = {
  */
 export class GrassSystem {
     private scene: THREE.Scene;
+    // Player edits (cut grass) that must survive chunk pruning/regeneration.
+    private readonly worldDeltas: WorldDeltaStore | null;
     // Streaming chunks keyed by packed chunk coords.
     private chunksByKey: Map<number, THREE.InstancedMesh[]> = new Map();
     // Chunk generation can be expensive; amortize work across frames.
@@ -128,7 +132,7 @@ export class GrassSystem {
     
     // 草的类型定义 (几何体、材质、配置)
     private grassTypes: Array<{
-        id: string;
+        id: WorkerGrassChunkResult['id'];
         geometryNear: THREE.BufferGeometry;
         geometryFar: THREE.BufferGeometry;
         material: THREE.Material;
@@ -143,8 +147,12 @@ export class GrassSystem {
     // Convert legacy "total count" tuning into a stable per-area density.
     private readonly grassDensityByType = new Map<string, number>();
 
-    constructor(scene: THREE.Scene) {
+    // Global density scale (graphics quality); applies to chunks generated after it changes.
+    private densityScale = Math.max(0, MapConfig.grassDensityScale ?? 1.0);
+
+    constructor(scene: THREE.Scene, worldDeltas: WorldDeltaStore | null = null) {
         this.scene = scene;
+        this.worldDeltas = worldDeltas;
         this.initGrassTypes();
         this.initDensities();
 
@@ -152,6 +160,10 @@ export class GrassSystem {
         this.modelsReadyPromise = this.initModelGeometries();
     }
 
+    public setDensityScale(scale: number): void {
+        this.densityScale = Math.max(0, scale);
+    }
+
     public async ensureModelsReady(): Promise<void> {
         await this.modelsReadyPromise;
     }
@@ -277,7 +289,7 @@ export class GrassSystem {
             const seedU32 = hash2iToU32(ix, iz, MapConfig.worldSeed ^ 0x5a0f1a2b);
             const rng = mulberry32(seedU32);
 
-            const meshes = this.generateChunkStreamed(item.cx, item.cz, chunkSize, item.getHeightAt, item.excludeAreas, rng, item.viewerX, item.viewerZ);
+            const meshes = this.generateChunkStreamed(item.key, item.cx, item.cz, chunkSize, item.getHeightAt, item.excludeAreas, rng, item.viewerX, item.viewerZ);
             if (meshes.length > 0) {
                 this.chunksByKey.set(item.key, meshes);
             }
@@ -362,7 +374,8 @@ export class GrassSystem {
                 viewerX: item.viewerX,
                 viewerZ: item.viewerZ,
                 excludeAreas: item.excludeAreas,
-                grassDensityScale: Math.max(0, MapConfig.grassDensityScale ?? 1.0),
+                removedSeeds: this.worldDeltas?.getRemoved('grass', item.key) ?? [],
+                grassDensityScale: this.densityScale,
                 grassFarDensityMultiplier: Math.min(1, Math.max(0, MapConfig.grassFarDensityMultiplier ?? 0.35)),
                 grassDetailRadiusChunks: Math.max(0, MapConfig.grassDetailRadiusChunks ?? 1),
                 // When near LOD uses model geometry, keep instance counts low.
@@ -429,6 +442,9 @@ export class GrassSystem {
         const capFar = Math.max(0, MapConfig.grassMaxInstancesPerTypeFar ?? 1000);
         const receiveShadows = (MapConfig.grassReceiveShadows ?? false) && isNear;
 
+        // The worker already skips cut grass; re-check here for edits made while the request was in flight.
+        const checkDeltas = this.worldDeltas?.hasRemovals('grass', res.key) ?? false;
+
         for (const r of res.results) {
             const type = this.grassTypes.find((t) => t.id === r.id);
             if (!type) continue;
@@ -451,6 +467,7 @@ export class GrassSystem {
             ud.chunkCenterX = res.cx;
             ud.chunkCenterZ = res.cz;
             ud.grassPositionsXZ = r.positionsXZ;
+            ud.vegetationChunkKey = res.key;
             // Used for pooling.
             (mesh.userData as any).grassTypeId = type.id;
 
@@ -479,6 +496,8 @@ export class GrassSystem {
                 instanceMask.needsUpdate = true;
             }
 
+            if (checkDeltas) this.maskRemovedInstances(res.key, mesh, r.positionsXZ, count);
+
             this.debugFrame.uploadedInstanceFloats += count * 4;
 
             // Avoid O(N) bounding-sphere computation over all instances.
@@ -540,6 +559,37 @@ export class GrassSystem {
         }
     }
 
+    /**
+     * Drop every loaded/pending chunk so streaming rebuilds them from scratch.
+     * Used after the world deltas are replaced wholesale (snapshot load).
+     */
+    public resetStreaming(): void {
+        for (const meshes of this.chunksByKey.values()) {
+            for (const mesh of meshes) this.releaseGrassMesh(mesh);
+        }
+        this.chunksByKey.clear();
+        this.pending.length = 0;
+        this.pendingKeys.clear();
+        this.deleteQueue.length = 0;
+        this.deleteKeys.clear();
+
+        // In-flight worker results were generated against the old deltas; forget them so they're dropped on arrival.
+        this.requestIdToKey.clear();
+        this.inflight.clear();
+        this.ready.length = 0;
+    }
+
+    private maskRemovedInstances(chunkKey: number, mesh: THREE.InstancedMesh, positionsXZ: Float32Array, count: number): void {
+        const instanceMask = mesh.geometry.getAttribute('instanceMask') as THREE.InstancedBufferAttribute | undefined;
+        for (let i = 0; i < count; i++) {
+            const pi = i * 2;
+            if (!this.worldDeltas?.isRemoved('grass', chunkKey, vegetationInstanceSeed(positionsXZ[pi], positionsXZ[pi + 1]))) continue;
+            if (instanceMask) (instanceMask.array as Float32Array)[i] = 0;
+            // Keep melee selection from picking the hidden instance.
+            positionsXZ[pi] = Number.NaN;
+        }
+    }
+
     private drainDeleteQueue(maxMs: number): void {
         const deadline = performance.now() + Math.max(0, maxMs);
         while (this.deleteQueue.length > 0 && performance.now() < deadline) {
@@ -884,6 +934,7 @@ export class GrassSystem {
     }
 
     private generateChunkStreamed(
+        chunkKey: number,
         cx: number,
         cz: number,
         size: number,
@@ -947,7 +998,7 @@ export class GrassSystem {
 
         const chunkArea = size * size;
         const perChunkCounts = new Map<string, number>();
-        const densityScale = Math.max(0, MapConfig.grassDensityScale ?? 1.0);
+        const densityScale = this.densityScale;
         const maxNear = Math.max(0, MapConfig.grassMaxInstancesPerTypeNear ?? 3500);
         const maxFar = Math.max(0, MapConfig.grassMaxInstancesPerTypeFar ?? 1000);
         const maxPerType = isNear ? maxNear : maxFar;
@@ -958,7 +1009,7 @@ export class GrassSystem {
             perChunkCounts.set(type.id, Math.min(maxPerType, target));
         }
 
-        return this.generateChunkWithRng(cx, cz, size, perChunkCounts, getHeightAt, excludeAreas, denseFactor, rand, isNear);
+        return this.generateChunkWithRng(cx, cz, size, perChunkCounts, getHeightAt, excludeAreas, denseFactor, rand, isNear, chunkKey);
     }
 
     private generateChunkWithRng(
@@ -971,8 +1022,10 @@ export class GrassSystem {
         denseFactor: number,
         rand: RandomFn,
         isNear: boolean,
+        chunkKey: number | null = null,
     ): THREE.InstancedMesh[] {
         const created: THREE.InstancedMesh[] = [];
+        const biome = createBiomeWeights();
 
         // 对每种草类型生成一个 Mesh
         this.grassTypes.forEach(type => {
@@ -1012,8 +1065,10 @@ export class GrassSystem {
             ud.grassPositionsXZ = grassPositionsXZ;
             ud.chunkCenterX = cx;
             ud.chunkCenterZ = cz;
+            if (chunkKey != null) ud.vegetationChunkKey = chunkKey;
             
             let validCount = 0;
+            let removedCount = 0;
             
             // 预先缓存噪声参数以减少对象访问开销
             const noiseScale = EnvironmentConfig.grass.noise.scale;
@@ -1040,6 +1095,10 @@ export class GrassSystem {
                 if (((n/1.5 + 1) * 0.5) < effectiveThreshold + (rand() * 0.15 - 0.075)) {
                     continue;
                 }
+
+                // 生物群系：与 VegetationWorker 相同的存活概率
+                biomeWeightsCpu(wx, wz, biome);
+                if (rand() >= blendBiomeValue(biome, (b) => b.grass[type.id])) continue;
                 
                 // 排除检查
                  // 检查排除区域 (稍微宽松一点，草可以靠近一点路)
@@ -1070,6 +1129,13 @@ export class GrassSystem {
                  this.dummy.scale.set(s, s, s);
                  const rotY = this.dummy.rotation.y;
 
+                 // 已被割掉的草：照常消耗随机数并计入目标数量，保证其余草的位置不变
+                 if (chunkKey != null && this.worldDeltas?.isRemoved('grass', chunkKey, vegetationInstanceSeed(wx, wz))) {
+                     removedCount++;
+                     if (validCount + removedCount >= targetCount) break;
+                     continue;
+                 }
+
                  const ti = validCount * 4;
                  (instanceTransform.array as Float32Array)[ti] = wx;
                  (instanceTransform.array as Float32Array)[ti + 1] = wz;
@@ -1078,7 +1144,7 @@ export class GrassSystem {
                  validCount++;
 
                  // 达到目标密度就停止，避免无意义的额外采样
-                 if (validCount >= targetCount) break;
+                 if (validCount + removedCount >= targetCount) break;
             }
             
             if (validCount > 0) {
@@ -16,11 +16,13 @@ import { EnvironmentSystem } from './EnvironmentSystem';
 import { LevelMaterials } from './LevelMaterials';
 import { terrainHeightCpu } from '../shaders/TerrainHeight';
 import { packChunkKey } from '../core/util/SeededRandom';
+import type { WorldDeltaStore } from './WorldDeltaStore';
 
 export class Level {
     private scene: THREE.Scene;
     private objects: THREE.Object3D[];
     private physicsSystem: PhysicsSystem;
+    private worldDeltas: WorldDeltaStore | null;
     
     // 子系统
     private treeSystem: TreeSystem | null = null;
@@ -35,6 +37,11 @@ export class Level {
     private lastVegetationChunkZ = Number.NaN;
     private readonly keepTreeChunks = new Set<number>();
     private readonly keepGrassChunks = new Set<number>();
+
+    // Vegetation quality (graphics settings); defaults match MapConfig.
+    private treeStreamRadiusChunks = MapConfig.vegetationStreamRadiusChunks;
+    private grassStreamRadiusChunks = MapConfig.grassStreamRadiusChunks ?? MapConfig.vegetationStreamRadiusChunks;
+    private grassDensityScale = MapConfig.grassDensityScale ?? 1.0;
     
     // 材质
     private floorMaterial!: MeshStandardNodeMaterial;
@@ -54,10 +61,11 @@ export class Level {
         grass?: Record<string, number>;
     };
 
-    constructor(scene: THREE.Scene, objects: THREE.Object3D[], physicsSystem: PhysicsSystem) {
+    constructor(scene: THREE.Scene, objects: THREE.Object3D[], physicsSystem: PhysicsSystem, worldDeltas: WorldDeltaStore | null = null) {
         this.scene = scene;
         this.objects = objects;
         this.physicsSystem = physicsSystem;
+        this.worldDeltas = worldDeltas;
         
         // 预创建共享材质 (GPU-displaced terrain)
         this.floorMaterial = LevelMaterials.createFloorMaterial({ worldOffset: this.terrainWorldOffset });
@@ -144,8 +152,8 @@ export class Level {
         const updateProgress = params?.updateProgress;
 
         const chunkSize = MapConfig.chunkSize;
-        const treeRadius = Math.max(0, MapConfig.vegetationStreamRadiusChunks);
-        const grassRadius = Math.max(0, MapConfig.grassStreamRadiusChunks ?? treeRadius);
+        const treeRadius = Math.max(0, this.treeStreamRadiusChunks);
+        const grassRadius = Math.max(0, this.grassStreamRadiusChunks);
 
         const ix0 = Math.floor((center.x + chunkSize / 2) / chunkSize);
         const iz0 = Math.floor((center.z + chunkSize / 2) / chunkSize);
@@ -270,8 +278,9 @@ export class Level {
      * 创建植被
      */
     private initVegetation() {
-        this.treeSystem = new TreeSystem(this.scene);
-        this.grassSystem = new GrassSystem(this.scene);
+        this.treeSystem = new TreeSystem(this.scene, this.worldDeltas);
+        this.grassSystem = new GrassSystem(this.scene, this.worldDeltas);
+        this.grassSystem.setDensityScale(this.grassDensityScale);
 
         // Expose debug counters for hitch correlation (opt-in, cheap).
         this.getHitchDebugCounters = () => ({
@@ -290,14 +299,52 @@ export class Level {
         );
     }
 
+    /**
+     * 重新流式生成所有植被 chunk (例如读档替换了 WorldDeltaStore 之后)
+     */
+    public resetVegetationStreaming(): void {
+        this.treeSystem?.resetStreaming();
+        this.grassSystem?.resetStreaming();
+        // Force the next update to re-request the chunks around the player.
+        this.lastVegetationChunkX = Number.NaN;
+        this.lastVegetationChunkZ = Number.NaN;
+    }
+
+    /**
+     * 画质设置：植被流式半径与草密度。变化时重新生成 chunk (密度只影响新生成的 chunk)。
+     */
+    public setVegetationQuality(opts: {
+        treeStreamRadiusChunks: number;
+        grassStreamRadiusChunks: number;
+        grassDensityScale: number;
+    }): void {
+        const changed =
+            opts.treeStreamRadiusChunks !== this.treeStreamRadiusChunks ||
+            opts.grassStreamRadiusChunks !== this.grassStreamRadiusChunks ||
+            opts.grassDensityScale !== this.grassDensityScale;
+        if (!changed) return;
+
+        const densityChanged = opts.grassDensityScale !== this.grassDensityScale;
+        this.treeStreamRadiusChunks = opts.treeStreamRadiusChunks;
+        this.grassStreamRadiusChunks = opts.grassStreamRadiusChunks;
+        this.grassDensityScale = opts.grassDensityScale;
+        this.grassSystem?.setDensityScale(opts.grassDensityScale);
+
+        // Existing grass chunks were generated with the old density.
+        if (densityChanged) this.grassSystem?.resetStreaming();
+        // Force the next update to re-request (or prune) the rings around the player.
+        this.lastVegetationChunkX = Number.NaN;
+        this.lastVegetationChunkZ = Number.NaN;
+    }
+
     private updateVegetation(playerPos: THREE.Vector3) {
         const treeSystem = this.treeSystem;
         const grassSystem = this.grassSystem;
         if (!treeSystem && !grassSystem) return;
 
         const chunkSize = MapConfig.chunkSize;
-        const treeRadius = Math.max(0, MapConfig.vegetationStreamRadiusChunks);
-        const grassRadius = Math.max(0, MapConfig.grassStreamRadiusChunks ?? treeRadius);
+        const treeRadius = Math.max(0, this.treeStreamRadiusChunks);
+        const grassRadius = Math.max(0, this.grassStreamRadiusChunks);
 
         // Chunk indices centered around origin (symmetric around 0)
         const ix0 = Math.floor((playerPos.x + chunkSize / 2) / chunkSize);
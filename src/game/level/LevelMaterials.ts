@@ -3,10 +3,13 @@ import { MeshStandardNodeMaterial, MeshBasicNodeMaterial, type UniformNode } fro
 import { 
     sin, vec3, vec2, mix, float, 
     smoothstep, fract, floor, uv,
-    sub, max, mod, normalLocal, normalize, step, positionWorld, positionLocal, abs, time
+    sub, max, mod, normalLocal, normalize, step, positionWorld, positionLocal, abs,
+    dot, pow, cameraPosition
 } from 'three/tsl';
 import { MapConfig, EnvironmentConfig } from '../core/GameConfig';
 import { terrainHeightNode } from '../shaders/TerrainTSL';
+import { biomeWeightsNode, blendBiomeColorNode, blendBiomeFloatNode } from '../shaders/BiomeTSL';
+import { DayNightUniforms } from '../shaders/DayNightUniforms';
 
 export class LevelMaterials {
     /**
@@ -23,6 +26,7 @@ export class LevelMaterials {
         // using a uniform offset so patterns stay locked to the world, not the moving mesh.
         const worldXZ = (opts?.worldOffset ? positionLocal.xz.add(opts.worldOffset) : positionWorld.xz);
         const terrainH = terrainHeightNode(worldXZ);
+        const biome = biomeWeightsNode(worldXZ);
 
         // GPU vertex displacement (Y-up). If the mesh is already displaced on CPU this still works,
         // but in this project the terrain surface is intended to be displaced on the GPU.
@@ -80,10 +84,18 @@ export class LevelMaterials {
         const grassPattern2 = sin(uvCoord.x.mul(0.7).sub(hugeNoise.mul(2)))
             .mul(sin(uvCoord.y.mul(0.6).add(fineNoise))).mul(0.5).add(0.5);
         const grassCombined = grassPattern1.mul(0.6).add(grassPattern2.mul(0.4));
-        const grassMask = smoothstep(float(0.3), float(0.7), grassCombined);
-        
+        const grassMask = smoothstep(float(0.3), float(0.7), grassCombined).mul(blendBiomeFloatNode(biome, (b) => b.splat.grassCover));
+
+        // ========== 生物群系着色 (与 CPU biomeWeightsCpu 一致) ==========
+        // Forest keeps the palette above (strength 0); other biomes pull dirt/grass towards their own colors.
+        const splatStrength = blendBiomeFloatNode(biome, (b) => b.splat.strength);
+        const biomeDirt = blendBiomeColorNode(biome, (b) => b.splat.dirt).mul(fineNoise.mul(0.2).add(0.9));
+        const biomeGrass = blendBiomeColorNode(biome, (b) => b.splat.grass).mul(microNoise.mul(0.25).add(0.85));
+        const dirtSplat = mix(dirtWithSand, biomeDirt, splatStrength);
+        const grassSplat = mix(grassWithDead, biomeGrass, splatStrength);
+
         // 混合泥土和草地
-        const groundColor = mix(dirtWithSand, grassWithDead, grassMask);
+        const groundColor = mix(dirtSplat, grassSplat, grassMask);
         
         // ========== 小石子和碎屑 (更多变化) ==========
         const pebbleNoise1 = sin(uvCoord.x.mul(30)).mul(sin(uvCoord.y.mul(32))).mul(0.5).add(0.5);
@@ -649,25 +661,23 @@ export class LevelMaterials {
             side: THREE.BackSide
         });
 
-        const t = time;
-        
         // 使用世界位置计算高度
         const worldPos = positionWorld;
         const skyRadius = float(MapConfig.size * 1.5);
         const height = worldPos.y.div(skyRadius).add(0.5); // 归一化到 0-1
         
-        // 天空渐变
-        const horizonColor = vec3(0.75, 0.88, 0.98);
-        const zenithColor = vec3(0.4, 0.6, 0.95);
-        const sunsetTint = vec3(0.95, 0.85, 0.7);
+        // 天空渐变 (颜色由天气 + 昼夜驱动)
+        const horizonColor = DayNightUniforms.skyHorizonColor;
+        const zenithColor = DayNightUniforms.skyZenithColor;
         
         // 基础渐变
         const skyGradient = smoothstep(float(0.3), float(0.8), height);
-        let skyColor = mix(horizonColor, zenithColor, skyGradient);
+        const gradientColor = mix(horizonColor, zenithColor, skyGradient);
         
-        // 添加日落色调 (可选，基于时间)
-        const sunsetAmount = sin(t.mul(0.1)).mul(0.5).add(0.5).mul(0.2);
-        skyColor = mix(skyColor, sunsetTint, sunsetAmount.mul(sub(float(1), skyGradient)));
+        // 太阳光晕 (夜间淡出)
+        const viewDir = normalize(worldPos.sub(cameraPosition));
+        const sunGlow = pow(max(dot(viewDir, DayNightUniforms.sunDirection), float(0)), float(64)).mul(DayNightUniforms.daylight);
+        const skyColor = gradientColor.add(vec3(1.0, 0.9, 0.7).mul(sunGlow));
         
         material.colorNode = skyColor;
         
@@ -4,6 +4,8 @@ import { EnvironmentConfig, MapConfig, TreeType } from '../core/GameConfig';
 import { getUserData } from '../types/GameUserData';
 import { hash2iToU32, mulberry32, packChunkKey, type RandomFn } from '../core/util/SeededRandom';
 import { loadTreeModelParts } from '../core/assets/ModelGeometryCache';
+import { vegetationInstanceSeed, type WorldDeltaStore } from './WorldDeltaStore';
+import { biomeWeightsCpu, blendBiomeValue, createBiomeWeights } from '../shaders/BiomeMap';
 
 type WorkerTreeTypeResult = {
     type: TreeType;
@@ -48,6 +50,8 @@ type ExcludeArea = { x: number; z: number; radius: number };
  */
 export class TreeSystem {
     private scene: THREE.Scene;
+    // Player edits (chopped trees) that must survive chunk pruning/regeneration.
+    private readonly worldDeltas: WorldDeltaStore | null;
     // Streaming chunks keyed by packed chunk coords.
     private chunksByKey: Map<number, Array<{ trunk: THREE.InstancedMesh; leaves: THREE.InstancedMesh }>> = new Map();
 
@@ -149,8 +153,9 @@ export class TreeSystem {
     
     private definitions: TreeDefinition[] = [];
 
-    constructor(scene: THREE.Scene) {
+    constructor(scene: THREE.Scene, worldDeltas: WorldDeltaStore | null = null) {
         this.scene = scene;
+        this.worldDeltas = worldDeltas;
         this.initTreeDefinitions();
 
         // Load model geometry asynchronously. Chunk apply is gated on this.
@@ -326,7 +331,7 @@ export class TreeSystem {
             const seedU32 = hash2iToU32(ix, iz, MapConfig.worldSeed);
             const rng = mulberry32(seedU32);
 
-            const meshes = this.generateChunk(item.cx, item.cz, chunkSize, item.getHeightAt, item.excludeAreas, rng);
+            const meshes = this.generateChunk(item.cx, item.cz, chunkSize, item.getHeightAt, item.excludeAreas, rng, item.key);
             if (meshes.length > 0) {
                 this.chunksByKey.set(item.key, meshes);
             }
@@ -403,6 +408,7 @@ export class TreeSystem {
                 size: chunkSize,
                 seedU32,
                 excludeAreas: item.excludeAreas,
+                removedSeeds: this.worldDeltas?.getRemoved('trees', item.key) ?? [],
                 minAltitude: tCfg.placement.minAltitude,
                 noise: tCfg.noise,
                 distribution: {
@@ -465,6 +471,9 @@ export class TreeSystem {
         const fixedCap = Math.max(1, Math.floor(MapConfig.treeMaxInstancesPerChunkPerType ?? 256));
         const modelCap = Math.min(fixedCap, 24);
 
+        // The worker already skips removed trees; re-check here for edits made while the request was in flight.
+        const checkDeltas = this.worldDeltas?.hasRemovals('trees', res.key) ?? false;
+
         for (const r of res.results) {
             const def = this.definitions.find((d) => d.type === r.type);
             if (!def) continue;
@@ -486,6 +495,7 @@ export class TreeSystem {
                 ud.treePart = 'trunk';
                 ud.pairedMesh = leavesMesh;
                 ud.treePositionsXZ = positionsXZ;
+                ud.vegetationChunkKey = res.key;
             }
             {
                 const ud = getUserData(leavesMesh);
@@ -494,6 +504,7 @@ export class TreeSystem {
                 ud.treePart = 'leaves';
                 ud.pairedMesh = trunkMesh;
                 ud.treePositionsXZ = positionsXZ;
+                ud.vegetationChunkKey = res.key;
             }
 
             trunkMesh.castShadow = true;
@@ -550,6 +561,8 @@ export class TreeSystem {
 
             this.debugFrame.uploadedInstanceFloats += count * 4;
 
+            if (checkDeltas) this.maskRemovedInstances(res.key, trunkMesh, leavesMesh, positionsXZ, count);
+
             trunkMesh.count = count;
             leavesMesh.count = count;
 
@@ -601,6 +614,46 @@ export class TreeSystem {
         }
     }
 
+    /**
+     * Drop every loaded/pending chunk so streaming rebuilds them from scratch.
+     * Used after the world deltas are replaced wholesale (snapshot load).
+     */
+    public resetStreaming(): void {
+        for (const meshes of this.chunksByKey.values()) {
+            for (const m of meshes) this.releaseTreeMeshes(m);
+        }
+        this.chunksByKey.clear();
+        this.pending.length = 0;
+        this.pendingKeys.clear();
+        this.deleteQueue.length = 0;
+        this.deleteKeys.clear();
+
+        // In-flight worker results were generated against the old deltas; forget them so they're dropped on arrival.
+        this.requestIdToKey.clear();
+        this.requestIdToViewer.clear();
+        this.inflight.clear();
+        this.ready.length = 0;
+    }
+
+    private maskRemovedInstances(
+        chunkKey: number,
+        trunkMesh: THREE.InstancedMesh,
+        leavesMesh: THREE.InstancedMesh,
+        positionsXZ: Float32Array,
+        count: number,
+    ): void {
+        const trunkMask = trunkMesh.geometry.getAttribute('instanceMask') as THREE.InstancedBufferAttribute | undefined;
+        const leavesMask = leavesMesh.geometry.getAttribute('instanceMask') as THREE.InstancedBufferAttribute | undefined;
+        for (let i = 0; i < count; i++) {
+            const pi = i * 2;
+            if (!this.worldDeltas?.isRemoved('trees', chunkKey, vegetationInstanceSeed(positionsXZ[pi], positionsXZ[pi + 1]))) continue;
+            if (trunkMask) (trunkMask.array as Float32Array)[i] = 0;
+            if (leavesMask) (leavesMask.array as Float32Array)[i] = 0;
+            // Keep melee selection from picking the hidden instance.
+            positionsXZ[pi] = Number.NaN;
+        }
+    }
+
     private drainDeleteQueue(maxMs: number): void {
         const deadline = performance.now() + Math.max(0, maxMs);
         while (this.deleteQueue.length > 0 && performance.now() < deadline) {
@@ -849,6 +902,7 @@ export class TreeSystem {
         getHeightAt: (x: number, z: number) => number,
         excludeAreas: ExcludeArea[],
         rand: RandomFn,
+        chunkKey: number,
     ): Array<{ trunk: THREE.InstancedMesh; leaves: THREE.InstancedMesh }> {
         // Per-chunk target derived from density to keep local look stable.
         const density = EnvironmentConfig.trees.density;
@@ -892,7 +946,7 @@ export class TreeSystem {
             dfCfg.power
         );
 
-        return this.generateChunkInternal(cx, cz, size, targetCount, getHeightAt, excludeAreas, denseFactor, rand);
+        return this.generateChunkInternal(cx, cz, size, targetCount, getHeightAt, excludeAreas, denseFactor, rand, chunkKey);
     }
 
     private generateChunkInternal(
@@ -904,6 +958,7 @@ export class TreeSystem {
         excludeAreas: ExcludeArea[],
         denseFactor: number,
         rand: RandomFn,
+        chunkKey: number | null = null,
     ): Array<{ trunk: THREE.InstancedMesh; leaves: THREE.InstancedMesh }> {
         // 性能优化：严格限制生成范围
         // 岛屿半径外是深海，不需要生成树木
@@ -924,6 +979,7 @@ export class TreeSystem {
         this.definitions.forEach(def => chunkPositionsXZ.set(def.type, []));
         
         let validCount = 0;
+        const biome = createBiomeWeights();
 
         // totalCount 表示“希望最终落地的树数量”。
         // 由于噪声阈值/排除区/水位会剔除大量候选点，如果仅尝试 totalCount 次会导致树过稀。
@@ -972,14 +1028,24 @@ export class TreeSystem {
             const placeConfig = EnvironmentConfig.trees.placement;
             if (y < placeConfig.minAltitude) continue; 
             
+            // 生物群系：存活概率 + 树种倍率 (与 VegetationWorker 一致)
+            biomeWeightsCpu(wx, wz, biome);
+            if (rand() >= blendBiomeValue(biome, (b) => b.trees.density)) continue;
+
+            let probSum = 0;
+            for (const def of this.definitions) {
+                probSum += def.probability * blendBiomeValue(biome, (b) => b.trees.types[def.type]);
+            }
+            if (probSum <= 0) continue;
+
             // 随机选择树种 (根据 probability)
-            const rnd = rand();
+            const rnd = rand() * probSum;
             let accumulatedProb = 0;
             let selectedDef = this.definitions[0];
             
             // 简单轮盘赌选择
             for (const def of this.definitions) {
-                accumulatedProb += def.probability;
+                accumulatedProb += def.probability * blendBiomeValue(biome, (b) => b.trees.types[def.type]);
                 if (rnd <= accumulatedProb) {
                     selectedDef = def;
                     break;
@@ -990,6 +1056,13 @@ export class TreeSystem {
             const scale = selectedDef.scaleRange.min + rand() * (selectedDef.scaleRange.max - selectedDef.scaleRange.min);
             const rotationY = rand() * Math.PI * 2;
 
+            // 已被砍掉的树：照常消耗随机数并计入目标数量，保证其余树的位置不变
+            if (chunkKey != null && this.worldDeltas?.isRemoved('trees', chunkKey, vegetationInstanceSeed(wx, wz))) {
+                validCount++;
+                if (validCount >= totalCount) break;
+                continue;
+            }
+
             const tArr = chunkTransforms.get(selectedDef.type)!;
             tArr.push(wx, wz, rotationY, scale);
             const posArr = chunkPositionsXZ.get(selectedDef.type)!;
@@ -1038,6 +1111,7 @@ export class TreeSystem {
                     ud.treePart = 'trunk';
                     ud.pairedMesh = leavesMesh;
                     ud.treePositionsXZ = positionsXZ;
+                    if (chunkKey != null) ud.vegetationChunkKey = chunkKey;
                 }
                 {
                     const ud = getUserData(leavesMesh);
@@ -1046,6 +1120,7 @@ export class TreeSystem {
                     ud.treePart = 'leaves';
                     ud.pairedMesh = trunkMesh;
                     ud.treePositionsXZ = positionsXZ;
+                    if (chunkKey != null) ud.vegetationChunkKey = chunkKey;
                 }
                 
                 trunkMesh.castShadow = true;
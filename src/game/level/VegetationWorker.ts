@@ -3,6 +3,8 @@
 import { MapConfig, EnvironmentConfig } from '../core/GameConfig';
 import { hash2iToU32, mulberry32 } from '../core/util/SeededRandom';
 import { terrainHeightCpu } from '../shaders/TerrainHeight';
+import { biomeWeightsCpu, blendBiomeValue, createBiomeWeights } from '../shaders/BiomeMap';
+import { vegetationInstanceSeed } from './WorldDeltaStore';
 
 type ExcludeArea = { x: number; z: number; radius: number };
 
@@ -29,6 +31,8 @@ type GenerateGrassChunkRequest = {
     viewerX: number;
     viewerZ: number;
     excludeAreas: ExcludeArea[];
+    // Instance seeds removed by the player (WorldDeltaStore); still consume RNG so the rest of the chunk is unchanged.
+    removedSeeds: number[];
     grassDensityScale: number;
     grassFarDensityMultiplier: number;
     grassDetailRadiusChunks: number;
@@ -62,6 +66,7 @@ type GenerateTreeChunkRequest = {
     size: number;
     seedU32: number;
     excludeAreas: ExcludeArea[];
+    removedSeeds: number[];
     minAltitude: number;
     noise: { scale: number; threshold: number };
     distribution: {
@@ -159,6 +164,7 @@ function generateGrassChunk(req: GenerateGrassChunkRequest): GenerateGrassChunkR
         viewerX,
         viewerZ,
         excludeAreas,
+        removedSeeds,
         grassDensityScale,
         grassFarDensityMultiplier,
         grassDetailRadiusChunks,
@@ -199,7 +205,9 @@ function generateGrassChunk(req: GenerateGrassChunkRequest): GenerateGrassChunkR
     const maxPerType = isNear ? Math.max(0, grassMaxInstancesPerTypeNear) : Math.max(0, grassMaxInstancesPerTypeFar);
 
     const chunkArea = size * size;
+    const removed = removedSeeds.length > 0 ? new Set(removedSeeds) : null;
 
+    const biome = createBiomeWeights();
     const results: GrassTypeResult[] = [];
     for (const type of grassTypes) {
         const baseDensity = densityByType[type.id] ?? 0;
@@ -219,6 +227,7 @@ function generateGrassChunk(req: GenerateGrassChunkRequest): GenerateGrassChunkR
         const effectiveThreshold = Math.min(0.98, Math.max(0.02, type.noiseThreshold + thresholdShift));
 
         let validCount = 0;
+        let removedCount = 0;
         for (let i = 0; i < attemptCount; i++) {
             const rx = (rng() - 0.5) * size;
             const rz = (rng() - 0.5) * size;
@@ -232,6 +241,10 @@ function generateGrassChunk(req: GenerateGrassChunkRequest): GenerateGrassChunkR
                 continue;
             }
 
+            // Biome: desert keeps a little dry grass, swamps grow tall reeds, ...
+            biomeWeightsCpu(wx, wz, biome);
+            if (rng() >= blendBiomeValue(biome, (b) => b.grass[type.id])) continue;
+
             let ok = true;
             for (const area of excludeAreas) {
                 const dx = wx - area.x;
@@ -250,13 +263,19 @@ function generateGrassChunk(req: GenerateGrassChunkRequest): GenerateGrassChunkR
             const rotY = rng() * Math.PI * 2;
             const s = type.scaleMin + rng() * (type.scaleMax - type.scaleMin);
 
+            if (removed && removed.has(vegetationInstanceSeed(wx, wz))) {
+                removedCount++;
+                if (validCount + removedCount >= targetCount) break;
+                continue;
+            }
+
             const pi = validCount * 2;
             positionsXZ[pi] = wx;
             positionsXZ[pi + 1] = wz;
 
             writeTransformXZRotScale(transforms, validCount * 4, wx, wz, rotY, s);
             validCount++;
-            if (validCount >= targetCount) break;
+            if (validCount + removedCount >= targetCount) break;
         }
 
         if (validCount > 0) {
@@ -280,7 +299,7 @@ function getTreeMicroNoise(x: number, z: number, scale: number): number {
 }
 
 function generateTreeChunk(req: GenerateTreeChunkRequest): GenerateTreeChunkResponse {
-    const { cx, cz, size, seedU32, excludeAreas, minAltitude, noise, distribution, density, types } = req;
+    const { cx, cz, size, seedU32, excludeAreas, removedSeeds, minAltitude, noise, distribution, density, types } = req;
 
     // Only generate within island bounds.
     const maxTreeDist = MapConfig.boundaryRadius + 50;
@@ -316,24 +335,15 @@ function generateTreeChunk(req: GenerateTreeChunkRequest): GenerateTreeChunkResp
         return { kind: 'trees', requestId: req.requestId, key: req.key, cx, cz, results: [] };
     }
 
-    // Build cumulative probability table.
-    let probSum = 0;
-    const cumulative: Array<{ type: TreeTypeId; p: number; scaleMin: number; scaleMax: number }> = [];
-    for (const t of types) {
-        probSum += Math.max(0, t.probability);
-        cumulative.push({ type: t.type, p: probSum, scaleMin: t.scaleMin, scaleMax: t.scaleMax });
-    }
-    if (probSum <= 0) {
-        // fallback to uniform
-        cumulative.length = 0;
-        const step = 1 / types.length;
-        let acc = 0;
-        for (const t of types) {
-            acc += step;
-            cumulative.push({ type: t.type, p: acc, scaleMin: t.scaleMin, scaleMax: t.scaleMax });
-        }
-        probSum = 1;
-    }
+    // Cumulative probability table, rebuilt per candidate from the local biome blend.
+    const allZero = types.every((t) => t.probability <= 0);
+    const cumulative: Array<{ type: TreeTypeId; p: number; scaleMin: number; scaleMax: number }> = types.map((t) => ({
+        type: t.type,
+        p: 0,
+        scaleMin: t.scaleMin,
+        scaleMax: t.scaleMax,
+    }));
+    const biome = createBiomeWeights();
 
     // First pass: count per type (so we can allocate exact-sized typed arrays).
     const counts = new Map<TreeTypeId, number>();
@@ -350,6 +360,8 @@ function generateTreeChunk(req: GenerateTreeChunkRequest): GenerateTreeChunkResp
     // Store temp picks so we can fill output arrays in a second pass without redoing the expensive checks.
     const picked: Array<{ x: number; z: number; rotY: number; s: number; type: TreeTypeId }> = [];
     picked.length = 0;
+    const removed = removedSeeds.length > 0 ? new Set(removedSeeds) : null;
+    let removedCount = 0;
 
     for (let i = 0; i < attemptBudget; i++) {
         const rx = (rng() - 0.5) * size;
@@ -374,6 +386,18 @@ function generateTreeChunk(req: GenerateTreeChunkRequest): GenerateTreeChunkResp
         const y = terrainHeightCpu(wx, wz);
         if (y < minAltitude) continue;
 
+        biomeWeightsCpu(wx, wz, biome);
+        if (rng() >= blendBiomeValue(biome, (b) => b.trees.density)) continue;
+
+        let probSum = 0;
+        for (let t = 0; t < types.length; t++) {
+            // Uniform fallback when the config has no probabilities at all.
+            const base = allZero ? 1 : Math.max(0, types[t].probability);
+            probSum += base * blendBiomeValue(biome, (b) => b.trees.types[types[t].type]);
+            cumulative[t].p = probSum;
+        }
+        if (probSum <= 0) continue;
+
         const r = rng() * probSum;
         let selected = cumulative[0];
         for (const c of cumulative) {
@@ -389,15 +413,23 @@ function generateTreeChunk(req: GenerateTreeChunkRequest): GenerateTreeChunkResp
         const s = selected.scaleMin + rng() * (selected.scaleMax - selected.scaleMin);
         const rotY = rng() * Math.PI * 2;
 
-        picked.push({ x: wx, z: wz, rotY, s, type: selected.type });
+        // Removed trees still count towards caps/targets so the surviving trees keep their exact placement.
         counts.set(selected.type, existingCount + 1);
+        if (removed && removed.has(vegetationInstanceSeed(wx, wz))) {
+            removedCount++;
+        } else {
+            picked.push({ x: wx, z: wz, rotY, s, type: selected.type });
+        }
 
-        if (picked.length >= targetCount) break;
+        if (picked.length + removedCount >= targetCount) break;
     }
 
+    const pickedCounts = new Map<TreeTypeId, number>();
+    for (const p of picked) pickedCounts.set(p.type, (pickedCounts.get(p.type) ?? 0) + 1);
+
     const results: TreeTypeResult[] = [];
     for (const t of types) {
-        const c = counts.get(t.type) ?? 0;
+        const c = pickedCounts.get(t.type) ?? 0;
         if (c <= 0) continue;
         results.push({
             type: t.type,
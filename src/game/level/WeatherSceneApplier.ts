@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { WeatherConfig, type WeatherType } from '../core/GameConfig';
+import { DayNightUniforms } from '../shaders/DayNightUniforms';
+import type { DayNightSample } from './DayNightCycle';
 
 export class WeatherSceneApplier {
     private readonly skyTarget = new THREE.Color();
@@ -12,36 +14,53 @@ export class WeatherSceneApplier {
         sunLight: THREE.DirectionalLight | null;
         weather: WeatherType;
         progress: number;
+        /** Optional time-of-day modifiers; weather targets are tinted/scaled by them. */
+        dayNight?: Readonly<DayNightSample> | null;
     }): void {
         const config = WeatherConfig[opts.weather];
+        const dayNight = opts.dayNight ?? null;
         const lerpT = opts.progress * 0.1;
 
         // Sky
+        this.skyTarget.set(config.skyColor);
+        if (dayNight) this.skyTarget.multiply(dayNight.skyTint);
         if (opts.scene.background instanceof THREE.Color) {
-            this.skyTarget.set(config.skyColor);
             (opts.scene.background as THREE.Color).lerp(this.skyTarget, lerpT);
+            DayNightUniforms.skyZenithColor.value.copy(opts.scene.background);
+        } else {
+            DayNightUniforms.skyZenithColor.value.lerp(this.skyTarget, lerpT);
         }
 
         // Fog
+        this.fogTarget.set(config.fogColor);
+        if (dayNight) this.fogTarget.multiply(dayNight.fogTint);
         if (opts.scene.fog instanceof THREE.Fog) {
-            this.fogTarget.set(config.fogColor);
+            const fogFar = config.fogFar * (dayNight?.fogFarScale ?? 1);
             opts.scene.fog.color.lerp(this.fogTarget, lerpT);
-            opts.scene.fog.near = THREE.MathUtils.lerp(opts.scene.fog.near, config.fogNear, lerpT);
-            opts.scene.fog.far = THREE.MathUtils.lerp(opts.scene.fog.far, config.fogFar, lerpT);
+            opts.scene.fog.near = THREE.MathUtils.lerp(opts.scene.fog.near, Math.min(config.fogNear, fogFar * 0.5), lerpT);
+            opts.scene.fog.far = THREE.MathUtils.lerp(opts.scene.fog.far, fogFar, lerpT);
+            DayNightUniforms.skyHorizonColor.value.copy(opts.scene.fog.color);
+        } else {
+            DayNightUniforms.skyHorizonColor.value.lerp(this.fogTarget, lerpT);
         }
 
         // Lights
         if (opts.ambientLight) {
             opts.ambientLight.intensity = THREE.MathUtils.lerp(
                 opts.ambientLight.intensity,
-                config.ambientIntensity,
+                config.ambientIntensity * (dayNight?.ambientScale ?? 1),
                 lerpT
             );
         }
 
         if (opts.sunLight) {
-            opts.sunLight.intensity = THREE.MathUtils.lerp(opts.sunLight.intensity, config.sunIntensity, lerpT);
+            opts.sunLight.intensity = THREE.MathUtils.lerp(
+                opts.sunLight.intensity,
+                config.sunIntensity * (dayNight?.lightScale ?? 1),
+                lerpT
+            );
             this.sunTarget.set(config.sunColor);
+            if (dayNight) this.sunTarget.multiply(dayNight.lightColor);
             opts.sunLight.color.lerp(this.sunTarget, lerpT);
         }
     }
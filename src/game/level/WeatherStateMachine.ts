@@ -1,4 +1,5 @@
 import type { WeatherType } from '../core/GameConfig';
+import type { RandomStream } from '../core/util/RandomStreams';
 
 export interface WeatherAutoChangeConfig {
     enabled: boolean;
@@ -21,6 +22,7 @@ export class WeatherStateMachine {
     private readonly transitionDuration: number;
     private readonly autoChange: WeatherAutoChangeConfig;
     private readonly weathers: readonly WeatherType[];
+    private readonly random: RandomStream;
 
     private currentWeather: WeatherType;
     private targetWeather: WeatherType;
@@ -34,6 +36,7 @@ export class WeatherStateMachine {
         transitionDuration: number;
         autoChange: WeatherAutoChangeConfig;
         weathers: readonly WeatherType[];
+        random: RandomStream;
     }) {
         this.currentWeather = opts.initialWeather;
         this.targetWeather = opts.initialWeather;
@@ -42,6 +45,7 @@ export class WeatherStateMachine {
         this.transitionDuration = Math.max(0.001, opts.transitionDuration);
         this.autoChange = opts.autoChange;
         this.weathers = opts.weathers;
+        this.random = opts.random;
 
         this.scheduleNextWeatherChange();
     }
@@ -54,6 +58,17 @@ export class WeatherStateMachine {
         };
     }
 
+    /** Restore a previously captured snapshot (save/load). Auto-change timer restarts. */
+    public restoreSnapshot(snapshot: WeatherStateSnapshot): void {
+        this.currentWeather = snapshot.currentWeather;
+        this.targetWeather = snapshot.targetWeather;
+        this.transitionProgress = Math.max(0, Math.min(1, snapshot.transitionProgress));
+        if (this.transitionProgress >= 1.0) {
+            this.currentWeather = this.targetWeather;
+        }
+        this.scheduleNextWeatherChange();
+    }
+
     public setWeather(weather: WeatherType, immediate: boolean = false): boolean {
         if (weather === this.targetWeather) return false;
 
@@ -70,7 +85,11 @@ export class WeatherStateMachine {
         return true;
     }
 
-    public update(delta: number): WeatherUpdateResult {
+    /**
+     * @param localWeights relative odds of each weather where the player is (biome). A target weather the
+     * location rules out (a sandstorm carried out of the desert) counts as expired.
+     */
+    public update(delta: number, localWeights?: Readonly<Record<WeatherType, number>>): WeatherUpdateResult {
         // Transition
         if (this.transitionProgress < 1.0) {
             this.transitionProgress += delta / this.transitionDuration;
@@ -84,8 +103,9 @@ export class WeatherStateMachine {
         let autoNextWeather: WeatherType | null = null;
         if (this.autoChange.enabled) {
             this.weatherTimer += delta;
-            if (this.weatherTimer >= this.nextWeatherChange) {
-                autoNextWeather = this.getRandomWeather();
+            const ruledOut = localWeights !== undefined && localWeights[this.targetWeather] <= 0;
+            if (this.weatherTimer >= this.nextWeatherChange || ruledOut) {
+                autoNextWeather = this.getRandomWeather(localWeights);
             }
         }
 
@@ -100,17 +120,28 @@ export class WeatherStateMachine {
 
         const min = this.autoChange.minDuration;
         const max = this.autoChange.maxDuration;
-        this.nextWeatherChange = min + Math.random() * (max - min);
+        this.nextWeatherChange = this.random.range(min, max);
         this.weatherTimer = 0;
     }
 
-    private getRandomWeather(): WeatherType {
+    private getRandomWeather(localWeights?: Readonly<Record<WeatherType, number>>): WeatherType {
         // Avoid choosing the current *or* the current target to support rapid transitions.
         const avoid1 = this.currentWeather;
         const avoid2 = this.targetWeather;
 
-        const available = this.weathers.filter((w) => w !== avoid1 && w !== avoid2);
-        const pickFrom = available.length > 0 ? available : this.weathers.filter((w) => w !== avoid2);
-        return pickFrom[Math.floor(Math.random() * pickFrom.length)];
+        const allowed = localWeights ? this.weathers.filter((w) => localWeights[w] > 0) : this.weathers;
+        const available = allowed.filter((w) => w !== avoid1 && w !== avoid2);
+        const pickFrom = available.length > 0 ? available : allowed.filter((w) => w !== avoid2);
+        if (pickFrom.length === 0) return this.random.pick(this.weathers.filter((w) => w !== avoid2));
+        if (!localWeights) return this.random.pick(pickFrom);
+
+        let total = 0;
+        for (const w of pickFrom) total += localWeights[w];
+        let r = this.random.next() * total;
+        for (const w of pickFrom) {
+            r -= localWeights[w];
+            if (r < 0) return w;
+        }
+        return pickFrom[pickFrom.length - 1];
     }
 }
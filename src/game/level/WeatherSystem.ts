@@ -3,13 +3,16 @@
  * 支持晴天、雨天、大风、沙尘暴等天气效果
  */
 import * as THREE from 'three';
-import { WeatherConfig, WeatherType } from '../core/GameConfig';
+import { WEATHER_TYPES, WeatherConfig, WeatherType } from '../core/GameConfig';
 import type { WebGPURenderer } from 'three/webgpu';
 import type { FrameContext, System } from '../core/engine/System';
 import { WeatherParticles } from './WeatherParticles';
-import { WeatherStateMachine } from './WeatherStateMachine';
+import { WeatherStateMachine, type WeatherStateSnapshot } from './WeatherStateMachine';
 import { WeatherSceneApplier } from './WeatherSceneApplier';
 import { WindController } from './WindController';
+import type { DayNightCycle } from './DayNightCycle';
+import type { RandomStream } from '../core/util/RandomStreams';
+import { biomeWeightsCpu, blendBiomeRecord, createBiomeWeights } from '../shaders/BiomeMap';
 
 export class WeatherSystem implements System {
     public readonly name = 'weather';
@@ -27,6 +30,9 @@ export class WeatherSystem implements System {
     // Applies weather config to scene (fog/sky/lights)
     private readonly sceneApplier = new WeatherSceneApplier();
 
+    // Optional world clock: weather targets are blended with time-of-day lighting.
+    private dayNight: DayNightCycle | null = null;
+
     // Wind is managed separately (direction/strength + shader uniform sync)
     private readonly wind = new WindController();
     
@@ -36,7 +42,11 @@ export class WeatherSystem implements System {
     // 天气变化回调
     private onWeatherChange: ((weather: WeatherType) => void) | null = null;
 
-    constructor(scene: THREE.Scene, camera: THREE.Camera, renderer: WebGPURenderer) {
+    // 生物群系天气权重 (玩家所在位置，如沙尘暴只在沙漠)
+    private readonly biome = createBiomeWeights();
+    private readonly localWeatherWeights: Record<WeatherType, number> = { sunny: 1, rainy: 1, windy: 1, sandstorm: 1 };
+
+    constructor(scene: THREE.Scene, camera: THREE.Camera, renderer: WebGPURenderer, random: RandomStream) {
         this.scene = scene;
         this.camera = camera;
 
@@ -46,7 +56,8 @@ export class WeatherSystem implements System {
             initialWeather: 'sunny',
             transitionDuration: WeatherConfig.transitionDuration,
             autoChange: WeatherConfig.autoChange,
-            weathers: ['sunny', 'rainy', 'windy', 'sandstorm'],
+            weathers: WEATHER_TYPES,
+            random,
         });
     }
     
@@ -58,6 +69,13 @@ export class WeatherSystem implements System {
         this.sunLight = sun;
     }
     
+    /**
+     * 设置昼夜循环 (天气光照与时间叠加)
+     */
+    public setDayNightCycle(dayNight: DayNightCycle | null) {
+        this.dayNight = dayNight;
+    }
+
     /**
      * 设置天气变化回调
      */
@@ -79,6 +97,7 @@ export class WeatherSystem implements System {
                 sunLight: this.sunLight,
                 weather,
                 progress: 1.0,
+                dayNight: this.dayNight?.getSample(),
             });
 
             this.wind.apply({ weather, progress: 1.0 });
@@ -100,6 +119,40 @@ export class WeatherSystem implements System {
         return this.weatherState.getSnapshot().currentWeather;
     }
     
+    /**
+     * 获取天气状态快照 (存档用)
+     */
+    public getStateSnapshot(): WeatherStateSnapshot {
+        return this.weatherState.getSnapshot();
+    }
+
+    /**
+     * 从快照恢复天气状态 (读档用)
+     */
+    public restoreStateSnapshot(snapshot: WeatherStateSnapshot) {
+        this.weatherState.restoreSnapshot(snapshot);
+        const restored = this.weatherState.getSnapshot();
+
+        // Same as setWeather(immediate): apply the settled weather once, the per-frame update keeps lerping.
+        if (restored.transitionProgress >= 1.0) {
+            this.sceneApplier.apply({
+                scene: this.scene,
+                ambientLight: this.ambientLight,
+                sunLight: this.sunLight,
+                weather: restored.targetWeather,
+                progress: 1.0,
+                dayNight: this.dayNight?.getSample(),
+            });
+            this.wind.apply({ weather: restored.targetWeather, progress: 1.0 });
+        }
+
+        this.updateParticleVisibility();
+
+        if (this.onWeatherChange) {
+            this.onWeatherChange(restored.targetWeather);
+        }
+    }
+
     /**
      * 获取当前风力强度
      */
@@ -131,7 +184,9 @@ export class WeatherSystem implements System {
      */
     public update(frame: FrameContext) {
         const delta = frame.delta;
-        const { snapshot, autoNextWeather } = this.weatherState.update(delta);
+        biomeWeightsCpu(frame.playerPos.x, frame.playerPos.z, this.biome);
+        blendBiomeRecord(this.biome, (b) => b.weather, this.localWeatherWeights);
+        const { snapshot, autoNextWeather } = this.weatherState.update(delta, this.localWeatherWeights);
 
         // Apply weather config to scene (we lerp toward target)
         this.sceneApplier.apply({
@@ -140,6 +195,7 @@ export class WeatherSystem implements System {
             sunLight: this.sunLight,
             weather: snapshot.targetWeather,
             progress: snapshot.transitionProgress,
+            dayNight: this.dayNight?.getSample(),
         });
 
         this.wind.apply({
@@ -173,7 +229,7 @@ export class WeatherSystem implements System {
      * 切换到下一个天气 (用于调试/测试)
      */
     public cycleWeather() {
-        const weathers: WeatherType[] = ['sunny', 'rainy', 'windy', 'sandstorm'];
+        const weathers = WEATHER_TYPES;
         // 使用 targetWeather 而不是 currentWeather，以支持快速连续切换
         const currentIndex = weathers.indexOf(this.weatherState.getSnapshot().targetWeather);
         const nextIndex = (currentIndex + 1) % weathers.length;
@@ -0,0 +1,118 @@
+/**
+ * WorldDeltaStore - 持久化的世界修改记录 (砍掉的树 / 割掉的草 / 岩石与废墟的采集次数)
+ * 植被按 chunk 流式生成并在远离后被回收；这里按 packChunkKey + 实例种子记录被移除的实例，
+ * 让 chunk 重新生成时 (VegetationWorker / buildChunkFromWorker) 跳过它们，并随存档保存。
+ * 岩石 / 废墟是固定摆放的静态物体，按摆放位置的种子记录已采集次数，采空后不再掉落。
+ */
+import { hash2iToU32 } from '../core/util/SeededRandom';
+
+export type VegetationLayer = 'trees' | 'grass';
+
+export const VEGETATION_LAYERS: readonly VegetationLayer[] = ['trees', 'grass'];
+
+/**
+ * Serializable removal lists: [chunkKey, instanceSeeds[]] per layer,
+ * plus [sourceSeed, timesHarvested] per rock / ruin (save/load).
+ */
+export type WorldDeltaSnapshot = Record<VegetationLayer, Array<[number, number[]]>> & {
+    harvested: Array<[number, number]>;
+};
+
+// Positions are quantized to 1/16 m; instances within a chunk are never that close.
+const INSTANCE_POSITION_QUANT = 16;
+const INSTANCE_SEED_SALT = 0x2c1b3c6d;
+const HARVEST_SOURCE_SALT = 0x5f3759df;
+
+/**
+ * Stable per-instance id derived from the generated world position.
+ * Positions travel as Float32Array (worker -> main thread), so both sides hash the float32 value.
+ */
+export function vegetationInstanceSeed(x: number, z: number): number {
+    const qx = Math.round(Math.fround(x) * INSTANCE_POSITION_QUANT);
+    const qz = Math.round(Math.fround(z) * INSTANCE_POSITION_QUANT);
+    return hash2iToU32(qx, qz, INSTANCE_SEED_SALT);
+}
+
+/** Stable id of a static harvestable (rock / ruin), derived from where the level placed it. */
+export function harvestSourceSeed(x: number, z: number): number {
+    const qx = Math.round(x * INSTANCE_POSITION_QUANT);
+    const qz = Math.round(z * INSTANCE_POSITION_QUANT);
+    return hash2iToU32(qx, qz, HARVEST_SOURCE_SALT);
+}
+
+export class WorldDeltaStore {
+    private readonly removed: Record<VegetationLayer, Map<number, Set<number>>> = {
+        trees: new Map(),
+        grass: new Map(),
+    };
+    // sourceSeed -> times harvested
+    private readonly harvested = new Map<number, number>();
+
+    public markRemoved(layer: VegetationLayer, chunkKey: number, seed: number): void {
+        const byChunk = this.removed[layer];
+        let seeds = byChunk.get(chunkKey);
+        if (!seeds) {
+            seeds = new Set();
+            byChunk.set(chunkKey, seeds);
+        }
+        seeds.add(seed >>> 0);
+    }
+
+    public isRemoved(layer: VegetationLayer, chunkKey: number, seed: number): boolean {
+        return this.removed[layer].get(chunkKey)?.has(seed >>> 0) ?? false;
+    }
+
+    public hasRemovals(layer: VegetationLayer, chunkKey: number): boolean {
+        return (this.removed[layer].get(chunkKey)?.size ?? 0) > 0;
+    }
+
+    /** Removed instance seeds for a chunk (plain array so it can be posted to the worker). */
+    public getRemoved(layer: VegetationLayer, chunkKey: number): number[] {
+        const seeds = this.removed[layer].get(chunkKey);
+        return seeds ? Array.from(seeds) : [];
+    }
+
+    /**
+     * Take one drop from a rock / ruin.
+     * Returns false (and records nothing) once it has been harvested `maxYield` times.
+     */
+    public takeHarvest(seed: number, maxYield: number): boolean {
+        const key = seed >>> 0;
+        const count = this.harvested.get(key) ?? 0;
+        if (count >= maxYield) return false;
+        this.harvested.set(key, count + 1);
+        return true;
+    }
+
+    public getHarvestCount(seed: number): number {
+        return this.harvested.get(seed >>> 0) ?? 0;
+    }
+
+    public clear(): void {
+        for (const layer of VEGETATION_LAYERS) this.removed[layer].clear();
+        this.harvested.clear();
+    }
+
+    public getSnapshot(): WorldDeltaSnapshot {
+        const out: WorldDeltaSnapshot = { trees: [], grass: [], harvested: [] };
+        for (const layer of VEGETATION_LAYERS) {
+            for (const [chunkKey, seeds] of this.removed[layer]) {
+                if (seeds.size > 0) out[layer].push([chunkKey, Array.from(seeds)]);
+            }
+        }
+        for (const [seed, count] of this.harvested) out.harvested.push([seed, count]);
+        return out;
+    }
+
+    public restoreSnapshot(snapshot: WorldDeltaSnapshot): void {
+        this.clear();
+        for (const layer of VEGETATION_LAYERS) {
+            for (const [chunkKey, seeds] of snapshot[layer] ?? []) {
+                for (const seed of seeds) this.markRemoved(layer, chunkKey, seed);
+            }
+        }
+        for (const [seed, count] of snapshot.harvested ?? []) {
+            if (count > 0) this.harvested.set(seed >>> 0, count);
+        }
+    }
+}
@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { EnemyConfig, PlayerConfig } from '../core/GameConfig';
+import type { Enemy } from '../enemy/Enemy';
+import type { PlayerInputBindings } from './PlayerInputController';
+
+// Standard Gamepad mapping (https://w3c.github.io/gamepad/#remapping).
+const BUTTON = {
+    a: 0,
+    b: 1,
+    x: 2,
+    y: 3,
+    lb: 4,
+    rb: 5,
+    lt: 6,
+    rt: 7,
+    back: 8,
+    leftStick: 10,
+    dpadUp: 12,
+    dpadDown: 13,
+    dpadLeft: 14,
+    dpadRight: 15,
+} as const;
+const BUTTON_COUNT = 17;
+
+/**
+ * Apply a radial dead zone + response curve to a stick, writing the result into `out`.
+ * Output magnitude is 0..1 and starts from 0 right at the dead-zone edge (no jump).
+ */
+export function shapeStick(x: number, y: number, deadZone: number, curve: number, out: THREE.Vector2): THREE.Vector2 {
+    const mag = Math.hypot(x, y);
+    if (mag <= deadZone || mag < 1e-6) return out.set(0, 0);
+    const norm = Math.min(1, (mag - deadZone) / Math.max(1e-6, 1 - deadZone));
+    const shaped = Math.pow(norm, Math.max(0.1, curve));
+    return out.set((x / mag) * shaped, (y / mag) * shaped);
+}
+
+/**
+ * GamepadInputSource - 手柄输入 (轮询 Gamepad API)
+ * 与键鼠共用 PlayerInputBindings 的回调；移动/奔跑/瞄准状态由 PlayerInputController 合并。
+ */
+export class GamepadInputSource {
+    private readonly bindings: PlayerInputBindings;
+    private readonly camera: THREE.Camera | null;
+    private readonly getEnemies: () => readonly Enemy[];
+
+    private connected = false;
+    private readonly prevPressed: boolean[] = new Array(BUTTON_COUNT).fill(false);
+
+    // Held state (merged with keyboard/mouse by PlayerInputController)
+    private readonly move = new THREE.Vector2();
+    private aiming = false;
+    private firing = false;
+    private running = false;
+    private audioResumed = false;
+
+    private readonly tmpLook = new THREE.Vector2();
+    private readonly tmpForward = new THREE.Vector3();
+    private readonly tmpToEnemy = new THREE.Vector3();
+
+    constructor(bindings: PlayerInputBindings) {
+        this.bindings = bindings;
+        this.camera = bindings.camera ?? null;
+        this.getEnemies = bindings.getAimAssistTargets ?? (() => []);
+    }
+
+    /** A pad is connected and enabled in settings. */
+    isActive(): boolean {
+        return this.connected;
+    }
+
+    isAiming(): boolean {
+        return this.aiming;
+    }
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /** Strafe axis (-1 left .. 1 right). */
+    getMoveX(): number {
+        return this.move.x;
+    }
+
+    /** Forward axis (-1 back .. 1 forward). */
+    getMoveZ(): number {
+        return this.move.y;
+    }
+
+    update(delta: number, modalOpen: boolean): void {
+        const s = this.bindings.settings.getRuntimeSettings();
+        const pad = s.gamepadEnabled ? this.findGamepad() : null;
+        this.connected = pad !== null;
+
+        if (!pad || modalOpen) {
+            this.releaseAll();
+            if (pad) this.syncPressed(pad);
+            return;
+        }
+
+        const pressed = (i: number) => {
+            const b = pad.buttons[i];
+            if (!b) return false;
+            return b.pressed || b.value > PlayerConfig.gamepad.triggerThreshold;
+        };
+        const justPressed = (i: number) => pressed(i) && !this.prevPressed[i];
+
+        if (!this.audioResumed && pad.buttons.some((b) => b.pressed)) {
+            this.audioResumed = true;
+            try {
+                this.bindings.resumeAudio();
+            } catch {
+                // ignore
+            }
+        }
+
+        // Movement (left stick; screen-up is negative Y on the Gamepad API)
+        shapeStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0, s.gamepadDeadZone, s.gamepadResponseCurve, this.move);
+        this.move.y = -this.move.y;
+
+        // Sprint: click the left stick; stops when the stick is released.
+        if (justPressed(BUTTON.leftStick)) this.running = !this.running;
+        if (this.move.lengthSq() === 0) this.running = false;
+
+        // Aim / fire (triggers)
+        const aimHeld = pressed(BUTTON.lt);
+        if (aimHeld !== this.aiming) {
+            this.aiming = aimHeld;
+            if (aimHeld) this.bindings.onStartAiming();
+            else this.bindings.onStopAiming();
+        }
+        const fireHeld = pressed(BUTTON.rt);
+        if (fireHeld !== this.firing) {
+            this.firing = fireHeld;
+            if (fireHeld) this.bindings.onTriggerDown(this.aiming);
+            else this.bindings.onTriggerUp();
+        }
+
+        // Look (right stick)
+        const look = shapeStick(pad.axes[2] ?? 0, pad.axes[3] ?? 0, s.gamepadDeadZone, s.gamepadResponseCurve, this.tmpLook);
+        if (look.x !== 0 || look.y !== 0) {
+            const aimProgress = this.bindings.getAimProgress();
+            const aimScale = 1 - aimProgress * (1 - s.aimSensitivityMultiplier);
+            const speed = s.gamepadLookSensitivity * aimScale * this.getAimAssistScale(s.gamepadAimAssist) * delta;
+            const invert = s.gamepadInvertY ? -1 : 1;
+            // Same sign convention as mouse look in PlayerInputController.
+            this.bindings.onLookDelta(-look.x * speed, -look.y * speed * invert);
+        }
+
+        // Buttons (edge-triggered)
+        if (justPressed(BUTTON.a)) this.bindings.onJumpPressed();
+        if (justPressed(BUTTON.b)) this.bindings.onToggleCrouch();
+        if (justPressed(BUTTON.dpadDown)) this.bindings.onToggleProne();
+        if (justPressed(BUTTON.x)) this.bindings.onReload();
+        if (justPressed(BUTTON.y)) this.bindings.onSwitchNextWeapon();
+        if (justPressed(BUTTON.lb)) this.bindings.onSwitchPrevWeapon();
+        if (justPressed(BUTTON.rb)) this.bindings.onQuickThrowGrenade();
+        if (justPressed(BUTTON.dpadUp)) this.bindings.onPickup();
+        if (justPressed(BUTTON.dpadLeft)) this.bindings.onUseBandage();
+        if (justPressed(BUTTON.dpadRight)) this.bindings.onToggleBuildMode();
+        if (justPressed(BUTTON.back)) this.bindings.onWeatherCycle();
+
+        this.syncPressed(pad);
+    }
+
+    /** Release held sticks / triggers (e.g. when a replay takes over). */
+    releaseHeld(): void {
+        this.releaseAll();
+    }
+
+    dispose(): void {
+        this.releaseAll();
+    }
+
+    private findGamepad(): Gamepad | null {
+        if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return null;
+        const pads = navigator.getGamepads();
+        for (const pad of pads) {
+            if (pad && pad.connected && pad.mapping === 'standard') return pad;
+        }
+        return null;
+    }
+
+    private syncPressed(pad: Gamepad): void {
+        for (let i = 0; i < BUTTON_COUNT; i++) {
+            const b = pad.buttons[i];
+            this.prevPressed[i] = !!b && (b.pressed || b.value > PlayerConfig.gamepad.triggerThreshold);
+        }
+    }
+
+    private releaseAll(): void {
+        this.move.set(0, 0);
+        this.running = false;
+        if (this.firing) {
+            this.firing = false;
+            this.bindings.onTriggerUp();
+        }
+        if (this.aiming) {
+            this.aiming = false;
+            this.bindings.onStopAiming();
+        }
+    }
+
+    /**
+     * Aim assist: slow the look speed while the crosshair sits near a living enemy.
+     * Returns a multiplier in (0, 1].
+     */
+    private getAimAssistScale(strength: number): number {
+        if (strength <= 0 || !this.camera) return 1;
+
+        const cfg = PlayerConfig.gamepad.aimAssist;
+        const origin = this.camera.position;
+        const forward = this.camera.getWorldDirection(this.tmpForward);
+        const cosCone = Math.cos(cfg.angle);
+        const rangeSq = cfg.range * cfg.range;
+
+        let best = 0;
+        for (const enemy of this.getEnemies()) {
+            if (enemy.isDead) continue;
+            const toEnemy = this.tmpToEnemy.copy(enemy.mesh.position);
+            toEnemy.y += EnemyConfig.collision.targetHeightOffset;
+            toEnemy.sub(origin);
+            const distSq = toEnemy.lengthSq();
+            if (distSq > rangeSq || distSq < 1e-4) continue;
+
+            const cos = toEnemy.dot(forward) / Math.sqrt(distSq);
+            if (cos < cosCone) continue;
+            // 1 when dead-center, 0 at the cone edge.
+            const angle = Math.acos(Math.min(1, cos));
+            best = Math.max(best, 1 - angle / cfg.angle);
+        }
+
+        return 1 - best * cfg.maxSlowdown * Math.min(1, strength);
+    }
+}
@@ -1,15 +1,49 @@
 import * as THREE from 'three';
 import type { ParticleSimulation } from '../core/gpu/GpuSimulationFacade';
-import { PlayerConfig } from '../core/GameConfig';
+import { CraftingConfig, DevConsoleConfig, EnemyConfig, InitialState, PlayerConfig, SurvivalConfig } from '../core/GameConfig';
 import { PlayerWeaponSystem } from '../weapon/PlayerWeaponSystem';
 import type { RuntimeSettingsSource } from '../core/settings/RuntimeSettings';
 import { PlayerInputController } from './PlayerInputController';
+import {
+    clearPlayerInputFrame,
+    createPlayerInputFrame,
+    type PlayerCommand,
+    type PlayerInputFrame,
+    type PlayerInputOverride,
+} from './PlayerInputFrame';
 import type { GameServices } from '../core/services/GameServices';
 import type { GameEventBus } from '../core/events/GameEventBus';
 
 import { PhysicsSystem } from '../core/PhysicsSystem';
 import { Enemy } from '../enemy/Enemy';
 import { getUserData } from '../types/GameUserData';
+import type { StanceType } from '../core/GameState';
+import type { LoadoutSlotId, WeaponId, WeaponScopeDefinition } from '../weapon/WeaponTypes';
+import { getWeaponScope } from '../weapon/WeaponDefinitions';
+import { ScopeZoomState, getScopedFov } from '../weapon/WeaponScope';
+import type { BuildModeController } from '../building/BuildingTypes';
+import { craftRecipe } from '../crafting/Crafting';
+import type { RecipeId } from '../crafting/CraftingTypes';
+
+/** Serializable player transform (save/load). Position is the physics position (no visual offset). */
+export interface PlayerSnapshot {
+    position: { x: number; y: number; z: number };
+    yaw: number;
+    pitch: number;
+    stance: StanceType;
+    weapon: WeaponId;
+    /** Zoom step per scoped weapon (absent = default zoom). */
+    scopeZoom: Partial<Record<WeaponId, number>>;
+}
+
+/** The optic currently in use (see getActiveScope). */
+export type ActiveScope = {
+    weapon: WeaponId;
+    scope: WeaponScopeDefinition;
+    magnification: number;
+    /** Picture-in-picture lens instead of narrowing the camera FOV. */
+    pip: boolean;
+};
 
 export class PlayerController {
     private readonly settings: RuntimeSettingsSource;
@@ -22,6 +56,26 @@ export class PlayerController {
     private physicsSystem: PhysicsSystem;
 
     private input: PlayerInputController;
+
+    // Live input arrives between steps; it is queued here and applied at the next step,
+    // so live play and replay playback go through exactly the same path.
+    private readonly pendingCommands: PlayerCommand[] = [];
+    private pendingLookYaw = 0;
+    private pendingLookPitch = 0;
+    private readonly inputFrame: PlayerInputFrame = createPlayerInputFrame();
+    private inputOverride: PlayerInputOverride | null = null;
+    private inputObserver: ((frame: PlayerInputFrame) => void) | null = null;
+
+    // Quick-throw switches back to the previous weapon after a (simulated) delay.
+    private quickThrowRestoreWeapon: WeaponId | null = null;
+    private quickThrowRestoreTimer = 0;
+
+    // Debug fly mode (dev console): no gravity, no collisions.
+    private noclip = false;
+
+    // Scoped weapons: zoom step per weapon (wheel while aiming), and whether the lens is a PIP render.
+    private readonly scopeZoom = new ScopeZoomState();
+    private pipScope = false;
     
     private canJump: boolean = false;
     
@@ -29,6 +83,16 @@ export class PlayerController {
     private stance: 'stand' | 'crouch' | 'prone' = 'stand';
     private targetCameraHeight: number = PlayerConfig.stance.stand.height;
 
+    // 本帧是否在奔跑 / 移动 (供体力等系统读取)
+    private sprinting: boolean = false;
+    private moving: boolean = false;
+    // 冲刺脚步噪音计时 (world:noise)
+    private sprintNoiseTimer: number = 0;
+
+    // 外部系统通过事件设置的速度倍率 (按来源区分，取最小值)
+    private readonly speedMultipliers = new Map<string, number>();
+    private readonly unsubscribeEvents: () => void;
+
     private velocity: THREE.Vector3 = new THREE.Vector3();
     private direction: THREE.Vector3 = new THREE.Vector3();
 
@@ -55,6 +119,12 @@ export class PlayerController {
     // 地形高度回调
     private onGetGroundHeight: ((x: number, z: number) => number) | null = null;
 
+    // 手柄辅助瞄准候选目标 (EnemySystem.all)
+    private enemies: readonly Enemy[] = [];
+
+    // 建造模式 (开启时开火/滚轮/R 改为放置/切换构件/旋转)
+    private buildController: BuildModeController | null = null;
+
     
     private objects: THREE.Object3D[] = [];
 
@@ -95,45 +165,183 @@ export class PlayerController {
 
         this.weaponSystem = new PlayerWeaponSystem(camera, scene, this.physicsSystem, this.services, this.events);
 
+        this.unsubscribeEvents = this.events.on('player:setSpeedMultiplier', (e) => {
+            if (e.multiplier >= 1) {
+                this.speedMultipliers.delete(e.source);
+            } else {
+                this.speedMultipliers.set(e.source, Math.max(0, e.multiplier));
+            }
+        });
+
         this.input = new PlayerInputController({
             domElement: this.domElement,
             settings: this.settings,
             getAimProgress: () => this.weaponSystem.getAimProgress(),
+            camera: this.camera,
+            getAimAssistTargets: () => this.enemies,
             resumeAudio: () => {
                 void this.services.sound.resume();
             },
 
-            onTriggerDown: (isAiming) => this.weaponSystem.onTriggerDown(isAiming),
-            onTriggerUp: () => this.weaponSystem.onTriggerUp(),
-            onStartAiming: () => this.weaponSystem.startAiming(),
-            onStopAiming: () => this.weaponSystem.stopAiming(),
+            onTriggerDown: (isAiming) => this.pendingCommands.push({ type: 'triggerDown', aiming: isAiming }),
+            onTriggerUp: () => this.pendingCommands.push({ type: 'triggerUp' }),
+            onStartAiming: () => this.pendingCommands.push({ type: 'startAiming' }),
+            onStopAiming: () => this.pendingCommands.push({ type: 'stopAiming' }),
 
-            onSwitchNextWeapon: () => this.weaponSystem.switchToNextWeapon(),
-            onSwitchPrevWeapon: () => this.weaponSystem.switchToPrevWeapon(),
-            onSwitchToWeapon: (id) => this.weaponSystem.switchToWeapon(id),
+            onSwitchNextWeapon: () => this.pendingCommands.push({ type: 'nextWeapon' }),
+            onSwitchPrevWeapon: () => this.pendingCommands.push({ type: 'prevWeapon' }),
+            onSwitchToWeapon: (id) => this.pendingCommands.push({ type: 'switchWeapon', weapon: id }),
 
-            onQuickThrowGrenade: () => this.quickThrowGrenade(),
+            onQuickThrowGrenade: () => this.pendingCommands.push({ type: 'quickGrenade' }),
+            onReload: () => this.pendingCommands.push({ type: 'reload' }),
+            onUseBandage: () => this.pendingCommands.push({ type: 'useBandage' }),
 
-            onPickup: () => {
-                this.onPickupAttempt?.();
-            },
-            onWeatherCycle: () => {
-                this.onWeatherCycle?.();
-            },
+            onPickup: () => this.pendingCommands.push({ type: 'pickup' }),
+            onWeatherCycle: () => this.pendingCommands.push({ type: 'weatherCycle' }),
+            onToggleBuildMode: () => this.pendingCommands.push({ type: 'toggleBuild' }),
 
-            onJumpPressed: () => this.handleJumpPressed(),
-            onToggleCrouch: () => this.toggleCrouch(),
-            onToggleProne: () => this.toggleProne(),
+            onJumpPressed: () => this.pendingCommands.push({ type: 'jump' }),
+            onToggleCrouch: () => this.pendingCommands.push({ type: 'toggleCrouch' }),
+            onToggleProne: () => this.pendingCommands.push({ type: 'toggleProne' }),
 
             onLookDelta: (yawDelta, pitchDelta) => {
-                this.targetYaw += yawDelta;
-                this.targetPitch += pitchDelta;
-                // Clamp pitch
-                this.targetPitch = Math.max(-Math.PI / 2 + 0.1, Math.min(Math.PI / 2 - 0.1, this.targetPitch));
+                this.pendingLookYaw += yawDelta;
+                this.pendingLookPitch += pitchDelta;
             },
         });
     }
 
+    private executeCommand(command: PlayerCommand): void {
+        switch (command.type) {
+            case 'triggerDown':
+                if (this.buildController?.isActive()) {
+                    this.buildController.place();
+                    return;
+                }
+                this.weaponSystem.onTriggerDown(command.aiming);
+                return;
+            case 'triggerUp':
+                this.weaponSystem.onTriggerUp();
+                return;
+            case 'startAiming':
+                this.weaponSystem.startAiming();
+                return;
+            case 'stopAiming':
+                this.weaponSystem.stopAiming();
+                return;
+            case 'nextWeapon':
+                if (this.buildController?.isActive()) this.buildController.cyclePiece(1);
+                else if (!this.cycleScopeZoom(-1)) this.weaponSystem.switchToNextWeapon();
+                return;
+            case 'prevWeapon':
+                if (this.buildController?.isActive()) this.buildController.cyclePiece(-1);
+                else if (!this.cycleScopeZoom(1)) this.weaponSystem.switchToPrevWeapon();
+                return;
+            case 'switchWeapon':
+                this.weaponSystem.switchToWeapon(command.weapon);
+                return;
+            case 'quickGrenade':
+                this.quickThrowGrenade();
+                return;
+            case 'reload':
+                if (this.buildController?.isActive()) this.buildController.rotate();
+                else this.weaponSystem.reload();
+                return;
+            case 'useBandage':
+                this.useBandage();
+                return;
+            case 'pickup':
+                this.onPickupAttempt?.();
+                return;
+            case 'weatherCycle':
+                this.onWeatherCycle?.();
+                return;
+            case 'toggleBuild':
+                this.toggleBuildMode();
+                return;
+            case 'jump':
+                this.handleJumpPressed();
+                return;
+            case 'toggleCrouch':
+                this.toggleCrouch();
+                return;
+            case 'toggleProne':
+                this.toggleProne();
+                return;
+            case 'craft':
+                craftRecipe(command.recipe, {
+                    state: this.services.state,
+                    events: this.events,
+                    equipToSlot: (slot, weapon) => this.equipToSlot(slot, weapon),
+                });
+                return;
+        }
+    }
+
+    /** While aiming a scoped weapon the weapon-cycle inputs (wheel) step the zoom instead. */
+    private cycleScopeZoom(direction: 1 | -1): boolean {
+        if (!this.inputFrame.aiming) return false;
+        return this.scopeZoom.cycle(this.weaponSystem.getCurrentWeaponId(), direction);
+    }
+
+    /** Build this step's input frame from live input or the active override. */
+    private sampleInput(): PlayerInputFrame {
+        const frame = this.inputFrame;
+        if (this.inputOverride) {
+            // Live input keeps being polled (so held keys stay in sync) but doesn't drive the player.
+            this.discardLiveInput();
+            if (!this.inputOverride.next(frame)) clearPlayerInputFrame(frame);
+            return frame;
+        }
+
+        const input = this.input;
+        frame.hasControl = input.hasControl();
+        frame.moveForward = input.getMoveForward();
+        frame.moveBackward = input.getMoveBackward();
+        frame.moveLeft = input.getMoveLeft();
+        frame.moveRight = input.getMoveRight();
+        // Analog values are rounded to float32 so a recording reproduces exactly what live play used.
+        frame.moveX = Math.fround(input.getMoveAxisX());
+        frame.moveZ = Math.fround(input.getMoveAxisZ());
+        frame.running = input.isRunning();
+        frame.aiming = input.isAiming();
+        frame.lookYaw = Math.fround(this.pendingLookYaw);
+        frame.lookPitch = Math.fround(this.pendingLookPitch);
+        frame.commands.length = 0;
+        for (const command of this.pendingCommands) frame.commands.push(command);
+        this.discardLiveInput();
+        return frame;
+    }
+
+    private discardLiveInput(): void {
+        this.pendingCommands.length = 0;
+        this.pendingLookYaw = 0;
+        this.pendingLookPitch = 0;
+    }
+
+    /**
+     * Replace live input with a recorded stream (null returns control to the player).
+     * Held weapon actions are released so both sides start from the same state.
+     */
+    public setInputOverride(override: PlayerInputOverride | null): void {
+        this.inputOverride = override;
+        this.releaseHeldInput();
+    }
+
+    /** Called with every applied input frame (replay recording). The frame is reused; copy what you keep. */
+    public setInputObserver(observer: ((frame: PlayerInputFrame) => void) | null): void {
+        this.inputObserver = observer;
+    }
+
+    /** Stop firing / aiming and forget queued input (recording / playback boundaries). */
+    public releaseHeldInput(): void {
+        this.input.releaseHeld();
+        this.discardLiveInput();
+        this.weaponSystem.onTriggerUp();
+        this.weaponSystem.stopAiming();
+        this.quickThrowRestoreWeapon = null;
+    }
+
     private handleJumpPressed(): void {
         // If crouching/prone, Space stands up first.
         if (this.stance !== 'stand') {
@@ -162,15 +370,48 @@ export class PlayerController {
         const prevWeapon = this.weaponSystem.getCurrentWeaponId();
         this.weaponSystem.switchToWeapon('grenade');
         this.weaponSystem.onTriggerDown(false);
-        setTimeout(() => {
-            this.weaponSystem.switchToWeapon(prevWeapon);
-        }, 1000);
+        // Stepped in update() rather than setTimeout so it stays in sync with the simulation.
+        this.quickThrowRestoreWeapon = prevWeapon;
+        this.quickThrowRestoreTimer = 1;
     }
     
+    private toggleBuildMode(): void {
+        if (!this.buildController) return;
+        // Stop any held automatic fire before the trigger is repurposed for placing.
+        this.weaponSystem.onTriggerUp();
+        this.buildController.toggle();
+    }
+
+    /**
+     * 使用绷带回血 (满血时不消耗)
+     */
+    private useBandage(): void {
+        const state = this.services.state.getState();
+        if ((state.items.bandage ?? 0) <= 0) return;
+        if (state.health >= InitialState.health) return;
+
+        this.events.emit({ type: 'state:updateItem', item: 'bandage', delta: -1 });
+        this.events.emit({ type: 'state:updateHealth', delta: CraftingConfig.items.bandage.heal });
+        this.events.emit({ type: 'sound:play', sound: 'pickup' });
+    }
+
+    /** Queue a craft for the next step (UI action; goes through the command stream so replays include it). */
+    public queueCraft(recipe: RecipeId): void {
+        this.pendingCommands.push({ type: 'craft', recipe });
+    }
+
+    /**
+     * 装备武器到指定槽位 (null 清空槽位)
+     */
+    public equipToSlot(slot: LoadoutSlotId, weapon: WeaponId | null): boolean {
+        return this.weaponSystem.equipToSlot(slot, weapon);
+    }
+
     /**
      * 设置敌人列表 (用于射击检测优化)
      */
     public setEnemies(enemies: Enemy[]) {
+        this.enemies = enemies;
         this.weaponSystem.setEnemies(enemies);
     }
 
@@ -215,6 +456,13 @@ export class PlayerController {
         this.onWeatherCycle = callback;
     }
     
+    /**
+     * 设置建造控制器
+     */
+    public setBuildController(controller: BuildModeController) {
+        this.buildController = controller;
+    }
+
     /**
      * 设置地形高度回调
      */
@@ -237,6 +485,53 @@ export class PlayerController {
         this.visualYOffset = 0;
     }
 
+    /** Move to a world position (physics position, no visual offset) and stop all motion. */
+    public teleport(x: number, y: number, z: number): void {
+        this.camera.position.set(x, y, z);
+        this.resetPhysics();
+    }
+
+    public isNoclip(): boolean {
+        return this.noclip;
+    }
+
+    public setNoclip(enabled: boolean): void {
+        if (this.noclip === enabled) return;
+        this.camera.position.y -= this.visualYOffset;
+        this.noclip = enabled;
+        this.resetPhysics();
+        // Fall from wherever noclip ended.
+        if (!enabled) this.canJump = false;
+    }
+
+    public getSnapshot(): PlayerSnapshot {
+        const p = this.camera.position;
+        return {
+            position: { x: p.x, y: p.y - this.visualYOffset, z: p.z },
+            yaw: this.targetYaw,
+            pitch: this.targetPitch,
+            stance: this.stance,
+            weapon: this.weaponSystem.getCurrentWeaponId(),
+            scopeZoom: this.scopeZoom.getSnapshot(),
+        };
+    }
+
+    public restoreSnapshot(snapshot: PlayerSnapshot) {
+        this.setStance(snapshot.stance);
+        // GameState (incl. loadout) is restored before the player; pick up the restored slots first.
+        this.weaponSystem.syncLoadout();
+        this.weaponSystem.switchToWeapon(snapshot.weapon);
+        this.scopeZoom.restoreSnapshot(snapshot.scopeZoom);
+
+        this.yaw = this.targetYaw = snapshot.yaw;
+        this.pitch = this.targetPitch = snapshot.pitch;
+        this.camera.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
+
+        this.camera.position.set(snapshot.position.x, snapshot.position.y, snapshot.position.z);
+        // setStance() queued a visual height blend; drop it so the camera lands exactly on the saved position.
+        this.resetPhysics();
+    }
+
     public update(delta: number) {
         // Debug Log every 60 frames
         this.frameCount++;
@@ -249,13 +544,34 @@ export class PlayerController {
             }
         }
 
+        // 轮询手柄等逐帧输入
+        this.input.update(delta);
+
+        // 本步输入 (实时或回放)
+        const input = this.sampleInput();
+        this.inputObserver?.(input);
+        for (const command of input.commands) this.executeCommand(command);
+
+        this.targetYaw += input.lookYaw;
+        this.targetPitch += input.lookPitch;
+        // Clamp pitch
+        this.targetPitch = Math.max(-Math.PI / 2 + 0.1, Math.min(Math.PI / 2 - 0.1, this.targetPitch));
+
+        if (this.quickThrowRestoreWeapon) {
+            this.quickThrowRestoreTimer -= delta;
+            if (this.quickThrowRestoreTimer <= 0) {
+                this.weaponSystem.switchToWeapon(this.quickThrowRestoreWeapon);
+                this.quickThrowRestoreWeapon = null;
+            }
+        }
+
         // 更新武器系统
         this.weaponSystem.update(delta);
         
         // 更新 FOV (由武器瞄准进度驱动)
         this.updateFOV(delta);
         
-        if (this.input.isLocked() === true) {
+        if (input.hasControl) {
             // Restore physics position (remove visual offset from previous frame)
             this.camera.position.y -= this.visualYOffset;
 
@@ -269,6 +585,11 @@ export class PlayerController {
 
             this.camera.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
 
+            if (this.noclip) {
+                this.updateNoclip(input, delta);
+                return;
+            }
+
             // 2. Movement Physics
             // Friction / Damping (Exponential decay for frame-rate independence)
             // Fix: Using simple subtraction causes instability at low FPS or high friction
@@ -276,10 +597,10 @@ export class PlayerController {
             this.velocity.x *= damping;
             this.velocity.z *= damping;
 
-            const moveForward = this.input.getMoveForward();
-            const moveBackward = this.input.getMoveBackward();
-            const moveLeft = this.input.getMoveLeft();
-            const moveRight = this.input.getMoveRight();
+            const moveForward = input.moveForward;
+            const moveBackward = input.moveBackward;
+            const moveLeft = input.moveLeft;
+            const moveRight = input.moveRight;
             const wantsMove = moveForward || moveBackward || moveLeft || moveRight;
             // If we are grounded and not trying to move, don't apply gravity every frame.
             // This avoids doing a vertical collision broadphase just to cancel gravity.
@@ -290,9 +611,10 @@ export class PlayerController {
                 this.velocity.y = 0;
             }
 
-            this.direction.z = Number(moveForward) - Number(moveBackward);
-            this.direction.x = Number(moveRight) - Number(moveLeft);
-            this.direction.normalize();
+            // Analog sticks give partial deflection; keys stay unit length on diagonals.
+            this.direction.z = input.moveZ;
+            this.direction.x = input.moveX;
+            if (this.direction.lengthSq() > 1) this.direction.normalize();
 
             // 根据姿态调整速度
             let stanceMultiplier = 1.0;
@@ -302,10 +624,16 @@ export class PlayerController {
                 stanceMultiplier = PlayerConfig.stance.prone.speedMultiplier;
             }
             
-            // 趴下和蹲下时不能跑步
-            const canRun = this.stance === 'stand' && this.input.isRunning();
+            // 趴下和蹲下时不能跑步；体力耗尽后需恢复到阈值才能再次起跑
+            const stamina = this.services.state.getState().survival.stamina;
+            const hasStamina = this.sprinting ? stamina > 0 : stamina >= SurvivalConfig.stamina.minToSprint;
+            const canRun = this.stance === 'stand' && input.running && hasStamina;
+            this.sprinting = canRun && wantsMove;
+            this.moving = wantsMove;
+            this.updateSprintNoise(delta);
+
             const s = this.settings.getRuntimeSettings();
-            const currentSpeed = (canRun ? s.runSpeed : s.walkSpeed) * stanceMultiplier;
+            const currentSpeed = (canRun ? s.runSpeed : s.walkSpeed) * stanceMultiplier * this.getSpeedMultiplier();
 
             if (moveForward || moveBackward) this.velocity.z -= this.direction.z * currentSpeed * delta;
             if (moveLeft || moveRight) this.velocity.x -= this.direction.x * currentSpeed * delta;
@@ -425,9 +753,47 @@ export class PlayerController {
             
             // Apply offset for rendering
             this.camera.position.y += this.visualYOffset;
+        } else {
+            this.sprinting = false;
+            this.moving = false;
         }
     }
 
+    /** Noclip: fly along the view direction, ignoring gravity and colliders. */
+    private updateNoclip(input: PlayerInputFrame, delta: number) {
+        this.sprinting = false;
+        this.moving = false;
+        this.velocity.set(0, 0, 0);
+
+        const cfg = DevConsoleConfig.noclip;
+        const speed = cfg.speed * (input.running ? cfg.fastMultiplier : 1);
+
+        const forward = this.camera.getWorldDirection(this.tmpForward);
+        const right = this.tmpRight.crossVectors(forward, this.camera.up).normalize();
+        this.camera.position.addScaledVector(forward, input.moveZ * speed * delta);
+        this.camera.position.addScaledVector(right, input.moveX * speed * delta);
+    }
+
+    /** Sprinting footsteps are loud enough for nearby enemies to hear. */
+    private updateSprintNoise(delta: number) {
+        if (!this.sprinting) {
+            this.sprintNoiseTimer = 0;
+            return;
+        }
+        this.sprintNoiseTimer -= delta;
+        if (this.sprintNoiseTimer > 0) return;
+
+        const hearing = EnemyConfig.ai.hearing;
+        this.sprintNoiseTimer = hearing.sprintInterval;
+        const p = this.camera.position;
+        this.events.emit({
+            type: 'world:noise',
+            source: 'footstep',
+            position: { x: p.x, y: p.y, z: p.z },
+            radius: hearing.sprintRadius,
+        });
+    }
+
     private handleObstacle(obstacleTopY: number, dx: number, dz: number) {
         // Only attempt to step up if we are moving
         if (Math.abs(dx) < 0.001 && Math.abs(dz) < 0.001) return;
@@ -549,21 +915,11 @@ export class PlayerController {
         const aimProgress = this.weaponSystem.getAimProgress();
         const s = this.settings.getRuntimeSettings();
 
-        // 16x scope for long-range terrain observation.
-        // We only apply this to the sniper to avoid changing iron-sight weapons.
-        const weaponId = this.weaponSystem.getCurrentWeaponId();
-        const scopeMagnification = 16;
-
-        const scopedAimFov = (() => {
-            // Magnification definition: M = tan(FOV_default/2) / tan(FOV_scoped/2)
-            // => FOV_scoped = 2 * atan(tan(FOV_default/2) / M)
-            const half = THREE.MathUtils.degToRad(s.defaultFov * 0.5);
-            const scopedHalf = Math.atan(Math.tan(half) / scopeMagnification);
-            // Clamp to a sane minimum to avoid numerical weirdness.
-            return THREE.MathUtils.clamp(THREE.MathUtils.radToDeg(scopedHalf * 2), 1.0, s.defaultFov);
-        })();
-
-        const aimFov = weaponId === 'sniper' ? scopedAimFov : s.aimFov;
+        // Scoped weapons zoom to their magnification; iron sights use the aim FOV.
+        // A PIP scope magnifies inside the lens only, so the camera keeps the normal FOV.
+        const scope = this.getActiveScope();
+        let aimFov = s.aimFov;
+        if (scope) aimFov = scope.pip ? s.defaultFov : getScopedFov(s.defaultFov, scope.magnification);
         const targetFov = THREE.MathUtils.lerp(s.defaultFov, aimFov, aimProgress);
 
         perspectiveCamera.fov = THREE.MathUtils.lerp(perspectiveCamera.fov, targetFov, delta * s.fovLerpSpeed);
@@ -575,7 +931,7 @@ export class PlayerController {
      * 获取是否正在瞄准
      */
     public getIsAiming(): boolean {
-        return this.input.isAiming();
+        return this.inputFrame.aiming;
     }
     
     /**
@@ -637,7 +993,36 @@ export class PlayerController {
         return this.stance;
     }
 
+    /** Scope of the current weapon (null for iron sights / non-aimable weapons). */
+    public getActiveScope(): ActiveScope | null {
+        const weapon = this.weaponSystem.getCurrentWeaponId();
+        const scope = getWeaponScope(weapon);
+        if (!scope) return null;
+        return { weapon, scope, magnification: this.scopeZoom.getMagnification(weapon), pip: this.pipScope };
+    }
+
+    /** Graphics option: render scopes as a picture-in-picture lens. */
+    public setPipScope(enabled: boolean): void {
+        this.pipScope = enabled;
+    }
+
+    /** True while the player is actually sprinting this frame (input + stance + stamina). */
+    public isSprinting(): boolean {
+        return this.sprinting;
+    }
+
+    public isMoving(): boolean {
+        return this.moving;
+    }
+
+    private getSpeedMultiplier(): number {
+        let m = 1.0;
+        for (const v of this.speedMultipliers.values()) m = Math.min(m, v);
+        return m;
+    }
+
     public dispose() {
+        this.unsubscribeEvents();
         this.weaponSystem.dispose();
         this.input.dispose();
         this.input.unlock();
@@ -1,5 +1,16 @@
+import type * as THREE from 'three';
 import type { RuntimeSettingsSource } from '../core/settings/RuntimeSettings';
+import type { Enemy } from '../enemy/Enemy';
 import type { WeaponId } from '../weapon/WeaponTypes';
+import {
+    HELD_INPUT_ACTIONS,
+    buildBindingLookup,
+    mouseButtonBinding,
+    wheelBinding,
+    type ControlBindingMap,
+    type InputAction,
+} from '../core/settings/ControlBindings';
+import { GamepadInputSource } from './GamepadInputSource';
 
 export type PlayerInputBindings = {
     domElement: HTMLElement;
@@ -22,9 +33,12 @@ export type PlayerInputBindings = {
     onSwitchToWeapon: (id: WeaponId) => void;
 
     onQuickThrowGrenade: () => void;
+    onReload: () => void;
+    onUseBandage: () => void;
 
     onPickup: () => void;
     onWeatherCycle: () => void;
+    onToggleBuildMode: () => void;
 
     onJumpPressed: () => void;
     onToggleCrouch: () => void;
@@ -35,10 +49,15 @@ export type PlayerInputBindings = {
 
     // Look input (already multiplied by sensitivity)
     onLookDelta: (yawDelta: number, pitchDelta: number) => void;
+
+    // Gamepad aim assist (optional): view camera + candidate targets.
+    camera?: THREE.Camera;
+    getAimAssistTargets?: () => readonly Enemy[];
 };
 
 export class PlayerInputController {
     private readonly bindings: PlayerInputBindings;
+    private readonly gamepad: GamepadInputSource;
 
     private locked = false;
     private aiming = false;
@@ -53,11 +72,21 @@ export class PlayerInputController {
     // Weapon switch throttle
     private lastWeaponSwitchTime = 0;
 
+    // Binding code -> actions, rebuilt when settings.controls changes.
+    private bindingLookup = new Map<string, InputAction[]>();
+    private lookupSource: ControlBindingMap | null = null;
+
     constructor(bindings: PlayerInputBindings) {
         this.bindings = bindings;
+        this.gamepad = new GamepadInputSource(bindings);
         this.attach();
     }
 
+    /** Poll per-frame input sources (gamepad). */
+    update(delta: number): void {
+        this.gamepad.update(delta, this.isUiModalOpen());
+    }
+
     private isUiModalOpen(): boolean {
         return document.body?.dataset?.uiModalOpen === '1';
     }
@@ -77,34 +106,65 @@ export class PlayerInputController {
         doc.removeEventListener('mousemove', this.onMouseMove);
         doc.removeEventListener('keydown', this.onKeyDown);
         doc.removeEventListener('keyup', this.onKeyUp);
+
+        this.gamepad.dispose();
+    }
+
+    /** Drop held aim / fire (and gamepad holds) without waiting for their release events. */
+    releaseHeld(): void {
+        if (this.aiming) {
+            this.aiming = false;
+            this.bindings.onStopAiming();
+        }
+        this.bindings.onTriggerUp();
+        this.gamepad.releaseHeld();
     }
 
     isLocked(): boolean {
         return this.locked;
     }
 
+    /** Player input should drive the character: pointer locked, or a gamepad is in use. */
+    hasControl(): boolean {
+        return this.locked || (this.gamepad.isActive() && !this.isUiModalOpen());
+    }
+
     isRunning(): boolean {
-        return this.running;
+        return this.running || this.gamepad.isRunning();
     }
 
     isAiming(): boolean {
-        return this.aiming;
+        return this.aiming || this.gamepad.isAiming();
     }
 
     getMoveForward(): boolean {
-        return this.moveForward;
+        return this.moveForward || this.gamepad.getMoveZ() > 0;
     }
 
     getMoveBackward(): boolean {
-        return this.moveBackward;
+        return this.moveBackward || this.gamepad.getMoveZ() < 0;
     }
 
     getMoveLeft(): boolean {
-        return this.moveLeft;
+        return this.moveLeft || this.gamepad.getMoveX() < 0;
     }
 
     getMoveRight(): boolean {
-        return this.moveRight;
+        return this.moveRight || this.gamepad.getMoveX() > 0;
+    }
+
+    /** Strafe axis -1..1 (analog stick wins over keys when deflected). */
+    getMoveAxisX(): number {
+        const pad = this.gamepad.getMoveX();
+        if (pad !== 0 || this.gamepad.getMoveZ() !== 0) return pad;
+        return Number(this.moveRight) - Number(this.moveLeft);
+    }
+
+    /** Forward axis -1..1 (analog stick wins over keys when deflected). */
+    getMoveAxisZ(): number {
+        const pad = this.gamepad.getMoveZ();
+        if (pad !== 0 || this.gamepad.getMoveX() !== 0) return pad;
+        return Number(this.moveForward) - Number(this.moveBackward);
     }
 
     requestLock(): void {
@@ -159,42 +219,23 @@ export class PlayerInputController {
 
     private readonly onMouseDown = (event: MouseEvent) => {
         if (this.isUiModalOpen()) return;
-        if (event.button === 0) {
-            // In some embedded runtimes (Tauri WebView), pointer lock can fail with WrongDocumentError.
-            // Firing should still work even without lock, so don't hard-gate left click.
-            if (!this.locked) this.requestLock();
-            this.bindings.onTriggerDown(this.aiming);
-        } else if (event.button === 2) {
-            if (!this.locked) this.requestLock();
-            this.aiming = true;
-            this.bindings.onStartAiming();
-        }
+        // In some embedded runtimes (Tauri WebView), pointer lock can fail with WrongDocumentError.
+        // Firing should still work even without lock, so don't hard-gate mouse actions.
+        if (!this.locked) this.requestLock();
+        this.dispatch(mouseButtonBinding(event.button), true);
     };
 
     private readonly onMouseUp = (event: MouseEvent) => {
         if (this.isUiModalOpen()) return;
-        if (event.button === 0) {
-            this.bindings.onTriggerUp();
-        } else if (event.button === 2) {
-            this.aiming = false;
-            this.bindings.onStopAiming();
-        }
+        this.dispatch(mouseButtonBinding(event.button), false);
     };
 
     private readonly onWheel = (event: WheelEvent) => {
         if (!this.locked) return;
-
-        const now = performance.now();
-        const cooldown = this.bindings.settings.getRuntimeSettings().weaponSwitchCooldownMs;
-        if (now - this.lastWeaponSwitchTime < cooldown) return;
-
-        if (event.deltaY > 0) {
-            this.bindings.onSwitchNextWeapon();
-            this.lastWeaponSwitchTime = now;
-        } else if (event.deltaY < 0) {
-            this.bindings.onSwitchPrevWeapon();
-            this.lastWeaponSwitchTime = now;
-        }
+        const code = wheelBinding(event.deltaY);
+        if (!code) return;
+        // A wheel notch is a press without a release.
+        this.dispatch(code, true);
     };
 
     private readonly onContextMenu = (event: MouseEvent) => {
@@ -236,76 +277,132 @@ export class PlayerInputController {
     };
 
     private readonly onKeyDown = (event: KeyboardEvent) => {
-        switch (event.code) {
-            case 'ArrowUp':
-            case 'KeyW':
+        // UI overlays (settings/crafting) own the keyboard; key-ups below still clear held movement.
+        if (this.isUiModalOpen()) return;
+        this.dispatch(event.code, true, event.repeat);
+    };
+
+    private readonly onKeyUp = (event: KeyboardEvent) => {
+        this.dispatch(event.code, false);
+    };
+
+    private getBindingLookup(): Map<string, InputAction[]> {
+        const controls = this.bindings.settings.getRuntimeSettings().controls;
+        if (controls !== this.lookupSource) {
+            this.lookupSource = controls;
+            this.bindingLookup = buildBindingLookup(controls);
+        }
+        return this.bindingLookup;
+    }
+
+    private dispatch(code: string, pressed: boolean, repeat = false): void {
+        const actions = this.getBindingLookup().get(code);
+        if (!actions) return;
+        for (const action of actions) {
+            if (pressed) {
+                // Held actions are edge-triggered; ignore OS key repeat.
+                if (repeat && HELD_INPUT_ACTIONS.has(action)) continue;
+                this.onActionDown(action);
+            } else if (HELD_INPUT_ACTIONS.has(action)) {
+                this.onActionUp(action);
+            }
+        }
+    }
+
+    private onActionDown(action: InputAction): void {
+        switch (action) {
+            case 'moveForward':
                 this.moveForward = true;
                 break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                this.moveLeft = true;
-                break;
-            case 'ArrowDown':
-            case 'KeyS':
+            case 'moveBackward':
                 this.moveBackward = true;
                 break;
-            case 'ArrowRight':
-            case 'KeyD':
+            case 'moveLeft':
+                this.moveLeft = true;
+                break;
+            case 'moveRight':
                 this.moveRight = true;
                 break;
-            case 'Space':
+            case 'sprint':
+                this.running = true;
+                break;
+            case 'fire':
+                this.bindings.onTriggerDown(this.aiming);
+                break;
+            case 'aim':
+                this.aiming = true;
+                this.bindings.onStartAiming();
+                break;
+            case 'jump':
                 this.bindings.onJumpPressed();
                 break;
-            case 'KeyC':
+            case 'crouch':
                 this.bindings.onToggleCrouch();
                 break;
-            case 'KeyZ':
+            case 'prone':
                 this.bindings.onToggleProne();
                 break;
-            case 'ShiftLeft':
-            case 'ShiftRight':
-                this.running = true;
+            case 'reload':
+                this.bindings.onReload();
                 break;
-            case 'KeyF':
-                this.bindings.onPickup();
+            case 'nextWeapon':
+            case 'prevWeapon': {
+                const now = performance.now();
+                const cooldown = this.bindings.settings.getRuntimeSettings().weaponSwitchCooldownMs;
+                if (now - this.lastWeaponSwitchTime < cooldown) break;
+                if (action === 'nextWeapon') this.bindings.onSwitchNextWeapon();
+                else this.bindings.onSwitchPrevWeapon();
+                this.lastWeaponSwitchTime = now;
                 break;
-            case 'Digit1':
+            }
+            case 'weaponRifle':
                 this.bindings.onSwitchToWeapon('rifle');
                 break;
-            case 'Digit2':
+            case 'weaponGrenade':
                 this.bindings.onSwitchToWeapon('grenade');
                 break;
-            case 'KeyG':
+            case 'quickGrenade':
                 this.bindings.onQuickThrowGrenade();
                 break;
-            case 'KeyT':
+            case 'useBandage':
+                this.bindings.onUseBandage();
+                break;
+            case 'pickup':
+                this.bindings.onPickup();
+                break;
+            case 'toggleBuild':
+                this.bindings.onToggleBuildMode();
+                break;
+            case 'weatherCycle':
                 this.bindings.onWeatherCycle();
                 break;
         }
-    };
+    }
 
-    private readonly onKeyUp = (event: KeyboardEvent) => {
-        switch (event.code) {
-            case 'ArrowUp':
-            case 'KeyW':
+    private onActionUp(action: InputAction): void {
+        switch (action) {
+            case 'moveForward':
                 this.moveForward = false;
                 break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                this.moveLeft = false;
-                break;
-            case 'ArrowDown':
-            case 'KeyS':
+            case 'moveBackward':
                 this.moveBackward = false;
                 break;
-            case 'ArrowRight':
-            case 'KeyD':
+            case 'moveLeft':
+                this.moveLeft = false;
+                break;
+            case 'moveRight':
                 this.moveRight = false;
                 break;
-            case 'ShiftLeft':
-            case 'ShiftRight':
+            case 'sprint':
                 this.running = false;
                 break;
+            case 'fire':
+                this.bindings.onTriggerUp();
+                break;
+            case 'aim':
+                this.aiming = false;
+                this.bindings.onStopAiming();
+                break;
         }
-    };
+    }
 }
@@ -0,0 +1,80 @@
+import type { RecipeId } from '../crafting/CraftingTypes';
+import type { WeaponId } from '../weapon/WeaponTypes';
+
+/** Discrete player actions, queued between steps and applied at the start of the next one. */
+export type PlayerCommand =
+    | { type: 'triggerDown'; aiming: boolean }
+    | { type: 'switchWeapon'; weapon: WeaponId }
+    | { type: 'craft'; recipe: RecipeId }
+    | {
+          type:
+              | 'triggerUp'
+              | 'startAiming'
+              | 'stopAiming'
+              | 'nextWeapon'
+              | 'prevWeapon'
+              | 'quickGrenade'
+              | 'reload'
+              | 'useBandage'
+              | 'pickup'
+              | 'weatherCycle'
+              | 'toggleBuild'
+              | 'jump'
+              | 'toggleCrouch'
+              | 'toggleProne';
+      };
+
+/**
+ * Everything the player controller consumes in one simulation step.
+ * Live input and replay playback both produce this, which is what makes a recorded run reproducible.
+ */
+export type PlayerInputFrame = {
+    /** Pointer locked / gamepad in use: the character responds to movement and look. */
+    hasControl: boolean;
+    moveForward: boolean;
+    moveBackward: boolean;
+    moveLeft: boolean;
+    moveRight: boolean;
+    /** Analog axes -1..1 (keys give exact -1/0/1). */
+    moveX: number;
+    moveZ: number;
+    running: boolean;
+    aiming: boolean;
+    /** Look delta for this step, already scaled by sensitivity. */
+    lookYaw: number;
+    lookPitch: number;
+    commands: PlayerCommand[];
+};
+
+/** Source of input frames that replaces live input (replay playback). */
+export interface PlayerInputOverride {
+    /** Fill `out` for the next step. Returns false when the source has run out. */
+    next(out: PlayerInputFrame): boolean;
+}
+
+export function createPlayerInputFrame(): PlayerInputFrame {
+    return {
+        hasControl: false,
+        moveForward: false,
+        moveBackward: false,
+        moveLeft: false,
+        moveRight: false,
+        moveX: 0,
+        moveZ: 0,
+        running: false,
+        aiming: false,
+        lookYaw: 0,
+        lookPitch: 0,
+        commands: [],
+    };
+}
+
+/** Idle input (no control, nothing held). */
+export function clearPlayerInputFrame(frame: PlayerInputFrame): void {
+    frame.hasControl = false;
+    frame.moveForward = frame.moveBackward = frame.moveLeft = frame.moveRight = false;
+    frame.moveX = frame.moveZ = 0;
+    frame.running = frame.aiming = false;
+    frame.lookYaw = frame.lookPitch = 0;
+    frame.commands.length = 0;
+}
@@ -0,0 +1,65 @@
+import { BIOME_IDS, BiomeConfig, type BiomeDefinition, type BiomeId } from '../core/GameConfig';
+
+/** Blend weight of every biome at a point; they sum to 1. */
+export type BiomeWeights = Record<BiomeId, number>;
+
+export function createBiomeWeights(): BiomeWeights {
+    return { forest: 0, desert: 0, swamp: 0, tundra: 0, ruins: 0 };
+}
+
+/**
+ * CPU biome map used by vegetation generation and gameplay (spawns, weather).
+ * Keep in sync with the GPU node version in `BiomeTSL.ts`.
+ * @param out reused to avoid per-sample allocations (hot in VegetationWorker)
+ */
+export function biomeWeightsCpu(x: number, z: number, out: BiomeWeights = createBiomeWeights()): BiomeWeights {
+    const map = BiomeConfig.map;
+    const wx = x + Math.sin(z * map.warp.frequency) * map.warp.amplitude;
+    const wz = z + Math.sin(x * map.warp.frequency + 1.7) * map.warp.amplitude;
+    const spawn = Math.max(0, 1 - Math.sqrt(x * x + z * z) / map.spawn.radius) * map.spawn.bias;
+
+    let maxScore = -Infinity;
+    for (const id of BIOME_IDS) {
+        const f = BiomeConfig.biomes[id].field;
+        let score = Math.sin(wx * f.frequency[0] + f.phase[0]) * Math.cos(wz * f.frequency[1] + f.phase[1]) + f.bias;
+        if (id === 'forest') score += spawn;
+        out[id] = score;
+        maxScore = Math.max(maxScore, score);
+    }
+
+    let sum = 0;
+    for (const id of BIOME_IDS) {
+        const w = Math.max(0, 1 - (maxScore - out[id]) / map.blend);
+        out[id] = w;
+        sum += w;
+    }
+    // The strongest biome always weighs 1 before normalizing, so sum >= 1.
+    for (const id of BIOME_IDS) out[id] /= sum;
+    return out;
+}
+
+/** Weighted average of one per-biome number. */
+export function blendBiomeValue(weights: BiomeWeights, select: (biome: BiomeDefinition) => number): number {
+    let value = 0;
+    for (const id of BIOME_IDS) {
+        const w = weights[id];
+        if (w > 0) value += w * select(BiomeConfig.biomes[id]);
+    }
+    return value;
+}
+
+/** Weighted average of a per-biome table (enemy multipliers, weather odds) into `out`. */
+export function blendBiomeRecord<K extends string>(
+    weights: BiomeWeights,
+    select: (biome: BiomeDefinition) => Record<K, number>,
+    out: Record<K, number>
+): Record<K, number> {
+    for (const key of Object.keys(out) as K[]) out[key] = 0;
+    for (const id of BIOME_IDS) {
+        const w = weights[id];
+        if (w <= 0) continue;
+        const table = select(BiomeConfig.biomes[id]);
+        for (const key of Object.keys(table) as K[]) out[key] = (out[key] ?? 0) + w * table[key];
+    }
+    return out;
+}
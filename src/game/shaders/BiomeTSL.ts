@@ -0,0 +1,60 @@
+import type { Node } from 'three/webgpu';
+import { cos, float, length, max, sin, vec2, vec3 } from 'three/tsl';
+
+import { BIOME_IDS, BiomeConfig, type BiomeDefinition, type BiomeId } from '../core/GameConfig';
+
+export type BiomeWeightNodes = Record<BiomeId, Node>;
+
+/**
+ * TSL version of biomeWeightsCpu (`BiomeMap.ts`); same constants, same blend.
+ * @param worldXZ world-space XZ position (meters)
+ */
+export function biomeWeightsNode(worldXZ: Node): BiomeWeightNodes {
+    const map = BiomeConfig.map;
+    const x = worldXZ.x;
+    const z = worldXZ.y;
+
+    const wx = x.add(sin(z.mul(map.warp.frequency)).mul(map.warp.amplitude));
+    const wz = z.add(sin(x.mul(map.warp.frequency).add(1.7)).mul(map.warp.amplitude));
+    const spawn = max(float(0), float(1).sub(length(vec2(x, z)).div(map.spawn.radius))).mul(map.spawn.bias);
+
+    const scores = {} as BiomeWeightNodes;
+    let maxScore: Node | null = null;
+    for (const id of BIOME_IDS) {
+        const f = BiomeConfig.biomes[id].field;
+        let score: Node = sin(wx.mul(f.frequency[0]).add(f.phase[0]))
+            .mul(cos(wz.mul(f.frequency[1]).add(f.phase[1])))
+            .add(f.bias);
+        if (id === 'forest') score = score.add(spawn);
+        scores[id] = score;
+        maxScore = maxScore ? max(maxScore, score) : score;
+    }
+
+    const raw = {} as BiomeWeightNodes;
+    let sum: Node = float(0);
+    for (const id of BIOME_IDS) {
+        raw[id] = max(float(0), float(1).sub(maxScore!.sub(scores[id]).div(map.blend)));
+        sum = sum.add(raw[id]);
+    }
+
+    const weights = {} as BiomeWeightNodes;
+    for (const id of BIOME_IDS) weights[id] = raw[id].div(sum);
+    return weights;
+}
+
+/** Weighted average of one per-biome number. */
+export function blendBiomeFloatNode(weights: BiomeWeightNodes, select: (biome: BiomeDefinition) => number): Node {
+    let value: Node = float(0);
+    for (const id of BIOME_IDS) value = value.add(weights[id].mul(select(BiomeConfig.biomes[id])));
+    return value;
+}
+
+/** Weighted average of one per-biome linear RGB color. */
+export function blendBiomeColorNode(
+    weights: BiomeWeightNodes,
+    select: (biome: BiomeDefinition) => readonly [number, number, number]
+): Node {
+    let value: Node = vec3(0, 0, 0);
+    for (const id of BIOME_IDS) value = value.add(vec3(...select(BiomeConfig.biomes[id])).mul(weights[id]));
+    return value;
+}
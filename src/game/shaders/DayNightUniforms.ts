@@ -0,0 +1,13 @@
+import * as THREE from 'three';
+import { uniform } from 'three/tsl';
+
+// Shared day/night uniforms used by sky/lighting-aware TSL materials.
+// DayNightCycle drives the sun direction + daylight; WeatherSceneApplier writes the blended sky colors.
+export const DayNightUniforms = {
+    // Normalized direction *towards* the main light (sun by day, moon by night).
+    sunDirection: uniform(new THREE.Vector3(0.4, 0.8, 0.4).normalize()),
+    // 0 = full night, 1 = full day.
+    daylight: uniform(1.0),
+    skyZenithColor: uniform(new THREE.Color(0x6699f2)),
+    skyHorizonColor: uniform(new THREE.Color(0xbfe0fa)),
+};
@@ -1,48 +1,92 @@
 import * as THREE from 'three';
 import type { System, FrameContext } from '../core/engine/System';
-import type { SoundManagerApi } from '../core/SoundManager';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import type { SoundManagerApi, SoundVec3 } from '../core/SoundManager';
+import type { PhysicsSystem } from '../core/PhysicsSystem';
 import type { WeatherSystem } from '../level/WeatherSystem';
 import type { Level } from '../level/Level';
-import type { Enemy } from '../enemy/Enemy';
-import type { WeatherType } from '../core/GameConfig';
+import type { EnemySystem } from './EnemySystem';
+import { SoundConfig, type WeatherType } from '../core/GameConfig';
 
 export class AudioSystem implements System {
     public readonly name = 'audio';
 
     private readonly sound: SoundManagerApi;
+    private readonly camera: THREE.Camera;
+    private readonly physicsSystem: PhysicsSystem;
     private readonly weather: WeatherSystem;
     private readonly level: Level;
-    private readonly enemies: Enemy[];
+    private readonly enemySystem: EnemySystem;
+
+    private readonly unsubscribeEvents: () => void;
 
     private readonly tmpPlayerPos = new THREE.Vector3();
 
+    // Listener (camera) pose for positional sounds.
+    private readonly listenerPos = new THREE.Vector3();
+    private readonly listenerQuat = new THREE.Quaternion();
+    private readonly listenerScale = new THREE.Vector3();
+    private readonly listenerForward = new THREE.Vector3();
+    private readonly listenerUp = new THREE.Vector3();
+    private readonly listenerVelocity = new THREE.Vector3();
+    private readonly lastListenerPos = new THREE.Vector3();
+    private hasListenerPos = false;
+
+    // Occlusion ray (listener -> source).
+    private readonly occlusionRaycaster = new THREE.Raycaster();
+    private readonly occlusionOrigin = new THREE.Vector3();
+    private readonly occlusionDir = new THREE.Vector3();
+    private readonly occlusionCandidates: THREE.Object3D[] = [];
+    private readonly occlusionHits: THREE.Intersection[] = [];
+
     private lastWeather: WeatherType | null = null;
+    // 波次进行中 (wave:started -> wave:ended) 保持战斗音乐
+    private waveActive = false;
+
+    // Music intensity: recent damage (decays) and the smoothed value sent to the music engine.
+    private recentDamage = 0;
+    private musicIntensity = 0;
 
     constructor(opts: {
+        events: GameEventBus;
         sound: SoundManagerApi;
+        camera: THREE.Camera;
+        physicsSystem: PhysicsSystem;
         weather: WeatherSystem;
         level: Level;
-        enemies: Enemy[];
+        enemySystem: EnemySystem;
     }) {
         this.sound = opts.sound;
+        this.camera = opts.camera;
+        this.physicsSystem = opts.physicsSystem;
         this.weather = opts.weather;
         this.level = opts.level;
-        this.enemies = opts.enemies;
+        this.enemySystem = opts.enemySystem;
+
+        const unsubs = [
+            opts.events.on('wave:started', () => {
+                this.waveActive = true;
+            }),
+            opts.events.on('wave:ended', () => {
+                this.waveActive = false;
+            }),
+            opts.events.on('state:updateHealth', (e) => {
+                if (e.delta >= 0) return;
+                const cfg = SoundConfig.music.intensity;
+                this.recentDamage = Math.min(cfg.maxDamage, this.recentDamage - e.delta * cfg.perDamage);
+            }),
+        ];
+        this.unsubscribeEvents = () => {
+            for (const unsub of unsubs) unsub();
+        };
+
+        this.occlusionRaycaster.firstHitOnly = true;
+        this.sound.setOcclusionTest((listener, position) => this.isOccluded(listener, position));
     }
 
     update(frame: FrameContext): void {
         this.tmpPlayerPos.set(frame.playerPos.x, frame.playerPos.y, frame.playerPos.z);
-
-        // Combat check: any living enemy within 20m.
-        let isCombat = false;
-        for (const enemy of this.enemies) {
-            if (enemy.isDead) continue;
-            const distSq = enemy.mesh.position.distanceToSquared(this.tmpPlayerPos);
-            if (distSq < 20 * 20) {
-                isCombat = true;
-                break;
-            }
-        }
+        this.updateListener(frame.delta);
 
         const currentWeather = this.weather.getCurrentWeather();
 
@@ -51,13 +95,7 @@ export class AudioSystem implements System {
             this.lastWeather = currentWeather;
         }
 
-        if (isCombat) {
-            this.sound.setBGMState('combat');
-        } else if (currentWeather === 'rainy') {
-            this.sound.setBGMState('rainy');
-        } else {
-            this.sound.setBGMState('sunny');
-        }
+        this.sound.setMusicIntensity(this.updateMusicIntensity(frame.delta, currentWeather), currentWeather);
 
         // Sync rain intensity to level.
         const isRainy = currentWeather === 'rainy';
@@ -68,4 +106,78 @@ export class AudioSystem implements System {
             frame.delta * 0.5
         );
     }
+
+    /** Engaged enemies + recent damage + wave + weather, rising fast and settling slowly. */
+    private updateMusicIntensity(delta: number, weather: WeatherType): number {
+        const cfg = SoundConfig.music.intensity;
+        this.recentDamage = Math.max(0, this.recentDamage - cfg.damageDecay * delta);
+
+        const engaged = this.enemySystem.countEngagedEnemies(this.tmpPlayerPos, cfg.enemyRadius);
+        const target = Math.min(
+            1,
+            Math.min(cfg.maxEnemies, engaged * cfg.perEnemy) +
+                this.recentDamage +
+                (this.waveActive ? cfg.wave : 0) +
+                cfg.weather[weather]
+        );
+
+        const rate = target > this.musicIntensity ? cfg.rise : cfg.fall;
+        const step = rate * delta;
+        this.musicIntensity += THREE.MathUtils.clamp(target - this.musicIntensity, -step, step);
+        return this.musicIntensity;
+    }
+
+    private updateListener(delta: number): void {
+        this.camera.updateMatrixWorld();
+        this.camera.matrixWorld.decompose(this.listenerPos, this.listenerQuat, this.listenerScale);
+        this.listenerForward.set(0, 0, -1).applyQuaternion(this.listenerQuat);
+        this.listenerUp.set(0, 1, 0).applyQuaternion(this.listenerQuat);
+
+        // Teleports (respawn, snapshot load) would read as a huge Doppler shift; only trust small steps.
+        if (this.hasListenerPos && delta > 0) {
+            this.listenerVelocity.subVectors(this.listenerPos, this.lastListenerPos).divideScalar(delta);
+            if (this.listenerVelocity.lengthSq() > SoundConfig.spatial.speedOfSound ** 2) this.listenerVelocity.set(0, 0, 0);
+        } else {
+            this.listenerVelocity.set(0, 0, 0);
+        }
+        this.lastListenerPos.copy(this.listenerPos);
+        this.hasListenerPos = true;
+
+        this.sound.setListener({
+            position: this.listenerPos,
+            forward: this.listenerForward,
+            up: this.listenerUp,
+            velocity: this.listenerVelocity,
+        });
+    }
+
+    /** Static obstacles (buildings, rocks, trees) between the listener and a sound source. */
+    private isOccluded(listener: SoundVec3, position: SoundVec3): boolean {
+        this.occlusionOrigin.set(listener.x, listener.y, listener.z);
+        this.occlusionDir.set(position.x, position.y + SoundConfig.spatial.occlusion.sourceLift, position.z);
+        this.occlusionDir.sub(this.occlusionOrigin);
+        const distance = this.occlusionDir.length();
+        if (distance < 1e-3) return false;
+        this.occlusionDir.divideScalar(distance);
+
+        const candidates = this.physicsSystem.getRaycastCandidatesInto(
+            this.occlusionOrigin,
+            this.occlusionDir,
+            distance,
+            this.occlusionCandidates
+        );
+        if (candidates.length === 0) return false;
+
+        this.occlusionRaycaster.set(this.occlusionOrigin, this.occlusionDir);
+        this.occlusionRaycaster.near = 0;
+        this.occlusionRaycaster.far = distance;
+        this.occlusionHits.length = 0;
+        this.occlusionRaycaster.intersectObjects(candidates, true, this.occlusionHits);
+        return this.occlusionHits.length > 0;
+    }
+
+    dispose(): void {
+        this.unsubscribeEvents();
+        this.sound.setOcclusionTest(null);
+    }
 }
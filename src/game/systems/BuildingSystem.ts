@@ -0,0 +1,580 @@
+/**
+ * BuildingSystem - 基地建造
+ * 建造模式下在玩家前方显示对齐网格的半透明预览，校验重叠/资源后放置墙、地板、门和路障。
+ * 放置的构件注册为静态碰撞体 (PhysicsSystem) 并在 Pathfinding 中标记阻挡；拥有生命值，
+ * 会被挡路的敌人和手榴弹爆炸摧毁。
+ */
+import * as THREE from 'three';
+import { MeshBasicNodeMaterial, MeshStandardNodeMaterial } from 'three/webgpu';
+
+import type { System, FrameContext } from '../core/engine/System';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import type { GameServices } from '../core/services/GameServices';
+import type { PhysicsSystem } from '../core/PhysicsSystem';
+import type { Pathfinding } from '../core/Pathfinding';
+import type { Level } from '../level/Level';
+import type { Enemy } from '../enemy/Enemy';
+import type { BuildPieceSnapshot, BuildPieceType } from '../building/BuildingTypes';
+import type { ResourceType } from '../crafting/CraftingTypes';
+import { RESOURCE_TYPES } from '../crafting/Crafting';
+import { BuildingConfig, EnvironmentConfig, PlayerConfig } from '../core/GameConfig';
+import { getUserData } from '../types/GameUserData';
+
+export const BUILD_PIECE_TYPES: readonly BuildPieceType[] = ['wall', 'floor', 'door', 'barricade'];
+
+interface PlacedPiece {
+    id: number;
+    type: BuildPieceType;
+    mesh: THREE.Mesh;
+    /** Closed-state world AABB (collider + nav obstacle). */
+    box: THREE.Box3;
+    rotation: number;
+    health: number;
+    open: boolean;
+    /** PhysicsSystem collider id, -1 while not registered (open door). */
+    colliderId: number;
+}
+
+export class BuildingSystem implements System {
+    public readonly name = 'building';
+
+    private readonly events: GameEventBus;
+    private readonly services: GameServices;
+    private readonly scene: THREE.Scene;
+    private readonly camera: THREE.Camera;
+    private readonly physicsSystem: PhysicsSystem;
+    private readonly pathfinding: Pathfinding;
+    private readonly level: Level;
+    private readonly enemies: Enemy[];
+
+    private readonly pieces = new Map<number, PlacedPiece>();
+    private nextPieceId = 1;
+
+    // Build mode
+    private active = false;
+    private pieceIndex = 0;
+    private rotation = 0;
+    private canPlace = false;
+    private lastSyncedPiece: BuildPieceType | null = null;
+    private lastSyncedCanPlace = false;
+
+    private readonly ghost: THREE.Mesh;
+    private readonly ghostMaterial: MeshBasicNodeMaterial;
+    private readonly ghostCenter = new THREE.Vector3();
+    private readonly ghostBox = new THREE.Box3();
+
+    private readonly geometries = new Map<BuildPieceType, THREE.BoxGeometry>();
+    private readonly materials = new Map<BuildPieceType, MeshStandardNodeMaterial>();
+
+    private enemyAttackTimer = 0;
+    private readonly unsubscribeEvents: () => void;
+
+    // Hot-path temporaries
+    private readonly nearbyEntries: Array<{ box: THREE.Box3; object: THREE.Object3D }> = [];
+    private readonly tmpDir = new THREE.Vector3();
+    private readonly tmpVec = new THREE.Vector3();
+    private readonly tmpHit = new THREE.Vector3();
+    private readonly tmpBox = new THREE.Box3();
+    private readonly tmpPlayerBox = new THREE.Box3();
+    private readonly tmpRay = new THREE.Ray();
+
+    private static readonly ENEMY_ATTACK_INTERVAL = 0.25;
+    private static readonly UP = new THREE.Vector3(0, 1, 0);
+
+    constructor(opts: {
+        events: GameEventBus;
+        services: GameServices;
+        scene: THREE.Scene;
+        camera: THREE.Camera;
+        physicsSystem: PhysicsSystem;
+        pathfinding: Pathfinding;
+        level: Level;
+        enemies: Enemy[];
+    }) {
+        this.events = opts.events;
+        this.services = opts.services;
+        this.scene = opts.scene;
+        this.camera = opts.camera;
+        this.physicsSystem = opts.physicsSystem;
+        this.pathfinding = opts.pathfinding;
+        this.level = opts.level;
+        this.enemies = opts.enemies;
+
+        this.ghostMaterial = new MeshBasicNodeMaterial({
+            color: BuildingConfig.ghost.validColor,
+            transparent: true,
+            opacity: BuildingConfig.ghost.opacity,
+            depthWrite: false,
+        });
+        // Unit cube scaled to the selected piece.
+        this.ghost = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), this.ghostMaterial);
+        this.ghost.visible = false;
+        this.ghost.castShadow = false;
+        this.ghost.receiveShadow = false;
+        const ghostUd = getUserData(this.ghost);
+        ghostUd.noRaycast = true;
+        ghostUd.isEffect = true;
+        this.scene.add(this.ghost);
+
+        this.unsubscribeEvents = this.events.on('world:explosion', (e) => {
+            this.applyExplosion(this.tmpVec.set(e.position.x, e.position.y, e.position.z), e.radius, e.damage);
+        });
+    }
+
+    public isActive(): boolean {
+        return this.active;
+    }
+
+    public getSelectedPiece(): BuildPieceType {
+        return BUILD_PIECE_TYPES[this.pieceIndex];
+    }
+
+    /**
+     * 进入/退出建造模式
+     */
+    public toggle(): void {
+        this.active = !this.active;
+        this.ghost.visible = this.active;
+        this.syncState(true);
+    }
+
+    public cyclePiece(dir: number): void {
+        if (!this.active) return;
+        const n = BUILD_PIECE_TYPES.length;
+        this.pieceIndex = (((this.pieceIndex + Math.sign(dir)) % n) + n) % n;
+        this.events.emit({ type: 'sound:play', sound: 'weaponSwitch' });
+    }
+
+    public rotate(): void {
+        if (!this.active) return;
+        this.rotation = (this.rotation + 1) % 4;
+    }
+
+    /**
+     * 在预览位置放置当前构件 (扣除资源)
+     */
+    public place(): boolean {
+        if (!this.active || !this.canPlace) return false;
+
+        const type = this.getSelectedPiece();
+        const cost: Partial<Record<ResourceType, number>> = BuildingConfig.pieces[type].cost;
+        for (const resource of RESOURCE_TYPES) {
+            const amount = cost[resource] ?? 0;
+            if (amount > 0) this.events.emit({ type: 'state:updateResource', resource, delta: -amount });
+        }
+
+        this.createPiece(type, this.ghostCenter, this.rotation, BuildingConfig.pieces[type].health);
+        this.events.emit({ type: 'sound:play', sound: 'pickup' });
+
+        // Re-validate next frame (resources / occupancy changed).
+        this.canPlace = false;
+        return true;
+    }
+
+    /**
+     * 开关视线前方的门
+     * @returns 是否命中了一扇门
+     */
+    public tryToggleDoor(origin: THREE.Vector3, direction: THREE.Vector3): boolean {
+        this.tmpRay.set(origin, direction);
+        const maxDist = BuildingConfig.doorInteractDistance;
+
+        let best: PlacedPiece | null = null;
+        let bestDist = maxDist;
+        for (const piece of this.pieces.values()) {
+            if (piece.type !== 'door') continue;
+            if (piece.box.distanceToPoint(origin) > maxDist) continue;
+            // Open doors are swung aside; their mesh bounds are what the player is looking at.
+            const box = piece.open ? this.tmpBox.setFromObject(piece.mesh) : piece.box;
+            const hit = this.tmpRay.intersectBox(box, this.tmpHit);
+            if (!hit) continue;
+            const dist = hit.distanceTo(origin);
+            if (dist < bestDist) {
+                bestDist = dist;
+                best = piece;
+            }
+        }
+
+        if (!best) return false;
+        this.setDoorOpen(best, !best.open);
+        return true;
+    }
+
+    update(frame: FrameContext): void {
+        if (this.active) {
+            this.updateGhost(frame);
+        }
+
+        this.enemyAttackTimer += frame.delta;
+        if (this.enemyAttackTimer >= BuildingSystem.ENEMY_ATTACK_INTERVAL) {
+            this.applyEnemyAttacks(frame, this.enemyAttackTimer);
+            this.enemyAttackTimer = 0;
+        }
+    }
+
+    public getSnapshot(): BuildPieceSnapshot[] {
+        const out: BuildPieceSnapshot[] = [];
+        for (const piece of this.pieces.values()) {
+            const center = piece.box.getCenter(this.tmpVec);
+            out.push({
+                type: piece.type,
+                x: center.x,
+                y: center.y,
+                z: center.z,
+                rotation: piece.rotation,
+                health: piece.health,
+                open: piece.open,
+            });
+        }
+        return out;
+    }
+
+    public restoreSnapshot(snapshot: readonly BuildPieceSnapshot[]): void {
+        this.clearAll();
+        for (const data of snapshot) {
+            if (!BuildingConfig.pieces[data.type]) continue;
+            const piece = this.createPiece(
+                data.type,
+                this.tmpVec.set(data.x, data.y, data.z),
+                data.rotation,
+                data.health
+            );
+            if (data.open && piece.type === 'door') this.setDoorOpen(piece, true);
+        }
+    }
+
+    /**
+     * 移除所有已放置的构件并退出建造模式
+     */
+    public clearAll(): void {
+        for (const piece of Array.from(this.pieces.values())) {
+            this.removePiece(piece);
+        }
+        this.nextPieceId = 1;
+        if (this.active) this.toggle();
+    }
+
+    dispose(): void {
+        this.unsubscribeEvents();
+        this.clearAll();
+        this.scene.remove(this.ghost);
+        this.ghost.geometry.dispose();
+        this.ghostMaterial.dispose();
+        for (const geometry of this.geometries.values()) geometry.dispose();
+        for (const material of this.materials.values()) material.dispose();
+        this.geometries.clear();
+        this.materials.clear();
+    }
+
+    private updateGhost(frame: FrameContext): void {
+        const type = this.getSelectedPiece();
+        const def = BuildingConfig.pieces[type];
+
+        // Horizontal look direction (keep the previous one when looking straight up/down).
+        this.camera.getWorldDirection(this.tmpDir);
+        this.tmpDir.y = 0;
+        if (this.tmpDir.lengthSq() < 1e-6) this.tmpDir.set(0, 0, -1);
+        this.tmpDir.normalize();
+
+        const targetX = frame.playerPos.x + this.tmpDir.x * BuildingConfig.placeDistance;
+        const targetZ = frame.playerPos.z + this.tmpDir.z * BuildingConfig.placeDistance;
+
+        this.computePlacement(type, targetX, targetZ, this.rotation, this.ghostCenter, this.ghostBox);
+
+        this.ghost.position.copy(this.ghostCenter);
+        this.ghost.rotation.set(0, (this.rotation * Math.PI) / 2, 0);
+        this.ghost.scale.set(def.size.x, def.size.y, def.size.z);
+
+        this.canPlace = this.validatePlacement(type, this.ghostBox, frame.playerPos);
+        this.ghostMaterial.color.setHex(
+            this.canPlace ? BuildingConfig.ghost.validColor : BuildingConfig.ghost.invalidColor
+        );
+
+        this.syncState(false);
+    }
+
+    /**
+     * Snap a target XZ to the build grid.
+     * Floors sit on cell centers; walls/doors/barricades sit on cell edges so four of them enclose a floor tile.
+     */
+    private computePlacement(
+        type: BuildPieceType,
+        targetX: number,
+        targetZ: number,
+        rotation: number,
+        outCenter: THREE.Vector3,
+        outBox: THREE.Box3
+    ): void {
+        const grid = BuildingConfig.gridSize;
+        const size = BuildingConfig.pieces[type].size;
+        const swap = (rotation & 1) === 1;
+        const halfX = (swap ? size.z : size.x) / 2;
+        const halfZ = (swap ? size.x : size.z) / 2;
+
+        let x: number;
+        let z: number;
+        if (type === 'floor') {
+            x = (Math.floor(targetX / grid) + 0.5) * grid;
+            z = (Math.floor(targetZ / grid) + 0.5) * grid;
+        } else if (swap) {
+            x = Math.round(targetX / grid) * grid;
+            z = (Math.floor(targetZ / grid) + 0.5) * grid;
+        } else {
+            x = (Math.floor(targetX / grid) + 0.5) * grid;
+            z = Math.round(targetZ / grid) * grid;
+        }
+
+        // Sample terrain under the footprint: floors rest on the highest point, upright pieces sink into the lowest.
+        let minH = Infinity;
+        let maxH = -Infinity;
+        for (let ix = -1; ix <= 1; ix++) {
+            for (let iz = -1; iz <= 1; iz++) {
+                const h = this.level.getTerrainHeight(x + ix * halfX, z + iz * halfZ);
+                if (h < minH) minH = h;
+                if (h > maxH) maxH = h;
+            }
+        }
+
+        let y: number;
+        if (type === 'floor') {
+            y = maxH + size.y / 2;
+        } else {
+            // Stand on a placed floor when there is one under the center.
+            let base = minH;
+            for (const piece of this.pieces.values()) {
+                if (piece.type !== 'floor') continue;
+                const b = piece.box;
+                if (x < b.min.x || x > b.max.x || z < b.min.z || z > b.max.z) continue;
+                if (b.max.y > base) base = b.max.y;
+            }
+            y = base + size.y / 2;
+        }
+
+        outCenter.set(x, y, z);
+        outBox.min.set(x - halfX, y - size.y / 2, z - halfZ);
+        outBox.max.set(x + halfX, y + size.y / 2, z + halfZ);
+    }
+
+    private validatePlacement(
+        type: BuildPieceType,
+        box: THREE.Box3,
+        playerPos: { x: number; y: number; z: number }
+    ): boolean {
+        const center = box.getCenter(this.tmpVec);
+        if (this.level.getTerrainHeight(center.x, center.z) < EnvironmentConfig.water.level) return false;
+        if (!this.canAfford(BuildingConfig.pieces[type].cost)) return false;
+
+        const test = this.tmpBox.copy(box).expandByScalar(-BuildingConfig.overlapTolerance);
+
+        // Don't build on top of the player.
+        const radius = PlayerConfig.collision.radius;
+        const feetY = playerPos.y - PlayerConfig.stance.stand.height;
+        this.tmpPlayerBox.min.set(playerPos.x - radius, feetY, playerPos.z - radius);
+        this.tmpPlayerBox.max.set(playerPos.x + radius, feetY + PlayerConfig.stance.stand.collisionHeight, playerPos.z + radius);
+        if (test.intersectsBox(this.tmpPlayerBox)) return false;
+
+        const queryRadius = Math.max(test.max.x - test.min.x, test.max.z - test.min.z) + 1;
+        const nearby = this.physicsSystem.getNearbyObjectsInto(center, queryRadius, this.nearbyEntries);
+        for (const entry of nearby) {
+            if (getUserData(entry.object).isGround) continue;
+            if (entry.box.intersectsBox(test)) return false;
+        }
+
+        return true;
+    }
+
+    private canAfford(cost: Partial<Record<ResourceType, number>>): boolean {
+        const resources = this.services.state.getState().resources;
+        for (const type of RESOURCE_TYPES) {
+            if ((cost[type] ?? 0) > (resources[type] ?? 0)) return false;
+        }
+        return true;
+    }
+
+    private syncState(force: boolean): void {
+        const piece = this.getSelectedPiece();
+        if (!force && piece === this.lastSyncedPiece && this.canPlace === this.lastSyncedCanPlace) return;
+        this.lastSyncedPiece = piece;
+        this.lastSyncedCanPlace = this.canPlace;
+        this.events.emit({
+            type: 'state:setBuildMode',
+            mode: this.active ? { piece, canPlace: this.canPlace } : null,
+        });
+    }
+
+    private createPiece(
+        type: BuildPieceType,
+        center: THREE.Vector3,
+        rotation: number,
+        health: number
+    ): PlacedPiece {
+        const def = BuildingConfig.pieces[type];
+        const rot = ((Math.round(rotation) % 4) + 4) % 4;
+
+        const mesh = new THREE.Mesh(this.getGeometry(type), this.getMaterial(type));
+        mesh.position.copy(center);
+        mesh.rotation.set(0, (rot * Math.PI) / 2, 0);
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+
+        const id = this.nextPieceId++;
+        const ud = getUserData(mesh);
+        ud.isBuildPiece = true;
+        ud.buildPieceId = id;
+        // Barricades are low enough to shoot over: enemies treat them like sandbags.
+        ud.isCover = type === 'barricade';
+
+        const swap = (rot & 1) === 1;
+        const halfX = (swap ? def.size.z : def.size.x) / 2;
+        const halfZ = (swap ? def.size.x : def.size.z) / 2;
+        const box = new THREE.Box3(
+            new THREE.Vector3(center.x - halfX, center.y - def.size.y / 2, center.z - halfZ),
+            new THREE.Vector3(center.x + halfX, center.y + def.size.y / 2, center.z + halfZ)
+        );
+
+        const piece: PlacedPiece = {
+            id,
+            type,
+            mesh,
+            box,
+            rotation: rot,
+            health: Math.min(health, def.health),
+            open: false,
+            colliderId: -1,
+        };
+
+        this.scene.add(mesh);
+        this.physicsSystem.prepareStaticObject(mesh);
+        this.pieces.set(id, piece);
+        this.setBlocking(piece, true);
+
+        return piece;
+    }
+
+    /** Register/unregister the piece's collider and navigation obstacle. */
+    private setBlocking(piece: PlacedPiece, blocking: boolean): void {
+        if (blocking) {
+            if (piece.colliderId < 0) {
+                piece.colliderId = this.physicsSystem.addStaticBoxCollider(piece.box, piece.mesh);
+            }
+            if (BuildingConfig.pieces[piece.type].blocksNavigation) {
+                this.pathfinding.setDynamicObstacle(piece.id, piece.box);
+            }
+        } else {
+            if (piece.colliderId >= 0) {
+                this.physicsSystem.removeStaticCollider(piece.colliderId);
+                piece.colliderId = -1;
+            }
+            if (BuildingConfig.pieces[piece.type].blocksNavigation) {
+                this.pathfinding.setDynamicObstacle(piece.id, null);
+            }
+        }
+    }
+
+    /**
+     * Swing a door 90° around its hinge edge. Open doors don't collide or block navigation.
+     */
+    private setDoorOpen(piece: PlacedPiece, open: boolean): void {
+        if (piece.open === open) return;
+        piece.open = open;
+
+        const width = BuildingConfig.pieces.door.size.x;
+        const closedAngle = (piece.rotation * Math.PI) / 2;
+        const center = piece.box.getCenter(this.tmpVec);
+
+        if (open) {
+            const hinge = this.tmpHit.set(-width / 2, 0, 0).applyAxisAngle(BuildingSystem.UP, closedAngle).add(center);
+            const openAngle = closedAngle + Math.PI / 2;
+            this.tmpDir.set(width / 2, 0, 0).applyAxisAngle(BuildingSystem.UP, openAngle);
+            piece.mesh.position.copy(hinge).add(this.tmpDir);
+            piece.mesh.rotation.set(0, openAngle, 0);
+        } else {
+            piece.mesh.position.copy(center);
+            piece.mesh.rotation.set(0, closedAngle, 0);
+        }
+        piece.mesh.updateMatrixWorld(true);
+
+        this.setBlocking(piece, !open);
+        this.events.emit({ type: 'sound:play', sound: 'weaponSwitch', position: piece.mesh.position });
+    }
+
+    private damagePiece(piece: PlacedPiece, amount: number): void {
+        if (amount <= 0) return;
+        piece.health -= amount;
+        if (piece.health <= 0) {
+            this.removePiece(piece);
+            this.events.emit({ type: 'sound:play', sound: 'hitImpact', position: piece.mesh.position });
+        }
+    }
+
+    private removePiece(piece: PlacedPiece): void {
+        this.setBlocking(piece, false);
+        this.scene.remove(piece.mesh);
+        this.pieces.delete(piece.id);
+    }
+
+    /**
+     * 敌人被构件挡住通往玩家的路线时攻击它
+     */
+    private applyEnemyAttacks(frame: FrameContext, dt: number): void {
+        if (this.pieces.size === 0) return;
+
+        const range = BuildingConfig.enemy.attackRange;
+        const damage = BuildingConfig.enemy.damagePerSecond * dt;
+
+        for (const enemy of this.enemies) {
+            if (enemy.isDead) continue;
+            const pos = enemy.mesh.position;
+
+            this.tmpDir.set(frame.playerPos.x - pos.x, 0, frame.playerPos.z - pos.z);
+            const distToPlayer = this.tmpDir.length();
+            if (distToPlayer < 1e-3) continue;
+            this.tmpDir.multiplyScalar(1 / distToPlayer);
+
+            // Chest-height ray towards the player.
+            this.tmpRay.origin.set(pos.x, pos.y + 1.0, pos.z);
+            this.tmpRay.direction.copy(this.tmpDir);
+
+            for (const piece of this.pieces.values()) {
+                if (piece.open || !BuildingConfig.pieces[piece.type].blocksNavigation) continue;
+                if (piece.box.distanceToPoint(this.tmpRay.origin) > range) continue;
+                const hit = this.tmpRay.intersectBox(piece.box, this.tmpHit);
+                if (!hit || hit.distanceTo(this.tmpRay.origin) > Math.min(range, distToPlayer)) continue;
+                this.damagePiece(piece, damage);
+                break;
+            }
+        }
+    }
+
+    private applyExplosion(position: THREE.Vector3, radius: number, damage: number): void {
+        if (radius <= 0) return;
+        for (const piece of Array.from(this.pieces.values())) {
+            const dist = piece.box.distanceToPoint(position);
+            if (dist >= radius) continue;
+            this.damagePiece(piece, damage * (1 - dist / radius) * BuildingConfig.grenadeDamageMultiplier);
+        }
+    }
+
+    private getGeometry(type: BuildPieceType): THREE.BoxGeometry {
+        let geometry = this.geometries.get(type);
+        if (!geometry) {
+            const size = BuildingConfig.pieces[type].size;
+            geometry = new THREE.BoxGeometry(size.x, size.y, size.z);
+            this.geometries.set(type, geometry);
+        }
+        return geometry;
+    }
+
+    private getMaterial(type: BuildPieceType): MeshStandardNodeMaterial {
+        let material = this.materials.get(type);
+        if (!material) {
+            material = new MeshStandardNodeMaterial({
+                color: BuildingConfig.pieces[type].color,
+                roughness: 0.9,
+                metalness: 0.0,
+            });
+            this.materials.set(type, material);
+        }
+        return material;
+    }
+}
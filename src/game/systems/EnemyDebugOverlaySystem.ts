@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import type { System, FrameContext } from '../core/engine/System';
+import type { Enemy } from '../enemy/Enemy';
+import type { EnemyAIState } from '../enemy/ai/EnemyBehaviors';
+import { readBooleanFlag } from '../core/runtime/RuntimeToggles';
+
+/** Enable with `?aiDebug=1` (or localStorage `aiDebug=1`). */
+export function resolveEnemyDebugOverlayEnabled(): boolean {
+    return readBooleanFlag('aiDebug') === true;
+}
+
+const STATE_COLORS: Record<EnemyAIState, string> = {
+    patrol: '#9ca3af',
+    investigate: '#facc15',
+    chase: '#f87171',
+    flank: '#c084fc',
+    cover: '#60a5fa',
+    retreat: '#4ade80',
+};
+
+/**
+ * EnemyDebugOverlaySystem - 在敌人头顶显示当前 AI 状态 (DOM 标签，调试用)
+ */
+export class EnemyDebugOverlaySystem implements System {
+    public readonly name = 'enemyDebugOverlay';
+
+    private readonly camera: THREE.Camera;
+    private readonly enemies: Enemy[];
+    private readonly root: HTMLDivElement;
+    private readonly labels: HTMLDivElement[] = [];
+
+    private readonly maxDistance = 80;
+    private readonly maxLabels = 64;
+
+    private readonly tmpPos = new THREE.Vector3();
+
+    constructor(opts: { container: HTMLElement; camera: THREE.Camera; enemies: Enemy[] }) {
+        this.camera = opts.camera;
+        this.enemies = opts.enemies;
+
+        this.root = document.createElement('div');
+        this.root.style.cssText = 'position:absolute;inset:0;pointer-events:none;overflow:hidden;z-index:5;';
+        opts.container.appendChild(this.root);
+    }
+
+    update(frame: FrameContext): void {
+        const width = this.root.clientWidth;
+        const height = this.root.clientHeight;
+        const maxDistSq = this.maxDistance * this.maxDistance;
+
+        let used = 0;
+        for (const enemy of this.enemies) {
+            if (used >= this.maxLabels) break;
+            if (enemy.isDead) continue;
+
+            const p = enemy.mesh.position;
+            const dx = p.x - frame.playerPos.x;
+            const dz = p.z - frame.playerPos.z;
+            if (dx * dx + dz * dz > maxDistSq) continue;
+
+            const ndc = this.tmpPos.set(p.x, p.y + 2.3, p.z).project(this.camera);
+            // Behind the camera or off-screen.
+            if (ndc.z > 1 || ndc.x < -1 || ndc.x > 1 || ndc.y < -1 || ndc.y > 1) continue;
+
+            const label = this.getLabel(used++);
+            const state = enemy.getAIState();
+            const text = `${enemy.type} · ${state}`;
+            if (label.textContent !== text) label.textContent = text;
+            label.style.color = STATE_COLORS[state];
+            label.style.transform = `translate(-50%, -100%) translate(${((ndc.x + 1) / 2) * width}px, ${((1 - ndc.y) / 2) * height}px)`;
+            label.style.display = 'block';
+        }
+
+        for (let i = used; i < this.labels.length; i++) {
+            this.labels[i].style.display = 'none';
+        }
+    }
+
+    dispose(): void {
+        this.root.remove();
+        this.labels.length = 0;
+    }
+
+    private getLabel(index: number): HTMLDivElement {
+        let label = this.labels[index];
+        if (!label) {
+            label = document.createElement('div');
+            label.style.cssText =
+                'position:absolute;left:0;top:0;padding:1px 6px;border-radius:4px;background:rgba(0,0,0,0.55);' +
+                'font:11px/1.4 monospace;white-space:nowrap;will-change:transform;';
+            this.root.appendChild(label);
+            this.labels.push(label);
+        }
+        return label;
+    }
+}
@@ -3,7 +3,7 @@ import { MeshStandardNodeMaterial } from 'three/webgpu';
 import { storage, instanceIndex, positionLocal, vec3, float, mix, sin, time } from 'three/tsl';
 import type { System, FrameContext } from '../core/engine/System';
 import { Enemy } from '../enemy/Enemy';
-import { EnemyTypesConfig, EnemyConfig, EffectConfig, LevelConfig } from '../core/GameConfig';
+import { EnemyTypesConfig, EnemyConfig, EffectConfig, LevelConfig, DayNightConfig, EnvironmentConfig } from '../core/GameConfig';
 import type { EnemyType } from '../core/GameConfig';
 import type { GameServices } from '../core/services/GameServices';
 import type { GameEventBus } from '../core/events/GameEventBus';
@@ -14,8 +14,18 @@ import type { PhysicsSystem } from '../core/PhysicsSystem';
 import type { Pathfinding } from '../core/Pathfinding';
 import type { EnemyComputeSimulation, ParticleSimulation, GpuSimulationFacade } from '../core/gpu/GpuSimulationFacade';
 import type { EnemyTrailSystem } from './EnemyTrailSystem';
+import type { DayNightCycle } from '../level/DayNightCycle';
+import type { WeatherSystem } from '../level/WeatherSystem';
 import { getUserData } from '../types/GameUserData';
 
+/** Serializable live-enemy record (save/load). */
+export interface EnemySnapshot {
+    type: EnemyType;
+    weaponId: WeaponId;
+    health: number;
+    position: { x: number; y: number; z: number };
+}
+
 export class EnemySystem implements System {
     public readonly name = 'enemies';
 
@@ -30,6 +40,12 @@ export class EnemySystem implements System {
     private readonly trails: EnemyTrailSystem;
     private readonly services: GameServices;
     private readonly events: GameEventBus;
+    private readonly dayNight: DayNightCycle | null;
+    private readonly weather: WeatherSystem | null;
+    private readonly unsubscribeEvents: () => void;
+
+    // Graphics quality: enemies beyond this distance stop casting shadows.
+    private shadowDistance = EnemyConfig.ai.shadowDisableDistance;
 
     private enemies: Enemy[] = [];
     private enemyPool: Map<string, Enemy[]> = new Map();
@@ -49,6 +65,12 @@ export class EnemySystem implements System {
     private readonly tmpGpuPos = new THREE.Vector3();
 
     private tmpMuzzlePos = new THREE.Vector3();
+    private tmpNoisePos = new THREE.Vector3();
+    private tmpSpawnPos = new THREE.Vector3();
+    private tmpViewDir = new THREE.Vector3();
+    private tmpToSpawn = new THREE.Vector3();
+    private tmpSpawnBox = new THREE.Box3();
+    private readonly nearbyEntries: Array<{ box: THREE.Box3; object: THREE.Object3D }> = [];
     private tmpTrailEnd = new THREE.Vector3();
 
     constructor(opts: {
@@ -62,6 +84,8 @@ export class EnemySystem implements System {
         pathfinding: Pathfinding;
         simulation: GpuSimulationFacade;
         trails: EnemyTrailSystem;
+        dayNight?: DayNightCycle;
+        weather?: WeatherSystem;
         maxGpuEnemies: number;
     }) {
         this.services = opts.services;
@@ -76,6 +100,9 @@ export class EnemySystem implements System {
         this.particles = opts.simulation.particles;
         this.trails = opts.trails;
         this.maxGpuEnemies = opts.maxGpuEnemies;
+        this.dayNight = opts.dayNight ?? null;
+        this.weather = opts.weather ?? null;
+        this.unsubscribeEvents = this.events.on('world:noise', (e) => this.onNoise(e.position, e.radius));
 
         this.gpuEnemyByIndex = new Array(this.maxGpuEnemies).fill(null);
         this.initGpuEnemyImpostors();
@@ -237,6 +264,21 @@ export class EnemySystem implements System {
         return this.enemies;
     }
 
+    setShadowDistance(distance: number): void {
+        this.shadowDistance = Math.max(0, distance);
+    }
+
+    /** Living enemies within `radius` of `position` that currently have line of sight to the player. */
+    countEngagedEnemies(position: THREE.Vector3, radius: number): number {
+        const radiusSq = radius * radius;
+        let count = 0;
+        for (const enemy of this.enemies) {
+            if (enemy.isDead || !enemy.hasPlayerInSight()) continue;
+            if (enemy.mesh.position.distanceToSquared(position) <= radiusSq) count++;
+        }
+        return count;
+    }
+
     /** Remove all active enemies from the scene and return them to the pool. */
     clearAll(): void {
         for (let i = this.enemies.length - 1; i >= 0; i--) {
@@ -317,6 +359,10 @@ export class EnemySystem implements System {
         const impostorDistance = Math.max(EnemyConfig.ai.limbLodDistance, 40);
         const impostorDistanceSq = impostorDistance * impostorDistance;
 
+        // Darkness shortens how far enemies can spot the player.
+        const nightFactor = this.dayNight?.getNightFactor() ?? 0;
+        const detectionRangeScale = THREE.MathUtils.lerp(1, DayNightConfig.night.detectionRangeMultiplier, nightFactor);
+
         for (let i = this.enemies.length - 1; i >= 0; i--) {
             const enemy = this.enemies[i];
             const distSq = enemy.mesh.position.distanceToSquared(playerPos);
@@ -343,6 +389,8 @@ export class EnemySystem implements System {
 
             const shootResult = enemy.update(playerPos, frame.delta, this.objects, this.pathfinding, {
                 movement: 'cpu',
+                detectionRangeScale,
+                shadowDistance: this.shadowDistance,
             });
 
             if (shootResult.fired) {
@@ -382,7 +430,7 @@ export class EnemySystem implements System {
 
             if (distSq < meleeRangeSq) {
                 this.events.emit({ type: 'state:updateHealth', delta: -10 * frame.delta });
-                if (Math.random() < 0.1) {
+                if (this.services.random.get('enemyCombat').chance(0.1)) {
                     this.events.emit({ type: 'fx:damageFlash', intensity: EffectConfig.damageFlash.intensity * 0.7 });
                     this.events.emit({ type: 'sound:play', sound: 'damage' });
                 }
@@ -403,27 +451,111 @@ export class EnemySystem implements System {
         }
     }
 
-    spawnEnemy(): void {
-        const angle = Math.random() * Math.PI * 2;
-        const minRadius = Math.max(
-            LevelConfig.enemySpawn.spawnRadius.min,
-            LevelConfig.safeZoneRadius + 5
-        );
-        const radius =
-            minRadius +
-            Math.random() * (LevelConfig.enemySpawn.spawnRadius.max - minRadius);
+    /**
+     * Spawn a hunting enemy somewhere around the player but out of view.
+     * Returns null if no valid spawn point was found this time (caller may retry).
+     */
+    spawnEnemy(type?: EnemyType): Enemy | null {
+        const position = this.tmpSpawnPos;
+        if (!this.findSpawnPoint(this.camera.position, position)) return null;
+
+        if (!type) {
+            const types = Object.keys(EnemyTypesConfig) as EnemyType[];
+            type = this.services.random.get('spawn').pick(types);
+        }
 
-        const x = Math.cos(angle) * radius;
-        const z = Math.sin(angle) * radius;
+        const enemy = this.spawnEnemyAt(position.clone(), type, getRandomEnemyWeaponId(this.services.random.get('loot')));
+        // Hunting spawns head for the player's area; snapshot-restored enemies start on patrol instead.
+        enemy?.alertTo(this.camera.position);
+        return enemy;
+    }
 
-        const types = Object.keys(EnemyTypesConfig) as EnemyType[];
-        const type = types[Math.floor(Math.random() * types.length)];
+    /**
+     * Pick a spawn point on dry, reasonably flat ground, clear of colliders, that the player can't see
+     * (outside the view cone, or hidden behind terrain / static geometry).
+     */
+    private findSpawnPoint(viewer: THREE.Vector3, out: THREE.Vector3): boolean {
+        const cfg = LevelConfig.enemySpawn.director;
+        const minDist = Math.max(cfg.spawnDistance.min, LevelConfig.safeZoneRadius + 5);
+        const maxDist = Math.max(minDist, cfg.spawnDistance.max);
+
+        const viewDir = this.camera.getWorldDirection(this.tmpViewDir);
+        viewDir.y = 0;
+        if (viewDir.lengthSq() < 1e-6) viewDir.set(0, 0, -1);
+        viewDir.normalize();
+
+        const halfVFov = THREE.MathUtils.degToRad(this.camera.fov) * 0.5;
+        const halfHFov = Math.atan(Math.tan(halfVFov) * this.camera.aspect);
+        const cosView = Math.cos(Math.min(Math.PI, halfHFov + cfg.viewMargin));
+
+        const radius = EnemyConfig.collision.radius;
+        const rng = this.services.random.get('spawn');
+        for (let attempt = 0; attempt < cfg.spawnAttempts; attempt++) {
+            const angle = rng.next() * Math.PI * 2;
+            const dist = rng.range(minDist, maxDist);
+            const x = viewer.x + Math.cos(angle) * dist;
+            const z = viewer.z + Math.sin(angle) * dist;
+
+            // Terrain: no water, no cliffs.
+            const y = this.level.getTerrainHeight(x, z);
+            if (y < EnvironmentConfig.water.level) continue;
+            const slope = Math.max(
+                Math.abs(this.level.getTerrainHeight(x + 1, z) - y),
+                Math.abs(this.level.getTerrainHeight(x - 1, z) - y),
+                Math.abs(this.level.getTerrainHeight(x, z + 1) - y),
+                Math.abs(this.level.getTerrainHeight(x, z - 1) - y)
+            );
+            if (slope > cfg.maxSlope) continue;
+
+            // Obstacles: don't spawn inside rocks / buildings.
+            out.set(x, y, z);
+            const box = this.tmpSpawnBox;
+            box.min.set(x - radius, y, z - radius);
+            box.max.set(x + radius, y + EnemyConfig.collision.height * 2, z + radius);
+            let blocked = false;
+            for (const entry of this.physicsSystem.getNearbyObjectsInto(out, radius + 1, this.nearbyEntries)) {
+                if (getUserData(entry.object).isGround) continue;
+                if (entry.box.intersectsBox(box)) {
+                    blocked = true;
+                    break;
+                }
+            }
+            if (blocked) continue;
+
+            // Visibility: behind the player is always fine; in front it must be occluded.
+            const toSpawn = this.tmpToSpawn.set(x - viewer.x, 0, z - viewer.z).normalize();
+            if (toSpawn.dot(viewDir) < cosView) return true;
+            if (this.isOccluded(viewer, x, y + EnemyConfig.collision.height * 2, z)) return true;
+        }
 
-        const enemyWeapon = getRandomEnemyWeaponId();
+        return false;
+    }
+
+    private isOccluded(viewer: THREE.Vector3, x: number, y: number, z: number): boolean {
+        const dir = this.tmpToSpawn.set(x - viewer.x, y - viewer.y, z - viewer.z);
+        const dist = dir.length();
+        if (dist < 1e-3) return false;
+        dir.multiplyScalar(1 / dist);
+
+        // Terrain ridge between the player and the spawn point.
+        const stepSize = 2.0;
+        for (let t = stepSize; t < dist; t += stepSize) {
+            const px = viewer.x + dir.x * t;
+            const py = viewer.y + dir.y * t;
+            const pz = viewer.z + dir.z * t;
+            if (this.level.getTerrainHeight(px, pz) > py) return true;
+        }
+
+        // Static geometry (rocks, buildings, walls).
+        return this.physicsSystem.raycastStaticColliders(viewer, dir, dist) !== null;
+    }
+
+    /** Spawn (or reuse from pool) a specific enemy at a world XZ position. */
+    spawnEnemyAt(position: THREE.Vector3, type: EnemyType, enemyWeapon: WeaponId): Enemy | null {
         const pooled = this.takeEnemyFromPool(type, enemyWeapon);
-        const enemy = pooled ?? new Enemy(new THREE.Vector3(x, 0, z), type, enemyWeapon, this.services, this.events);
+        const enemy = pooled ?? new Enemy(position, type, enemyWeapon, this.services, this.events);
         if (pooled) {
-            enemy.respawn(new THREE.Vector3(x, 0, z));
+            enemy.respawn(position);
         }
 
         enemy.onGetGroundHeight = (hx, hz) => this.level.getTerrainHeight(hx, hz);
@@ -434,7 +566,7 @@ export class EnemySystem implements System {
             // Should not happen (spawn cap should stay below GPU capacity).
             // Fail-safe: don't spawn if we'd index out of bounds.
             this.returnEnemyToPool(enemy);
-            return;
+            return null;
         }
 
         enemy.gpuIndex = gpuIndex;
@@ -459,9 +591,56 @@ export class EnemySystem implements System {
             const c = new THREE.Color(EnemyTypesConfig[type].color);
             this.enemiesSim.setEnemyColor(enemy.gpuIndex, c);
         }
+
+        return enemy;
+    }
+
+    getSnapshot(): EnemySnapshot[] {
+        const out: EnemySnapshot[] = [];
+        for (const enemy of this.enemies) {
+            if (enemy.isDead) continue;
+            const p = enemy.mesh.position;
+            out.push({
+                type: enemy.type,
+                weaponId: enemy.getWeaponId(),
+                health: enemy.getHealth(),
+                position: { x: p.x, y: p.y, z: p.z },
+            });
+        }
+        return out;
+    }
+
+    /** Replace all live enemies with the snapshot contents. */
+    restoreSnapshot(snapshot: readonly EnemySnapshot[]): void {
+        this.clearAll();
+        for (const data of snapshot) {
+            if (!(data.type in EnemyTypesConfig)) continue;
+            const enemy = this.spawnEnemyAt(
+                new THREE.Vector3(data.position.x, 0, data.position.z),
+                data.type,
+                data.weaponId
+            );
+            enemy?.restoreHealth(data.health);
+        }
+    }
+
+    /** Alert every living enemy within earshot; rain and sandstorms drown sounds out. */
+    private onNoise(position: { x: number; y: number; z: number }, radius: number): void {
+        const weather = this.weather?.getCurrentWeather() ?? 'sunny';
+        const range = radius * EnemyConfig.ai.hearing.weatherMultiplier[weather];
+        if (range <= 0) return;
+
+        const rangeSq = range * range;
+        const source = this.tmpNoisePos.set(position.x, position.y, position.z);
+        for (const enemy of this.enemies) {
+            if (enemy.isDead) continue;
+            if (enemy.mesh.position.distanceToSquared(source) > rangeSq) continue;
+            enemy.hearNoise(source);
+        }
     }
 
     dispose(): void {
+        this.unsubscribeEvents();
         for (const e of this.enemies) {
             this.scene.remove(e.mesh);
             e.dispose();
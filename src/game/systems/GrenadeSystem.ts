@@ -52,6 +52,11 @@ export class GrenadeSystem implements System {
         return this.grenades.length;
     }
 
+    /** Grenades currently in flight (read-only view for render interpolation). */
+    get all(): readonly Grenade[] {
+        return this.grenades;
+    }
+
     update(frame: FrameContext): void {
         this.explosionManager.update(frame.delta);
 
@@ -101,6 +106,19 @@ export class GrenadeSystem implements System {
         this.events.emit({ type: 'sound:play', sound: 'grenadeThrow' });
     }
 
+    /** Remove every grenade in flight without exploding it (new run / snapshot load). */
+    clearAll(): void {
+        for (const grenade of this.grenades) {
+            grenade.release();
+            if (this.grenadePool.length < this.grenadePoolMax) {
+                this.grenadePool.push(grenade);
+            } else {
+                grenade.dispose();
+            }
+        }
+        this.grenades = [];
+    }
+
     dispose(): void {
         for (const g of this.grenades) g.dispose();
         for (const g of this.grenadePool) g.dispose();
@@ -1,9 +1,19 @@
 import * as THREE from 'three';
 import type { System, FrameContext } from '../core/engine/System';
-import { Pickup } from '../entities/PickupTSL';
+import { Pickup, type PickupType } from '../entities/PickupTSL';
 import { LevelConfig } from '../core/GameConfig';
 import type { Level } from '../level/Level';
 import type { GameEventBus } from '../core/events/GameEventBus';
+import type { AmmoCaliber } from '../weapon/WeaponTypes';
+import { AMMO_CALIBERS } from '../weapon/Inventory';
+import type { RandomStream } from '../core/util/RandomStreams';
+
+/** Serializable pickup record (save/load). Position is on the ground (before float offset). */
+export interface PickupSnapshot {
+    type: PickupType;
+    caliber: AmmoCaliber;
+    position: { x: number; y: number; z: number };
+}
 
 export class PickupSystem implements System {
     public readonly name = 'pickups';
@@ -11,14 +21,16 @@ export class PickupSystem implements System {
     private readonly scene: THREE.Scene;
     private readonly level: Level;
     private readonly events: GameEventBus;
+    private readonly random: RandomStream;
     private pickups: Pickup[] = [];
 
     private readonly tmpPlayerPos = new THREE.Vector3();
 
-    constructor(scene: THREE.Scene, level: Level, events: GameEventBus) {
+    constructor(scene: THREE.Scene, level: Level, events: GameEventBus, random: RandomStream) {
         this.scene = scene;
         this.level = level;
         this.events = events;
+        this.random = random;
     }
 
     get all(): readonly Pickup[] {
@@ -55,7 +67,9 @@ export class PickupSystem implements System {
         // Keep a hard safety cap to avoid runaway allocations.
         if (this.pickups.length >= LevelConfig.pickupSpawn.maxPickups * 2) return;
 
-        const type = Math.random() > 0.5 ? 'health' : 'ammo';
+        const rng = this.random;
+        const type = rng.chance(0.5) ? 'health' : 'ammo';
+        const caliber = rng.pick(AMMO_CALIBERS);
 
         // Spawn in a local-ish radius but outside safe zone.
         let x = 0;
@@ -63,22 +77,53 @@ export class PickupSystem implements System {
         let dist = 0;
 
         for (let i = 0; i < 10; i++) {
-            x = (Math.random() - 0.5) * 150;
-            z = (Math.random() - 0.5) * 150;
+            x = (rng.next() - 0.5) * 150;
+            z = (rng.next() - 0.5) * 150;
             dist = Math.sqrt(x * x + z * z);
             if (dist > LevelConfig.safeZoneRadius) break;
         }
 
         if (dist <= LevelConfig.safeZoneRadius) {
-            const angle = Math.random() * Math.PI * 2;
+            const angle = rng.next() * Math.PI * 2;
             x = Math.cos(angle) * (LevelConfig.safeZoneRadius + 2);
             z = Math.sin(angle) * (LevelConfig.safeZoneRadius + 2);
         }
 
         const y = this.level.getTerrainHeight(x, z);
-        const pickup = new Pickup(type, new THREE.Vector3(x, y, z), this.events);
+        this.spawnPickupAt(type, new THREE.Vector3(x, y, z), caliber);
+    }
+
+    spawnPickupAt(type: PickupType, position: THREE.Vector3, caliber?: AmmoCaliber): Pickup {
+        const pickup = new Pickup(type, position, this.events, caliber);
         this.scene.add(pickup.mesh);
         this.pickups.push(pickup);
+        return pickup;
+    }
+
+    getSnapshot(): PickupSnapshot[] {
+        const out: PickupSnapshot[] = [];
+        for (const pickup of this.pickups) {
+            if (pickup.isCollected) continue;
+            const p = pickup.mesh.position;
+            out.push({
+                type: pickup.type,
+                caliber: pickup.caliber,
+                position: { x: p.x, y: this.level.getTerrainHeight(p.x, p.z), z: p.z },
+            });
+        }
+        return out;
+    }
+
+    /** Replace all pickups with the snapshot contents. */
+    restoreSnapshot(snapshot: readonly PickupSnapshot[]): void {
+        this.dispose();
+        for (const data of snapshot) {
+            this.spawnPickupAt(
+                data.type,
+                new THREE.Vector3(data.position.x, data.position.y, data.position.z),
+                data.caliber
+            );
+        }
     }
 
     dispose(): void {
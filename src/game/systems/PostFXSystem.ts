@@ -0,0 +1,42 @@
+import type { FrameContext, System } from '../core/engine/System';
+import { PostFXConfig } from '../core/GameConfig';
+import type { PostFXPipeline } from '../core/render/PostFXPipeline';
+import type { WeatherSystem } from '../level/WeatherSystem';
+import type { PlayerController } from '../player/PlayerController';
+
+/**
+ * PostFXSystem - 每帧驱动后期 pass 的输入 uniform
+ * 奔跑运动模糊的淡入淡出、按天气过渡交叉混合调色 LUT。(瞄准进度由 PlayerUpdateSystem 写入)
+ */
+export class PostFXSystem implements System {
+    public readonly name = 'postfx';
+
+    private readonly postFx: PostFXPipeline;
+    private readonly player: PlayerController;
+    private readonly weather: WeatherSystem;
+
+    private sprint = 0;
+
+    constructor(opts: { postFx: PostFXPipeline; player: PlayerController; weather: WeatherSystem }) {
+        this.postFx = opts.postFx;
+        this.player = opts.player;
+        this.weather = opts.weather;
+    }
+
+    update(frame: FrameContext): void {
+        const inputs = this.postFx.inputs;
+
+        // Sprint motion blur ramps in/out instead of popping.
+        const target = this.player.isSprinting() ? 1 : 0;
+        const step = PostFXConfig.motionBlur.fadeSpeed * frame.delta;
+        this.sprint = target > this.sprint ? Math.min(target, this.sprint + step) : Math.max(target, this.sprint - step);
+        inputs.sprint.value = this.sprint;
+
+        // Weather grading follows the weather transition: current -> target.
+        const weather = this.weather.getStateSnapshot();
+        const luts = this.postFx.weatherLUTs;
+        inputs.lutFrom.value = luts[weather.currentWeather];
+        inputs.lutTo.value = luts[weather.targetWeather];
+        inputs.weatherBlend.value = weather.currentWeather === weather.targetWeather ? 1 : weather.transitionProgress;
+    }
+}
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import type { WebGPURenderer } from 'three/webgpu';
+
+import type { FrameContext, System } from '../core/engine/System';
+import { ScopeConfig } from '../core/GameConfig';
+import { setScopeReticle, type ScopeLens } from '../core/render/ScopeOverlay';
+import type { ActiveScope, PlayerController } from '../player/PlayerController';
+import { getDropMarkDistances, getHoldoverAngle, getScopedFov } from '../weapon/WeaponScope';
+import type { ScopeReticleId, WeaponId } from '../weapon/WeaponTypes';
+
+/**
+ * ScopeSystem - 瞄准镜 (渲染阶段)
+ * Picks the reticle of the current weapon, places its drop marks for the current zoom and, in PIP mode,
+ * renders the magnified lens view into `lens.target` before the post pipeline composites it.
+ */
+export class ScopeSystem implements System {
+    public readonly name = 'scope';
+
+    private readonly renderer: WebGPURenderer;
+    private readonly scene: THREE.Scene;
+    private readonly camera: THREE.PerspectiveCamera;
+    private readonly player: PlayerController;
+    private readonly lens: ScopeLens;
+
+    private readonly scopeCamera = new THREE.PerspectiveCamera();
+    private reticle: ScopeReticleId = 'classic';
+    private dropMarkWeapon: WeaponId | null = null;
+    private dropMarkDistances: number[] = [];
+
+    constructor(opts: {
+        renderer: WebGPURenderer;
+        scene: THREE.Scene;
+        camera: THREE.PerspectiveCamera;
+        player: PlayerController;
+        lens: ScopeLens;
+    }) {
+        this.renderer = opts.renderer;
+        this.scene = opts.scene;
+        this.camera = opts.camera;
+        this.player = opts.player;
+        this.lens = opts.lens;
+    }
+
+    update(frame: FrameContext): void {
+        const lens = this.lens;
+        lens.aspect.value = this.camera.aspect;
+
+        // Iron sights keep the classic overlay.
+        const active = this.player.getActiveScope();
+        const reticle = active?.scope.reticle ?? 'classic';
+        if (reticle !== this.reticle) {
+            this.reticle = reticle;
+            setScopeReticle(lens, ScopeConfig.reticles[reticle]);
+        }
+
+        const pip = active?.pip ?? false;
+        lens.pip.value = pip ? 1 : 0;
+
+        // tan of the half angle the lens radius covers: the PIP camera spans the lens diameter,
+        // in fullscreen mode the lens is a part of the (already narrowed) camera view.
+        const lensFraction = ScopeConfig.lensRadius * 2;
+        const lensFov = active && pip ? getScopedFov(this.camera.fov, active.magnification, lensFraction) : 0;
+        const lensTanHalf = pip
+            ? Math.tan(THREE.MathUtils.degToRad(lensFov) * 0.5)
+            : Math.tan(THREE.MathUtils.degToRad(this.camera.fov) * 0.5) * lensFraction;
+
+        this.updateDropMarks(active && ScopeConfig.reticles[reticle].dropMarks ? active : null, lensTanHalf);
+
+        if (active && pip && frame.aimProgress >= ScopeConfig.pip.minAimProgress) {
+            this.renderLens(lensFov);
+        }
+    }
+
+    private updateDropMarks(active: ActiveScope | null, lensTanHalf: number): void {
+        const weapon = active?.weapon ?? null;
+        if (weapon !== this.dropMarkWeapon) {
+            this.dropMarkWeapon = weapon;
+            this.dropMarkDistances = weapon ? getDropMarkDistances(weapon) : [];
+        }
+
+        const marks = this.lens.dropMarks;
+        for (let i = 0; i < marks.length; i++) {
+            const distance = this.dropMarkDistances[i];
+            if (distance === undefined || !active || lensTanHalf <= 0) {
+                marks[i].halfWidth.value = 0;
+                continue;
+            }
+            marks[i].offset.value = Math.tan(getHoldoverAngle(active.scope, distance)) / lensTanHalf;
+            // Every 100 m gets a wider mark.
+            const major = Math.abs(distance % 100) < 1e-6;
+            marks[i].halfWidth.value = ScopeConfig.dropMarks.halfWidth * (major ? 2 : 1);
+        }
+    }
+
+    private renderLens(fov: number): void {
+        const camera = this.camera;
+        const scopeCamera = this.scopeCamera;
+
+        // Render phase runs on the interpolated pose; take it from the world matrix.
+        camera.updateMatrixWorld();
+        camera.matrixWorld.decompose(scopeCamera.position, scopeCamera.quaternion, scopeCamera.scale);
+        scopeCamera.fov = fov;
+        scopeCamera.aspect = 1;
+        scopeCamera.near = camera.near;
+        scopeCamera.far = camera.far;
+        scopeCamera.updateProjectionMatrix();
+        scopeCamera.updateMatrixWorld();
+
+        // The weapon viewmodel hangs off the player camera; hiding the camera hides it for this pass.
+        const wasVisible = camera.visible;
+        camera.visible = false;
+        const previousTarget = this.renderer.getRenderTarget();
+        try {
+            this.renderer.setRenderTarget(this.lens.target);
+            this.renderer.render(this.scene, scopeCamera);
+        } finally {
+            this.renderer.setRenderTarget(previousTarget);
+            camera.visible = wasVisible;
+        }
+    }
+}
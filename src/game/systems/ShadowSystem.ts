@@ -1,6 +1,12 @@
 import * as THREE from 'three';
 import type { FrameContext, System } from '../core/engine/System';
 import { MapConfig } from '../core/GameConfig';
+import { DayNightUniforms } from '../shaders/DayNightUniforms';
+
+// Distance of the light from its target (matches the previous fixed (15, 30, 15) offset).
+const SUN_DISTANCE = Math.hypot(15, 30, 15);
+// Re-render shadows once the sun has moved this far (radians) even if the player stands still.
+const SUN_MOVE_THRESHOLD = THREE.MathUtils.degToRad(0.5);
 
 export class ShadowSystem implements System {
     public readonly name = 'shadows';
@@ -10,6 +16,7 @@ export class ShadowSystem implements System {
     private shadowUpdateAccumulator = 0;
     private lastShadowSnapX = Number.NaN;
     private lastShadowSnapZ = Number.NaN;
+    private readonly lastSunDirection = new THREE.Vector3();
     private debugDidUpdateThisFrame = 0;
     private debugSnapChangedThisFrame = 0;
 
@@ -24,13 +31,27 @@ export class ShadowSystem implements System {
         this.sunLight = sunLight;
     }
 
+    /**
+     * Graphics quality: resize the sun shadow map. ShadowNode reallocates the render target
+     * on its next update; force one so the new resolution shows up immediately.
+     */
+    public setShadowMapSize(size: number): void {
+        const mapSize = this.sunLight.shadow.mapSize;
+        if (mapSize.width === size && mapSize.height === size) return;
+        mapSize.set(size, size);
+        this.sunLight.shadow.needsUpdate = true;
+        // The texel snap grid depends on the map size.
+        this.lastShadowSnapX = Number.NaN;
+        this.lastShadowSnapZ = Number.NaN;
+    }
+
     update(frame: FrameContext): void {
         const sunLight = this.sunLight;
         if (!sunLight) return;
 
         // Snap directional light to shadow texel grid to reduce swimming.
         const shadowSize = 80 * 2; // right - left
-        const mapSize = 1024;
+        const mapSize = sunLight.shadow.mapSize.width;
         const texelSize = shadowSize / mapSize;
 
         // IMPORTANT: snapping to *every* texel causes constant shadow updates while walking.
@@ -54,10 +75,14 @@ export class ShadowSystem implements System {
         const snapChanged = x !== this.lastShadowSnapX || z !== this.lastShadowSnapZ;
         if (snapChanged) this.debugSnapChangedThisFrame = 1;
 
+        // Day/night: the sun slowly orbits, so also refresh when its direction drifted enough.
+        const sunDir = DayNightUniforms.sunDirection.value;
+        const sunMoved = this.lastSunDirection.lengthSq() === 0 || this.lastSunDirection.angleTo(sunDir) > SUN_MOVE_THRESHOLD;
+
         // Shadow updates are GPU-expensive (extra render pass + PCF filtering).
         // In large worlds we follow the player, but we must rate-limit updates so running doesn't
         // trigger a shadow re-render every frame.
-        const shouldUpdateShadow = snapChanged && this.shadowUpdateAccumulator >= interval;
+        const shouldUpdateShadow = (snapChanged || sunMoved) && this.shadowUpdateAccumulator >= interval;
 
         if (!shouldUpdateShadow) return;
 
@@ -65,8 +90,10 @@ export class ShadowSystem implements System {
         this.lastShadowSnapZ = z;
         this.shadowUpdateAccumulator = 0;
 
-        // Keep relative offset (15, 30, 15)
-        sunLight.position.set(x + 15, 30, z + 15);
+        this.lastSunDirection.copy(sunDir);
+
+        // Light sits along the current sun direction (snapped XZ keeps the shadow grid stable).
+        sunLight.position.set(x + sunDir.x * SUN_DISTANCE, sunDir.y * SUN_DISTANCE, z + sunDir.z * SUN_DISTANCE);
         sunLight.target.position.set(x, 0, z);
         sunLight.target.updateMatrixWorld();
 
@@ -1,41 +1,83 @@
 import * as THREE from 'three';
 import type { System, FrameContext } from '../core/engine/System';
-import { LevelConfig } from '../core/GameConfig';
+import { DayNightConfig, InitialState, LevelConfig, type EnemyType } from '../core/GameConfig';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import { EncounterDirector } from '../enemy/EncounterDirector';
 import type { EnemySystem } from './EnemySystem';
 import type { PickupSystem } from './PickupSystem';
+import type { DayNightCycle } from '../level/DayNightCycle';
+import type { RandomStream } from '../core/util/RandomStreams';
+import { biomeWeightsCpu, blendBiomeRecord, createBiomeWeights } from '../shaders/BiomeMap';
 
 export class SpawnSystem implements System {
     public readonly name = 'spawns';
 
     private readonly enemies: EnemySystem;
     private readonly pickups: PickupSystem;
+    private readonly dayNight: DayNightCycle | null;
+    private readonly director: EncounterDirector;
+    private readonly biome = createBiomeWeights();
+    private readonly biomeEnemyWeights: Record<EnemyType, number> = { scout: 1, soldier: 1, heavy: 1, elite: 1 };
 
-    private spawnTimer = 0;
     private pickupSpawnTimer = 0;
     private initialPickupsSpawned = false;
     private pendingInitialPickupSpawns = 0;
     private pendingInitialPickupCooldown = 0;
 
-    constructor(enemies: EnemySystem, pickups: PickupSystem) {
-        this.enemies = enemies;
-        this.pickups = pickups;
+    constructor(opts: {
+        enemies: EnemySystem;
+        pickups: PickupSystem;
+        events: GameEventBus;
+        random: RandomStream;
+        dayNight?: DayNightCycle;
+    }) {
+        this.enemies = opts.enemies;
+        this.pickups = opts.pickups;
+        this.dayNight = opts.dayNight ?? null;
+        this.director = new EncounterDirector(opts.events, opts.random);
 
-        this.spawnTimer = -LevelConfig.enemySpawn.initialDelay / 1000;
         this.pickupSpawnTimer = -LevelConfig.pickupSpawn.initialDelay / 1000;
     }
 
+    /** Wave director state (read-only; e.g. debug/perf overlays). */
+    getDirector(): EncounterDirector {
+        return this.director;
+    }
+
+    /** Restart the wave and pickup schedules from the start of a run (new run / snapshot load). */
+    reset(): void {
+        this.director.reset();
+        this.pickupSpawnTimer = -LevelConfig.pickupSpawn.initialDelay / 1000;
+        this.initialPickupsSpawned = false;
+        this.pendingInitialPickupSpawns = 0;
+        this.pendingInitialPickupCooldown = 0;
+    }
+
     update(frame: FrameContext): void {
         const delta = frame.delta;
 
-        // Enemy spawn
-        this.spawnTimer += delta;
-        if (
-            LevelConfig.enemySpawn.enabled &&
-            this.spawnTimer > 3.0 &&
-            this.enemies.all.length < LevelConfig.enemySpawn.maxEnemies
-        ) {
-            this.enemies.spawnEnemy();
-            this.spawnTimer = 0;
+        // Enemy waves (nights are denser: shorter interval + higher cap)
+        const nightFactor = this.dayNight?.getNightFactor() ?? 0;
+        const maxEnemies = Math.round(
+            LevelConfig.enemySpawn.maxEnemies * THREE.MathUtils.lerp(1, DayNightConfig.night.maxEnemiesMultiplier, nightFactor)
+        );
+
+        if (LevelConfig.enemySpawn.enabled) {
+            // Spawn points are a few dozen meters out; the player's biome picks the spawn table.
+            biomeWeightsCpu(frame.playerPos.x, frame.playerPos.z, this.biome);
+            blendBiomeRecord(this.biome, (b) => b.enemies, this.biomeEnemyWeights);
+
+            const type = this.director.update({
+                delta,
+                healthFraction: frame.health / InitialState.health,
+                nightFactor,
+                biomeEnemyWeights: this.biomeEnemyWeights,
+            });
+            if (type) {
+                const enemy = this.enemies.all.length < maxEnemies ? this.enemies.spawnEnemy(type) : null;
+                if (enemy) this.director.notifySpawned(enemy);
+                else this.director.notifySpawnFailed();
+            }
         }
 
         // Pickup spawn
@@ -68,7 +110,9 @@ export class SpawnSystem implements System {
                 this.pendingInitialPickupCooldown = 0.3;
             }
         }
+    }
 
-        void THREE; // keep import for future spawn shaping
+    dispose(): void {
+        this.director.dispose();
     }
 }
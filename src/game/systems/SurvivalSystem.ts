@@ -0,0 +1,186 @@
+import type { System, FrameContext } from '../core/engine/System';
+import type { GameEventBus } from '../core/events/GameEventBus';
+import type { GameServices } from '../core/services/GameServices';
+import type { SurvivalStats } from '../core/GameState';
+import type { WeatherSystem } from '../level/WeatherSystem';
+import type { Level } from '../level/Level';
+import type { PlayerController } from '../player/PlayerController';
+import { EnvironmentConfig, SurvivalConfig } from '../core/GameConfig';
+
+type SurvivalPlayer = Pick<PlayerController, 'isSprinting' | 'isMoving' | 'getStance'>;
+
+/**
+ * 生存数值：饥饿 / 口渴 / 体力 / 体温。
+ * 本地以浮点累积，按固定间隔同步到 GameState，避免每帧触发 React 更新。
+ * 数值过低时通过事件总线扣血 (state:updateHealth) 和降低移动速度 (player:setSpeedMultiplier)。
+ */
+export class SurvivalSystem implements System {
+    public readonly name = 'survival';
+
+    private static readonly SPEED_SOURCE = 'survival';
+    private static readonly SYNC_INTERVAL = 0.2;
+
+    private readonly events: GameEventBus;
+    private readonly services: GameServices;
+    private readonly weather: WeatherSystem;
+    private readonly level: Level;
+    private readonly player: SurvivalPlayer;
+
+    private readonly stats: SurvivalStats;
+    private readonly lastSynced: SurvivalStats;
+
+    private syncTimer = 0;
+    private sinceSprint = Infinity;
+    private pendingDamage = 0;
+    private speedMultiplier = 1.0;
+
+    constructor(opts: {
+        events: GameEventBus;
+        services: GameServices;
+        weather: WeatherSystem;
+        level: Level;
+        player: SurvivalPlayer;
+    }) {
+        this.events = opts.events;
+        this.services = opts.services;
+        this.weather = opts.weather;
+        this.level = opts.level;
+        this.player = opts.player;
+
+        const initial = this.services.state.getState().survival;
+        this.stats = { ...initial };
+        this.lastSynced = { ...initial };
+    }
+
+    update(frame: FrameContext): void {
+        const state = this.services.state.getState();
+        if (state.isGameOver) return;
+
+        // Reset / snapshot load / consumables may change the stats outside this system: adopt them.
+        this.adoptExternalChanges(state.survival);
+
+        const dt = frame.delta;
+        const inWater = this.level.getTerrainHeight(frame.playerPos.x, frame.playerPos.z) < EnvironmentConfig.water.level;
+
+        this.updateHungerThirst(dt, inWater);
+        this.updateStamina(dt);
+        this.updateTemperature(dt, inWater);
+        this.applyPenalties(dt);
+
+        this.syncTimer += dt;
+        if (this.syncTimer >= SurvivalSystem.SYNC_INTERVAL) {
+            this.syncTimer = 0;
+            this.syncToState();
+        }
+    }
+
+    private updateHungerThirst(dt: number, inWater: boolean): void {
+        const h = SurvivalConfig.hunger;
+        const t = SurvivalConfig.thirst;
+        this.stats.hunger = clamp(this.stats.hunger - h.drainPerSecond * dt, 0, h.max);
+
+        const thirstDelta = inWater ? t.drinkPerSecond : -t.drainPerSecond;
+        this.stats.thirst = clamp(this.stats.thirst + thirstDelta * dt, 0, t.max);
+    }
+
+    private updateStamina(dt: number): void {
+        const cfg = SurvivalConfig.stamina;
+
+        if (this.player.isSprinting()) {
+            this.sinceSprint = 0;
+            this.stats.stamina = Math.max(0, this.stats.stamina - cfg.sprintCostPerSecond * dt);
+            return;
+        }
+
+        this.sinceSprint += dt;
+        if (this.sinceSprint < cfg.regenDelay) return;
+
+        const resting = !this.player.isMoving() || this.player.getStance() !== 'stand';
+        const rate = cfg.regenPerSecond * (resting ? cfg.restRegenMultiplier : 1.0);
+        this.stats.stamina = Math.min(cfg.max, this.stats.stamina + rate * dt);
+    }
+
+    private updateTemperature(dt: number, inWater: boolean): void {
+        const cfg = SurvivalConfig.temperature;
+
+        let target = cfg.weatherTarget[this.weather.getCurrentWeather()];
+        let rate = cfg.approachPerSecond;
+        if (inWater) {
+            target += cfg.waterOffset;
+            rate *= cfg.waterApproachMultiplier;
+        }
+
+        const current = this.stats.bodyTemperature;
+        const step = rate * dt;
+        const next = current < target ? Math.min(target, current + step) : Math.max(target, current - step);
+        this.stats.bodyTemperature = clamp(next, cfg.min, cfg.max);
+    }
+
+    private applyPenalties(dt: number): void {
+        const temp = SurvivalConfig.temperature;
+        const p = SurvivalConfig.penalties;
+        const s = this.stats;
+
+        let damagePerSecond = 0;
+        if (s.hunger <= 0) damagePerSecond += SurvivalConfig.hunger.starvingDamagePerSecond;
+        if (s.thirst <= 0) damagePerSecond += SurvivalConfig.thirst.dehydratedDamagePerSecond;
+        if (s.bodyTemperature < temp.coldThreshold || s.bodyTemperature > temp.hotThreshold) {
+            damagePerSecond += temp.damagePerSecond;
+        }
+
+        // Health is integer-ish: emit whole points only.
+        this.pendingDamage += damagePerSecond * dt;
+        if (this.pendingDamage >= 1) {
+            const amount = Math.floor(this.pendingDamage);
+            this.pendingDamage -= amount;
+            this.events.emit({ type: 'state:updateHealth', delta: -amount });
+        }
+
+        let multiplier = 1.0;
+        if (s.hunger < SurvivalConfig.hunger.lowThreshold) multiplier = Math.min(multiplier, p.hungerSpeedMultiplier);
+        if (s.thirst < SurvivalConfig.thirst.lowThreshold) multiplier = Math.min(multiplier, p.thirstSpeedMultiplier);
+        if (s.bodyTemperature < temp.coldThreshold) multiplier = Math.min(multiplier, p.coldSpeedMultiplier);
+        if (s.bodyTemperature > temp.hotThreshold) multiplier = Math.min(multiplier, p.heatSpeedMultiplier);
+
+        if (multiplier !== this.speedMultiplier) {
+            this.speedMultiplier = multiplier;
+            this.events.emit({ type: 'player:setSpeedMultiplier', source: SurvivalSystem.SPEED_SOURCE, multiplier });
+        }
+    }
+
+    private adoptExternalChanges(current: SurvivalStats): void {
+        const keys = Object.keys(this.lastSynced) as Array<keyof SurvivalStats>;
+        for (const key of keys) {
+            if (current[key] !== this.lastSynced[key]) {
+                this.stats[key] = current[key];
+                this.lastSynced[key] = current[key];
+            }
+        }
+    }
+
+    private syncToState(): void {
+        const next: Partial<SurvivalStats> = {};
+        let changed = false;
+        const keys = Object.keys(this.stats) as Array<keyof SurvivalStats>;
+        for (const key of keys) {
+            // One decimal is plenty for the HUD and keeps notifications rare while idle.
+            const v = Math.round(this.stats[key] * 10) / 10;
+            if (v !== this.lastSynced[key]) {
+                next[key] = v;
+                this.lastSynced[key] = v;
+                changed = true;
+            }
+        }
+        if (changed) this.events.emit({ type: 'state:setSurvival', stats: next });
+    }
+
+    dispose(): void {
+        if (this.speedMultiplier !== 1.0) {
+            this.events.emit({ type: 'player:setSpeedMultiplier', source: SurvivalSystem.SPEED_SOURCE, multiplier: 1.0 });
+        }
+    }
+}
+
+function clamp(v: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, v));
+}
@@ -37,6 +37,8 @@ export interface GameUserData {
     isObstacleBatch?: boolean;
     isRock?: boolean;
     isRuin?: boolean;
+    // Rock / ruin id for harvest counts in WorldDeltaStore (harvestSourceSeed).
+    harvestSeed?: number;
     isCover?: boolean;
     isBarrel?: boolean;
     isTree?: boolean;
@@ -44,6 +46,10 @@ export interface GameUserData {
     treePart?: string;
     treeType?: TreeType;
 
+    // Player-built structures (BuildingSystem)
+    isBuildPiece?: boolean;
+    buildPieceId?: number;
+
     // Instanced batch metadata
     chunkCenterX?: number;
     chunkCenterZ?: number;
@@ -52,6 +58,8 @@ export interface GameUserData {
     treePositionsXZ?: Float32Array;
     grassPositionsXZ?: Float32Array;
     pairedMesh?: THREE.InstancedMesh;
+    // Streaming chunk key (packChunkKey) used to record removals in WorldDeltaStore.
+    vegetationChunkKey?: number;
 
     // Cached traversal targets
     _hitscanTargets?: THREE.Object3D[];
@@ -0,0 +1,62 @@
+import { InitialState, InventoryConfig } from '../core/GameConfig';
+import { getAllWeaponIds, getWeaponDefinition } from './WeaponDefinitions';
+import type { AmmoCaliber, LoadoutSlotId, PlayerLoadout, WeaponId } from './WeaponTypes';
+
+/** Slot order used for weapon cycling (wheel) and HUD. */
+export const LOADOUT_SLOT_ORDER: readonly LoadoutSlotId[] = [
+    'primary',
+    'secondary',
+    'melee',
+    'tool',
+    'utility',
+    'throwable',
+];
+
+export const AMMO_CALIBERS: readonly AmmoCaliber[] = ['556', '762', '9mm', '12ga', 'arrow'];
+
+export function createDefaultLoadout(): PlayerLoadout {
+    const out = {} as PlayerLoadout;
+    for (const slot of LOADOUT_SLOT_ORDER) {
+        out[slot] = InventoryConfig.loadout[slot].default;
+    }
+    return out;
+}
+
+export function canEquipInSlot(slot: LoadoutSlotId, weapon: WeaponId): boolean {
+    const accepts: readonly string[] = InventoryConfig.loadout[slot].accepts;
+    return accepts.includes(getWeaponDefinition(weapon).category);
+}
+
+/** Equipped weapons in slot order (empty slots and duplicates skipped). */
+export function getLoadoutWeaponIds(loadout: PlayerLoadout): WeaponId[] {
+    const out: WeaponId[] = [];
+    for (const slot of LOADOUT_SLOT_ORDER) {
+        const id = loadout[slot];
+        if (id && !out.includes(id)) out.push(id);
+    }
+    return out;
+}
+
+export function createInitialReserveAmmo(): Record<AmmoCaliber, number> {
+    return { ...InitialState.reserveAmmo };
+}
+
+/** Every melee tool starts unworn (even if not equipped yet). */
+export function createInitialToolDurability(): Partial<Record<WeaponId, number>> {
+    const out: Partial<Record<WeaponId, number>> = {};
+    for (const id of getAllWeaponIds()) {
+        const def = getWeaponDefinition(id);
+        if (def.category === 'melee') out[id] = def.durability;
+    }
+    return out;
+}
+
+/** Every ranged weapon starts with a full magazine (even if not equipped yet). */
+export function createInitialMagazines(): Partial<Record<WeaponId, number>> {
+    const out: Partial<Record<WeaponId, number>> = {};
+    for (const id of getAllWeaponIds()) {
+        const def = getWeaponDefinition(id);
+        if (def.category === 'ranged') out[id] = def.magazineSize;
+    }
+    return out;
+}
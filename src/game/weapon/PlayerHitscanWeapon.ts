@@ -10,6 +10,19 @@ import { WeaponFactory } from './WeaponFactory';
 import { IPlayerWeapon, RangedWeaponDefinition, WeaponContext } from './WeaponTypes';
 import type { GameEventBus } from '../core/events/GameEventBus';
 import { getUserData } from '../types/GameUserData';
+import { InventoryConfig } from '../core/GameConfig';
+import { getHoldoverAngle } from './WeaponScope';
+
+/** Result of one shot ray (see `castShot`). */
+type PlayerShotHit = {
+    point: THREE.Vector3 | null;
+    normal: THREE.Vector3 | null;
+    object: THREE.Object3D | null;
+    /** Set for impostor hits; mesh hits are resolved from `object`. */
+    enemy: Enemy | null;
+    /** Along the ray; Infinity when nothing was hit. */
+    distance: number;
+};
 
 export class PlayerHitscanWeapon implements IPlayerWeapon {
     public readonly id: RangedWeaponDefinition['id'];
@@ -117,6 +130,8 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
     private tmpHitNormal = new THREE.Vector3(0, 1, 0);
     private tmpUp = new THREE.Vector3(0, 1, 0);
     private tmpBloodDir = new THREE.Vector3();
+    private tmpDropAxis = new THREE.Vector3();
+    private readonly shotHit: PlayerShotHit = { point: null, normal: null, object: null, enemy: null, distance: 0 };
 
     private flashMesh: THREE.Mesh | null = null;
     private flashIntensity: UniformNode<number>;
@@ -137,6 +152,9 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
     private triggerHeld = false;
     private fireCooldown = 0;
 
+    // reload (seconds remaining; <= 0 means not reloading)
+    private reloadTimeRemaining = 0;
+
     // muzzle flash fade (avoid setTimeout per shot)
     private flashTimeRemaining = 0;
     private readonly flashDuration = 0.06;
@@ -206,6 +224,45 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
     public hide(): void {
         this.mesh.visible = false;
         if (this.flashMesh) this.flashMesh.visible = false;
+        // Holstering interrupts a reload (magazine stays as it was).
+        this.cancelReload();
+    }
+
+    public isReloading(): boolean {
+        return this.reloadTimeRemaining > 0;
+    }
+
+    /** Start a timed reload from reserve ammo of this weapon's caliber. */
+    public reload(): void {
+        if (!this.def.usesAmmo || this.isReloading()) return;
+
+        const state = this.services.state.getState();
+        const loaded = state.magazines[this.def.id] ?? 0;
+        if (loaded >= this.def.magazineSize) return;
+        if ((state.reserveAmmo[this.def.caliber] ?? 0) <= 0) return;
+
+        this.reloadTimeRemaining = Math.max(0.01, this.def.reloadTime);
+        this.events.emit({ type: 'state:setReloadProgress', progress: 0.001 });
+    }
+
+    public cancelReload(): void {
+        if (!this.isReloading()) return;
+        this.reloadTimeRemaining = 0;
+        this.events.emit({ type: 'state:setReloadProgress', progress: 0 });
+    }
+
+    private finishReload(): void {
+        this.reloadTimeRemaining = 0;
+
+        const state = this.services.state.getState();
+        const loaded = state.magazines[this.def.id] ?? 0;
+        const reserve = state.reserveAmmo[this.def.caliber] ?? 0;
+        const moved = Math.min(this.def.magazineSize - loaded, reserve);
+        if (moved > 0) {
+            this.events.emit({ type: 'state:updateReserveAmmo', caliber: this.def.caliber, delta: -moved });
+            this.events.emit({ type: 'state:setMagazine', weapon: this.def.id, rounds: loaded + moved });
+        }
+        this.events.emit({ type: 'state:setReloadProgress', progress: 0 });
     }
 
     public onTriggerDown(ctx: WeaponContext): void {
@@ -236,6 +293,17 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
         // Drive GPU trail lifetime.
         this.bulletTrails.setTimeSeconds(performance.now() * 0.001);
 
+        // reload timer
+        if (this.reloadTimeRemaining > 0) {
+            this.reloadTimeRemaining -= delta;
+            if (this.reloadTimeRemaining <= 0) {
+                this.finishReload();
+            } else {
+                const p = 1 - this.reloadTimeRemaining / Math.max(0.01, this.def.reloadTime);
+                this.events.emit({ type: 'state:setReloadProgress', progress: Math.max(0.001, p) });
+            }
+        }
+
         // fire loop
         if (this.fireCooldown > 0) this.fireCooldown -= delta;
         if (this.triggerHeld && this.def.canAutoFire) {
@@ -279,19 +347,35 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
         if (this.fireCooldown > 0) return;
         if (!this.scene) return;
 
-        const state = this.services.state.getState();
-        if (this.def.usesAmmo && state.ammo < this.def.ammoPerShot) return;
+        const loaded = this.services.state.getState().magazines[this.def.id] ?? 0;
+        if (this.def.usesAmmo) {
+            if (loaded < this.def.ammoPerShot) {
+                if (InventoryConfig.reload.autoReloadWhenEmpty) this.reload();
+                return;
+            }
+            // Firing with rounds left interrupts a partial reload.
+            this.cancelReload();
+        }
 
         this.fireCooldown = 1 / Math.max(0.01, this.def.fireRate);
 
         if (this.def.usesAmmo) {
-            this.events.emit({ type: 'state:updateAmmo', delta: -this.def.ammoPerShot });
+            this.events.emit({ type: 'state:setMagazine', weapon: this.def.id, rounds: loaded - this.def.ammoPerShot });
         }
 
         // sound
         if (this.def.id === 'sniper' && this.isAiming) this.events.emit({ type: 'sound:play', sound: 'sniperShoot' });
         else this.events.emit({ type: 'sound:play', sound: 'shoot' });
 
+        // noise (enemies within earshot come to investigate)
+        const shotPos = this.camera.position;
+        this.events.emit({
+            type: 'world:noise',
+            source: 'gunshot',
+            position: { x: shotPos.x, y: shotPos.y, z: shotPos.z },
+            radius: this.def.noiseRadius,
+        });
+
         // muzzle flash
         if (this.flashMesh) this.showMuzzleFlash();
 
@@ -300,6 +384,72 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
 
         // raycast
         this.raycaster.setFromCamera(this.v2Zero, this.camera);
+        const rayOrigin = this.tmpRayOrigin.copy(this.raycaster.ray.origin);
+        const rayDirection = this.tmpRayDirection.copy(this.raycaster.ray.direction).normalize();
+
+        let shot = this.castShot(rayOrigin, rayDirection);
+        const scope = this.def.scope;
+        if (scope) {
+            // Scoped rounds drop (same flat-fire model as the reticle's drop marks): find what the sight line
+            // hits, then re-cast along the trajectory lowered by the holdover for that distance.
+            const sightDist = Math.min(shot.distance, this.def.range);
+            this.lowerDirection(rayDirection, getHoldoverAngle(scope, sightDist));
+            shot = this.castShot(rayOrigin, rayDirection);
+        }
+        const hitPoint = shot.point;
+        const hitNormal = shot.normal;
+        const hitObject = shot.object;
+        let enemy = shot.enemy;
+
+        if (hitPoint) {
+            if (!enemy) enemy = hitObject ? this.findEnemyFromObject(hitObject) : null;
+            if (enemy) {
+                const damage = this.isAiming && this.def.aimDamage ? this.def.aimDamage : this.def.damage;
+                enemy.takeDamage(damage);
+                this.events.emit({ type: 'sound:play', sound: 'hit' });
+
+                const bloodDirection = this.tmpBloodDir.copy(rayDirection).negate().add(hitNormal ?? this.tmpUp).normalize();
+                if (this.particleSystem) {
+                    this.particleSystem.emitBlood(hitPoint, bloodDirection, 10);
+                }
+            } else {
+                if (this.particleSystem) {
+                    if (!hitObject) {
+                        // Ground raymarch hit
+                        this.particleSystem.emitDust(hitPoint, hitNormal ?? this.tmpUp, 12);
+                    } else {
+                        const ud = getUserData(hitObject);
+                        if (ud.isTree) this.particleSystem.emitDebris(hitPoint, hitNormal ?? this.tmpUp, 14);
+                        else if (ud.isGrass) this.particleSystem.emitDust(hitPoint, hitNormal ?? this.tmpUp, 10);
+                        else if (ud.isRock) this.particleSystem.emitSparks(hitPoint, hitNormal ?? this.tmpUp, 10);
+                        else this.particleSystem.emitSparks(hitPoint, hitNormal ?? this.tmpUp, 8);
+                    }
+                }
+            }
+        }
+
+        // trail
+        if (this.def.bulletTrail) {
+            const muzzlePos = this.getMuzzleWorldPosition(this.tmpMuzzlePos);
+            const trailEnd = this.tmpTrailEnd;
+            if (hitPoint) trailEnd.copy(hitPoint);
+            else trailEnd.copy(muzzlePos).addScaledVector(rayDirection, this.def.range);
+            this.createBulletTrail(muzzlePos, trailEnd);
+        }
+
+        // muzzle particles
+        if (this.particleSystem && this.def.muzzleFlash) {
+            const muzzlePos = this.getMuzzleWorldPosition(this.tmpMuzzlePos);
+            this.particleSystem.emitMuzzleFlash(muzzlePos, rayDirection);
+        }
+    }
+
+    /**
+     * Resolve one shot ray: closest of scene meshes, far enemy impostors (sphere test) and terrain.
+     * Results live in reused vectors and are only valid until the next call.
+     */
+    private castShot(rayOrigin: THREE.Vector3, rayDirection: THREE.Vector3): PlayerShotHit {
+        this.raycaster.set(rayOrigin, rayDirection);
         // Clamp far so we don't traverse beyond weapon range.
         this.raycaster.far = this.def.range;
 
@@ -336,9 +486,6 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
         // Raycast against a flat mesh list; no recursive traversal.
         this.raycaster.intersectObjects(raycastObjects, false, intersects);
 
-        const rayOrigin = this.tmpRayOrigin.copy(this.raycaster.ray.origin);
-        const rayDirection = this.tmpRayDirection.copy(this.raycaster.ray.direction).normalize();
-
         let hitPoint: THREE.Vector3 | null = null;
         let hitNormal: THREE.Vector3 | null = null;
         let hitObject: THREE.Object3D | null = null;
@@ -444,47 +591,20 @@ export class PlayerHitscanWeapon implements IPlayerWeapon {
             hitObject = null;
         }
 
-        if (hitPoint) {
-            if (!enemy) enemy = hitObject ? this.findEnemyFromObject(hitObject) : null;
-            if (enemy) {
-                const damage = this.isAiming && this.def.aimDamage ? this.def.aimDamage : this.def.damage;
-                enemy.takeDamage(damage);
-                this.events.emit({ type: 'sound:play', sound: 'hit' });
-
-                const bloodDirection = this.tmpBloodDir.copy(rayDirection).negate().add(hitNormal ?? this.tmpUp).normalize();
-                if (this.particleSystem) {
-                    this.particleSystem.emitBlood(hitPoint, bloodDirection, 10);
-                }
-            } else {
-                if (this.particleSystem) {
-                    if (!hitObject) {
-                        // Ground raymarch hit
-                        this.particleSystem.emitDust(hitPoint, hitNormal ?? this.tmpUp, 12);
-                    } else {
-                        const ud = getUserData(hitObject);
-                        if (ud.isTree) this.particleSystem.emitDebris(hitPoint, hitNormal ?? this.tmpUp, 14);
-                        else if (ud.isGrass) this.particleSystem.emitDust(hitPoint, hitNormal ?? this.tmpUp, 10);
-                        else if (ud.isRock) this.particleSystem.emitSparks(hitPoint, hitNormal ?? this.tmpUp, 10);
-                        else this.particleSystem.emitSparks(hitPoint, hitNormal ?? this.tmpUp, 8);
-                    }
-                }
-            }
-        }
-
-        // trail
-        if (this.def.bulletTrail) {
-            const muzzlePos = this.getMuzzleWorldPosition(this.tmpMuzzlePos);
-            const trailEnd = this.tmpTrailEnd;
-            if (hitPoint) trailEnd.copy(hitPoint);
-            else trailEnd.copy(muzzlePos).addScaledVector(rayDirection, this.def.range);
-            this.createBulletTrail(muzzlePos, trailEnd);
-        }
+        const out = this.shotHit;
+        out.point = hitPoint;
+        out.normal = hitNormal;
+        out.object = hitObject;
+        out.enemy = enemy;
+        out.distance = hitPoint ? rayOrigin.distanceTo(hitPoint) : Number.POSITIVE_INFINITY;
+        return out;
+    }
 
-        // muzzle particles
-        if (this.particleSystem && this.def.muzzleFlash) {
-            const muzzlePos = this.getMuzzleWorldPosition(this.tmpMuzzlePos);
-            this.particleSystem.emitMuzzleFlash(muzzlePos, rayDirection);
-        }
+    /** Tilt `direction` down by `angle` radians (negative tilts up) around the horizontal axis across it. */
+    private lowerDirection(direction: THREE.Vector3, angle: number) {
+        const axis = this.tmpDropAxis.crossVectors(direction, this.tmpUp);
+        if (axis.lengthSq() < 1e-8) return;
+        direction.applyAxisAngle(axis.normalize(), -angle).normalize();
     }
 
     private getMuzzleWorldPosition(out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
@@ -3,13 +3,15 @@ import { uniform } from 'three/tsl';
 import { Enemy } from '../enemy/Enemy';
 import type { GameServices } from '../core/services/GameServices';
 import type { GameEventBus } from '../core/events/GameEventBus';
-import { WeaponConfig } from '../core/GameConfig';
+import { CraftingConfig, WeaponConfig } from '../core/GameConfig';
 import type { ParticleSimulation } from '../core/gpu/GpuSimulationFacade';
 import { PhysicsSystem } from '../core/PhysicsSystem';
 import { WeaponContext, IPlayerWeapon, MeleeWeaponDefinition } from './WeaponTypes';
 import { WeaponFactory } from './WeaponFactory';
 import { getUserData } from '../types/GameUserData';
 import { terrainHeightCpu } from '../shaders/TerrainHeight';
+import { EnvironmentSystem } from '../level/EnvironmentSystem';
+import { vegetationInstanceSeed, type VegetationLayer } from '../level/WorldDeltaStore';
 
 export class PlayerMeleeWeapon implements IPlayerWeapon {
     public readonly id: MeleeWeaponDefinition['id'];
@@ -38,7 +40,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
     private cachedScene: THREE.Scene | null = null;
     private cachedSceneChildrenLen = -1;
-    private cachedSceneStamp = 0;
+    // Seconds since the scene lists were cached (fixed-step time, like the swing cooldown).
+    private cachedSceneAge = 0;
     private cachedTreesAndGrass: THREE.InstancedMesh[] = [];
     private cachedEnvStatics: THREE.Object3D[] = [];
     private cachedEnvRaycastMeshes: THREE.Object3D[] = [];
@@ -187,7 +190,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         return bestId;
     }
 
-    private lastSwingTime = 0;
+    // Seconds until the next swing / charge may start. Counted down by update() (fixed-step delta) so replays match.
+    private swingCooldown = 0;
 
     // Charge-to-throw (knife/scythe)
     private isCharging = false;
@@ -318,6 +322,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
     public update(delta: number): void {
         this.maskUpdateFrame++;
+        if (this.swingCooldown > 0) this.swingCooldown -= delta;
+        this.cachedSceneAge += delta;
 
         // Charge pose
         if (this.isCharging) {
@@ -381,13 +387,11 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
     public onTriggerDown(ctx: WeaponContext): void {
         this.scene = ctx.scene;
 
-        const now = performance.now() / 1000;
-
         // Knife + scythe: support charged throw
         if (this.def.id === 'knife' || this.def.id === 'scythe') {
             if (this.thrown) return; // can't charge while thrown
             if (this.isCharging) return;
-            if (now - this.lastSwingTime < this.def.swingCooldown) return;
+            if (this.swingCooldown > 0) return;
 
             this.isCharging = true;
             this.chargeElapsed = 0;
@@ -396,7 +400,7 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         }
 
         // Default: immediate melee attack (axe)
-        if (now - this.lastSwingTime < this.def.swingCooldown) return;
+        if (this.swingCooldown > 0) return;
         this.startSwing(ctx);
     }
 
@@ -413,8 +417,7 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
         if (!ctx) return;
 
-        const now = performance.now() / 1000;
-        if (now - this.lastSwingTime < this.def.swingCooldown) return;
+        if (this.swingCooldown > 0) return;
 
         const chargeMin = WeaponConfig.melee.chargeThrow.chargeMinSeconds;
         if (this.chargeElapsed >= chargeMin) {
@@ -442,11 +445,10 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         this.raycaster.far = this.def.range;
 
         // Refresh cached scene lists at a low frequency.
-        const now = performance.now();
-        if (this.cachedScene !== ctx.scene || this.cachedSceneChildrenLen !== ctx.scene.children.length || now - this.cachedSceneStamp > 500) {
+        if (this.cachedScene !== ctx.scene || this.cachedSceneChildrenLen !== ctx.scene.children.length || this.cachedSceneAge > 0.5) {
             this.cachedScene = ctx.scene;
             this.cachedSceneChildrenLen = ctx.scene.children.length;
-            this.cachedSceneStamp = now;
+            this.cachedSceneAge = 0;
 
             this.cachedTreesAndGrass.length = 0;
             this.cachedEnvStatics.length = 0;
@@ -496,6 +498,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
                 fillHitInfo(hit);
                 enemy.takeDamage(this.def.damage);
                 this.events.emit({ type: 'sound:play', sound: 'hit' });
+                this.emitHitNoise();
+                this.wear();
 
                 if (this.particleSystem) {
                     const dir = this.tmpDir.copy(this.raycaster.ray.direction).negate().add(this.tmpHitNormal).normalize();
@@ -593,6 +597,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
             if (bestMesh && bestId >= 0) {
                 this.chopTreeInstance(bestMesh, bestId);
+                this.emitHitNoise();
+                this.wear();
                 if (this.particleSystem) this.particleSystem.emitSparks(this.tmpHitPoint, this.tmpHitNormal, 10);
                 return;
             }
@@ -680,6 +686,7 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
             if (bestMesh && bestId >= 0) {
                 this.cutGrassInstance(bestMesh, bestId);
+                this.wear();
                 if (this.particleSystem) this.particleSystem.emitSparks(this.tmpHitPoint, this.tmpHitNormal, 6);
                 return;
             }
@@ -707,12 +714,43 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
 
         if (envHits.length > 0) {
             fillHitInfo(envHits[0]);
+            this.emitHitNoise();
+            this.wear();
             if (this.particleSystem) {
                 this.particleSystem.emitSparks(this.tmpHitPoint, this.tmpHitNormal, 8);
             }
+
+            const drop = EnvironmentSystem.getHarvestDrop(envHits[0].object);
+            if (drop) {
+                this.events.emit({
+                    type: 'world:harvestSource',
+                    seed: drop.seed,
+                    maxYield: drop.maxYield,
+                    resource: drop.resource,
+                    amount: drop.amount,
+                });
+            }
         }
     }
 
+    /** Impacts are audible to nearby enemies (grass cuts are quiet enough to skip). */
+    private emitHitNoise() {
+        const p = this.tmpHitPoint;
+        this.events.emit({
+            type: 'world:noise',
+            source: 'melee',
+            position: { x: p.x, y: p.y, z: p.z },
+            radius: this.def.noiseRadius,
+        });
+    }
+
+    /** Every landed hit wears the tool; at zero it breaks and leaves the loadout. */
+    private wear() {
+        const left = (this.services.state.getState().toolDurability[this.id] ?? this.def.durability) - 1;
+        this.events.emit({ type: 'state:setToolDurability', weapon: this.id, hits: left });
+        if (left <= 0) this.events.emit({ type: 'player:toolBroken', weapon: this.id });
+    }
+
     private computeSwingPose(t: number, outPos: THREE.Vector3, outRot: THREE.Vector3) {
         // Helpers
         const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
@@ -841,7 +879,10 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         const positionsXZ = getUserData(treeMesh).treePositionsXZ;
         if (positionsXZ) {
             const pi = instanceId * 2;
-            if (pi < positionsXZ.length) positionsXZ[pi] = Number.NaN;
+            if (pi < positionsXZ.length) {
+                this.recordVegetationRemoval(treeMesh, 'trees', positionsXZ, pi);
+                positionsXZ[pi] = Number.NaN;
+            }
         }
 
         // paired leaves mesh
@@ -850,6 +891,9 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
             this.setInstanceMask(paired, instanceId, 0);
             this.setInstanceScaleAndYOffset(paired, instanceId, 0, -WeaponConfig.melee.environment.choppedTreeSink);
         }
+
+        const drop = CraftingConfig.harvest.tree;
+        this.events.emit({ type: 'state:updateResource', resource: drop.resource, delta: drop.amount });
     }
 
     private cutGrassInstance(grassMesh: THREE.InstancedMesh, instanceId: number) {
@@ -863,13 +907,27 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         const positionsXZ = getUserData(grassMesh).grassPositionsXZ;
         if (positionsXZ) {
             const pi = instanceId * 2;
-            if (pi < positionsXZ.length) positionsXZ[pi] = Number.NaN;
+            if (pi < positionsXZ.length) {
+                this.recordVegetationRemoval(grassMesh, 'grass', positionsXZ, pi);
+                positionsXZ[pi] = Number.NaN;
+            }
         }
+
+        const drop = CraftingConfig.harvest.grass;
+        this.events.emit({ type: 'state:updateResource', resource: drop.resource, delta: drop.amount });
+    }
+
+    /** Persist the removal so the instance stays gone when its chunk is streamed back in. */
+    private recordVegetationRemoval(mesh: THREE.InstancedMesh, layer: VegetationLayer, positionsXZ: Float32Array, pi: number) {
+        const chunkKey = getUserData(mesh).vegetationChunkKey;
+        const x = positionsXZ[pi];
+        if (chunkKey == null || !Number.isFinite(x)) return;
+        const seed = vegetationInstanceSeed(x, positionsXZ[pi + 1]);
+        this.events.emit({ type: 'world:vegetationRemoved', layer, chunkKey, seed });
     }
 
     private startSwing(ctx: WeaponContext) {
-        const now = performance.now() / 1000;
-        this.lastSwingTime = now;
+        this.swingCooldown = this.def.swingCooldown;
 
         this.isSwinging = true;
         this.swingElapsed = 0;
@@ -888,8 +946,7 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
         if (!this.scene) return;
         if (this.thrown) return;
 
-        const now = performance.now() / 1000;
-        this.lastSwingTime = now;
+        this.swingCooldown = this.def.swingCooldown;
 
         const id = this.def.id === 'scythe' ? 'scythe' : 'knife';
         const chargeGlobal = WeaponConfig.melee.chargeThrow;
@@ -1090,6 +1147,8 @@ export class PlayerMeleeWeapon implements IPlayerWeapon {
             this.mesh.position.copy(this.basePosition);
             this.mesh.rotation.copy(this.baseRotation);
             this.events.emit({ type: 'state:setChargeProgress', progress: 0 });
+            // Worn once per throw that landed, after the viewmodel is back (breaking hides it again).
+            if (t.hitEnemies.size > 0) this.wear();
         }
     }
 
@@ -4,8 +4,9 @@ import type { GameServices } from '../core/services/GameServices';
 import { Enemy } from '../enemy/Enemy';
 import type { ParticleSimulation } from '../core/gpu/GpuSimulationFacade';
 import { GrenadeHand } from '../entities/GrenadeTSL';
-import { getWeaponDefinition, getDefaultPlayerLoadout } from './WeaponDefinitions';
-import { IPlayerWeapon, WeaponContext, WeaponId } from './WeaponTypes';
+import { getWeaponDefinition } from './WeaponDefinitions';
+import { IPlayerWeapon, LoadoutSlotId, WeaponContext, WeaponId } from './WeaponTypes';
+import { LOADOUT_SLOT_ORDER, canEquipInSlot, getLoadoutWeaponIds } from './Inventory';
 import { PlayerHitscanWeapon } from './PlayerHitscanWeapon';
 import { PlayerMeleeWeapon } from './PlayerMeleeWeapon';
 import { PlayerGrenadeWeapon } from './PlayerGrenadeWeapon';
@@ -32,6 +33,8 @@ export class PlayerWeaponSystem {
     // 共享的手榴弹手部动画（weapon 实例里复用）
     private grenadeHand: GrenadeHand;
 
+    private readonly unsubscribeEvents: () => void;
+
     constructor(
         camera: THREE.Camera,
         scene: THREE.Scene,
@@ -45,7 +48,7 @@ export class PlayerWeaponSystem {
         this.physicsSystem = physicsSystem;
         this.services = services;
         this.events = events;
-        this.weapons = initialWeapons ?? getDefaultPlayerLoadout();
+        this.weapons = initialWeapons ?? getLoadoutWeaponIds(services.state.getState().loadout);
         this.grenadeHand = new GrenadeHand(camera);
 
         // Pre-create all weapons in the loadout to avoid hitches on first switch.
@@ -55,6 +58,8 @@ export class PlayerWeaponSystem {
 
         // 初始化第一把
         this.setCurrentWeapon(this.weapons[this.currentIndex]);
+
+        this.unsubscribeEvents = this.events.on('player:toolBroken', (e) => this.unequipWeapon(e.weapon));
     }
 
     /**
@@ -79,6 +84,7 @@ export class PlayerWeaponSystem {
     }
 
     public dispose() {
+        this.unsubscribeEvents();
         for (const w of this.weaponInstances.values()) {
             w.dispose();
         }
@@ -91,6 +97,8 @@ export class PlayerWeaponSystem {
         setGroundHeightCallback?(callback: (x: number, z: number) => number): void;
         setGrenadeThrowCallback?(callback: (position: THREE.Vector3, direction: THREE.Vector3) => void): void;
         setPhysicsSystem?(system: PhysicsSystem): void;
+        reload?(): void;
+        cancelReload?(): void;
     } {
         return w as IPlayerWeapon & {
             setEnemies?(enemies: Enemy[]): void;
@@ -98,6 +106,8 @@ export class PlayerWeaponSystem {
             setGroundHeightCallback?(callback: (x: number, z: number) => number): void;
             setGrenadeThrowCallback?(callback: (position: THREE.Vector3, direction: THREE.Vector3) => void): void;
             setPhysicsSystem?(system: PhysicsSystem): void;
+            reload?(): void;
+            cancelReload?(): void;
         };
     }
 
@@ -160,6 +170,57 @@ export class PlayerWeaponSystem {
         return this.getCurrentWeaponInstance().getAimProgress();
     }
 
+    public reload() {
+        this.asHooks(this.getCurrentWeaponInstance()).reload?.();
+    }
+
+    public cancelReload() {
+        this.asHooks(this.getCurrentWeaponInstance()).cancelReload?.();
+    }
+
+    /**
+     * Put a weapon into a loadout slot (null clears it).
+     * Returns false if the slot doesn't accept that weapon category.
+     */
+    public equipToSlot(slot: LoadoutSlotId, weapon: WeaponId | null): boolean {
+        if (weapon && !canEquipInSlot(slot, weapon)) return false;
+        this.events.emit({ type: 'state:setLoadoutSlot', slot, weapon });
+        this.syncLoadout();
+        return true;
+    }
+
+    /** Clear every slot holding `weapon` (a broken tool). */
+    private unequipWeapon(weapon: WeaponId) {
+        const loadout = this.services.state.getState().loadout;
+        for (const slot of LOADOUT_SLOT_ORDER) {
+            if (loadout[slot] === weapon) this.equipToSlot(slot, null);
+        }
+    }
+
+    /** Rebuild the cycle list from GameState.loadout, keeping the current weapon when still equipped. */
+    public syncLoadout() {
+        const next = getLoadoutWeaponIds(this.services.state.getState().loadout);
+        if (next.length === 0) return;
+
+        const currentId = this.getCurrentWeaponId();
+        const prev = this.getCurrentWeaponInstance();
+
+        this.weapons = next;
+        for (const id of this.weapons) {
+            this.ensureWeaponInstance(id);
+        }
+
+        const keepIndex = this.weapons.indexOf(currentId);
+        if (keepIndex >= 0) {
+            this.currentIndex = keepIndex;
+            return;
+        }
+
+        prev.hide();
+        this.currentIndex = 0;
+        this.setCurrentWeapon(this.weapons[0]);
+    }
+
     public getCurrentWeaponId(): WeaponId {
         return this.weapons[this.currentIndex];
     }
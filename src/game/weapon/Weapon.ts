@@ -212,9 +212,10 @@ export class Weapon {
         this.isAimingShot = isAiming;  // 保存瞄准状态用于伤害计算
         
         const gameState = this.services.state;
-        if (gameState.getState().ammo <= 0) return;
+        const loaded = gameState.getState().magazines.rifle ?? 0;
+        if (loaded <= 0) return;
 
-        gameState.updateAmmo(-1);
+        gameState.setMagazine('rifle', loaded - 1);
         
         // 根据是否瞄准播放不同的枪声
         if (isAiming) {
@@ -1,4 +1,5 @@
-import { WeaponDefinition, WeaponId } from './WeaponTypes';
+import { WeaponDefinition, WeaponId, WeaponScopeDefinition } from './WeaponTypes';
+import type { RandomStream } from '../core/util/RandomStreams';
 
 const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
     rifle: {
@@ -11,10 +12,14 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 10,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: '556',
+        magazineSize: 30,
+        reloadTime: 2.2,
         canAutoFire: true,
         supportsAiming: true,
         muzzleFlash: true,
         bulletTrail: true,
+        noiseRadius: 90,
     },
     sniper: {
         id: 'sniper',
@@ -26,10 +31,22 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 1,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: '762',
+        magazineSize: 5,
+        reloadTime: 3.0,
         canAutoFire: false,
         supportsAiming: true,
         muzzleFlash: true,
         bulletTrail: true,
+        noiseRadius: 140,
+        scope: {
+            reticle: 'milDot',
+            magnifications: [4, 8, 16],
+            defaultZoom: 2,
+            muzzleVelocity: 820,
+            zeroRange: 100,
+            dropMarkStep: 50,
+        },
     },
     pistol: {
         id: 'pistol',
@@ -41,10 +58,14 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 5,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: '9mm',
+        magazineSize: 12,
+        reloadTime: 1.5,
         canAutoFire: false,
         supportsAiming: true,
         muzzleFlash: true,
         bulletTrail: true,
+        noiseRadius: 60,
     },
     smg: {
         id: 'smg',
@@ -56,10 +77,14 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 14,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: '9mm',
+        magazineSize: 32,
+        reloadTime: 2.0,
         canAutoFire: true,
         supportsAiming: true,
         muzzleFlash: true,
         bulletTrail: true,
+        noiseRadius: 70,
     },
     shotgun: {
         id: 'shotgun',
@@ -71,10 +96,14 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 1.2,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: '12ga',
+        magazineSize: 6,
+        reloadTime: 2.6,
         canAutoFire: false,
         supportsAiming: true,
         muzzleFlash: true,
         bulletTrail: true,
+        noiseRadius: 100,
     },
     bow: {
         id: 'bow',
@@ -86,10 +115,14 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         fireRate: 1.5,
         usesAmmo: true,
         ammoPerShot: 1,
+        caliber: 'arrow',
+        magazineSize: 1,
+        reloadTime: 0.6,
         canAutoFire: false,
         supportsAiming: true,
         muzzleFlash: false,
         bulletTrail: true,
+        noiseRadius: 12,
     },
     knife: {
         id: 'knife',
@@ -98,6 +131,8 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         damage: 35,
         range: 2.2,
         swingCooldown: 0.35,
+        noiseRadius: 8,
+        durability: 150,
         supportsAiming: false,
     },
     axe: {
@@ -107,6 +142,8 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         damage: 55,
         range: 2.6,
         swingCooldown: 0.65,
+        noiseRadius: 12,
+        durability: 80,
         supportsAiming: false,
     },
     scythe: {
@@ -116,6 +153,8 @@ const DEFINITIONS: Record<WeaponId, WeaponDefinition> = {
         damage: 45,
         range: 3.0,
         swingCooldown: 0.55,
+        noiseRadius: 10,
+        durability: 100,
         supportsAiming: false,
     },
     grenade: {
@@ -130,15 +169,20 @@ export function getWeaponDefinition(id: WeaponId): WeaponDefinition {
     return DEFINITIONS[id];
 }
 
-export function getDefaultPlayerLoadout(): WeaponId[] {
-    // 维持现有玩法：玩家默认有一把主武器 + 手榴弹
-    return ['rifle', 'pistol', 'knife', 'axe', 'scythe', 'grenade'];
+/** Optic of a ranged weapon (null = iron sights / not aimable). */
+export function getWeaponScope(id: WeaponId): WeaponScopeDefinition | null {
+    const def = DEFINITIONS[id];
+    return def.category === 'ranged' ? def.scope ?? null : null;
 }
 
-export function getRandomEnemyWeaponId(): WeaponId {
+export function getAllWeaponIds(): WeaponId[] {
+    return Object.keys(DEFINITIONS) as WeaponId[];
+}
+
+export function getRandomEnemyWeaponId(random: RandomStream): WeaponId {
     // 敌人只随机远程枪械（先不发近战，避免 AI 距离逻辑大改）
     const pool: WeaponId[] = ['rifle', 'smg', 'shotgun', 'sniper', 'pistol'];
-    return pool[Math.floor(Math.random() * pool.length)];
+    return random.pick(pool);
 }
 
 export function getWeaponDisplayName(id: WeaponId): string {
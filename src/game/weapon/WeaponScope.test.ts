@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { ScopeConfig } from '../core/GameConfig';
+import { getWeaponDefinition, getWeaponScope } from './WeaponDefinitions';
+import { getDropMarkDistances, getHoldoverAngle } from './WeaponScope';
+import type { RangedWeaponDefinition } from './WeaponTypes';
+
+describe('getHoldoverAngle', () => {
+    const scope = getWeaponScope('sniper')!;
+
+    it('is zero at the zero range, high before it and low past it', () => {
+        expect(getHoldoverAngle(scope, scope.zeroRange)).toBeCloseTo(0, 10);
+        expect(getHoldoverAngle(scope, scope.zeroRange / 2)).toBeLessThan(0);
+        expect(getHoldoverAngle(scope, scope.zeroRange * 2)).toBeGreaterThan(0);
+    });
+
+    it('grows with distance', () => {
+        let prev = getHoldoverAngle(scope, scope.zeroRange);
+        for (let d = scope.zeroRange + 25; d <= 400; d += 25) {
+            const angle = getHoldoverAngle(scope, d);
+            expect(angle).toBeGreaterThan(prev);
+            prev = angle;
+        }
+    });
+});
+
+describe('getDropMarkDistances', () => {
+    it('marks every step past the zero, up to the weapon range', () => {
+        const scope = getWeaponScope('sniper')!;
+        const def = getWeaponDefinition('sniper') as RangedWeaponDefinition;
+        const marks = getDropMarkDistances('sniper');
+
+        expect(marks.length).toBeGreaterThan(0);
+        expect(marks.length).toBeLessThanOrEqual(ScopeConfig.dropMarks.max);
+        expect(marks[0]).toBe(scope.zeroRange + scope.dropMarkStep);
+        for (const d of marks) expect(d).toBeLessThanOrEqual(def.range);
+    });
+
+    it('gives weapons without a scope no marks', () => {
+        expect(getDropMarkDistances('rifle')).toEqual([]);
+    });
+});
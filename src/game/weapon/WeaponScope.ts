@@ -0,0 +1,82 @@
+import { ScopeConfig } from '../core/GameConfig';
+import { getWeaponDefinition, getWeaponScope } from './WeaponDefinitions';
+import type { WeaponId, WeaponScopeDefinition } from './WeaponTypes';
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * FOV (degrees) that shows `fraction` of the screen height at `magnification` relative to `baseFov`.
+ * M = tan(base/2) / tan(scoped/2); fraction < 1 is the lens of the PIP scope.
+ */
+export function getScopedFov(baseFov: number, magnification: number, fraction = 1): number {
+    const half = baseFov * 0.5 * DEG2RAD;
+    const scopedHalf = Math.atan((Math.tan(half) * fraction) / Math.max(1, magnification));
+    // Clamp to a sane minimum to avoid numerical weirdness.
+    return Math.min(baseFov, Math.max(1.0, (scopedHalf * 2) / DEG2RAD));
+}
+
+/** Angle (radians) a round falls below the line of sight at `distance`, relative to the zero. */
+export function getHoldoverAngle(scope: WeaponScopeDefinition, distance: number): number {
+    const dropAngle = (d: number) => {
+        const t = d / scope.muzzleVelocity;
+        return Math.atan((0.5 * ScopeConfig.dropMarks.gravity * t * t) / d);
+    };
+    return dropAngle(distance) - dropAngle(scope.zeroRange);
+}
+
+/** Distances that get a drop mark: every `dropMarkStep` past the zero, up to the weapon range. */
+export function getDropMarkDistances(weapon: WeaponId): number[] {
+    const scope = getWeaponScope(weapon);
+    const def = getWeaponDefinition(weapon);
+    if (!scope || def.category !== 'ranged' || scope.dropMarkStep <= 0) return [];
+
+    const out: number[] = [];
+    for (let d = scope.zeroRange + scope.dropMarkStep; d <= def.range + 1e-6; d += scope.dropMarkStep) {
+        if (out.length >= ScopeConfig.dropMarks.max) break;
+        out.push(d);
+    }
+    return out;
+}
+
+/**
+ * Per-weapon zoom step of scoped weapons (wheel while aiming). Part of the simulation:
+ * the camera FOV feeds spawn placement, so it is saved with the player snapshot.
+ */
+export class ScopeZoomState {
+    private readonly zoom = new Map<WeaponId, number>();
+
+    getZoomIndex(weapon: WeaponId): number {
+        const scope = getWeaponScope(weapon);
+        if (!scope) return 0;
+        return this.zoom.get(weapon) ?? scope.defaultZoom;
+    }
+
+    getMagnification(weapon: WeaponId): number {
+        const scope = getWeaponScope(weapon);
+        if (!scope) return 1;
+        return scope.magnifications[this.getZoomIndex(weapon)] ?? 1;
+    }
+
+    /** Step the zoom (+1 = more magnification). Returns false for weapons without a scope. */
+    cycle(weapon: WeaponId, direction: 1 | -1): boolean {
+        const scope = getWeaponScope(weapon);
+        if (!scope) return false;
+        const next = Math.max(0, Math.min(scope.magnifications.length - 1, this.getZoomIndex(weapon) + direction));
+        this.zoom.set(weapon, next);
+        return true;
+    }
+
+    getSnapshot(): Partial<Record<WeaponId, number>> {
+        return Object.fromEntries(this.zoom) as Partial<Record<WeaponId, number>>;
+    }
+
+    restoreSnapshot(snapshot: Partial<Record<WeaponId, number>> | undefined): void {
+        this.zoom.clear();
+        if (!snapshot) return;
+        for (const [weapon, index] of Object.entries(snapshot) as Array<[WeaponId, number]>) {
+            const scope = getWeaponScope(weapon);
+            if (!scope || !Number.isInteger(index)) continue;
+            this.zoom.set(weapon, Math.max(0, Math.min(scope.magnifications.length - 1, index)));
+        }
+    }
+}
@@ -14,12 +14,59 @@ export type WeaponId =
     | 'scythe'
     | 'grenade';
 
+/** Ammo families shared between weapons (reserve ammo is tracked per caliber). */
+export type AmmoCaliber = '556' | '762' | '9mm' | '12ga' | 'arrow';
+
+/** Loadout slots; each slot accepts specific weapon categories (see InventoryConfig.loadout). */
+export type LoadoutSlotId = 'primary' | 'secondary' | 'melee' | 'tool' | 'utility' | 'throwable';
+
+export type PlayerLoadout = Record<LoadoutSlotId, WeaponId | null>;
+
 export interface WeaponDefinitionBase {
     id: WeaponId;
     displayName: string;
     category: WeaponCategory;
 }
 
+export type ScopeReticleId = 'classic' | 'duplex' | 'milDot' | 'redDot';
+
+/** Reticle drawn in the scope lens. Sizes are in lens radii (1 = the rim). */
+export interface ScopeReticleDefinition {
+    lineColor: number;
+    /** Half thickness of the thin crosshair lines (0 = no lines). */
+    lineWidth: number;
+    /** Lines stop this far from the rim (1 = reach the rim). */
+    lineLength: number;
+    /** Empty space around the center. */
+    centerGap: number;
+    /** Heavy outer posts (duplex): half thickness, and where they start (0 = none). */
+    postWidth: number;
+    postStart: number;
+    /** Dots along the lines (0 = none). */
+    milDotSpacing: number;
+    milDotRadius: number;
+    dotColor: number;
+    /** Center dot (0 = none). */
+    dotRadius: number;
+    /** Draw the weapon's bullet-drop marks below the center. */
+    dropMarks: boolean;
+}
+
+/**
+ * Magnified optic: replaces the iron-sight aim FOV while aiming.
+ * Shots drop along a flat-fire model (zeroed at `zeroRange`); the reticle draws a matching mark
+ * every `dropMarkStep` up to the weapon range.
+ */
+export interface WeaponScopeDefinition {
+    reticle: ScopeReticleId;
+    /** Zoom steps (mouse wheel while aiming), low to high. */
+    magnifications: readonly number[];
+    defaultZoom: number; // index into magnifications
+    muzzleVelocity: number; // m/s
+    zeroRange: number; // m
+    dropMarkStep: number; // m
+}
+
 export interface RangedWeaponDefinition extends WeaponDefinitionBase {
     category: 'ranged';
     damage: number;
@@ -28,10 +75,15 @@ export interface RangedWeaponDefinition extends WeaponDefinitionBase {
     fireRate: number; // shots per second
     usesAmmo: boolean;
     ammoPerShot: number;
+    caliber: AmmoCaliber;
+    magazineSize: number;
+    reloadTime: number; // seconds
     canAutoFire: boolean;
     supportsAiming: boolean;
     muzzleFlash: boolean;
     bulletTrail: boolean;
+    noiseRadius: number; // meters enemies can hear a shot from (before weather)
+    scope?: WeaponScopeDefinition;
 }
 
 export interface MeleeWeaponDefinition extends WeaponDefinitionBase {
@@ -39,6 +91,8 @@ export interface MeleeWeaponDefinition extends WeaponDefinitionBase {
     damage: number;
     range: number;
     swingCooldown: number; // seconds
+    noiseRadius: number; // meters enemies can hear a hit from
+    durability: number; // landed hits before the tool breaks (re-craft to replace it)
     supportsAiming: false;
 }
 
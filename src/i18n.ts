@@ -62,8 +62,16 @@ void i18n
                     },
                     hud: {
                         score: '得分',
-                        controls: '点击开始 | WASD 移动 | 滚轮/1-2 切换 | G 手榴弹',
+                        controls: '点击开始 | WASD 移动 | 滚轮/1-2 切换 | R 换弹 | G 手榴弹 | H 绷带 | Tab 制作 | B 建造',
                         hp: '生命',
+                        survival: {
+                            hunger: '饥饿',
+                            thirst: '口渴',
+                            stamina: '体力',
+                            temperature: '体温',
+                            cold: '失温',
+                            hot: '中暑',
+                        },
                         stance: {
                             stand: '站立',
                             crouch: '蹲下',
@@ -76,6 +84,8 @@ void i18n
                         weapon: {
                             ammo: '弹药',
                             grenades: '手雷',
+                            caliber: '口径：{{caliber}}',
+                            reloading: '换弹中 (R)',
                         },
                         perf: {
                             fps: 'FPS',
@@ -97,6 +107,10 @@ void i18n
                             camera: '视角',
                             movement: '移动',
                             weapons: '武器',
+                            controls: '按键',
+                            gamepad: '手柄',
+                            video: '画面',
+                            audio: '声音',
                         },
                         camera: {
                             sensitivity: '鼠标灵敏度',
@@ -116,6 +130,92 @@ void i18n
                         weapons: {
                             switchCooldown: '切枪冷却 (ms)',
                         },
+                        video: {
+                            hint: '选择预设后可单独调整各项；部分改动会在植被重新加载后生效。',
+                            forced: '启动参数 (URL / localStorage) 正在覆盖部分画质选项。',
+                            preset: '画质预设',
+                            presets: {
+                                low: '低',
+                                medium: '中',
+                                high: '高',
+                                ultra: '极高',
+                            },
+                            grassDensity: '草密度',
+                            grassRadius: '草加载范围 (区块)',
+                            treeRadius: '树木加载范围 (区块)',
+                            enemyShadowDistance: '敌人阴影距离',
+                            shadowMapSize: '阴影分辨率',
+                            pipScope: '画中画瞄准镜',
+                            postFx: '后期特效',
+                            passes: {
+                                ambientOcclusion: '环境光遮蔽',
+                                bloom: '泛光',
+                                depthOfField: '瞄准景深',
+                                motionBlur: '奔跑运动模糊',
+                                colorGrading: '天气调色',
+                                vignette: '暗角',
+                            },
+                            resetOverrides: '恢复预设值',
+                        },
+                        audio: {
+                            hint: '各总线音量；爆炸等巨响会短暂压低音乐和环境音。',
+                            mute: '静音',
+                            dynamicMusic: '动态音乐 (随战斗强度分层)',
+                            buses: {
+                                master: '主音量',
+                                music: '音乐',
+                                sfx: '音效',
+                                ambience: '环境音',
+                                ui: '界面',
+                            },
+                        },
+                        gamepad: {
+                            hint: '左摇杆移动 (按下奔跑) | 右摇杆视角 | RT 开火 | LT 瞄准 | A 跳 | B 蹲 | X 换弹 | Y/LB 切枪 | RB 手榴弹 | 十字键 拾取/趴下/绷带/建造',
+                            enabled: '启用手柄',
+                            lookSensitivity: '视角速度',
+                            deadZone: '摇杆死区',
+                            responseCurve: '响应曲线',
+                            invertY: '反转 Y 轴',
+                            aimAssist: '辅助瞄准强度',
+                        },
+                        controls: {
+                            hint: '点击按钮后按下新的按键、鼠标键或滚动滚轮；Esc 取消。每个输入只能绑定一个动作。',
+                            press: '请按键…',
+                            unbound: '未绑定',
+                            clear: '清除',
+                            conflict: '{{input}} 已从 {{actions}} 解绑',
+                            reserved: '{{input}} 为保留按键，无法绑定',
+                            input: {
+                                mouseLeft: '鼠标左键',
+                                mouseMiddle: '鼠标中键',
+                                mouseRight: '鼠标右键',
+                                mouseButton: '鼠标键 {{button}}',
+                                wheelUp: '滚轮上',
+                                wheelDown: '滚轮下',
+                            },
+                            action: {
+                                moveForward: '前进',
+                                moveBackward: '后退',
+                                moveLeft: '左移',
+                                moveRight: '右移',
+                                sprint: '奔跑',
+                                jump: '跳跃',
+                                crouch: '蹲下',
+                                prone: '趴下',
+                                fire: '开火',
+                                aim: '瞄准',
+                                reload: '换弹',
+                                nextWeapon: '下一把武器',
+                                prevWeapon: '上一把武器',
+                                weaponRifle: '切换步枪',
+                                weaponGrenade: '切换手榴弹',
+                                quickGrenade: '快速投掷手榴弹',
+                                useBandage: '使用绷带',
+                                pickup: '拾取 / 互动',
+                                toggleBuild: '建造模式',
+                                weatherCycle: '切换天气',
+                            },
+                        },
                     },
                     weapon: {
                         rifle: '步枪',
@@ -129,6 +229,119 @@ void i18n
                         scythe: '镰刀',
                         grenade: '手榴弹',
                     },
+                    caliber: {
+                        '556': '5.56mm',
+                        '762': '7.62mm',
+                        '9mm': '9mm',
+                        '12ga': '12 号霰弹',
+                        arrow: '箭矢',
+                    },
+                    resource: {
+                        wood: '木材',
+                        fiber: '纤维',
+                        stone: '石头',
+                        scrap: '废料',
+                    },
+                    item: {
+                        bandage: '绷带',
+                    },
+                    loadoutSlot: {
+                        primary: '主武器',
+                        secondary: '副武器',
+                        melee: '近战',
+                        tool: '工具',
+                        utility: '辅助',
+                        throwable: '投掷物',
+                    },
+                    recipe: {
+                        ammo556: '5.56mm 子弹',
+                        ammo762: '7.62mm 子弹',
+                        ammo9mm: '9mm 子弹',
+                        ammo12ga: '12 号霰弹',
+                        arrows: '箭矢',
+                        bandage: '绷带',
+                        grenade: '手榴弹',
+                        knife: '匕首',
+                        axe: '斧头',
+                        scythe: '镰刀',
+                    },
+                    crafting: {
+                        title: '制作',
+                        hint: '按 Tab 或 Esc 返回游戏 | 斧头砍树、镰刀割草、近战敲击岩石/废墟获得材料',
+                        close: '关闭',
+                        craft: '制作',
+                        output: {
+                            amount: '{{name}} ×{{amount}}',
+                            tool: '{{name}}（装备到{{slot}}栏）',
+                        },
+                        durability: '耐久 {{left}}/{{max}}',
+                    },
+                    building: {
+                        title: '建造模式',
+                        piece: {
+                            wall: '墙',
+                            floor: '地板',
+                            door: '门',
+                            barricade: '路障',
+                        },
+                        valid: '可放置',
+                        invalid: '无法放置',
+                        hint: '左键 放置 | 滚轮 切换构件 | R 旋转 | F 开关门 | B 退出',
+                    },
+                    wave: {
+                        active: '第 {{number}} 波',
+                        cleared: '第 {{number}} 波已清除',
+                    },
+                    replay: {
+                        title: '录像',
+                        hint: 'F9 开始/停止录制 | F8 或 Esc 关闭',
+                        import: '导入文件',
+                        close: '关闭',
+                        empty: '还没有录像，按 F9 开始录制。',
+                        entryInfo: '时长 {{duration}} · {{size}} KB',
+                        play: '播放',
+                        download: '下载',
+                        delete: '删除',
+                        rec: '录制中 {{time}}',
+                        pause: '暂停',
+                        resume: '播放',
+                        freeCamera: '自由视角',
+                        freeCameraHint: 'WASD 移动 | Q/E 升降 | Shift 加速 | 按住鼠标拖动视角',
+                        exit: '退出回放',
+                        seeking: '跳转中…',
+                        error: {
+                            storage: '无法访问录像存储。',
+                            missing: '录像已不存在。',
+                            invalid: '无法读取该录像文件。',
+                        },
+                    },
+                    devConsole: {
+                        title: '开发者控制台',
+                        hint: '输入 help 查看命令 | Tab 补全 | ↑/↓ 历史 | ` 或 Esc 关闭',
+                        placeholder: '输入命令…',
+                    },
+                    perfHud: {
+                        title: '性能监视器',
+                        hint: 'F3 关闭 | Shift+F3 导出',
+                        export: '导出 JSON',
+                        empty: '正在采样…',
+                        fps: 'FPS',
+                        frame: '帧时间 均值/峰值',
+                        cpu: 'CPU 毫秒',
+                        drawCalls: '绘制调用',
+                        triangles: '三角形',
+                        compute: '计算调度',
+                        geometries: '几何体',
+                        textures: '纹理',
+                        systems: '系统耗时 (毫秒/帧)',
+                        vegetation: '植被池 (当前 (峰值))',
+                        trees: '树木',
+                        grass: '草',
+                        music: '音乐强度',
+                        musicLayers: '音乐层',
+                        musicFallback: '整轨 (音轨加载中)',
+                        musicDisabled: '整轨 (动态音乐已关闭)',
+                    },
                 },
             },
             en: {
@@ -159,8 +372,16 @@ void i18n
                     },
                     hud: {
                         score: 'Score',
-                        controls: 'Click to Play | WASD Move | Scroll/1-2 Switch | G Grenade',
+                        controls: 'Click to Play | WASD Move | Scroll/1-2 Switch | R Reload | G Grenade | H Bandage | Tab Craft | B Build',
                         hp: 'HP',
+                        survival: {
+                            hunger: 'Food',
+                            thirst: 'Water',
+                            stamina: 'Stam.',
+                            temperature: 'Temp',
+                            cold: 'Hypothermia',
+                            hot: 'Heatstroke',
+                        },
                         stance: {
                             stand: 'Stand',
                             crouch: 'Crouch',
@@ -173,6 +394,8 @@ void i18n
                         weapon: {
                             ammo: 'Ammo',
                             grenades: 'Grenades',
+                            caliber: 'Caliber: {{caliber}}',
+                            reloading: 'Reloading (R)',
                         },
                         perf: {
                             fps: 'FPS',
@@ -194,6 +417,10 @@ void i18n
                             camera: 'Camera',
                             movement: 'Movement',
                             weapons: 'Weapons',
+                            controls: 'Controls',
+                            gamepad: 'Gamepad',
+                            video: 'Video',
+                            audio: 'Audio',
                         },
                         camera: {
                             sensitivity: 'Mouse sensitivity',
@@ -213,6 +440,92 @@ void i18n
                         weapons: {
                             switchCooldown: 'Weapon switch cooldown (ms)',
                         },
+                        video: {
+                            hint: 'Pick a preset, then fine-tune individual options. Some changes apply as vegetation reloads.',
+                            forced: 'Launch flags (URL / localStorage) are overriding some graphics options.',
+                            preset: 'Quality preset',
+                            presets: {
+                                low: 'Low',
+                                medium: 'Medium',
+                                high: 'High',
+                                ultra: 'Ultra',
+                            },
+                            grassDensity: 'Grass density',
+                            grassRadius: 'Grass draw range (chunks)',
+                            treeRadius: 'Tree draw range (chunks)',
+                            enemyShadowDistance: 'Enemy shadow distance',
+                            shadowMapSize: 'Shadow resolution',
+                            pipScope: 'Picture-in-picture scope',
+                            postFx: 'Post-processing effects',
+                            passes: {
+                                ambientOcclusion: 'Ambient occlusion',
+                                bloom: 'Bloom',
+                                depthOfField: 'Scope depth of field',
+                                motionBlur: 'Sprint motion blur',
+                                colorGrading: 'Weather color grading',
+                                vignette: 'Vignette',
+                            },
+                            resetOverrides: 'Revert to preset',
+                        },
+                        audio: {
+                            hint: 'Volume per bus. Loud moments such as explosions briefly duck the music and ambience.',
+                            mute: 'Mute',
+                            dynamicMusic: 'Dynamic music (layers follow combat intensity)',
+                            buses: {
+                                master: 'Master',
+                                music: 'Music',
+                                sfx: 'Effects',
+                                ambience: 'Ambience',
+                                ui: 'Interface',
+                            },
+                        },
+                        gamepad: {
+                            hint: 'Left stick move (click to sprint) | Right stick look | RT fire | LT aim | A jump | B crouch | X reload | Y/LB switch | RB grenade | D-pad pickup/prone/bandage/build',
+                            enabled: 'Enable gamepad',
+                            lookSensitivity: 'Look speed',
+                            deadZone: 'Stick dead zone',
+                            responseCurve: 'Response curve',
+                            invertY: 'Invert Y axis',
+                            aimAssist: 'Aim assist strength',
+                        },
+                        controls: {
+                            hint: 'Click a binding, then press a key, mouse button or scroll the wheel. Esc cancels. Each input drives one action.',
+                            press: 'Press input…',
+                            unbound: 'Unbound',
+                            clear: 'Clear',
+                            conflict: '{{input}} was removed from {{actions}}',
+                            reserved: '{{input}} is reserved and cannot be bound',
+                            input: {
+                                mouseLeft: 'Left mouse',
+                                mouseMiddle: 'Middle mouse',
+                                mouseRight: 'Right mouse',
+                                mouseButton: 'Mouse {{button}}',
+                                wheelUp: 'Wheel up',
+                                wheelDown: 'Wheel down',
+                            },
+                            action: {
+                                moveForward: 'Move forward',
+                                moveBackward: 'Move backward',
+                                moveLeft: 'Move left',
+                                moveRight: 'Move right',
+                                sprint: 'Sprint',
+                                jump: 'Jump',
+                                crouch: 'Crouch',
+                                prone: 'Prone',
+                                fire: 'Fire',
+                                aim: 'Aim',
+                                reload: 'Reload',
+                                nextWeapon: 'Next weapon',
+                                prevWeapon: 'Previous weapon',
+                                weaponRifle: 'Switch to rifle',
+                                weaponGrenade: 'Switch to grenade',
+                                quickGrenade: 'Quick-throw grenade',
+                                useBandage: 'Use bandage',
+                                pickup: 'Pick up / interact',
+                                toggleBuild: 'Build mode',
+                                weatherCycle: 'Cycle weather',
+                            },
+                        },
                     },
                     weapon: {
                         rifle: 'Rifle',
@@ -226,6 +539,119 @@ void i18n
                         scythe: 'Scythe',
                         grenade: 'Grenade',
                     },
+                    caliber: {
+                        '556': '5.56mm',
+                        '762': '7.62mm',
+                        '9mm': '9mm',
+                        '12ga': '12 gauge',
+                        arrow: 'Arrows',
+                    },
+                    resource: {
+                        wood: 'Wood',
+                        fiber: 'Fiber',
+                        stone: 'Stone',
+                        scrap: 'Scrap',
+                    },
+                    item: {
+                        bandage: 'Bandage',
+                    },
+                    loadoutSlot: {
+                        primary: 'Primary',
+                        secondary: 'Secondary',
+                        melee: 'Melee',
+                        tool: 'Tool',
+                        utility: 'Utility',
+                        throwable: 'Throwable',
+                    },
+                    recipe: {
+                        ammo556: '5.56mm Rounds',
+                        ammo762: '7.62mm Rounds',
+                        ammo9mm: '9mm Rounds',
+                        ammo12ga: '12ga Shells',
+                        arrows: 'Arrows',
+                        bandage: 'Bandage',
+                        grenade: 'Grenade',
+                        knife: 'Knife',
+                        axe: 'Axe',
+                        scythe: 'Scythe',
+                    },
+                    crafting: {
+                        title: 'Crafting',
+                        hint: 'Press Tab or Esc to resume | Chop trees (axe), cut grass (scythe), hit rocks/ruins for materials',
+                        close: 'Close',
+                        craft: 'Craft',
+                        output: {
+                            amount: '{{name}} ×{{amount}}',
+                            tool: '{{name}} (equips to {{slot}} slot)',
+                        },
+                        durability: 'Durability {{left}}/{{max}}',
+                    },
+                    building: {
+                        title: 'Build Mode',
+                        piece: {
+                            wall: 'Wall',
+                            floor: 'Floor',
+                            door: 'Door',
+                            barricade: 'Barricade',
+                        },
+                        valid: 'Can place',
+                        invalid: 'Blocked',
+                        hint: 'LMB Place | Scroll Cycle piece | R Rotate | F Open/close door | B Exit',
+                    },
+                    wave: {
+                        active: 'Wave {{number}}',
+                        cleared: 'Wave {{number}} cleared',
+                    },
+                    replay: {
+                        title: 'Replays',
+                        hint: 'F9 Start/stop recording | F8 or Esc Close',
+                        import: 'Import file',
+                        close: 'Close',
+                        empty: 'No replays yet. Press F9 to start recording.',
+                        entryInfo: 'Length {{duration}} · {{size}} KB',
+                        play: 'Play',
+                        download: 'Download',
+                        delete: 'Delete',
+                        rec: 'REC {{time}}',
+                        pause: 'Pause',
+                        resume: 'Play',
+                        freeCamera: 'Free camera',
+                        freeCameraHint: 'WASD Move | Q/E Down/up | Shift Faster | Drag mouse to look',
+                        exit: 'Exit replay',
+                        seeking: 'Seeking…',
+                        error: {
+                            storage: 'Replay storage is unavailable.',
+                            missing: 'This replay no longer exists.',
+                            invalid: 'This replay file could not be read.',
+                        },
+                    },
+                    devConsole: {
+                        title: 'Developer console',
+                        hint: 'Type help for commands | Tab Complete | ↑/↓ History | ` or Esc Close',
+                        placeholder: 'Enter a command…',
+                    },
+                    perfHud: {
+                        title: 'Performance',
+                        hint: 'F3 Close | Shift+F3 Export',
+                        export: 'Export JSON',
+                        empty: 'Sampling…',
+                        fps: 'FPS',
+                        frame: 'Frame avg/max',
+                        cpu: 'CPU ms',
+                        drawCalls: 'Draw calls',
+                        triangles: 'Triangles',
+                        compute: 'Compute',
+                        geometries: 'Geometries',
+                        textures: 'Textures',
+                        systems: 'Systems (ms/frame)',
+                        vegetation: 'Vegetation pools (now (peak))',
+                        trees: 'Trees',
+                        grass: 'Grass',
+                        music: 'Music intensity',
+                        musicLayers: 'Music layers',
+                        musicFallback: 'whole track (loading)',
+                        musicDisabled: 'whole track (engine disabled)',
+                    },
                 },
             },
         },
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+
+import {
+    BINDING_SLOTS,
+    INPUT_ACTIONS,
+    RESERVED_BINDINGS,
+    assignControlBinding,
+    mouseButtonBinding,
+    wheelBinding,
+    type ControlBindingMap,
+    type InputAction,
+} from '../../game/core/settings/ControlBindings';
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ShiftLeft: 'L-Shift',
+    ShiftRight: 'R-Shift',
+    ControlLeft: 'L-Ctrl',
+    ControlRight: 'R-Ctrl',
+    AltLeft: 'L-Alt',
+    AltRight: 'R-Alt',
+};
+
+function formatBinding(code: string, t: TFunction): string {
+    if (code === 'WheelUp') return t('settings.controls.input.wheelUp');
+    if (code === 'WheelDown') return t('settings.controls.input.wheelDown');
+    if (code.startsWith('Mouse')) {
+        const button = Number(code.slice(5));
+        if (button === 0) return t('settings.controls.input.mouseLeft');
+        if (button === 1) return t('settings.controls.input.mouseMiddle');
+        if (button === 2) return t('settings.controls.input.mouseRight');
+        return t('settings.controls.input.mouseButton', { button: button + 1 });
+    }
+    if (KEY_LABELS[code]) return KEY_LABELS[code];
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    return code;
+}
+
+export const ControlBindingsEditor: React.FC<{
+    bindings: ControlBindingMap;
+    onChange: (next: ControlBindingMap) => void;
+}> = ({ bindings, onChange }) => {
+    const { t } = useTranslation();
+    const [capturing, setCapturing] = useState<{ action: InputAction; slot: number } | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // Press-to-bind: the next key / mouse button / wheel notch becomes the binding. Esc cancels.
+    useEffect(() => {
+        if (!capturing) return;
+
+        const body = document.body;
+        body.dataset.bindingCapture = '1';
+
+        const commit = (code: string) => {
+            const result = assignControlBinding(bindings, capturing.action, capturing.slot, code);
+            onChange(result.bindings);
+            setNotice(
+                result.unbound.length > 0
+                    ? t('settings.controls.conflict', {
+                          input: formatBinding(code, t),
+                          actions: result.unbound.map((a) => t(`settings.controls.action.${a}`)).join(', '),
+                      })
+                    : null
+            );
+            setCapturing(null);
+        };
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.code === 'Escape') {
+                setCapturing(null);
+                return;
+            }
+            if (RESERVED_BINDINGS.has(e.code)) {
+                setNotice(t('settings.controls.reserved', { input: e.code }));
+                return;
+            }
+            commit(e.code);
+        };
+        // Swallow the click that follows a captured mouse button so it doesn't hit the UI underneath.
+        const swallowClick = (e: MouseEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+        };
+        const onMouseDown = (e: MouseEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            window.addEventListener('click', swallowClick, { capture: true, once: true });
+            commit(mouseButtonBinding(e.button));
+        };
+        const onWheel = (e: WheelEvent) => {
+            const code = wheelBinding(e.deltaY);
+            if (!code) return;
+            e.preventDefault();
+            commit(code);
+        };
+        const onContextMenu = (e: MouseEvent) => e.preventDefault();
+
+        window.addEventListener('keydown', onKeyDown, { capture: true });
+        window.addEventListener('mousedown', onMouseDown, { capture: true });
+        window.addEventListener('wheel', onWheel, { capture: true, passive: false });
+        window.addEventListener('contextmenu', onContextMenu, { capture: true });
+        return () => {
+            delete body.dataset.bindingCapture;
+            window.removeEventListener('keydown', onKeyDown, { capture: true });
+            window.removeEventListener('mousedown', onMouseDown, { capture: true });
+            window.removeEventListener('wheel', onWheel, { capture: true });
+            window.removeEventListener('contextmenu', onContextMenu, { capture: true });
+        };
+    }, [capturing, bindings, onChange, t]);
+
+    return (
+        <div>
+            <div className="text-xs text-white/60">{t('settings.controls.hint')}</div>
+            {notice && <div className="mt-2 rounded-md bg-yellow-500/15 px-3 py-2 text-xs text-yellow-200">{notice}</div>}
+            <div className="mt-3">
+                {INPUT_ACTIONS.map((action) => (
+                    <div
+                        key={action}
+                        className="flex items-center justify-between gap-4 border-b border-white/5 py-2 last:border-b-0"
+                    >
+                        <div className="text-sm text-white/80">{t(`settings.controls.action.${action}`)}</div>
+                        <div className="flex shrink-0 gap-2">
+                            {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                                const code = bindings[action]?.[slot] ?? null;
+                                const active = capturing?.action === action && capturing.slot === slot;
+                                return (
+                                    <div key={slot} className="flex items-center">
+                                        <button
+                                            type="button"
+                                            className={
+                                                'w-28 rounded-l-md border px-2 py-1 text-xs transition ' +
+                                                (active
+                                                    ? 'border-yellow-400/60 bg-yellow-500/20 text-yellow-100'
+                                                    : 'border-white/10 bg-black/40 text-white/80 hover:bg-black/60')
+                                            }
+                                            onClick={() => {
+                                                setNotice(null);
+                                                setCapturing({ action, slot });
+                                            }}
+                                        >
+                                            {active
+                                                ? t('settings.controls.press')
+                                                : code
+                                                  ? formatBinding(code, t)
+                                                  : t('settings.controls.unbound')}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            className="rounded-r-md border border-l-0 border-white/10 bg-black/30 px-2 py-1 text-xs text-white/50 hover:text-white disabled:opacity-30"
+                                            disabled={!code || active}
+                                            title={t('settings.controls.clear')}
+                                            onClick={() => onChange(assignControlBinding(bindings, action, slot, null).bindings)}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { GameState } from '../../game/core/GameState';
+import type { RecipeDefinition, RecipeId } from '../../game/crafting/CraftingTypes';
+import { getAllRecipes } from '../../game/crafting/RecipeRegistry';
+import { RESOURCE_TYPES, canCraft, getToolMaxDurability } from '../../game/crafting/Crafting';
+
+function OutputLabel({ recipe, gameState }: { recipe: RecipeDefinition; gameState: GameState }) {
+    const { t } = useTranslation();
+    const out = recipe.output;
+    switch (out.kind) {
+        case 'ammo':
+            return <>{t('crafting.output.amount', { amount: out.amount, name: t(`caliber.${out.caliber}`) })}</>;
+        case 'grenade':
+            return <>{t('crafting.output.amount', { amount: out.amount, name: t('weapon.grenade') })}</>;
+        case 'item':
+            return <>{t('crafting.output.amount', { amount: out.amount, name: t(`item.${out.item}`) })}</>;
+        case 'tool': {
+            const label = t('crafting.output.tool', { name: t(`weapon.${out.weapon}`), slot: t(`loadoutSlot.${out.slot}`) });
+            if (gameState.loadout[out.slot] !== out.weapon) return <>{label}</>;
+            const durability = t('crafting.durability', {
+                left: gameState.toolDurability[out.weapon] ?? 0,
+                max: getToolMaxDurability(out.weapon),
+            });
+            return <>{label} · {durability}</>;
+        }
+    }
+}
+
+export const CraftingPanel: React.FC<{
+    open: boolean;
+    gameState: GameState;
+    onCraft: (id: RecipeId) => void;
+    onClose: () => void;
+}> = ({ open, gameState, onCraft, onClose }) => {
+    const { t } = useTranslation();
+
+    if (!open) return null;
+
+    const recipes = getAllRecipes();
+
+    return (
+        <div
+            className="fixed inset-0 z-110 bg-black/60 text-white backdrop-blur-sm"
+            role="dialog"
+            aria-modal="true"
+        >
+            <div
+                className="relative mx-auto mt-10 max-h-[84vh] w-[min(760px,94vw)] overflow-hidden rounded-2xl border border-white/10 bg-black/85 shadow-2xl"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="border-b border-white/10 bg-black/60 px-6 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                            <div className="text-xl font-semibold">{t('crafting.title')}</div>
+                            <div className="mt-1 text-sm text-white/60">{t('crafting.hint')}</div>
+                        </div>
+                        <button
+                            className="shrink-0 rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+                            type="button"
+                            onClick={onClose}
+                        >
+                            {t('crafting.close')}
+                        </button>
+                    </div>
+
+                    {/* Resources */}
+                    <div className="mt-3 flex flex-wrap gap-2 text-sm">
+                        {RESOURCE_TYPES.map((type) => (
+                            <div key={type} className="rounded-md border border-white/10 bg-white/5 px-3 py-1">
+                                <span className="text-white/60">{t(`resource.${type}`)}</span>{' '}
+                                <span className="font-semibold">{gameState.resources[type] ?? 0}</span>
+                            </div>
+                        ))}
+                        <div className="rounded-md border border-white/10 bg-white/5 px-3 py-1">
+                            <span className="text-white/60">{t('item.bandage')}</span>{' '}
+                            <span className="font-semibold">{gameState.items.bandage ?? 0}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Recipes */}
+                <div className="max-h-[calc(84vh-150px)] overflow-y-auto px-6 py-4">
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                        {recipes.map((recipe) => {
+                            const craftable = canCraft(recipe, gameState);
+                            return (
+                                <div key={recipe.id} className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-black/30 p-3">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-semibold">{t(`recipe.${recipe.id}`, { defaultValue: recipe.displayName })}</div>
+                                        <div className="text-xs text-white/60">
+                                            <OutputLabel recipe={recipe} gameState={gameState} />
+                                        </div>
+                                        <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                                            {RESOURCE_TYPES.filter((type) => (recipe.cost[type] ?? 0) > 0).map((type) => {
+                                                const need = recipe.cost[type] ?? 0;
+                                                const enough = (gameState.resources[type] ?? 0) >= need;
+                                                return (
+                                                    <span key={type} className={enough ? 'text-white/80' : 'text-red-400'}>
+                                                        {t(`resource.${type}`)} ×{need}
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                    <button
+                                        className="shrink-0 rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm enabled:hover:bg-white/20 disabled:opacity-40"
+                                        type="button"
+                                        disabled={!craftable}
+                                        onClick={() => onCraft(recipe.id)}
+                                    >
+                                        {t('crafting.craft')}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { DevConsole, DevConsoleLevel, DevConsoleLine } from '../../game/core/debug/DevConsole';
+
+const LEVEL_CLASS: Record<DevConsoleLevel, string> = {
+    input: 'text-white/50',
+    info: 'text-white/90',
+    warn: 'text-yellow-300',
+    error: 'text-red-400',
+};
+
+/**
+ * Drop-down developer console (toggle with `). Tab completes, ↑/↓ walk the history.
+ */
+export const DevConsoleOverlay: React.FC<{
+    open: boolean;
+    devConsole: DevConsole;
+    onClose: () => void;
+}> = ({ open, devConsole, onClose }) => {
+    const { t } = useTranslation();
+    const [lines, setLines] = useState<readonly DevConsoleLine[]>([]);
+    const [input, setInput] = useState('');
+    const [candidates, setCandidates] = useState<string[]>([]);
+    // Index into the history while browsing with the arrow keys (null = editing a new line).
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setLines([...devConsole.getLines()]);
+        return devConsole.subscribe(() => setLines([...devConsole.getLines()]));
+    }, [devConsole]);
+
+    useEffect(() => {
+        if (open) inputRef.current?.focus();
+    }, [open]);
+
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [lines, open]);
+
+    if (!open) return null;
+
+    const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.code === 'Backquote' || e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+            return;
+        }
+
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            devConsole.execute(input);
+            setInput('');
+            setCandidates([]);
+            setHistoryIndex(null);
+            return;
+        }
+
+        if (e.key === 'Tab') {
+            e.preventDefault();
+            const result = devConsole.complete(input);
+            setInput(result.line);
+            setCandidates(result.candidates.length > 1 ? result.candidates : []);
+            return;
+        }
+
+        if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            const history = devConsole.getHistory();
+            if (history.length === 0) return;
+            let index = historyIndex;
+            if (e.key === 'ArrowUp') index = index === null ? history.length - 1 : Math.max(0, index - 1);
+            else index = index === null || index + 1 >= history.length ? null : index + 1;
+            setHistoryIndex(index);
+            setInput(index === null ? '' : history[index]);
+            setCandidates([]);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-x-0 top-0 z-120 flex h-[45vh] flex-col border-b border-white/10 bg-black/85 font-mono text-xs text-white shadow-2xl backdrop-blur-sm"
+            role="dialog"
+            aria-label={t('devConsole.title')}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+                e.stopPropagation();
+                inputRef.current?.focus();
+            }}
+        >
+            <div ref={scrollRef} className="min-h-0 flex-1 overflow-y-auto px-4 py-2">
+                {lines.length === 0 && <div className="text-white/40">{t('devConsole.hint')}</div>}
+                {lines.map((line) => (
+                    <div key={line.id} className={`whitespace-pre-wrap break-all ${LEVEL_CLASS[line.level]}`}>
+                        {line.text}
+                    </div>
+                ))}
+            </div>
+            {candidates.length > 0 && (
+                <div className="border-t border-white/10 px-4 py-1 text-white/50">{candidates.join('  ')}</div>
+            )}
+            <div className="flex items-center gap-2 border-t border-white/10 px-4 py-2">
+                <span className="text-white/50">&gt;</span>
+                <input
+                    ref={inputRef}
+                    className="min-w-0 flex-1 bg-transparent text-white outline-none"
+                    type="text"
+                    spellCheck={false}
+                    autoComplete="off"
+                    value={input}
+                    placeholder={t('devConsole.placeholder')}
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        setCandidates([]);
+                        setHistoryIndex(null);
+                    }}
+                    onKeyDown={onKeyDown}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { ReplayLibrary, ReplayLibraryEntry } from '../../game/core/replay/ReplayLibrary';
+import { REPLAY_FILE_EXTENSION } from '../../game/core/replay/ReplayFormat';
+import { formatReplayTime } from './ReplayTransport';
+
+function downloadBytes(bytes: Uint8Array, fileName: string) {
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/octet-stream' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const ReplayBrowser: React.FC<{
+    open: boolean;
+    library: ReplayLibrary;
+    /** Bumped by the parent when a recording was saved, to refresh the list. */
+    revision: number;
+    /** Throws if the replay can't be played. */
+    onPlay: (bytes: Uint8Array) => void;
+    onClose: () => void;
+}> = ({ open, library, revision, onPlay, onClose }) => {
+    const { t } = useTranslation();
+    const [entries, setEntries] = useState<ReplayLibraryEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(() => {
+        library
+            .list()
+            .then(setEntries)
+            .catch((err) => {
+                console.warn('[ReplayBrowser] list failed:', err);
+                setError(t('replay.error.storage'));
+            });
+    }, [library, t]);
+
+    useEffect(() => {
+        if (!open) return;
+        setError(null);
+        refresh();
+    }, [open, revision, refresh]);
+
+    if (!open) return null;
+
+    const play = async (entry: ReplayLibraryEntry) => {
+        const bytes = await library.load(entry.id);
+        if (!bytes) {
+            setError(t('replay.error.missing'));
+            refresh();
+            return;
+        }
+        try {
+            onPlay(bytes);
+        } catch (err) {
+            console.warn('[ReplayBrowser] playback failed:', err);
+            setError(t('replay.error.invalid'));
+        }
+    };
+
+    const download = async (entry: ReplayLibraryEntry) => {
+        const bytes = await library.load(entry.id);
+        if (bytes) downloadBytes(bytes, `replay-${entry.id}${REPLAY_FILE_EXTENSION}`);
+    };
+
+    const remove = async (entry: ReplayLibraryEntry) => {
+        await library.remove(entry.id);
+        refresh();
+    };
+
+    const importFile = async (file: File) => {
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            await library.save(bytes, file.name.replace(/\.srpl$/i, ''));
+            setError(null);
+            refresh();
+        } catch (err) {
+            console.warn('[ReplayBrowser] import failed:', err);
+            setError(t('replay.error.invalid'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-110 bg-black/60 text-white backdrop-blur-sm" role="dialog" aria-modal="true">
+            <div
+                className="relative mx-auto mt-10 max-h-[84vh] w-[min(760px,94vw)] overflow-hidden rounded-2xl border border-white/10 bg-black/85 shadow-2xl"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="border-b border-white/10 bg-black/60 px-6 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                            <div className="text-xl font-semibold">{t('replay.title')}</div>
+                            <div className="mt-1 text-sm text-white/60">{t('replay.hint')}</div>
+                        </div>
+                        <div className="flex shrink-0 gap-2">
+                            <button
+                                className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+                                type="button"
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                {t('replay.import')}
+                            </button>
+                            <button
+                                className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+                                type="button"
+                                onClick={onClose}
+                            >
+                                {t('replay.close')}
+                            </button>
+                        </div>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        className="hidden"
+                        type="file"
+                        accept={REPLAY_FILE_EXTENSION}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) void importFile(file);
+                        }}
+                    />
+                    {error && <div className="mt-3 text-sm text-red-400">{error}</div>}
+                </div>
+
+                {/* Entries */}
+                <div className="max-h-[calc(84vh-120px)] overflow-y-auto px-6 py-4">
+                    {entries.length === 0 && <div className="py-6 text-center text-sm text-white/50">{t('replay.empty')}</div>}
+                    <div className="flex flex-col gap-2">
+                        {entries.map((entry) => (
+                            <div key={entry.id} className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-black/30 p-3">
+                                <div className="min-w-0">
+                                    <div className="truncate text-sm font-semibold">{entry.name}</div>
+                                    <div className="text-xs text-white/60">
+                                        {t('replay.entryInfo', {
+                                            duration: formatReplayTime(entry.stepCount / entry.stepHz),
+                                            size: Math.max(1, Math.round(entry.byteLength / 1024)),
+                                        })}
+                                    </div>
+                                </div>
+                                <div className="flex shrink-0 gap-2">
+                                    <button
+                                        className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+                                        type="button"
+                                        onClick={() => void play(entry)}
+                                    >
+                                        {t('replay.play')}
+                                    </button>
+                                    <button
+                                        className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+                                        type="button"
+                                        onClick={() => void download(entry)}
+                                    >
+                                        {t('replay.download')}
+                                    </button>
+                                    <button
+                                        className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm text-red-300 hover:bg-white/20"
+                                        type="button"
+                                        onClick={() => void remove(entry)}
+                                    >
+                                        {t('replay.delete')}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { ReplayStatus } from '../../game/core/replay/ReplayController';
+
+/** m:ss */
+export function formatReplayTime(seconds: number): string {
+    const s = Math.max(0, Math.floor(seconds));
+    const m = Math.floor(s / 60);
+    return `${m}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function sameStatus(a: ReplayStatus | null, b: ReplayStatus | null): boolean {
+    if (a === b) return true;
+    if (!a || !b) return false;
+    return (
+        a.mode === b.mode &&
+        a.step === b.step &&
+        a.stepCount === b.stepCount &&
+        a.paused === b.paused &&
+        a.seeking === b.seeking &&
+        a.freeCamera === b.freeCamera
+    );
+}
+
+/** Polls the game's replay status (cheap) a few times per second. */
+export function useReplayStatus(getStatus: () => ReplayStatus | null): ReplayStatus | null {
+    const [status, setStatus] = useState<ReplayStatus | null>(null);
+    useEffect(() => {
+        const id = window.setInterval(() => {
+            const next = getStatus();
+            setStatus((prev) => (sameStatus(prev, next) ? prev : next));
+        }, 100);
+        return () => window.clearInterval(id);
+    }, [getStatus]);
+    return status;
+}
+
+/**
+ * REC badge while recording; play/pause, scrub bar, free camera and exit while a replay plays.
+ */
+export const ReplayTransport: React.FC<{
+    status: ReplayStatus | null;
+    onTogglePause: () => void;
+    onSeek: (step: number) => void;
+    onToggleFreeCamera: () => void;
+    onExit: () => void;
+}> = ({ status, onTogglePause, onSeek, onToggleFreeCamera, onExit }) => {
+    const { t } = useTranslation();
+    // While dragging, show the thumb where the user holds it instead of the (seeking) replay position.
+    const [scrubStep, setScrubStep] = useState<number | null>(null);
+
+    if (!status || status.mode === 'idle') return null;
+
+    if (status.mode === 'recording') {
+        return (
+            <div className="pointer-events-none fixed left-1/2 top-3 z-60 -translate-x-1/2 rounded-md bg-black/60 px-3 py-1 text-sm font-semibold text-red-400">
+                <span className="mr-2 inline-block h-2 w-2 animate-pulse rounded-full bg-red-500 align-middle" />
+                {t('replay.rec', { time: formatReplayTime(status.step / status.stepHz) })}
+            </div>
+        );
+    }
+
+    const shownStep = scrubStep ?? status.step;
+    return (
+        <div
+            className="fixed inset-x-0 bottom-0 z-60 border-t border-white/10 bg-black/80 px-4 py-3 text-white backdrop-blur-sm"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="mx-auto flex max-w-[1100px] items-center gap-3">
+                <button
+                    className="w-24 shrink-0 rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+                    type="button"
+                    onClick={onTogglePause}
+                >
+                    {status.paused ? t('replay.resume') : t('replay.pause')}
+                </button>
+                <input
+                    className="min-w-0 flex-1"
+                    type="range"
+                    min={0}
+                    max={status.stepCount}
+                    step={1}
+                    value={shownStep}
+                    onChange={(e) => setScrubStep(Number(e.target.value))}
+                    onPointerUp={() => {
+                        if (scrubStep !== null) onSeek(scrubStep);
+                        setScrubStep(null);
+                    }}
+                    onKeyUp={() => {
+                        if (scrubStep !== null) onSeek(scrubStep);
+                        setScrubStep(null);
+                    }}
+                />
+                <div className="w-28 shrink-0 text-right font-mono text-xs text-white/80">
+                    {formatReplayTime(shownStep / status.stepHz)} / {formatReplayTime(status.stepCount / status.stepHz)}
+                </div>
+                <button
+                    className={`shrink-0 rounded-md border border-white/10 px-3 py-2 text-sm hover:bg-white/20 ${
+                        status.freeCamera ? 'bg-white/30' : 'bg-white/10'
+                    }`}
+                    type="button"
+                    onClick={onToggleFreeCamera}
+                    title={t('replay.freeCameraHint')}
+                >
+                    {t('replay.freeCamera')}
+                </button>
+                <button
+                    className="shrink-0 rounded-md border border-white/10 bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+                    type="button"
+                    onClick={onExit}
+                >
+                    {t('replay.exit')}
+                </button>
+            </div>
+            {status.seeking && <div className="mx-auto mt-1 max-w-[1100px] text-xs text-white/50">{t('replay.seeking')}</div>}
+        </div>
+    );
+};
@@ -1,8 +1,17 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { LanguageToggle } from './LanguageToggle';
+import { ControlBindingsEditor } from './ControlBindingsEditor';
 
 import type { RuntimeSettings } from '../../game/core/settings/RuntimeSettings';
+import type { AudioBusSettings } from '../../game/core/settings/AudioSettings';
+import {
+    GRAPHICS_PRESETS,
+    getGraphicsOptions,
+    readGraphicsToggleOverrides,
+    type GraphicsOptions,
+} from '../../game/core/settings/GraphicsSettings';
+import { GraphicsConfig, PostFXConfig, SoundConfig, type AudioBusId } from '../../game/core/GameConfig';
 
 function clamp(n: number, min: number, max: number) {
     if (!Number.isFinite(n)) return min;
@@ -55,6 +64,17 @@ function Slider({
     );
 }
 
+function Toggle({ value, onChange }: { value: boolean; onChange: (v: boolean) => void }) {
+    return (
+        <input
+            className="h-4 w-4 cursor-pointer"
+            type="checkbox"
+            checked={value}
+            onChange={(e) => onChange(e.target.checked)}
+        />
+    );
+}
+
 export const SettingsOverlay: React.FC<{
     open: boolean;
     settings: RuntimeSettings;
@@ -64,13 +84,17 @@ export const SettingsOverlay: React.FC<{
 }> = ({ open, settings, onChange, onReset, onClose }) => {
     const { t } = useTranslation();
 
-    type TabId = 'camera' | 'movement' | 'weapons';
+    type TabId = 'camera' | 'movement' | 'weapons' | 'controls' | 'gamepad' | 'video' | 'audio';
     const tabs = useMemo(
         () =>
             [
                 { id: 'camera' as const, label: t('settings.section.camera') },
                 { id: 'movement' as const, label: t('settings.section.movement') },
                 { id: 'weapons' as const, label: t('settings.section.weapons') },
+                { id: 'controls' as const, label: t('settings.section.controls') },
+                { id: 'gamepad' as const, label: t('settings.section.gamepad') },
+                { id: 'video' as const, label: t('settings.section.video') },
+                { id: 'audio' as const, label: t('settings.section.audio') },
             ] satisfies Array<{ id: TabId; label: string }>,
         [t]
     );
@@ -81,8 +105,22 @@ export const SettingsOverlay: React.FC<{
         if (open) setActiveTab('camera');
     }, [open]);
 
+    // Launch flags (query / localStorage) win over whatever is picked here.
+    const graphicsToggles = useMemo(() => (open ? readGraphicsToggleOverrides() : null), [open]);
+    const graphicsForced = !!graphicsToggles && (!!graphicsToggles.preset || Object.keys(graphicsToggles.options).length > 0);
+
     if (!open) return null;
 
+    const graphics = settings.graphics;
+    const graphicsOptions = getGraphicsOptions(graphics);
+    const setGraphicsOption = <K extends keyof GraphicsOptions>(key: K, value: GraphicsOptions[K]) =>
+        onChange({ ...settings, graphics: { ...graphics, overrides: { ...graphics.overrides, [key]: value } } });
+    const setAudioBus = (id: AudioBusId, patch: Partial<AudioBusSettings>) =>
+        onChange({
+            ...settings,
+            audio: { ...settings.audio, buses: { ...settings.audio.buses, [id]: { ...settings.audio.buses[id], ...patch } } },
+        });
+
     return (
         <div
             className="fixed inset-0 z-120 bg-black/70 text-white backdrop-blur-sm"
@@ -293,6 +331,242 @@ export const SettingsOverlay: React.FC<{
                                 </div>
                             </div>
                         )}
+
+                        {activeTab === 'controls' && (
+                            <div className="rounded-xl border border-white/10 bg-black/30 p-5">
+                                <div className="text-sm font-semibold text-white/90">{t('settings.section.controls')}</div>
+                                <div className="mt-3">
+                                    <ControlBindingsEditor
+                                        bindings={settings.controls}
+                                        onChange={(controls) => onChange({ ...settings, controls })}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {activeTab === 'gamepad' && (
+                            <div className="rounded-xl border border-white/10 bg-black/30 p-5">
+                                <div className="text-sm font-semibold text-white/90">{t('settings.section.gamepad')}</div>
+                                <div className="mt-1 text-xs text-white/60">{t('settings.gamepad.hint')}</div>
+                                <div className="mt-3">
+                                    <FieldRow label={t('settings.gamepad.enabled')}>
+                                        <Toggle
+                                            value={settings.gamepadEnabled}
+                                            onChange={(v) => onChange({ ...settings, gamepadEnabled: v })}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.gamepad.lookSensitivity')}>
+                                        <Slider
+                                            value={settings.gamepadLookSensitivity}
+                                            min={0.5}
+                                            max={8}
+                                            step={0.1}
+                                            onChange={(v) =>
+                                                onChange({ ...settings, gamepadLookSensitivity: clamp(v, 0.1, 20) })
+                                            }
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.gamepad.deadZone')}>
+                                        <Slider
+                                            value={settings.gamepadDeadZone}
+                                            min={0}
+                                            max={0.5}
+                                            step={0.01}
+                                            onChange={(v) => onChange({ ...settings, gamepadDeadZone: clamp(v, 0, 0.9) })}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.gamepad.responseCurve')}>
+                                        <Slider
+                                            value={settings.gamepadResponseCurve}
+                                            min={1}
+                                            max={3}
+                                            step={0.1}
+                                            onChange={(v) =>
+                                                onChange({ ...settings, gamepadResponseCurve: clamp(v, 0.5, 5) })
+                                            }
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.gamepad.invertY')}>
+                                        <Toggle
+                                            value={settings.gamepadInvertY}
+                                            onChange={(v) => onChange({ ...settings, gamepadInvertY: v })}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.gamepad.aimAssist')}>
+                                        <Slider
+                                            value={settings.gamepadAimAssist}
+                                            min={0}
+                                            max={1}
+                                            step={0.05}
+                                            onChange={(v) => onChange({ ...settings, gamepadAimAssist: clamp(v, 0, 1) })}
+                                        />
+                                    </FieldRow>
+                                </div>
+                            </div>
+                        )}
+
+                        {activeTab === 'video' && (
+                            <div className="rounded-xl border border-white/10 bg-black/30 p-5">
+                                <div className="text-sm font-semibold text-white/90">{t('settings.section.video')}</div>
+                                <div className="mt-1 text-xs text-white/60">{t('settings.video.hint')}</div>
+                                {graphicsForced && (
+                                    <div className="mt-2 rounded-md bg-yellow-500/15 px-3 py-2 text-xs text-yellow-200">
+                                        {t('settings.video.forced')}
+                                    </div>
+                                )}
+                                <div className="mt-3">
+                                    <FieldRow label={t('settings.video.preset')}>
+                                        <div className="flex gap-2">
+                                            {GRAPHICS_PRESETS.map((preset) => {
+                                                const active = preset === graphics.preset;
+                                                return (
+                                                    <button
+                                                        key={preset}
+                                                        type="button"
+                                                        className={
+                                                            'flex-1 rounded-md border px-2 py-1 text-xs transition ' +
+                                                            (active
+                                                                ? 'border-white/30 bg-white/15 text-white'
+                                                                : 'border-white/10 bg-black/40 text-white/70 hover:bg-black/60')
+                                                        }
+                                                        // Picking a preset drops the per-option overrides.
+                                                        onClick={() => onChange({ ...settings, graphics: { preset, overrides: {} } })}
+                                                    >
+                                                        {t(`settings.video.presets.${preset}`)}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.grassDensity')}>
+                                        <Slider
+                                            value={graphicsOptions.grassDensityScale}
+                                            min={0}
+                                            max={1}
+                                            step={0.01}
+                                            onChange={(v) => setGraphicsOption('grassDensityScale', clamp(v, 0, 1))}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.grassRadius')}>
+                                        <Slider
+                                            value={graphicsOptions.grassStreamRadiusChunks}
+                                            min={0}
+                                            max={4}
+                                            step={1}
+                                            onChange={(v) => setGraphicsOption('grassStreamRadiusChunks', Math.round(clamp(v, 0, 4)))}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.treeRadius')}>
+                                        <Slider
+                                            value={graphicsOptions.vegetationStreamRadiusChunks}
+                                            min={0}
+                                            max={6}
+                                            step={1}
+                                            onChange={(v) =>
+                                                setGraphicsOption('vegetationStreamRadiusChunks', Math.round(clamp(v, 0, 6)))
+                                            }
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.enemyShadowDistance')}>
+                                        <Slider
+                                            value={graphicsOptions.enemyShadowDistance}
+                                            min={0}
+                                            max={200}
+                                            step={5}
+                                            onChange={(v) => setGraphicsOption('enemyShadowDistance', clamp(v, 0, 200))}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.shadowMapSize')}>
+                                        <select
+                                            className="w-full rounded-md border border-white/10 bg-black/40 px-2 py-1 text-sm text-white/80"
+                                            value={graphicsOptions.shadowMapSize}
+                                            onChange={(e) => setGraphicsOption('shadowMapSize', Number(e.target.value))}
+                                        >
+                                            {GraphicsConfig.shadowMapSizes.map((size) => (
+                                                <option key={size} value={size}>
+                                                    {size} × {size}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.pipScope')}>
+                                        <Toggle
+                                            value={graphicsOptions.pipScope}
+                                            onChange={(v) => setGraphicsOption('pipScope', v)}
+                                        />
+                                    </FieldRow>
+                                    <FieldRow label={t('settings.video.postFx')}>
+                                        <Toggle
+                                            value={graphicsOptions.postFx}
+                                            onChange={(v) => setGraphicsOption('postFx', v)}
+                                        />
+                                    </FieldRow>
+                                    {graphicsOptions.postFx &&
+                                        PostFXConfig.order.map((id) => (
+                                            <FieldRow key={id} label={`· ${t(`settings.video.passes.${id}`)}`}>
+                                                <Toggle
+                                                    value={graphicsOptions.postFxPasses.includes(id)}
+                                                    onChange={(v) =>
+                                                        setGraphicsOption(
+                                                            'postFxPasses',
+                                                            PostFXConfig.order.filter((p) =>
+                                                                p === id ? v : graphicsOptions.postFxPasses.includes(p)
+                                                            )
+                                                        )
+                                                    }
+                                                />
+                                            </FieldRow>
+                                        ))}
+                                </div>
+                                <div className="mt-3 flex justify-end">
+                                    <button
+                                        className="rounded-md border border-white/10 bg-black/30 px-3 py-1 text-xs hover:bg-black/40 disabled:opacity-40"
+                                        type="button"
+                                        disabled={Object.keys(graphics.overrides).length === 0}
+                                        onClick={() => onChange({ ...settings, graphics: { ...graphics, overrides: {} } })}
+                                    >
+                                        {t('settings.video.resetOverrides')}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {activeTab === 'audio' && (
+                            <div className="rounded-xl border border-white/10 bg-black/30 p-5">
+                                <div className="text-sm font-semibold text-white/90">{t('settings.section.audio')}</div>
+                                <div className="mt-1 text-xs text-white/60">{t('settings.audio.hint')}</div>
+                                <div className="mt-3">
+                                    {SoundConfig.mixer.buses.map((id) => {
+                                        const bus = settings.audio.buses[id];
+                                        return (
+                                            <FieldRow key={id} label={t(`settings.audio.buses.${id}`)}>
+                                                <div className="flex items-center gap-3">
+                                                    <div className={`flex-1 ${bus.muted ? 'opacity-40' : ''}`}>
+                                                        <Slider
+                                                            value={bus.volume}
+                                                            min={0}
+                                                            max={1}
+                                                            step={0.05}
+                                                            onChange={(v) => setAudioBus(id, { volume: clamp(v, 0, 1) })}
+                                                        />
+                                                    </div>
+                                                    <label className="flex items-center gap-1 text-xs text-white/70">
+                                                        <Toggle value={bus.muted} onChange={(v) => setAudioBus(id, { muted: v })} />
+                                                        {t('settings.audio.mute')}
+                                                    </label>
+                                                </div>
+                                            </FieldRow>
+                                        );
+                                    })}
+                                    <FieldRow label={t('settings.audio.dynamicMusic')}>
+                                        <Toggle
+                                            value={settings.audio.dynamicMusic}
+                                            onChange={(v) => onChange({ ...settings, audio: { ...settings.audio, dynamicMusic: v } })}
+                                        />
+                                    </FieldRow>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
 
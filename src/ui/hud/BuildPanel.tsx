@@ -0,0 +1,45 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { BuildModeState } from '../../game/building/BuildingTypes';
+import type { ResourceType } from '../../game/crafting/CraftingTypes';
+import { BuildingConfig } from '../../game/core/GameConfig';
+import { RESOURCE_TYPES } from '../../game/crafting/Crafting';
+
+interface BuildPanelProps {
+    buildMode: BuildModeState | null;
+    resources: Record<ResourceType, number>;
+}
+
+export const BuildPanel: React.FC<BuildPanelProps> = ({ buildMode, resources }) => {
+    const { t } = useTranslation();
+    if (!buildMode) return null;
+
+    const cost: Partial<Record<ResourceType, number>> = BuildingConfig.pieces[buildMode.piece].cost;
+
+    return (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 mt-28 pointer-events-none select-none">
+            <div className="bg-black/60 px-4 py-2 rounded-lg border border-white/30 backdrop-blur-sm text-white text-center">
+                <div className="text-xs uppercase tracking-wider text-white/60">{t('building.title')}</div>
+                <div className="flex items-center justify-center gap-3">
+                    <span className="text-lg font-bold">{t(`building.piece.${buildMode.piece}`)}</span>
+                    <span className={buildMode.canPlace ? 'text-green-400 text-sm' : 'text-red-400 text-sm'}>
+                        {buildMode.canPlace ? t('building.valid') : t('building.invalid')}
+                    </span>
+                </div>
+                <div className="mt-1 flex justify-center gap-2 text-xs">
+                    {RESOURCE_TYPES.filter((type) => (cost[type] ?? 0) > 0).map((type) => {
+                        const need = cost[type] ?? 0;
+                        const enough = (resources[type] ?? 0) >= need;
+                        return (
+                            <span key={type} className={enough ? 'text-white/80' : 'text-red-400'}>
+                                {t(`resource.${type}`)} ×{need}
+                            </span>
+                        );
+                    })}
+                </div>
+                <div className="mt-1 text-xs text-white/50">{t('building.hint')}</div>
+            </div>
+        </div>
+    );
+};
@@ -4,6 +4,8 @@ import { ScoreInfo } from './ScoreInfo';
 import { PerformanceStats } from './PerformanceStats';
 import { StatusPanel } from './StatusPanel';
 import { WeaponPanel } from './WeaponPanel';
+import { BuildPanel } from './BuildPanel';
+import { WaveIndicator } from './WaveIndicator';
 import { Crosshair } from '../components/Crosshair';
 import { PickupHint } from '../components/PickupHint';
 
@@ -18,16 +20,20 @@ export const HUD: React.FC<HUDProps> = ({ isLoading, gameState, fps, ping }) =>
     return (
         <div className={`transition-opacity duration-1000 ${isLoading ? 'opacity-0' : 'opacity-100'}`}>
             <ScoreInfo score={gameState.score} />
+            <WaveIndicator wave={gameState.wave} />
             <PerformanceStats fps={fps} ping={ping} />
-            <StatusPanel health={gameState.health} stance={gameState.stance} />
+            <StatusPanel health={gameState.health} stance={gameState.stance} survival={gameState.survival} />
             <WeaponPanel 
                 currentWeapon={gameState.currentWeapon} 
-                ammo={gameState.ammo} 
+                magazines={gameState.magazines}
+                reserveAmmo={gameState.reserveAmmo}
+                reloadProgress={gameState.reloadProgress}
                 grenades={gameState.grenades} 
                 chargeProgress={gameState.chargeProgress}
             />
             <Crosshair />
             <PickupHint hint={gameState.pickupHint} />
+            <BuildPanel buildMode={gameState.buildMode} resources={gameState.resources} />
         </div>
     );
 };
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { PerfHudConfig } from '../../game/core/GameConfig';
+import type { PerfFrameSample, PerfMonitor } from '../../game/core/perf/PerfMonitor';
+
+const GRAPH_WIDTH = 320;
+const GRAPH_HEIGHT = 72;
+
+type PerfSummary = {
+    fps: number;
+    frameAvgMs: number;
+    frameMaxMs: number;
+    cpuAvgMs: number;
+    /** Average ms per frame over the window, slowest first. */
+    systems: Array<[string, number]>;
+    latest: PerfFrameSample;
+    /** Peak of each vegetation counter over the window. */
+    vegetationPeak: { trees: Record<string, number>; grass: Record<string, number> };
+};
+
+export function downloadPerfCapture(json: string) {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `perf-capture-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function summarize(samples: readonly PerfFrameSample[]): PerfSummary | null {
+    if (samples.length === 0) return null;
+    const recent = samples.slice(-PerfHudConfig.averageFrames);
+
+    let frameSum = 0;
+    let frameMax = 0;
+    let cpuSum = 0;
+    const systemSums: Record<string, number> = {};
+    const treesPeak: Record<string, number> = {};
+    const grassPeak: Record<string, number> = {};
+    const peak = (into: Record<string, number>, from: Record<string, number> | undefined) => {
+        if (!from) return;
+        for (const key in from) into[key] = Math.max(into[key] ?? 0, from[key]);
+    };
+
+    for (const sample of recent) {
+        frameSum += sample.frameMs;
+        frameMax = Math.max(frameMax, sample.frameMs);
+        cpuSum += sample.cpuMs;
+        for (const name in sample.systems) systemSums[name] = (systemSums[name] ?? 0) + sample.systems[name];
+        peak(treesPeak, sample.vegetation?.trees);
+        peak(grassPeak, sample.vegetation?.grass);
+    }
+
+    const n = recent.length;
+    const frameAvgMs = frameSum / n;
+    return {
+        fps: frameAvgMs > 0 ? 1000 / frameAvgMs : 0,
+        frameAvgMs,
+        frameMaxMs: frameMax,
+        cpuAvgMs: cpuSum / n,
+        systems: Object.entries(systemSums)
+            .map(([name, sum]): [string, number] => [name, sum / n])
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, PerfHudConfig.topSystems),
+        latest: recent[n - 1],
+        vegetationPeak: { trees: treesPeak, grass: grassPeak },
+    };
+}
+
+function frameColor(ms: number): string {
+    if (ms <= PerfHudConfig.targetMs) return '#4ade80';
+    if (ms <= PerfHudConfig.targetMs * 2) return '#facc15';
+    return '#f87171';
+}
+
+/** Frame-time bars (newest on the right) with 1× / 2× budget lines. */
+function drawGraph(canvas: HTMLCanvasElement, samples: readonly PerfFrameSample[]) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { graphFrames, graphMaxMs, targetMs } = PerfHudConfig;
+    const w = canvas.width;
+    const h = canvas.height;
+    const barWidth = w / graphFrames;
+    const toY = (ms: number) => h - (Math.min(ms, graphMaxMs) / graphMaxMs) * h;
+
+    ctx.clearRect(0, 0, w, h);
+    const recent = samples.slice(-graphFrames);
+    const offset = graphFrames - recent.length;
+    recent.forEach((sample, i) => {
+        const y = toY(sample.frameMs);
+        ctx.fillStyle = frameColor(sample.frameMs);
+        ctx.fillRect((offset + i) * barWidth, y, Math.max(1, barWidth), h - y);
+        // CPU share of the frame, darker overlay.
+        const cpuY = toY(Math.min(sample.cpuMs, sample.frameMs));
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+        ctx.fillRect((offset + i) * barWidth, cpuY, Math.max(1, barWidth), h - cpuY);
+    });
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.setLineDash([4, 4]);
+    for (const ms of [targetMs, targetMs * 2]) {
+        const y = Math.round(toY(ms)) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(w, y);
+        ctx.stroke();
+    }
+    ctx.setLineDash([]);
+}
+
+const formatCount = (value: number) => (value >= 10_000 ? `${(value / 1000).toFixed(1)}k` : String(Math.round(value)));
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="flex justify-between gap-3">
+        <span className="truncate text-white/60">{label}</span>
+        <span className="tabular-nums">{value}</span>
+    </div>
+);
+
+const VegetationCounters: React.FC<{
+    label: string;
+    latest: Record<string, number> | undefined;
+    peak: Record<string, number>;
+}> = ({ label, latest, peak }) => {
+    if (!latest) return null;
+    return (
+        <div className="mt-1">
+            <div className="text-white/80">{label}</div>
+            <div className="grid grid-cols-2 gap-x-3">
+                {Object.entries(latest).map(([key, value]) => (
+                    <Row key={key} label={key} value={peak[key] > value ? `${value} (${peak[key]})` : String(value)} />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Live performance HUD (F3, or `toggle perf` in the dev console). Visible while the monitor is enabled;
+ * polls it on a timer instead of re-rendering every frame.
+ */
+export const PerfOverlay: React.FC<{
+    getMonitor: () => PerfMonitor | null;
+    onExport: () => void;
+}> = ({ getMonitor, onExport }) => {
+    const { t } = useTranslation();
+    const [summary, setSummary] = useState<PerfSummary | null>(null);
+    const [visible, setVisible] = useState(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const tick = () => {
+            const monitor = getMonitor();
+            const enabled = monitor?.isEnabled() ?? false;
+            setVisible(enabled);
+            if (!monitor || !enabled) return;
+            const samples = monitor.getSamples();
+            setSummary(summarize(samples));
+            if (canvasRef.current) drawGraph(canvasRef.current, samples);
+        };
+        tick();
+        const id = window.setInterval(tick, PerfHudConfig.refreshMs);
+        return () => window.clearInterval(id);
+    }, [getMonitor]);
+
+    if (!visible) return null;
+
+    const latest = summary?.latest;
+    return (
+        <div className="pointer-events-none fixed top-20 right-4 z-115 w-[352px] select-none rounded-xl border border-white/10 bg-black/75 p-3 font-mono text-[11px] text-white shadow-2xl">
+            <div className="flex items-center justify-between gap-2">
+                <div className="text-xs font-semibold">{t('perfHud.title')}</div>
+                <button
+                    className="pointer-events-auto rounded-md border border-white/10 bg-white/10 px-2 py-1 hover:bg-white/20"
+                    type="button"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onExport();
+                    }}
+                >
+                    {t('perfHud.export')}
+                </button>
+            </div>
+            <div className="mt-0.5 text-white/40">{t('perfHud.hint')}</div>
+
+            <canvas
+                ref={canvasRef}
+                className="mt-2 h-[72px] w-[320px] rounded bg-white/5"
+                width={GRAPH_WIDTH}
+                height={GRAPH_HEIGHT}
+            />
+
+            {!summary || !latest ? (
+                <div className="mt-2 text-white/50">{t('perfHud.empty')}</div>
+            ) : (
+                <>
+                    <div className="mt-2 grid grid-cols-2 gap-x-4">
+                        <Row label={t('perfHud.fps')} value={summary.fps.toFixed(0)} />
+                        <Row label={t('perfHud.frame')} value={`${summary.frameAvgMs.toFixed(1)} / ${summary.frameMaxMs.toFixed(1)}`} />
+                        <Row label={t('perfHud.cpu')} value={summary.cpuAvgMs.toFixed(2)} />
+                        <Row label={t('perfHud.drawCalls')} value={formatCount(latest.drawCalls)} />
+                        <Row label={t('perfHud.triangles')} value={formatCount(latest.triangles)} />
+                        <Row label={t('perfHud.compute')} value={formatCount(latest.computeCalls)} />
+                        <Row label={t('perfHud.geometries')} value={formatCount(latest.geometries)} />
+                        <Row label={t('perfHud.textures')} value={formatCount(latest.textures)} />
+                    </div>
+
+                    <div className="mt-2 border-t border-white/10 pt-1">
+                        <div className="text-white/80">{t('perfHud.systems')}</div>
+                        {summary.systems.map(([name, ms]) => (
+                            <div key={name} className="flex items-center gap-2">
+                                <span className="w-24 truncate text-white/60">{name}</span>
+                                <div className="h-1.5 flex-1 rounded bg-white/10">
+                                    <div
+                                        className="h-1.5 rounded bg-sky-400"
+                                        style={{ width: `${Math.min(100, (ms / PerfHudConfig.targetMs) * 100)}%` }}
+                                    />
+                                </div>
+                                <span className="w-12 text-right tabular-nums">{ms.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {latest.music && (
+                        <div className="mt-2 border-t border-white/10 pt-1">
+                            <div className="flex items-center gap-2">
+                                <span className="w-24 truncate text-white/80">{t('perfHud.music')}</span>
+                                <div className="h-1.5 flex-1 rounded bg-white/10">
+                                    <div
+                                        className="h-1.5 rounded bg-fuchsia-400"
+                                        style={{ width: `${Math.round(latest.music.intensity * 100)}%` }}
+                                    />
+                                </div>
+                                <span className="w-12 text-right tabular-nums">{latest.music.intensity.toFixed(2)}</span>
+                            </div>
+                            <Row
+                                label={t('perfHud.musicLayers')}
+                                value={
+                                    latest.music.status === 'playing'
+                                        ? String(latest.music.layers)
+                                        : t(latest.music.status === 'disabled' ? 'perfHud.musicDisabled' : 'perfHud.musicFallback')
+                                }
+                            />
+                        </div>
+                    )}
+
+                    {latest.vegetation && (
+                        <div className="mt-2 border-t border-white/10 pt-1">
+                            <div className="text-white/80">{t('perfHud.vegetation')}</div>
+                            <VegetationCounters label={t('perfHud.trees')} latest={latest.vegetation.trees} peak={summary.vegetationPeak.trees} />
+                            <VegetationCounters label={t('perfHud.grass')} latest={latest.vegetation.grass} peak={summary.vegetationPeak.grass} />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
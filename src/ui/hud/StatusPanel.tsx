@@ -1,20 +1,70 @@
 import React from 'react';
-import { StanceType } from '../../game/core/GameState';
+import { StanceType, SurvivalStats } from '../../game/core/GameState';
+import { SurvivalConfig } from '../../game/core/GameConfig';
 import { useTranslation } from 'react-i18next';
 
 interface StatusPanelProps {
     health: number;
     stance: StanceType;
+    survival: SurvivalStats;
 }
 
-export const StatusPanel: React.FC<StatusPanelProps> = ({ health, stance }) => {
+const StatBar: React.FC<{ label: string; value: number; max: number; low: boolean; color: string }> = ({ label, value, max, low, color }) => (
+    <div className="flex items-center gap-2 text-xs font-normal">
+        <span className="w-10 opacity-70">{label}</span>
+        <div className="w-28 h-1.5 bg-white/20 rounded">
+            <div
+                className={`h-full rounded ${low ? 'bg-red-500' : color}`}
+                style={{ width: `${Math.max(0, Math.min(100, (value / max) * 100))}%` }}
+            />
+        </div>
+    </div>
+);
+
+export const StatusPanel: React.FC<StatusPanelProps> = ({ health, stance, survival }) => {
     const { t } = useTranslation();
+    const temp = SurvivalConfig.temperature;
+    const isCold = survival.bodyTemperature < temp.coldThreshold;
+    const isHot = survival.bodyTemperature > temp.hotThreshold;
     return (
         <div className="absolute bottom-8 left-8 text-white font-bold pointer-events-none select-none">
             <div className="text-4xl flex items-end gap-2">
                 <span>{health}</span>
                 <span className="text-lg font-normal opacity-70 mb-1">{t('hud.hp')}</span>
             </div>
+
+            {/* 生存数值 */}
+            <div className="mt-2 flex flex-col gap-1">
+                <StatBar
+                    label={t('hud.survival.hunger')}
+                    value={survival.hunger}
+                    max={SurvivalConfig.hunger.max}
+                    low={survival.hunger < SurvivalConfig.hunger.lowThreshold}
+                    color="bg-amber-400"
+                />
+                <StatBar
+                    label={t('hud.survival.thirst')}
+                    value={survival.thirst}
+                    max={SurvivalConfig.thirst.max}
+                    low={survival.thirst < SurvivalConfig.thirst.lowThreshold}
+                    color="bg-sky-400"
+                />
+                <StatBar
+                    label={t('hud.survival.stamina')}
+                    value={survival.stamina}
+                    max={SurvivalConfig.stamina.max}
+                    low={survival.stamina < SurvivalConfig.stamina.minToSprint}
+                    color="bg-green-400"
+                />
+                <div className="flex items-center gap-2 text-xs font-normal">
+                    <span className="w-10 opacity-70">{t('hud.survival.temperature')}</span>
+                    <span className={isCold ? 'text-sky-300' : isHot ? 'text-orange-400' : ''}>
+                        {survival.bodyTemperature.toFixed(1)}°C
+                        {isCold && ` ${t('hud.survival.cold')}`}
+                        {isHot && ` ${t('hud.survival.hot')}`}
+                    </span>
+                </div>
+            </div>
             
             {/* 姿态显示 */}
             <div className="mt-4 flex items-center gap-3">
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { WaveState } from '../../game/enemy/EncounterDirector';
+
+interface WaveIndicatorProps {
+    wave: WaveState | null;
+}
+
+const CLEARED_BANNER_MS = 4000;
+
+export const WaveIndicator: React.FC<WaveIndicatorProps> = ({ wave }) => {
+    const { t } = useTranslation();
+    const [showCleared, setShowCleared] = useState(false);
+
+    const number = wave?.number ?? 0;
+    const active = wave?.active ?? false;
+
+    // "Wave N cleared" only flashes briefly after a wave ends.
+    useEffect(() => {
+        if (number === 0 || active) {
+            setShowCleared(false);
+            return;
+        }
+        setShowCleared(true);
+        const timer = window.setTimeout(() => setShowCleared(false), CLEARED_BANNER_MS);
+        return () => window.clearTimeout(timer);
+    }, [number, active]);
+
+    if (!wave || (!active && !showCleared)) return null;
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none select-none">
+            <div
+                className={`bg-black/60 px-4 py-1 rounded-lg border backdrop-blur-sm font-bold tracking-wider ${
+                    active ? 'border-red-500/60 text-red-300' : 'border-green-500/60 text-green-300'
+                }`}
+            >
+                {active ? t('wave.active', { number }) : t('wave.cleared', { number })}
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import { WeaponType } from '../../game/core/GameState';
-import { getWeaponDisplayName } from '../../game/weapon/WeaponDefinitions';
+import { getWeaponDefinition, getWeaponDisplayName } from '../../game/weapon/WeaponDefinitions';
+import type { AmmoCaliber } from '../../game/weapon/WeaponTypes';
+import { UIConfig } from '../../game/core/GameConfig';
 import { useTranslation } from 'react-i18next';
 
 function WeaponIcon({ weapon }: { weapon: WeaponType }) {
@@ -154,16 +156,30 @@ function WeaponIcon({ weapon }: { weapon: WeaponType }) {
 
 interface WeaponPanelProps {
     currentWeapon: WeaponType;
-    ammo: number;
+    magazines: Partial<Record<WeaponType, number>>;
+    reserveAmmo: Record<AmmoCaliber, number>;
+    reloadProgress: number;
     grenades: number;
     chargeProgress: number;
 }
 
-export const WeaponPanel: React.FC<WeaponPanelProps> = ({ currentWeapon, ammo, grenades, chargeProgress }) => {
+export const WeaponPanel: React.FC<WeaponPanelProps> = ({
+    currentWeapon,
+    magazines,
+    reserveAmmo,
+    reloadProgress,
+    grenades,
+    chargeProgress,
+}) => {
     const { t } = useTranslation();
+    const def = getWeaponDefinition(currentWeapon);
     const isGrenade = currentWeapon === 'grenade';
-    const value = isGrenade ? grenades : ammo;
-    const label = isGrenade ? t('hud.weapon.grenades') : t('hud.weapon.ammo');
+    const isRanged = def.category === 'ranged' && def.usesAmmo;
+    const magazine = isRanged ? (magazines[currentWeapon] ?? 0) : 0;
+    const reserve = isRanged ? (reserveAmmo[def.caliber] ?? 0) : 0;
+    const lowMagazine = isRanged && magazine <= Math.min(UIConfig.hud.ammoWarning, Math.floor(def.magazineSize / 3));
+    const reloading = isRanged && reloadProgress > 0;
+    const reload = Math.max(0, Math.min(1, reloadProgress));
     const weaponNameFallback = getWeaponDisplayName(currentWeapon);
     const weaponName = t(`weapon.${currentWeapon}`, { defaultValue: weaponNameFallback });
 
@@ -215,10 +231,33 @@ export const WeaponPanel: React.FC<WeaponPanelProps> = ({ currentWeapon, ammo, g
                 </div>
             </div>
 
-            <div className="text-4xl flex items-end justify-end gap-2">
-                <span>{value}</span>
-                <span className="text-lg font-normal opacity-70 mb-1">{label}</span>
-            </div>
+            {isGrenade && (
+                <div className="text-4xl flex items-end justify-end gap-2">
+                    <span>{grenades}</span>
+                    <span className="text-lg font-normal opacity-70 mb-1">{t('hud.weapon.grenades')}</span>
+                </div>
+            )}
+
+            {isRanged && (
+                <>
+                    <div className="text-4xl flex items-end justify-end gap-2">
+                        <span className={lowMagazine ? 'text-red-400' : undefined}>{magazine}</span>
+                        <span className="text-2xl font-normal opacity-70">/ {reserve}</span>
+                        <span className="text-lg font-normal opacity-70 mb-1">{t('hud.weapon.ammo')}</span>
+                    </div>
+                    <div className="text-xs font-normal opacity-60">
+                        {t('hud.weapon.caliber', { caliber: t(`caliber.${def.caliber}`, { defaultValue: def.caliber }) })}
+                    </div>
+                    {reloading && (
+                        <div className="mt-2 flex items-center justify-end gap-2">
+                            <span className="text-sm opacity-80">{t('hud.weapon.reloading')}</span>
+                            <div className="w-32 h-1.5 rounded bg-white/20 overflow-hidden">
+                                <div className="h-full bg-amber-300" style={{ width: `${reload * 100}%` }} />
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
         </div>
     );
 };